@@ -0,0 +1,297 @@
+import { JenkHash, HashDictionary } from './hash.js';
+
+export const AWC_MAGIC = 0x54414441; // 'ADAT'
+const AWC_MAGIC_BIG_ENDIAN = 0x41444154;
+
+// Stream ids are the low 29 bits of the joaat of the stream name
+export const AWC_STREAM_ID_BITS = 29;
+const STREAM_ID_MASK = 0x1FFFFFFF;
+
+const FLAG_CHUNK_INDICES = 0x1;
+const FLAG_SINGLE_CHANNEL_ENCRYPTED = 0x2;
+const FLAG_MULTI_CHANNEL_ENCRYPTED = 0x8;
+
+// ADPCM data is split into 2048 byte blocks, each starting with a 4 byte step index/predictor header
+const ADPCM_BLOCK_SIZE = 2048;
+
+/**
+ * Chunk types are the low byte of the joaat of the chunk name.
+ */
+export enum AwcChunkType {
+  Data = 0x55,
+  Format = 0xFA,
+  Animation = 0x5C,
+  Peak = 0x36,
+  Mid = 0x68,
+  Gesture = 0x2B,
+  GranularGrains = 0x5A,
+  GranularLoops = 0xD9,
+  Markers = 0xBD,
+  StreamFormat = 0x48,
+  SeekTable = 0xA3
+}
+
+export enum AwcCodec {
+  PCM = 0,
+  ADPCM = 4,
+  XMA2 = 5,
+  MPEG = 7,
+  Vorbis = 8
+}
+
+export interface AwcChunk {
+  type: number;
+  typeName: string;
+  offset: number;
+  size: number;
+}
+
+export interface AwcStream {
+  id: number;
+  name: string | undefined;
+  chunks: AwcChunk[];
+  sampleRate: number;
+  channels: number;
+  codec: number;
+  codecName: string;
+  sampleCount: number;
+  /** Duration in seconds */
+  duration: number;
+  /** Channel of a block-streamed multichannel file rather than a standalone sound */
+  streamed: boolean;
+}
+
+export class AwcFile {
+  version = 0;
+  flags = 0;
+  streams: AwcStream[] = [];
+  /** Block layout of streamed multichannel files (music, speech), null for plain sound banks */
+  blockStream: { blockCount: number, blockSize: number, channelCount: number } | null = null;
+
+  constructor(private data: Buffer) {}
+
+  get isEncrypted(): boolean {
+    return (this.flags & (FLAG_SINGLE_CHANNEL_ENCRYPTED | FLAG_MULTI_CHANNEL_ENCRYPTED)) !== 0;
+  }
+
+  static read(data: Buffer): AwcFile {
+    if (data.length < 16) {
+      throw new Error('Not an AWC file');
+    }
+    const magic = data.readUInt32LE(0);
+    if (magic === AWC_MAGIC_BIG_ENDIAN) {
+      throw new Error('Big-endian (console) AWC files are not supported');
+    }
+    if (magic !== AWC_MAGIC) {
+      throw new Error('Not an AWC file, or the whole file is encrypted');
+    }
+
+    const awc = new AwcFile(data);
+    awc.version = data.readUInt16LE(4);
+    awc.flags = data.readUInt16LE(6);
+    const streamCount = data.readUInt32LE(8);
+
+    let offset = 16;
+    if (awc.flags & FLAG_CHUNK_INDICES) {
+      offset += streamCount * 2;
+    }
+
+    const infos: { id: number, chunkCount: number }[] = [];
+    for (let i = 0; i < streamCount; i++) {
+      const value = data.readUInt32LE(offset + i * 4);
+      infos.push({ id: value & STREAM_ID_MASK, chunkCount: value >>> 29 });
+    }
+    offset += streamCount * 4;
+
+    // Chunk infos are packed u64s: type in the top byte, then 28 bit size and offset
+    const streamChunks = infos.map(info => {
+      const chunks: AwcChunk[] = [];
+      for (let i = 0; i < info.chunkCount; i++, offset += 8) {
+        const value = data.readBigUInt64LE(offset);
+        const type = Number(value >> 56n);
+        chunks.push({
+          type,
+          typeName: AwcChunkType[type] ?? `0x${type.toString(16).toUpperCase().padStart(2, '0')}`,
+          size: Number((value >> 28n) & 0xFFFFFFFn),
+          offset: Number(value & 0xFFFFFFFn)
+        });
+      }
+      return chunks;
+    });
+
+    // Multichannel files describe every channel in one stream format chunk
+    const channelFormats = new Map<number, { sampleCount: number, sampleRate: number, codec: number }>();
+    for (const chunks of streamChunks) {
+      const chunk = chunks.find(c => c.type === AwcChunkType.StreamFormat);
+      if (!chunk) continue;
+
+      awc.blockStream = {
+        blockCount: data.readUInt32LE(chunk.offset),
+        blockSize: data.readUInt32LE(chunk.offset + 4),
+        channelCount: data.readUInt32LE(chunk.offset + 8)
+      };
+      for (let i = 0; i < awc.blockStream.channelCount; i++) {
+        const channel = chunk.offset + 12 + i * 16;
+        channelFormats.set(data.readUInt32LE(channel) & STREAM_ID_MASK, {
+          sampleCount: data.readUInt32LE(channel + 4),
+          sampleRate: data.readUInt16LE(channel + 10),
+          codec: data.readUInt8(channel + 12)
+        });
+      }
+    }
+
+    infos.forEach((info, i) => {
+      const chunks = streamChunks[i];
+      const format = chunks.find(c => c.type === AwcChunkType.Format);
+      const channelFormat = channelFormats.get(info.id);
+
+      let sampleCount = 0, sampleRate = 0, codec = -1;
+      if (format) {
+        // Format chunk: samples u32, loop point i32, rate u16, headroom, loop begin/end, play end u16, play begin u8, codec u8
+        sampleCount = data.readUInt32LE(format.offset);
+        sampleRate = data.readUInt16LE(format.offset + 8);
+        codec = data.readUInt8(format.offset + 19);
+      } else if (channelFormat) {
+        ({ sampleCount, sampleRate, codec } = channelFormat);
+      } else {
+        // The multichannel header stream carries no audio of its own
+        return;
+      }
+
+      awc.streams.push({
+        id: info.id,
+        name: HashDictionary.getTruncated(info.id, AWC_STREAM_ID_BITS),
+        chunks,
+        sampleRate,
+        channels: 1,
+        codec,
+        codecName: AwcCodec[codec] ?? `codec_${codec}`,
+        sampleCount,
+        duration: sampleRate ? sampleCount / sampleRate : 0,
+        streamed: !format
+      });
+    });
+
+    return awc;
+  }
+
+  /**
+   * Stream id from a stream name or hash; names are remembered so listings can show them.
+   */
+  static parseStreamId(nameOrHash: string): number {
+    return ((JenkHash.parse(nameOrHash) ?? HashDictionary.add(nameOrHash)) & STREAM_ID_MASK) >>> 0;
+  }
+
+  findStream(id: number): AwcStream | undefined {
+    return this.streams.find(stream => stream.id === (id & STREAM_ID_MASK));
+  }
+
+  /**
+   * Decodes a PCM or ADPCM stream to a 16-bit mono WAV file.
+   */
+  toWav(stream: AwcStream): Buffer {
+    if (stream.streamed) {
+      throw new Error('Exporting channels of block-streamed multichannel audio is not supported');
+    }
+    if (this.isEncrypted) {
+      throw new Error('Audio data of this AWC is encrypted');
+    }
+
+    const chunk = stream.chunks.find(c => c.type === AwcChunkType.Data);
+    if (!chunk) {
+      throw new Error(`Stream ${AwcFile.formatStreamName(stream)} has no data chunk`);
+    }
+    const data = this.data.subarray(chunk.offset, chunk.offset + chunk.size);
+
+    let samples: Int16Array;
+    switch (stream.codec) {
+      case AwcCodec.PCM:
+        samples = new Int16Array(Math.min(stream.sampleCount, data.length >> 1));
+        for (let i = 0; i < samples.length; i++) {
+          samples[i] = data.readInt16LE(i * 2);
+        }
+        break;
+      case AwcCodec.ADPCM:
+        samples = decodeAdpcm(data, stream.sampleCount);
+        break;
+      default:
+        throw new Error(`Unsupported codec ${stream.codecName}; only PCM and ADPCM streams can be exported`);
+    }
+
+    return writeWav(samples, stream.sampleRate, stream.channels);
+  }
+
+  static formatStreamName(stream: AwcStream): string {
+    return stream.name ?? `0x${stream.id.toString(16).toUpperCase().padStart(8, '0')}`;
+  }
+}
+
+const IMA_INDEX_TABLE = [-1, -1, -1, -1, 2, 4, 6, 8];
+
+const IMA_STEP_TABLE = [
+  7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45,
+  50, 55, 60, 66, 73, 80, 88, 97, 107, 118, 130, 143, 157, 173, 190, 209, 230,
+  253, 279, 307, 337, 371, 408, 449, 494, 544, 598, 658, 724, 796, 876, 963,
+  1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066, 2272, 2499, 2749, 3024, 3327,
+  3660, 4026, 4428, 4871, 5358, 5894, 6484, 7132, 7845, 8630, 9493, 10442,
+  11487, 12635, 13899, 15289, 16818, 18500, 20350, 22385, 24623, 27086, 29794, 32767
+];
+
+// IMA ADPCM, low nibble first, state reset at the start of every block
+function decodeAdpcm(data: Buffer, headerSampleCount: number): Int16Array {
+  // Each block holds a 4-byte header and two samples per byte; the header's count is not trusted beyond that
+  const fullBlocks = Math.floor(data.length / ADPCM_BLOCK_SIZE);
+  const tail = data.length % ADPCM_BLOCK_SIZE;
+  const capacity = fullBlocks * (ADPCM_BLOCK_SIZE - 4) * 2 + Math.max(0, tail - 4) * 2;
+  const sampleCount = Math.min(headerSampleCount, capacity);
+  const samples = new Int16Array(sampleCount);
+  let written = 0;
+
+  for (let block = 0; block < data.length && written < sampleCount; block += ADPCM_BLOCK_SIZE) {
+    if (block + 4 > data.length) break;
+
+    let stepIndex = Math.min(Math.max(data[block], 0), 88);
+    let predictor = data.readInt16LE(block + 2);
+    const end = Math.min(block + ADPCM_BLOCK_SIZE, data.length);
+
+    for (let i = block + 4; i < end && written < sampleCount; i++) {
+      for (const nibble of [data[i] & 0x0F, data[i] >> 4]) {
+        if (written >= sampleCount) break;
+
+        const step = IMA_STEP_TABLE[stepIndex];
+        let diff = ((((nibble & 7) << 1) + 1) * step) >> 3;
+        if (nibble & 8) diff = -diff;
+
+        predictor = Math.min(Math.max(predictor + diff, -32768), 32767);
+        stepIndex = Math.min(Math.max(stepIndex + IMA_INDEX_TABLE[nibble & 7], 0), 88);
+        samples[written++] = predictor;
+      }
+    }
+  }
+
+  return samples.subarray(0, written);
+}
+
+function writeWav(samples: Int16Array, sampleRate: number, channels: number): Buffer {
+  const dataSize = samples.length * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+
+  wav.write('RIFF', 0, 'latin1');
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8, 'latin1');
+  wav.write('fmt ', 12, 'latin1');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);                             // PCM
+  wav.writeUInt16LE(channels, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * channels * 2, 28);     // byte rate
+  wav.writeUInt16LE(channels * 2, 32);                  // block align
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36, 'latin1');
+  wav.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    wav.writeInt16LE(samples[i], 44 + i * 2);
+  }
+  return wav;
+}
@@ -0,0 +1,349 @@
+import { HashDictionary } from './hash.js';
+import { RPF7_MAGIC, RSC7_MAGIC } from './rpf.js';
+import { PSO_MAGIC, RBF_MAGIC } from './meta.js';
+import { RpfEncryption } from './crypto.js';
+
+export type BinaryFieldType = 'u8' | 'u16' | 'u32' | 'u64' | 'i8' | 'i16' | 'i32' | 'i64' | 'f32' | 'f64' | 'ascii' | 'bytes' | 'hash';
+
+/**
+ * One field of a structure template. Offsets, lengths and counts are numbers or expressions
+ * over fields decoded before them: "name", "name + 8", "name - 8" or "name * 16", where nested
+ * fields are named by their path ("header.length").
+ */
+export interface BinaryField {
+  name: string;
+  /** Scalar type; leave out for a structure of nested fields */
+  type?: BinaryFieldType;
+  /** Offset from the start of the enclosing structure; defaults to right after the previous field */
+  offset?: number | string;
+  /** Byte length of ascii and bytes fields */
+  length?: number | string;
+  /** Repeat the field as an array */
+  count?: number | string;
+  endian?: 'little' | 'big';
+  format?: 'hex' | 'dec';
+  /** Names for known values, keyed by decimal or 0x-prefixed hex */
+  values?: Record<string, string>;
+  fields?: BinaryField[];
+}
+
+export interface BinaryTemplate {
+  name: string;
+  description?: string;
+  endian?: 'little' | 'big';
+  fields: BinaryField[];
+}
+
+export interface DecodedField {
+  path: string;
+  /** Absolute offset in the file */
+  offset: number;
+  size: number;
+  type: string;
+  value: string;
+}
+
+export interface TemplateResult {
+  template: string;
+  fields: DecodedField[];
+  /** Fields left out after maxFields, or that lie beyond the data read */
+  truncated: boolean;
+  error?: string;
+}
+
+const SCALAR_SIZES: Record<string, number> = {
+  u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, hash: 4, f32: 4, u64: 8, i64: 8, f64: 8
+};
+
+const FLAGS: BinaryField = { name: '', type: 'u32', format: 'hex' };
+
+export const BUILTIN_TEMPLATES: Record<string, BinaryTemplate> = {
+  rsc7: {
+    name: 'rsc7',
+    description: 'RSC7 resource header',
+    fields: [
+      { name: 'magic', type: 'ascii', length: 4 },
+      { name: 'version', type: 'u32' },
+      { ...FLAGS, name: 'systemFlags' },
+      { ...FLAGS, name: 'graphicsFlags' }
+    ]
+  },
+  rpf7: {
+    name: 'rpf7',
+    description: 'RPF7 archive header',
+    fields: [
+      { name: 'magic', type: 'u32', format: 'hex', values: { [RPF7_MAGIC]: 'RPF7' } },
+      { name: 'entryCount', type: 'u32' },
+      { name: 'namesLength', type: 'u32' },
+      {
+        name: 'encryption',
+        type: 'u32',
+        format: 'hex',
+        values: { [RpfEncryption.NONE]: 'NONE', [RpfEncryption.OPEN]: 'OPEN', [RpfEncryption.AES]: 'AES', [RpfEncryption.NG]: 'NG' }
+      }
+    ]
+  },
+  // Sections are big-endian: PSIN holds the data, PMAP where each block of it starts
+  pso: {
+    name: 'pso',
+    description: 'PSO data and map section headers',
+    endian: 'big',
+    fields: [
+      {
+        name: 'PSIN',
+        fields: [
+          { name: 'ident', type: 'ascii', length: 4 },
+          { name: 'length', type: 'i32' }
+        ]
+      },
+      {
+        name: 'PMAP',
+        offset: 'PSIN.length',
+        fields: [
+          { name: 'ident', type: 'ascii', length: 4 },
+          { name: 'length', type: 'i32' },
+          { name: 'rootBlockIndex', type: 'i32' },
+          { name: 'blockCount', type: 'i16' },
+          { name: 'unknown', type: 'u16', format: 'hex' },
+          {
+            name: 'blocks',
+            count: 'PMAP.blockCount',
+            fields: [
+              { name: 'structure', type: 'hash' },
+              { name: 'offset', type: 'i32', format: 'hex' },
+              { name: 'unknown', type: 'u32', format: 'hex' },
+              { name: 'length', type: 'i32' }
+            ]
+          }
+        ]
+      }
+    ]
+  },
+  rbf: {
+    name: 'rbf',
+    description: 'RBF binary XML header',
+    fields: [
+      { name: 'magic', type: 'ascii', length: 4 }
+    ]
+  }
+};
+
+/**
+ * Byte-level views of binary data: hex dumps, optionally annotated with the fields of a
+ * structure template, and templates decoded into named values.
+ */
+export class BinaryView {
+  /**
+   * Built-in template for data starting with a known magic, or null.
+   */
+  static detect(data: Buffer): BinaryTemplate | null {
+    if (data.length < 4) return null;
+
+    switch (data.readUInt32LE(0)) {
+      case RSC7_MAGIC: return BUILTIN_TEMPLATES.rsc7;
+      case RPF7_MAGIC: return BUILTIN_TEMPLATES.rpf7;
+      case RBF_MAGIC: return BUILTIN_TEMPLATES.rbf;
+    }
+    return data.readUInt32BE(0) === PSO_MAGIC ? BUILTIN_TEMPLATES.pso : null;
+  }
+
+  /**
+   * Decodes a template against data read from baseOffset of a file. Fields that lie outside
+   * the data end decoding with an error instead of failing, so partial results are kept.
+   */
+  static apply(template: BinaryTemplate, data: Buffer, baseOffset: number = 0, maxFields: number = 500): TemplateResult {
+    const decoder = new TemplateDecoder(data, baseOffset, template.endian ?? 'little', maxFields);
+    const result: TemplateResult = { template: template.name, fields: decoder.fields, truncated: false };
+
+    try {
+      decoder.decodeStruct(template.fields, 0, '');
+    } catch (error) {
+      if (!(error instanceof TemplateLimitError)) {
+        throw error;
+      }
+      result.truncated = true;
+      result.error = error.message;
+    }
+    return result;
+  }
+
+  /**
+   * Classic 16 bytes per line dump with an ASCII column. Annotations are listed after the
+   * line their field starts on.
+   */
+  static hexdump(data: Buffer, baseOffset: number = 0, annotations: DecodedField[] = []): string {
+    const lines: string[] = [];
+    const width = Math.max(8, (baseOffset + data.length).toString(16).length);
+
+    for (let start = 0; start < data.length; start += 16) {
+      const row = data.subarray(start, start + 16);
+      const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'));
+      const left = hex.slice(0, 8).join(' ');
+      const right = hex.slice(8).join(' ');
+      const ascii = row.toString('latin1').replace(/[^\x20-\x7E]/g, '.');
+
+      let line = `${(baseOffset + start).toString(16).padStart(width, '0')}  ${left.padEnd(23)}  ${right.padEnd(23)}  |${ascii.padEnd(16)}|`;
+
+      const lineStart = baseOffset + start;
+      const notes = annotations.filter(field => field.offset >= lineStart && field.offset < lineStart + 16);
+      if (notes.length > 0) {
+        line += `  ${notes.map(field => `${field.path} = ${field.value}`).join('; ')}`;
+      }
+      lines.push(line);
+    }
+    return lines.join('\n');
+  }
+
+  static formatFields(result: TemplateResult): string {
+    const lines = result.fields.map(field =>
+      `0x${field.offset.toString(16).toUpperCase().padStart(8, '0')}  ${String(field.size).padStart(6)}  ${field.type.padEnd(6)}  ${field.path} = ${field.value}`);
+    if (result.error) {
+      lines.push(`Stopped: ${result.error}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+class TemplateLimitError extends Error {}
+
+class TemplateDecoder {
+  readonly fields: DecodedField[] = [];
+  // Numeric values by path, for offset, length and count expressions
+  private values: Map<string, number> = new Map();
+
+  constructor(private data: Buffer, private baseOffset: number, private endian: 'little' | 'big', private maxFields: number) {}
+
+  // Returns the end of the structure, relative to the data
+  decodeStruct(fields: BinaryField[], start: number, prefix: string): number {
+    let cursor = start;
+    let end = start;
+
+    for (const field of fields) {
+      const path = `${prefix}${field.name}`;
+      const offset = field.offset === undefined ? cursor : start + this.evaluate(field.offset, prefix, path);
+      const count = field.count === undefined ? null : this.evaluate(field.count, prefix, path);
+
+      let position = offset;
+      if (count === null) {
+        position = this.decodeField(field, position, path, prefix);
+      } else {
+        for (let i = 0; i < count; i++) {
+          if (i >= this.maxFields) {
+            throw new TemplateLimitError(`${path} has ${count} elements`);
+          }
+          position = this.decodeField(field, position, `${path}[${i}]`, prefix);
+        }
+      }
+
+      cursor = position;
+      end = Math.max(end, position);
+    }
+    return end;
+  }
+
+  private decodeField(field: BinaryField, offset: number, path: string, prefix: string): number {
+    if (field.fields) {
+      return this.decodeStruct(field.fields, offset, `${path}.`);
+    }
+    if (!field.type) {
+      throw new Error(`Field ${path} needs a type or nested fields`);
+    }
+
+    const size = field.type === 'ascii' || field.type === 'bytes'
+      ? this.evaluate(field.length ?? 0, prefix, path)
+      : SCALAR_SIZES[field.type];
+
+    if (this.fields.length >= this.maxFields) {
+      throw new TemplateLimitError(`more than ${this.maxFields} fields`);
+    }
+    if (offset < 0 || offset + size > this.data.length) {
+      throw new TemplateLimitError(`${path} at 0x${(this.baseOffset + offset).toString(16).toUpperCase()} lies beyond the ${this.data.length} bytes read`);
+    }
+
+    const value = this.readValue(field, offset, size);
+    this.fields.push({ path, offset: this.baseOffset + offset, size, type: field.type, value: this.formatValue(field, value) });
+    if (typeof value === 'number') {
+      this.values.set(path, value);
+    }
+    return offset + size;
+  }
+
+  private readValue(field: BinaryField, offset: number, size: number): number | bigint | Buffer {
+    const big = (field.endian ?? this.endian) === 'big';
+    const data = this.data;
+
+    switch (field.type) {
+      case 'u8': return data.readUInt8(offset);
+      case 'i8': return data.readInt8(offset);
+      case 'u16': return big ? data.readUInt16BE(offset) : data.readUInt16LE(offset);
+      case 'i16': return big ? data.readInt16BE(offset) : data.readInt16LE(offset);
+      case 'u32':
+      case 'hash': return big ? data.readUInt32BE(offset) : data.readUInt32LE(offset);
+      case 'i32': return big ? data.readInt32BE(offset) : data.readInt32LE(offset);
+      case 'u64': return big ? data.readBigUInt64BE(offset) : data.readBigUInt64LE(offset);
+      case 'i64': return big ? data.readBigInt64BE(offset) : data.readBigInt64LE(offset);
+      case 'f32': return big ? data.readFloatBE(offset) : data.readFloatLE(offset);
+      case 'f64': return big ? data.readDoubleBE(offset) : data.readDoubleLE(offset);
+      default: return data.subarray(offset, offset + size);
+    }
+  }
+
+  private formatValue(field: BinaryField, value: number | bigint | Buffer): string {
+    if (Buffer.isBuffer(value)) {
+      if (field.type === 'ascii') {
+        const end = value.indexOf(0);
+        return JSON.stringify((end >= 0 ? value.subarray(0, end) : value).toString('latin1').replace(/[^\x20-\x7E]/g, '.'));
+      }
+      const shown = value.subarray(0, 32);
+      return `${Array.from(shown, byte => byte.toString(16).padStart(2, '0')).join(' ')}${value.length > shown.length ? ` ... (${value.length} bytes)` : ''}`;
+    }
+
+    if (field.type === 'hash') {
+      return HashDictionary.format(Number(value));
+    }
+
+    let text = String(value);
+    if (field.format === 'hex' && (typeof value === 'bigint' || Number.isInteger(value))) {
+      // Two's complement, so negative values show the bytes as stored
+      const bits = SCALAR_SIZES[field.type!] * 8;
+      text = `0x${BigInt.asUintN(bits, BigInt(value)).toString(16).toUpperCase().padStart(bits / 4, '0')}`;
+    }
+
+    const name = field.values && (field.values[String(value)] ?? this.findHexName(field.values, value));
+    return name ? `${text} (${name})` : text;
+  }
+
+  private findHexName(values: Record<string, string>, value: number | bigint): string | undefined {
+    for (const [key, name] of Object.entries(values)) {
+      if (/^0x[0-9a-f]+$/i.test(key) && BigInt(key) === BigInt(value)) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  // Names are looked up within the enclosing structure first, then as full paths
+  private evaluate(expression: number | string, prefix: string, path: string): number {
+    if (typeof expression === 'number') {
+      return expression;
+    }
+
+    const match = expression.trim().match(/^([A-Za-z_][\w.[\]]*|\d+)(?:\s*([*+-])\s*(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid expression for ${path}: "${expression}"`);
+    }
+
+    const operand = /^\d+$/.test(match[1]) ? Number(match[1]) : this.values.get(`${prefix}${match[1]}`) ?? this.values.get(match[1]);
+    if (operand === undefined) {
+      throw new Error(`Field ${match[1]} used by ${path} is not a number decoded before it`);
+    }
+
+    const amount = Number(match[3] ?? 0);
+    switch (match[2]) {
+      case '+': return operand + amount;
+      case '-': return operand - amount;
+      case '*': return operand * amount;
+      default: return operand;
+    }
+  }
+}
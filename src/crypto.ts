@@ -77,8 +77,12 @@ export class GTACrypto {
     return this.decryptNGWithKey(data, key);
   }
 
+  /**
+   * NG rounds are table lookups that only the game's decryption tables are loaded for, and
+   * they do not undo themselves, so data cannot be NG encrypted.
+   */
   static encryptNG(data: Buffer, name: string, size: number): Buffer {
-    return this.decryptNG(data, name, size); // NG encryption is symmetric
+    throw new Error(`NG encryption is not supported (${name}, ${size} bytes); use OPEN or AES encryption instead`);
   }
 
   private static ensureNGKeysLoaded(): void {
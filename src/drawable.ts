@@ -0,0 +1,381 @@
+import { ResourceReader } from './resource.js';
+import { YtdFile } from './ytd.js';
+import { HashDictionary } from './hash.js';
+import { Vector3 } from './meta.js';
+
+export const DRAWABLE_RESOURCE_VERSION = 165;
+export const FRAGMENT_RESOURCE_VERSION = 162;
+
+export const LOD_LEVELS = ['high', 'med', 'low', 'vlow'] as const;
+export type LodLevel = typeof LOD_LEVELS[number];
+
+// Vertex declaration semantics, in the order of the declaration's flag bits
+export const VERTEX_SEMANTICS = [
+  'position', 'blendWeights', 'blendIndices', 'normal', 'colour0', 'colour1',
+  'texCoord0', 'texCoord1', 'texCoord2', 'texCoord3', 'texCoord4', 'texCoord5',
+  'texCoord6', 'texCoord7', 'tangent', 'binormal'
+];
+
+// Component types, stored as 4 bits per semantic in the declaration's type word
+const VERTEX_COMPONENT_TYPES: { name: string, size: number, components: number }[] = [
+  { name: 'half', size: 2, components: 1 },
+  { name: 'half2', size: 4, components: 2 },
+  { name: 'float', size: 4, components: 1 },
+  { name: 'half4', size: 8, components: 4 },
+  { name: 'floatUnk', size: 16, components: 4 },
+  { name: 'float2', size: 8, components: 2 },
+  { name: 'float3', size: 12, components: 3 },
+  { name: 'float4', size: 16, components: 4 },
+  { name: 'ubyte4', size: 4, components: 4 },
+  { name: 'colour', size: 4, components: 4 },
+  { name: 'dec3n', size: 4, components: 3 }
+];
+
+// Common shader and shader parameter names, so shader listings are readable
+const SHADER_NAMES = [
+  'default', 'normal', 'normal_spec', 'normal_spec_detail', 'normal_spec_reflect', 'normal_reflect',
+  'normal_detail', 'normal_alpha', 'normal_cutout', 'normal_decal', 'normal_spec_cutout',
+  'normal_spec_decal', 'normal_spec_emissive', 'normal_spec_tnt', 'normal_tnt', 'spec', 'spec_const',
+  'spec_decal', 'spec_reflect', 'spec_tnt', 'cutout', 'cutout_fence', 'cutout_tnt', 'decal',
+  'decal_tnt', 'decal_dirt', 'emissive', 'emissive_additive_alpha', 'emissivenight', 'emissivestrong',
+  'glass', 'glass_pv', 'glass_env', 'glass_emissive', 'glass_reflect', 'reflect', 'alpha',
+  'trees', 'trees_lod', 'trees_lod2', 'terrain_cb_w_4lyr', 'terrain_cb_w_4lyr_lod', 'grass',
+  'ped', 'ped_default', 'ped_hair_spiked', 'ped_enveff', 'ped_cloth', 'ped_decal', 'ped_emissive',
+  'vehicle_paint1', 'vehicle_paint2', 'vehicle_paint3', 'vehicle_paint4', 'vehicle_mesh',
+  'vehicle_badges', 'vehicle_decal', 'vehicle_interior', 'vehicle_lights', 'vehicle_shuts',
+  'vehicle_tire', 'vehicle_vehglass', 'vehicle_dash_emissive', 'vehicle_licenseplate', 'water_river',
+  'DiffuseSampler', 'DiffuseSampler2', 'BumpSampler', 'SpecSampler', 'DetailSampler', 'DirtSampler',
+  'DamageSampler', 'EnvironmentSampler', 'TintPaletteSampler', 'TextureSamplerDiffPal',
+  'DistanceMapSampler', 'PlateBgSampler', 'PlateBgBumpSampler', 'HeightSampler', 'lookupSampler',
+  'TextureSampler_layer0', 'TextureSampler_layer1', 'TextureSampler_layer2', 'TextureSampler_layer3',
+  'BumpSampler_layer0', 'BumpSampler_layer1', 'BumpSampler_layer2', 'BumpSampler_layer3',
+  'matDiffuseColor', 'specularIntensityMult', 'specularFalloffMult', 'specularFresnel', 'bumpiness',
+  'HardAlphaBlend', 'emissiveMultiplier', 'detailSettings', 'useTessellation', 'wetnessMultiplier',
+  'globalAnimUV0', 'globalAnimUV1', 'AlphaTest', 'AlphaScale', 'envEffScale'
+];
+HashDictionary.addAll(SHADER_NAMES);
+
+export interface VertexComponent {
+  semantic: string;
+  type: string;
+  offset: number;
+  size: number;
+}
+
+export interface VertexDeclaration {
+  flags: number;
+  stride: number;
+  components: VertexComponent[];
+}
+
+export interface DrawableGeometry {
+  shaderIndex: number;
+  vertexCount: number;
+  indexCount: number;
+  triangleCount: number;
+  boneIdCount: number;
+  vertexStride: number;
+  declaration: VertexDeclaration;
+  vertexData: Buffer;
+  indices: Uint16Array;
+}
+
+export interface DrawableModel {
+  renderMask: number;
+  hasSkin: boolean;
+  /** Bone the model is attached to when it is not skinned */
+  boneIndex: number;
+  geometries: DrawableGeometry[];
+}
+
+export interface DrawableLod {
+  level: LodLevel;
+  distance: number;
+  models: DrawableModel[];
+}
+
+export interface ShaderParameter {
+  nameHash: number;
+  name: string;
+  /** Texture name for sampler parameters */
+  texture?: string;
+  /** Vector values for constant parameters */
+  values?: [number, number, number, number][];
+}
+
+export interface DrawableShader {
+  nameHash: number;
+  name: string;
+  fileName: string;
+  renderBucket: number;
+  parameters: ShaderParameter[];
+}
+
+export interface Drawable {
+  name: string;
+  boundingCenter: Vector3;
+  boundingRadius: number;
+  bbMin: Vector3;
+  bbMax: Vector3;
+  lods: DrawableLod[];
+  shaders: DrawableShader[];
+  /** Textures embedded in the drawable's shader group, if any */
+  textureDictionary: YtdFile | null;
+  boneCount: number;
+}
+
+/**
+ * Reads drawables (.ydr), drawable dictionaries (.ydd) and fragments (.yft).
+ */
+export class DrawableFile {
+  drawables: Drawable[] = [];
+
+  static read(reader: ResourceReader, fileName: string): DrawableFile {
+    const file = new DrawableFile();
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    const baseName = fileName.split(/[\/\\]/).pop()!.replace(/\.[^.]+$/, '');
+
+    switch (extension) {
+      case 'ydr': {
+        this.checkVersion(reader, DRAWABLE_RESOURCE_VERSION);
+        // gtaDrawable names carry a type suffix, e.g. "prop_bench_01a.#dr"
+        const name = reader.readStringPointer(reader.rootAddress + 0xA8)?.replace(/\.#\w+$/, '');
+        file.drawables.push(this.readDrawable(reader, reader.rootAddress, name || baseName));
+        break;
+      }
+
+      case 'ydd': {
+        this.checkVersion(reader, DRAWABLE_RESOURCE_VERSION);
+        const drawables = reader.readPgDictionary(reader.rootAddress, (r, address) => this.readDrawable(r, address, ''));
+        for (const [hash, drawable] of drawables) {
+          drawable.name = HashDictionary.format(hash);
+          file.drawables.push(drawable);
+        }
+        break;
+      }
+
+      case 'yft': {
+        this.checkVersion(reader, FRAGMENT_RESOURCE_VERSION);
+        // fragType: the main drawable pointer lives at 0x30
+        const drawablePointer = reader.readPointer(reader.rootAddress + 0x30);
+        if (drawablePointer) {
+          file.drawables.push(this.readDrawable(reader, drawablePointer, baseName));
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported drawable type: ${fileName}`);
+    }
+
+    return file;
+  }
+
+  findDrawable(name: string): Drawable | undefined {
+    const lowerName = name.toLowerCase();
+    return this.drawables.find(d => d.name.toLowerCase() === lowerName);
+  }
+
+  /**
+   * Decodes one vertex attribute of a geometry as floats, `size` values per vertex.
+   */
+  static getVertexAttribute(geometry: DrawableGeometry, semantic: string): { size: number, values: Float32Array } | null {
+    const component = geometry.declaration.components.find(c => c.semantic === semantic);
+    const type = component && VERTEX_COMPONENT_TYPES.find(t => t.name === component.type);
+    if (!component || !type) return null;
+
+    const data = geometry.vertexData;
+    const stride = geometry.vertexStride;
+    const values = new Float32Array(geometry.vertexCount * type.components);
+
+    for (let v = 0; v < geometry.vertexCount; v++) {
+      const offset = v * stride + component.offset;
+      if (offset + component.size > data.length) break;
+
+      const out = v * type.components;
+      switch (component.type) {
+        case 'half': case 'half2': case 'half4':
+          for (let i = 0; i < type.components; i++) {
+            values[out + i] = ResourceReader.halfToFloat(data.readUInt16LE(offset + i * 2));
+          }
+          break;
+        case 'float': case 'float2': case 'float3': case 'float4': case 'floatUnk':
+          for (let i = 0; i < type.components; i++) {
+            values[out + i] = data.readFloatLE(offset + i * 4);
+          }
+          break;
+        case 'ubyte4':
+          for (let i = 0; i < 4; i++) {
+            values[out + i] = data[offset + i];
+          }
+          break;
+        case 'colour':
+          for (let i = 0; i < 4; i++) {
+            values[out + i] = data[offset + i] / 255;
+          }
+          break;
+        case 'dec3n': {
+          // Three signed 10-bit normalised components
+          const packed = data.readUInt32LE(offset);
+          for (let i = 0; i < 3; i++) {
+            const raw = (packed >>> (i * 10)) & 0x3FF;
+            values[out + i] = Math.max(-1, ((raw & 0x200) ? raw - 0x400 : raw) / 511);
+          }
+          break;
+        }
+      }
+    }
+
+    return { size: type.components, values };
+  }
+
+  private static checkVersion(reader: ResourceReader, expected: number): void {
+    if (reader.version !== expected) {
+      throw new Error(`Unsupported drawable resource version: ${reader.version} (expected ${expected})`);
+    }
+  }
+
+  // rmcDrawableBase layout: shader group 0x10, skeleton 0x18, bounds 0x20-0x4F,
+  // LOD model lists 0x50-0x68, LOD distances 0x70-0x7C
+  private static readDrawable(reader: ResourceReader, address: number, name: string): Drawable {
+    const shaderGroupPointer = reader.readPointer(address + 0x10);
+    const skeletonPointer = reader.readPointer(address + 0x18);
+
+    const drawable: Drawable = {
+      name,
+      boundingCenter: reader.readVector3(address + 0x20),
+      boundingRadius: reader.readFloat(address + 0x2C),
+      bbMin: reader.readVector3(address + 0x30),
+      bbMax: reader.readVector3(address + 0x40),
+      lods: [],
+      shaders: [],
+      textureDictionary: null,
+      // crSkeleton bone count
+      boneCount: skeletonPointer ? reader.readUInt16(skeletonPointer + 0x5E) : 0
+    };
+
+    if (shaderGroupPointer) {
+      const texturesPointer = reader.readPointer(shaderGroupPointer + 0x08);
+      if (texturesPointer) {
+        drawable.textureDictionary = YtdFile.readDictionary(reader, texturesPointer);
+      }
+      drawable.shaders = reader.readPgObjectArray(shaderGroupPointer + 0x10, (r, a) => this.readShader(r, a))
+        .filter((shader): shader is DrawableShader => shader !== null);
+    }
+
+    LOD_LEVELS.forEach((level, i) => {
+      const modelsPointer = reader.readPointer(address + 0x50 + i * 8);
+      if (!modelsPointer) return;
+
+      const models = reader.readPgObjectArray(modelsPointer, (r, a) => this.readModel(r, a))
+        .filter((model): model is DrawableModel => model !== null);
+      drawable.lods.push({ level, distance: reader.readFloat(address + 0x70 + i * 4), models });
+    });
+
+    return drawable;
+  }
+
+  private static readModel(reader: ResourceReader, address: number): DrawableModel {
+    const geometries = reader.readAtArray(address + 0x08);
+    const shaderMappingPointer = reader.readPointer(address + 0x20);
+    const skeletonBinding = reader.readUInt32(address + 0x28);
+
+    const shaderMapping = shaderMappingPointer
+      ? reader.readArray(shaderMappingPointer, geometries.count, 2, (r, a) => r.readUInt16(a))
+      : [];
+
+    return {
+      renderMask: reader.readUInt16(address + 0x2C),
+      hasSkin: ((skeletonBinding >>> 8) & 0xFF) !== 0,
+      boneIndex: (skeletonBinding >>> 24) & 0xFF,
+      geometries: reader.readPointerArray(geometries.pointer, geometries.count)
+        .map((pointer, i) => this.readGeometry(reader, pointer, shaderMapping[i] ?? 0))
+    };
+  }
+
+  // grmGeometryQB layout: vertex buffer 0x18, index buffer 0x38, counts 0x58-0x60, bone ids 0x68/0x72
+  private static readGeometry(reader: ResourceReader, address: number, shaderIndex: number): DrawableGeometry {
+    const vertexBufferPointer = reader.readPointer(address + 0x18);
+    const indexBufferPointer = reader.readPointer(address + 0x38);
+
+    const stride = reader.readUInt16(vertexBufferPointer + 0x08);
+    const vertexCount = reader.readUInt32(vertexBufferPointer + 0x18);
+    const vertexDataPointer = reader.readPointer(vertexBufferPointer + 0x10) || reader.readPointer(vertexBufferPointer + 0x20);
+    const declaration = this.readVertexDeclaration(reader, reader.readPointer(vertexBufferPointer + 0x30));
+
+    const indexCount = reader.readUInt32(indexBufferPointer + 0x08);
+    const indexBytes = reader.readBytes(reader.readPointer(indexBufferPointer + 0x10), indexCount * 2);
+    const indices = new Uint16Array(indexCount);
+    for (let i = 0; i < indexCount; i++) {
+      indices[i] = indexBytes.readUInt16LE(i * 2);
+    }
+
+    return {
+      shaderIndex,
+      vertexCount,
+      indexCount,
+      triangleCount: reader.readUInt32(address + 0x5C),
+      boneIdCount: reader.readUInt16(address + 0x72),
+      vertexStride: stride,
+      declaration,
+      vertexData: reader.readBytes(vertexDataPointer, vertexCount * stride),
+      indices
+    };
+  }
+
+  // Flags mark which semantics are present; their types are packed 4 bits each into a 64-bit word
+  private static readVertexDeclaration(reader: ResourceReader, address: number): VertexDeclaration {
+    const flags = reader.readUInt32(address);
+    const stride = reader.readUInt16(address + 0x04);
+    const types = reader.readUInt64(address + 0x08);
+    const components: VertexComponent[] = [];
+
+    let offset = 0;
+    VERTEX_SEMANTICS.forEach((semantic, i) => {
+      if (!(flags & (1 << i))) return;
+
+      const typeIndex = Number((types >> BigInt(i * 4)) & 0xFn);
+      const type = VERTEX_COMPONENT_TYPES[typeIndex];
+      const size = type?.size ?? 0;
+      components.push({ semantic, type: type?.name ?? `unknown${typeIndex}`, offset, size });
+      offset += size;
+    });
+
+    return { flags, stride, components };
+  }
+
+  // grmShaderFx: parameters 0x00, name hash 0x08, parameter count 0x10, file name hash 0x18.
+  // The parameter block holds 16-byte entries, then their vector data, then one name hash per entry.
+  private static readShader(reader: ResourceReader, address: number): DrawableShader {
+    const parametersPointer = reader.readPointer(address);
+    const parameterCount = reader.readUInt8(address + 0x10);
+    const nameHash = reader.readUInt32(address + 0x08);
+
+    const entries = reader.readArray(parametersPointer, parameterCount, 16, (r, a) => ({
+      dataType: r.readUInt8(a),
+      dataPointer: r.readPointer(a + 8)
+    }));
+
+    const hashesOffset = entries.reduce((offset, entry) => offset + entry.dataType * 16, parameterCount * 16);
+    const hashes = parametersPointer ? reader.readUInt32Array(parametersPointer + hashesOffset, parameterCount) : [];
+
+    const parameters = entries.map((entry, i): ShaderParameter => {
+      const parameter: ShaderParameter = { nameHash: hashes[i], name: HashDictionary.format(hashes[i]) };
+      if (entry.dataType === 0) {
+        // Texture reference; the grcTexture name pointer sits at 0x28
+        parameter.texture = entry.dataPointer ? reader.readStringPointer(entry.dataPointer + 0x28) ?? '' : '';
+      } else if (entry.dataPointer) {
+        parameter.values = reader.readArray(entry.dataPointer, entry.dataType, 16, (r, a) => r.readVector4(a));
+      }
+      return parameter;
+    });
+
+    return {
+      nameHash,
+      name: HashDictionary.format(nameHash),
+      fileName: HashDictionary.format(reader.readUInt32(address + 0x18)),
+      renderBucket: reader.readUInt8(address + 0x11),
+      parameters
+    };
+  }
+}
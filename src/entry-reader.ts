@@ -0,0 +1,235 @@
+import zlib from 'zlib';
+import { Readable, pipeline } from 'stream';
+import { RpfManager } from './rpf-manager.js';
+import { RpfFile, RpfFileEntry, RpfResourceFileEntry } from './rpf.js';
+
+/**
+ * "content" reads what getFileData returns (resources as RSC7 files), "inflated" reads a
+ * resource's decompressed system segment followed by its graphics segment.
+ */
+export type EntryReadMode = 'content' | 'inflated';
+
+export interface FileChunkRequest {
+  rpfPath: string;
+  filePath: string;
+  mode: EntryReadMode;
+  offset: number;
+  length: number;
+}
+
+export interface FileChunk {
+  rpfPath: string;
+  filePath: string;
+  mode: EntryReadMode;
+  offset: number;
+  data: Buffer;
+  /** Total size of the data being read */
+  size: number;
+  /** Pass to the next call to continue after this chunk; null once the end is reached */
+  nextToken: string | null;
+  /** Where the resource segments start in inflated mode */
+  segments?: { name: 'system' | 'graphics', offset: number, size: number }[];
+}
+
+interface ChunkToken {
+  rpfPath: string;
+  filePath: string;
+  mode: EntryReadMode;
+  offset: number;
+  size: number;
+}
+
+/**
+ * Sequential reader over one archive entry. Uncompressed data is read at any offset directly;
+ * compressed data is decrypted and inflated incrementally, so reading the next part of a large
+ * entry only costs the bytes between the current position and the end of that part.
+ */
+export class RpfEntryReader {
+  readonly size: number;
+  /** Offset of the next inflated byte, the start of pending */
+  private position = 0;
+  private pending: Buffer = Buffer.alloc(0);
+  private stream: zlib.Inflate | zlib.InflateRaw | null = null;
+  private output: AsyncIterator<Buffer> | null = null;
+
+  constructor(private rpf: RpfFile, readonly entry: RpfFileEntry, readonly mode: EntryReadMode) {
+    if (mode === 'inflated') {
+      if (!(entry instanceof RpfResourceFileEntry)) {
+        throw new Error(`Not a resource file: ${entry.path}`);
+      }
+      this.size = entry.systemSize + entry.graphicsSize;
+    } else {
+      this.size = entry.getContentSize();
+    }
+  }
+
+  /**
+   * Whether reading at an offset has to inflate everything before it.
+   */
+  get isSequential(): boolean {
+    return this.mode === 'inflated' || this.entry.isCompressed;
+  }
+
+  async read(offset: number, length: number): Promise<Buffer> {
+    const end = Math.min(this.size, offset + length);
+    if (offset < 0 || offset >= end) {
+      return Buffer.alloc(0);
+    }
+    if (!this.isSequential) {
+      return this.entry.readRange(this.rpf, offset, end - offset);
+    }
+
+    if (!this.output || offset < this.position) {
+      this.restart();
+    }
+
+    const parts: Buffer[] = [];
+    while (this.position < end) {
+      const chunk = this.pending.length > 0 ? this.pending : await this.next();
+      this.pending = Buffer.alloc(0);
+      if (!chunk) {
+        throw new Error(`${this.entry.path} ended after ${this.position} of ${this.size} bytes`);
+      }
+
+      const chunkEnd = this.position + chunk.length;
+      if (chunkEnd <= offset) {
+        this.position = chunkEnd;
+        continue;
+      }
+
+      const from = Math.max(0, offset - this.position);
+      const to = Math.min(chunk.length, end - this.position);
+      parts.push(chunk.subarray(from, to));
+      this.pending = chunk.subarray(to);
+      this.position += to;
+    }
+    return Buffer.concat(parts);
+  }
+
+  close(): void {
+    this.stream?.destroy();
+    this.stream = null;
+    this.output = null;
+    this.pending = Buffer.alloc(0);
+    this.position = 0;
+  }
+
+  private restart(): void {
+    this.close();
+
+    // Binary files are zlib streams, resource bodies raw deflate
+    const inflate = this.entry instanceof RpfResourceFileEntry ? zlib.createInflateRaw() : zlib.createInflate();
+    // Read and decryption errors destroy the inflate stream, which rejects the pending read
+    this.stream = pipeline(Readable.from(this.entry.readStoredChunks(this.rpf)), inflate, () => {});
+    this.output = this.stream[Symbol.asyncIterator]();
+  }
+
+  private async next(): Promise<Buffer | null> {
+    const result = await this.output!.next();
+    return result.done ? null : result.value;
+  }
+}
+
+/**
+ * Reads entries in chunks for read_file_chunk. Continuation tokens carry everything needed to
+ * resume, so they survive restarts; readers of compressed entries are kept open between calls
+ * so continuing does not inflate the entry from the start again.
+ */
+export class FileChunkReader {
+  private readers: Map<string, RpfEntryReader> = new Map();
+
+  constructor(private rpfManager: RpfManager, private maxOpenReaders: number = 4) {}
+
+  async read(request: FileChunkRequest): Promise<FileChunk> {
+    const rpf = this.rpfManager.getRpfFile(request.rpfPath);
+    if (!rpf) {
+      throw new Error(`RPF not found: ${request.rpfPath}`);
+    }
+    const entry = rpf.findEntry(request.filePath);
+    if (!(entry instanceof RpfFileEntry)) {
+      throw new Error(`File not found: ${request.filePath} in ${request.rpfPath}`);
+    }
+
+    const key = `${request.mode}|${request.rpfPath}|${entry.path}`.toLowerCase();
+    // Readers are taken out while in use, so overlapping reads of one entry get a reader each
+    let reader = this.readers.get(key);
+    this.readers.delete(key);
+    if (reader && reader.entry !== entry) {
+      reader.close();
+      reader = undefined;
+    }
+    reader ??= new RpfEntryReader(rpf, entry, request.mode);
+
+    let data: Buffer;
+    try {
+      data = await reader.read(request.offset, request.length);
+    } catch (error) {
+      reader.close();
+      throw error;
+    }
+
+    const next = request.offset + data.length;
+    if (reader.isSequential && next < reader.size) {
+      // An overlapping read may have returned its reader first; the latest position is kept
+      this.readers.get(key)?.close();
+      this.readers.delete(key);
+      // Most recently used last, so the first key is the one to evict
+      this.readers.set(key, reader);
+      if (this.readers.size > this.maxOpenReaders) {
+        const [oldest, evicted] = this.readers.entries().next().value!;
+        evicted.close();
+        this.readers.delete(oldest);
+      }
+    } else {
+      reader.close();
+    }
+
+    const chunk: FileChunk = {
+      rpfPath: request.rpfPath,
+      filePath: entry.path,
+      mode: request.mode,
+      offset: request.offset,
+      data,
+      size: reader.size,
+      nextToken: next < reader.size && data.length > 0
+        ? FileChunkReader.createToken({ rpfPath: request.rpfPath, filePath: entry.path, mode: request.mode, offset: next, size: reader.size })
+        : null
+    };
+    if (request.mode === 'inflated' && entry instanceof RpfResourceFileEntry) {
+      chunk.segments = [
+        { name: 'system', offset: 0, size: entry.systemSize },
+        { name: 'graphics', offset: entry.systemSize, size: entry.graphicsSize }
+      ];
+    }
+    return chunk;
+  }
+
+  /**
+   * Continues where the chunk that returned the token ended.
+   */
+  async continue(token: string, length: number): Promise<FileChunk> {
+    const parsed = FileChunkReader.parseToken(token);
+    const chunk = await this.read({ ...parsed, length });
+    if (chunk.size !== parsed.size) {
+      throw new Error(`${parsed.filePath} in ${parsed.rpfPath} changed since the continuation token was issued`);
+    }
+    return chunk;
+  }
+
+  private static createToken(token: ChunkToken): string {
+    return Buffer.from(JSON.stringify(token), 'utf8').toString('base64url');
+  }
+
+  private static parseToken(token: string): ChunkToken {
+    try {
+      const parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+      if (typeof parsed.rpfPath === 'string' && typeof parsed.filePath === 'string' && (parsed.mode === 'content' || parsed.mode === 'inflated') &&
+          Number.isInteger(parsed.offset) && Number.isInteger(parsed.size)) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error('Invalid continuation token');
+  }
+}
@@ -0,0 +1,272 @@
+import fs from 'fs';
+import path from 'path';
+import { RpfManager } from './rpf-manager.js';
+import { RpfFile, RpfFileEntry, RpfResourceFileEntry } from './rpf.js';
+import { WritePolicy, WritePlan } from './write-policy.js';
+import { globToRegExp } from './grep.js';
+import { MetaFile, MetaXmlWriter } from './meta.js';
+import { ResourceReader } from './resource.js';
+import { Gxt2File } from './gxt2.js';
+import { YtdFile } from './ytd.js';
+
+export type ExtractConversion = 'none' | 'segments' | 'decoded';
+
+export interface BulkExtractOptions {
+  /** Archive path, or a glob over archive paths such as "dlcpacks/*\/dlc.rpf" */
+  rpfPath: string;
+  /** Only extract below this directory of each archive */
+  directory?: string;
+  /** Glob over file paths within the archive; without a slash it is matched against file names */
+  pattern?: string;
+  /** Root of the extracted tree, relative to the output directory unless absolute */
+  outputDirectory: string;
+  /** Extract the contents of nested archives into folders named after them instead of the .rpf files */
+  recurseNested: boolean;
+  /** Write every file directly into outputDirectory */
+  flatten: boolean;
+  skipExisting: boolean;
+  conversion: ExtractConversion;
+  textureFormat: 'png' | 'dds';
+  maxFiles: number;
+  dryRun: boolean;
+}
+
+export interface ExtractedFile {
+  rpfPath: string;
+  filePath: string;
+  status: 'written' | 'skipped' | 'failed';
+  outputs: WritePlan[];
+  /** Why the file was skipped or failed, or what it was converted to */
+  note?: string;
+}
+
+export interface BulkExtractManifest {
+  outputDirectory: string;
+  archives: string[];
+  files: ExtractedFile[];
+  written: number;
+  skipped: number;
+  failed: number;
+  bytes: number;
+  /** Matching files left out because maxFiles was reached */
+  truncated: number;
+}
+
+interface ExtractOutput {
+  path: string;
+  data: Buffer | string;
+}
+
+// Archives and where their files go, relative to the archive the caller selected
+interface ExtractSource {
+  rpfPath: string;
+  rpf: RpfFile;
+  /** Folder of the nested archive within the selected one, "" for the selected archive */
+  prefix: string;
+  selectedPath: string;
+}
+
+const META_EXTENSIONS = ['.ymt', '.ytyp', '.ymf', '.ymap'];
+
+/**
+ * Extracts many files at once, recreating the archive tree below an output directory. Each
+ * file goes through the write policy and failures are recorded per file, so one damaged
+ * entry does not stop the rest.
+ */
+export class BulkExtractor {
+  constructor(private rpfManager: RpfManager, private writePolicy: WritePolicy) {}
+
+  async extract(options: BulkExtractOptions): Promise<BulkExtractManifest> {
+    const outputDirectory = this.writePolicy.resolve(options.outputDirectory);
+    const sources = this.selectSources(options.rpfPath, options.recurseNested);
+    const directory = options.directory?.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '').toLowerCase();
+    const pattern = options.pattern ? globToRegExp(options.pattern.replace(/\\/g, '/')) : null;
+    const matchesName = !!options.pattern && !options.pattern.replace(/\\/g, '/').includes('/');
+
+    const manifest: BulkExtractManifest = {
+      outputDirectory,
+      archives: Array.from(new Set(sources.map(source => source.selectedPath))),
+      files: [],
+      written: 0,
+      skipped: 0,
+      failed: 0,
+      bytes: 0,
+      truncated: 0
+    };
+    // Output paths already used, so flattened files with the same name do not overwrite each other
+    const used = new Set<string>();
+
+    for (const source of sources) {
+      for (const entry of source.rpf.allEntries) {
+        if (!(entry instanceof RpfFileEntry)) continue;
+
+        const logicalPath = `${source.prefix}${entry.path.replace(/\\/g, '/')}`;
+        if (directory && !logicalPath.toLowerCase().startsWith(`${directory}/`)) continue;
+        if (pattern && !pattern.test(matchesName ? entry.name : logicalPath)) continue;
+        // Nested archives that were loaded are extracted as folders of their own
+        if (options.recurseNested && entry.nameLower.endsWith('.rpf') && this.rpfManager.getRpfFile(`${source.rpfPath}/${entry.path.replace(/\\/g, '/')}`)) continue;
+
+        if (manifest.files.length >= options.maxFiles) {
+          manifest.truncated++;
+          continue;
+        }
+
+        const relativePath = options.flatten ? entry.name : `${source.selectedPath}/${logicalPath}`;
+        const file = await this.extractFile(source.rpfPath, entry, path.join(outputDirectory, relativePath), options, used);
+        manifest.files.push(file);
+        manifest[file.status]++;
+        if (file.status === 'written') {
+          manifest.bytes += file.outputs.reduce((total, output) => total + output.size, 0);
+        }
+      }
+    }
+
+    return manifest;
+  }
+
+  private async extractFile(rpfPath: string, entry: RpfFileEntry, outputPath: string, options: BulkExtractOptions, used: Set<string>): Promise<ExtractedFile> {
+    const file: ExtractedFile = { rpfPath, filePath: entry.path, status: 'written', outputs: [] };
+
+    const key = outputPath.toLowerCase();
+    if (used.has(key)) {
+      return { ...file, status: 'skipped', note: `another file was already extracted to ${outputPath}` };
+    }
+    used.add(key);
+
+    try {
+      if (options.skipExisting && fs.existsSync(this.writePolicy.resolve(this.getMarkerPath(entry, outputPath, options)))) {
+        return { ...file, status: 'skipped', note: 'already extracted' };
+      }
+
+      const { outputs, note } = this.convert(rpfPath, entry, outputPath, options);
+      for (const output of outputs) {
+        file.outputs.push(await this.writePolicy.writeFile(output.path, output.data, options.dryRun));
+      }
+      file.note = note;
+    } catch (error) {
+      return { ...file, status: 'failed', note: error instanceof Error ? error.message : String(error) };
+    }
+    return file;
+  }
+
+  // The file, or folder of textures, whose presence means the entry was extracted before
+  private getMarkerPath(entry: RpfFileEntry, outputPath: string, options: BulkExtractOptions): string {
+    if (entry instanceof RpfResourceFileEntry && options.conversion === 'segments') {
+      return `${outputPath}.system`;
+    }
+    if (options.conversion === 'decoded') {
+      if (entry.nameLower.endsWith('.ytd') && entry instanceof RpfResourceFileEntry) {
+        return outputPath.replace(/\.ytd$/i, '');
+      }
+      if (entry.nameLower.endsWith('.gxt2')) {
+        return `${outputPath}.txt`;
+      }
+      if (META_EXTENSIONS.some(ext => entry.nameLower.endsWith(ext))) {
+        return `${outputPath}.xml`;
+      }
+    }
+    return outputPath;
+  }
+
+  private convert(rpfPath: string, entry: RpfFileEntry, outputPath: string, options: BulkExtractOptions): { outputs: ExtractOutput[], note?: string } {
+    const isResource = entry instanceof RpfResourceFileEntry;
+
+    if (isResource && options.conversion === 'segments') {
+      const resource = this.rpfManager.getResourceContent(rpfPath, entry.path);
+      if (!resource) {
+        throw new Error('Failed to decompress resource');
+      }
+      return {
+        outputs: [
+          { path: `${outputPath}.system`, data: resource.systemData },
+          { path: `${outputPath}.graphics`, data: resource.graphicsData }
+        ],
+        note: `resource version ${resource.version} segments`
+      };
+    }
+
+    if (options.conversion === 'decoded') {
+      const name = entry.nameLower;
+
+      if (isResource && name.endsWith('.ytd')) {
+        const ytd = YtdFile.read(this.getResourceReader(rpfPath, entry));
+        const folder = outputPath.replace(/\.ytd$/i, '');
+        return {
+          outputs: ytd.textures.map(texture => ({
+            path: path.join(folder, `${texture.name}.${options.textureFormat}`),
+            data: options.textureFormat === 'dds' ? YtdFile.toDds(texture) : YtdFile.toPng(texture)
+          })),
+          note: `${ytd.textures.length} textures`
+        };
+      }
+      if (name.endsWith('.gxt2')) {
+        return { outputs: [{ path: `${outputPath}.txt`, data: Gxt2File.read(this.getContent(rpfPath, entry)).toText() }], note: 'text table' };
+      }
+      if (META_EXTENSIONS.some(ext => name.endsWith(ext))) {
+        const xml = isResource
+          ? MetaXmlWriter.write(MetaFile.fromResource(this.getResourceReader(rpfPath, entry)))
+          : MetaFile.toXml(this.getContent(rpfPath, entry));
+        return { outputs: [{ path: `${outputPath}.xml`, data: xml }], note: 'XML' };
+      }
+    }
+
+    return { outputs: [{ path: outputPath, data: this.getContent(rpfPath, entry) }] };
+  }
+
+  private getContent(rpfPath: string, entry: RpfFileEntry): Buffer {
+    const content = this.rpfManager.getFileContent(rpfPath, entry.path);
+    if (!content) {
+      throw new Error('Failed to read file');
+    }
+    return content;
+  }
+
+  private getResourceReader(rpfPath: string, entry: RpfFileEntry): ResourceReader {
+    const reader = this.rpfManager.getResourceReader(rpfPath, entry.path);
+    if (!reader) {
+      throw new Error('Failed to decompress resource');
+    }
+    return reader;
+  }
+
+  private selectSources(rpfPath: string, recurseNested: boolean): ExtractSource[] {
+    const normalized = rpfPath.replace(/\\/g, '/');
+    let selected: string[];
+
+    if (/[*?]/.test(normalized)) {
+      const filter = globToRegExp(normalized);
+      this.rpfManager.loadAll();
+      selected = this.rpfManager.getRpfList().filter(candidate => filter.test(candidate));
+      if (recurseNested) {
+        // Archives nested in another selected archive are already extracted with it
+        selected = selected.filter(candidate => !selected.some(other => candidate.toLowerCase().startsWith(`${other.toLowerCase()}/`)));
+      }
+    } else {
+      if (!this.rpfManager.getRpfFile(normalized)) {
+        throw new Error(`RPF not found: ${rpfPath}`);
+      }
+      selected = [normalized];
+    }
+    if (selected.length === 0) {
+      throw new Error(`No archives match ${rpfPath}`);
+    }
+
+    const sources: ExtractSource[] = [];
+    for (const selectedPath of selected) {
+      const rpf = this.rpfManager.getRpfFile(selectedPath);
+      if (!rpf) continue;
+      sources.push({ rpfPath: selectedPath, rpf, prefix: '', selectedPath });
+
+      if (!recurseNested) continue;
+      for (const nestedPath of this.rpfManager.getRpfList()) {
+        if (!nestedPath.startsWith(`${selectedPath}/`)) continue;
+
+        const nested = this.rpfManager.getRpfFile(nestedPath);
+        if (nested) {
+          sources.push({ rpfPath: nestedPath, rpf: nested, prefix: `${nestedPath.substring(selectedPath.length + 1)}/`, selectedPath });
+        }
+      }
+    }
+    return sources;
+  }
+}
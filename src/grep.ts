@@ -0,0 +1,242 @@
+import { RpfManager } from './rpf-manager.js';
+import { RpfFileEntry, RpfResourceFileEntry } from './rpf.js';
+import { JenkHash } from './hash.js';
+
+export type GrepMode = 'text' | 'regex' | 'bytes' | 'hash';
+
+export interface GrepOptions {
+  pattern: string;
+  mode: GrepMode;
+  caseSensitive: boolean;
+  /** Glob over archive paths, e.g. "update/*.rpf" or "**\/dlc.rpf" */
+  rpfGlob?: string;
+  /** Only search below this directory of each archive */
+  directory?: string;
+  /** File extensions to include, with or without the dot */
+  extensions?: string[];
+  maxMatchesPerFile: number;
+  contextBytes: number;
+  /** Files larger than this (uncompressed) are skipped */
+  maxFileSize: number;
+  /** Stop once this many decompressed bytes have been searched */
+  maxBytes?: number;
+  /** Stop after this many milliseconds */
+  timeLimit?: number;
+}
+
+export interface GrepMatch {
+  rpfPath: string;
+  filePath: string;
+  /** Resource segment the offset refers to; plain files have none */
+  segment?: 'system' | 'graphics';
+  offset: number;
+  length: number;
+  snippet: string;
+}
+
+export interface GrepProgress {
+  filesSearched: number;
+  filesSkipped: number;
+  bytesSearched: number;
+  /** Set when the search ran out of its byte or time budget before every file was searched */
+  truncated?: 'bytes' | 'time';
+  /** Archive the search stopped in */
+  stoppedAt?: string;
+}
+
+// The event loop gets a turn at least this often within an archive, so one large archive cannot block the server
+const YIELD_FILES = 64;
+const YIELD_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Searches the decompressed contents of archive entries. Resources are searched per
+ * segment after decompression; everything else goes through getFileContent.
+ */
+export class ContentSearch {
+  constructor(private rpfManager: RpfManager) {}
+
+  /**
+   * Yields matches as files are searched, so callers can stop at any result cap. The event loop
+   * gets a turn between archives and every few files or megabytes within one, and the search
+   * stops early once its byte or time budget is spent.
+   */
+  async *search(options: GrepOptions, progress: GrepProgress = { filesSearched: 0, filesSkipped: 0, bytesSearched: 0 }): AsyncGenerator<GrepMatch> {
+    const regex = ContentSearch.compile(options.pattern, options.mode, options.caseSensitive);
+    const rpfFilter = options.rpfGlob ? globToRegExp(options.rpfGlob) : null;
+    const directory = options.directory?.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '').toLowerCase();
+    const extensions = options.extensions?.map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+    const deadline = options.timeLimit ? Date.now() + options.timeLimit : Infinity;
+    let filesSinceYield = 0;
+    let bytesSinceYield = 0;
+
+    this.rpfManager.loadAll();
+    for (const rpfPath of this.rpfManager.getRpfList()) {
+      if (rpfFilter && !rpfFilter.test(rpfPath)) continue;
+
+      await new Promise(resolve => setImmediate(resolve));
+      filesSinceYield = 0;
+      bytesSinceYield = 0;
+
+      const rpf = this.rpfManager.getRpfFile(rpfPath);
+      if (!rpf) continue;
+
+      for (const entry of rpf.allEntries) {
+        if (!(entry instanceof RpfFileEntry)) continue;
+
+        // Nested archives are listed, and searched, as archives of their own
+        const name = entry.nameLower;
+        if (name.endsWith('.rpf')) continue;
+        if (extensions && !extensions.some(ext => name.endsWith(ext))) continue;
+        if (directory && !entry.path.replace(/\\/g, '/').toLowerCase().startsWith(`${directory}/`)) continue;
+
+        // Resources are inflated into both segments, whatever their stored size
+        const size = entry instanceof RpfResourceFileEntry
+          ? entry.systemSize + entry.graphicsSize
+          : Math.max(entry.fileSize, entry.fileUncompressedSize);
+        if (size > options.maxFileSize) {
+          progress.filesSkipped++;
+          continue;
+        }
+
+        if (filesSinceYield >= YIELD_FILES || bytesSinceYield >= YIELD_BYTES) {
+          await new Promise(resolve => setImmediate(resolve));
+          filesSinceYield = 0;
+          bytesSinceYield = 0;
+        }
+
+        if (options.maxBytes && progress.bytesSearched >= options.maxBytes) {
+          progress.truncated = 'bytes';
+        } else if (Date.now() > deadline) {
+          progress.truncated = 'time';
+        }
+        if (progress.truncated) {
+          progress.stoppedAt = rpfPath;
+          return;
+        }
+
+        const segments: { data: Buffer, segment?: 'system' | 'graphics' }[] = [];
+        if (entry instanceof RpfResourceFileEntry) {
+          const resource = this.rpfManager.getResourceContent(rpfPath, entry.path);
+          if (resource) {
+            segments.push({ data: resource.systemData, segment: 'system' }, { data: resource.graphicsData, segment: 'graphics' });
+          }
+        } else {
+          const content = this.rpfManager.getFileContent(rpfPath, entry.path);
+          if (content) {
+            segments.push({ data: content });
+          }
+        }
+
+        if (segments.length === 0) {
+          progress.filesSkipped++;
+          continue;
+        }
+        const bytes = segments.reduce((total, { data }) => total + data.length, 0);
+        progress.filesSearched++;
+        progress.bytesSearched += bytes;
+        filesSinceYield++;
+        bytesSinceYield += bytes;
+
+        let matches = 0;
+        for (const { data, segment } of segments) {
+          // latin1 maps every byte to one character, so string offsets are byte offsets
+          const text = data.toString('latin1');
+          regex.lastIndex = 0;
+
+          let match: RegExpExecArray | null;
+          while (matches < options.maxMatchesPerFile && (match = regex.exec(text)) !== null) {
+            if (match[0].length === 0) {
+              regex.lastIndex++;
+              continue;
+            }
+
+            matches++;
+            yield {
+              rpfPath,
+              filePath: entry.path,
+              segment,
+              offset: match.index,
+              length: match[0].length,
+              snippet: ContentSearch.snippet(data, match.index, match[0].length, options.contextBytes, options.mode === 'bytes' || options.mode === 'hash')
+            };
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Builds a regex over latin1-decoded bytes. Text is matched as UTF-8; byte patterns are hex
+   * pairs with optional spaces and "??" wildcards. Hash mode finds the joaat of a name (or a
+   * literal hash) stored little-endian, as in resources and RBF, or big-endian, as in PSO.
+   */
+  static compile(pattern: string, mode: GrepMode, caseSensitive: boolean): RegExp {
+    const flags = caseSensitive ? 'g' : 'gi';
+
+    switch (mode) {
+      case 'regex':
+        return new RegExp(pattern, flags);
+      case 'text': {
+        const bytes = Buffer.from(pattern, 'utf8');
+        if (bytes.length === 0) {
+          throw new Error('Search pattern is empty');
+        }
+        return new RegExp(Array.from(bytes, escapeByte).join(''), flags);
+      }
+      case 'bytes': {
+        const tokens = pattern.replace(/\s+/g, '').match(/.{1,2}/g) ?? [];
+        if (tokens.length === 0 || tokens.some(token => !/^([0-9a-f]{2}|\?\?)$/i.test(token))) {
+          throw new Error(`Invalid byte pattern: ${pattern}. Use hex pairs such as "52 53 43 37" with ?? as a wildcard`);
+        }
+        return new RegExp(tokens.map(token => token === '??' ? '[\\s\\S]' : escapeByte(parseInt(token, 16))).join(''), 'g');
+      }
+      case 'hash': {
+        const hash = JenkHash.parse(pattern) ?? JenkHash.joaat(pattern);
+        const bytes = Buffer.alloc(4);
+        bytes.writeUInt32LE(hash);
+        const littleEndian = Array.from(bytes, escapeByte).join('');
+        const bigEndian = Array.from(bytes.reverse(), escapeByte).join('');
+        return new RegExp(`${littleEndian}|${bigEndian}`, 'g');
+      }
+    }
+  }
+
+  private static snippet(data: Buffer, offset: number, length: number, context: number, hex: boolean): string {
+    const start = Math.max(0, offset - context);
+    const end = Math.min(data.length, offset + length + context);
+    const slice = data.subarray(start, end);
+
+    if (hex) {
+      return Array.from(slice, byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+    }
+    return slice.toString('latin1').replace(/[^\x20-\x7E]/g, '.');
+  }
+}
+
+function escapeByte(byte: number): string {
+  return `\\x${byte.toString(16).padStart(2, '0')}`;
+}
+
+// "**" crosses directories, "*" and "?" stay within one path segment
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        source += '(?:.*/)?';
+        i++;
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,158 @@
+import path from 'path';
+import { RpfManager } from './rpf-manager.js';
+import { RpfDirectoryEntry, RpfFileEntry } from './rpf.js';
+import { JenkHash, HashDictionary } from './hash.js';
+
+export const GXT2_MAGIC = 0x47585432; // '2TXG'
+
+export const TEXT_LANGUAGES = [
+  'american', 'french', 'german', 'italian', 'spanish', 'portuguese', 'polish',
+  'russian', 'korean', 'chinese', 'chinesesimp', 'japanese', 'mexican'
+];
+
+export class Gxt2File {
+  entries: Map<number, string> = new Map();
+
+  static read(data: Buffer): Gxt2File {
+    if (data.length < 8 || data.readUInt32LE(0) !== GXT2_MAGIC) {
+      throw new Error('Not a GXT2 file');
+    }
+
+    const gxt2 = new Gxt2File();
+    const count = data.readUInt32LE(4);
+
+    for (let i = 0; i < count; i++) {
+      const hash = data.readUInt32LE(8 + i * 8);
+      const offset = data.readUInt32LE(12 + i * 8);
+
+      let end = offset;
+      while (end < data.length && data[end] !== 0) {
+        end++;
+      }
+      gxt2.entries.set(hash, data.toString('utf8', offset, end));
+    }
+
+    return gxt2;
+  }
+
+  toText(): string {
+    const lines: string[] = [];
+    for (const [hash, text] of this.entries) {
+      lines.push(`${HashDictionary.format(hash)} = ${text}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export interface TextLabel {
+  hash: number;
+  text: string;
+  rpfPath: string;
+  filePath: string;
+}
+
+/**
+ * Collects the GXT2 tables of every text archive of a language (base game,
+ * update and DLC packs) so labels can be resolved and searched in one place.
+ */
+export class TextLabelIndex {
+  private labels: Map<string, Map<number, TextLabel[]>> = new Map();
+
+  constructor(private rpfManager: RpfManager) {}
+
+  /**
+   * Drops the loaded tables; each language is read again on its next lookup.
+   */
+  clear(): void {
+    this.labels.clear();
+  }
+
+  getLabel(language: string, labelOrHash: string): TextLabel[] {
+    // Remember label names so results can show them instead of the bare hash
+    const hash = JenkHash.parse(labelOrHash) ?? HashDictionary.add(labelOrHash);
+    return this.load(language).get(hash) ?? [];
+  }
+
+  search(language: string, query: string, useRegex: boolean = false, limit: number = 50): { results: TextLabel[], total: number } {
+    const matcher = useRegex
+      ? new RegExp(query, 'i')
+      : { test: (text: string) => text.toLowerCase().includes(query.toLowerCase()) };
+
+    const results: TextLabel[] = [];
+    let total = 0;
+
+    for (const occurrences of this.load(language).values()) {
+      for (const label of occurrences) {
+        if (matcher.test(label.text)) {
+          total++;
+          if (results.length < limit) {
+            results.push(label);
+          }
+        }
+      }
+    }
+
+    return { results, total };
+  }
+
+  private load(language: string): Map<number, TextLabel[]> {
+    const lowerLanguage = language.toLowerCase();
+    if (!TEXT_LANGUAGES.includes(lowerLanguage)) {
+      throw new Error(`Unknown language: ${language}. Available: ${TEXT_LANGUAGES.join(', ')}`);
+    }
+
+    const cached = this.labels.get(lowerLanguage);
+    if (cached) return cached;
+
+    const labels = new Map<number, TextLabel[]>();
+
+    // Update archives come first so their entries are listed before the base game ones
+    this.rpfManager.loadAll();
+    const rpfPaths = this.rpfManager.getRpfList()
+      .filter(rpfPath => this.isTextArchive(rpfPath, lowerLanguage))
+      .sort((a, b) => Number(b.startsWith('update/')) - Number(a.startsWith('update/')));
+
+    for (const rpfPath of rpfPaths) {
+      const rpf = this.rpfManager.getRpfFile(rpfPath);
+      if (!rpf?.root) continue;
+
+      for (const entry of this.findGxt2Files(rpf.root)) {
+        const content = this.rpfManager.getFileContent(rpfPath, entry.path);
+        if (!content) continue;
+
+        try {
+          const gxt2 = Gxt2File.read(content);
+          for (const [hash, text] of gxt2.entries) {
+            const occurrences = labels.get(hash) ?? [];
+            occurrences.push({ hash, text, rpfPath, filePath: entry.path });
+            labels.set(hash, occurrences);
+          }
+        } catch (error) {
+          console.error(`Failed to read text table ${entry.path} from ${rpfPath}: ${error}`);
+        }
+      }
+    }
+
+    this.labels.set(lowerLanguage, labels);
+    return labels;
+  }
+
+  private isTextArchive(rpfPath: string, language: string): boolean {
+    const name = path.posix.basename(rpfPath).toLowerCase();
+    if (!name.endsWith('.rpf')) return false;
+
+    // Longest prefix wins so "chinese" does not pick up "chinesesimp" archives
+    const match = TEXT_LANGUAGES
+      .filter(candidate => name.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    return match === language;
+  }
+
+  private findGxt2Files(dir: RpfDirectoryEntry): RpfFileEntry[] {
+    const files = dir.files.filter(file => file.nameLower.endsWith('.gxt2'));
+    for (const subdir of dir.directories) {
+      files.push(...this.findGxt2Files(subdir));
+    }
+    return files;
+  }
+}
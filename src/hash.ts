@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_DATA_DIRECTORY } from './write-policy.js';
+
+export class JenkHash {
+  /**
+   * Jenkins one-at-a-time hash of a string, lowercased first as the game does for names.
+   */
+  static joaat(text: string): number {
+    return this.hashBytes(Buffer.from(text.toLowerCase(), 'latin1'));
+  }
+
+  static hashBytes(data: Uint8Array): number {
+    let h = 0;
+    for (let i = 0; i < data.length; i++) {
+      h = (h + data[i]) >>> 0;
+      h = (h + (h << 10)) >>> 0;
+      h = (h ^ (h >>> 6)) >>> 0;
+    }
+    h = (h + (h << 3)) >>> 0;
+    h = (h ^ (h >>> 11)) >>> 0;
+    h = (h + (h << 15)) >>> 0;
+    return h;
+  }
+
+  /**
+   * Parses "0x1234ABCD", "hash_1234ABCD", unsigned or signed decimal hashes.
+   */
+  static parse(value: string): number | null {
+    const text = value.trim();
+    const hex = text.match(/^(?:0x|hash_)([0-9a-f]{1,8})$/i);
+    if (hex) {
+      return parseInt(hex[1], 16) >>> 0;
+    }
+    if (/^-?\d+$/.test(text)) {
+      const number = Number(text);
+      if (number >= -0x80000000 && number <= 0xFFFFFFFF) {
+        return number >>> 0;
+      }
+    }
+    return null;
+  }
+
+  static format(hash: number): string {
+    return `0x${(hash >>> 0).toString(16).toUpperCase().padStart(8, '0')}`;
+  }
+}
+
+/**
+ * Global hash to string dictionary. Entry names from loaded archives are added
+ * at runtime; strings supplied by the user are also persisted to disk so they
+ * survive restarts.
+ */
+export class HashDictionary {
+  private static names: Map<number, string> = new Map();
+  private static userStrings: Set<string> = new Set();
+  private static truncated: Map<number, { size: number, names: Map<number, string> }> = new Map();
+  private static loaded = false;
+  private static dictionaryPath = process.env.GTA_V_HASH_DICTIONARY
+    || path.join(DEFAULT_DATA_DIRECTORY, 'cache', 'hash-dictionary.txt');
+
+  static add(text: string): number {
+    const hash = JenkHash.joaat(text);
+    if (!this.names.has(hash)) {
+      this.names.set(hash, text);
+    }
+    return hash;
+  }
+
+  static addAll(strings: Iterable<string>): void {
+    for (const text of strings) {
+      this.add(text);
+    }
+  }
+
+  /**
+   * Adds strings and remembers them in the persistent dictionary file.
+   */
+  static addUserStrings(strings: Iterable<string>): number {
+    this.ensureLoaded();
+    let added = 0;
+
+    for (const text of strings) {
+      const trimmed = text.trim();
+      if (!trimmed || this.userStrings.has(trimmed)) continue;
+
+      this.userStrings.add(trimmed);
+      this.add(trimmed);
+      added++;
+    }
+
+    if (added > 0) {
+      this.save();
+    }
+    return added;
+  }
+
+  static get(hash: number): string | undefined {
+    this.ensureLoaded();
+    return this.names.get(hash >>> 0);
+  }
+
+  /**
+   * Looks up a hash of which only the low `bits` are stored, e.g. the 29-bit stream ids of audio containers.
+   */
+  static getTruncated(hash: number, bits: number): string | undefined {
+    this.ensureLoaded();
+    const mask = bits >= 32 ? 0xFFFFFFFF : (1 << bits) - 1;
+
+    let cached = this.truncated.get(bits);
+    if (!cached || cached.size !== this.names.size) {
+      cached = { size: this.names.size, names: new Map() };
+      for (const [full, text] of this.names) {
+        const key = (full & mask) >>> 0;
+        if (!cached.names.has(key)) {
+          cached.names.set(key, text);
+        }
+      }
+      this.truncated.set(bits, cached);
+    }
+
+    return cached.names.get((hash & mask) >>> 0);
+  }
+
+  static format(hash: number): string {
+    return this.get(hash) ?? `hash_${(hash >>> 0).toString(16).toUpperCase().padStart(8, '0')}`;
+  }
+
+  static get size(): number {
+    return this.names.size;
+  }
+
+  private static ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      if (fs.existsSync(this.dictionaryPath)) {
+        const lines = fs.readFileSync(this.dictionaryPath, 'utf8').split(/\r?\n/);
+        for (const line of lines) {
+          const text = line.trim();
+          if (text) {
+            this.userStrings.add(text);
+            this.add(text);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load hash dictionary ${this.dictionaryPath}: ${error}`);
+    }
+  }
+
+  private static save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dictionaryPath), { recursive: true });
+      fs.writeFileSync(this.dictionaryPath, Array.from(this.userStrings).join('\n') + '\n');
+    } catch (error) {
+      console.error(`Failed to save hash dictionary ${this.dictionaryPath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { RpfIndexData } from './rpf.js';
+import { DEFAULT_DATA_DIRECTORY } from './write-policy.js';
+
+// Bump when RpfIndexData changes shape or meaning so stale caches are ignored
+const INDEX_CACHE_VERSION = 3;
+
+interface RpfIndexCacheEntry {
+  size: number;
+  mtime: number;
+  data: RpfIndexData;
+}
+
+/**
+ * On-disk cache of archive tables of contents. Entries are keyed by the archive's path
+ * relative to the game directory and only used while its size and mtime are unchanged.
+ */
+export class RpfIndexCache {
+  private archives: Map<string, RpfIndexCacheEntry> = new Map();
+  private rootPath = '';
+  private dirty = false;
+
+  constructor(readonly cachePath: string = process.env.GTA_V_INDEX_CACHE
+    || path.join(DEFAULT_DATA_DIRECTORY, 'cache', 'rpf-index.json')) {}
+
+  get size(): number {
+    return this.archives.size;
+  }
+
+  load(rootPath: string): void {
+    this.rootPath = rootPath;
+    this.archives.clear();
+    this.dirty = false;
+
+    try {
+      if (!fs.existsSync(this.cachePath)) return;
+
+      const cache = JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+      if (cache.version !== INDEX_CACHE_VERSION || cache.rootPath !== rootPath) {
+        console.error(`Ignoring index cache ${this.cachePath}: built for another version or game directory`);
+        return;
+      }
+
+      for (const [relativePath, entry] of Object.entries(cache.archives as Record<string, RpfIndexCacheEntry>)) {
+        this.archives.set(relativePath, entry);
+      }
+    } catch (error) {
+      console.error(`Failed to load index cache ${this.cachePath}: ${error}`);
+    }
+  }
+
+  get(relativePath: string, size: number, mtime: number): RpfIndexData | null {
+    const entry = this.archives.get(relativePath);
+    return entry && entry.size === size && entry.mtime === mtime ? entry.data : null;
+  }
+
+  set(relativePath: string, size: number, mtime: number, data: RpfIndexData): void {
+    this.archives.set(relativePath, { size, mtime, data });
+    this.dirty = true;
+  }
+
+  delete(relativePath: string): void {
+    this.dirty = this.archives.delete(relativePath) || this.dirty;
+  }
+
+  /**
+   * Drops archives that no longer exist on disk.
+   */
+  retain(relativePaths: Set<string>): void {
+    for (const relativePath of this.archives.keys()) {
+      if (!relativePaths.has(relativePath)) {
+        this.delete(relativePath);
+      }
+    }
+  }
+
+  clear(): void {
+    this.dirty = this.dirty || this.archives.size > 0;
+    this.archives.clear();
+  }
+
+  save(): void {
+    if (!this.dirty) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(this.cachePath, JSON.stringify({
+        version: INDEX_CACHE_VERSION,
+        rootPath: this.rootPath,
+        archives: Object.fromEntries(this.archives)
+      }));
+      this.dirty = false;
+    } catch (error) {
+      console.error(`Failed to save index cache ${this.cachePath}: ${error}`);
+    }
+  }
+}
@@ -9,7 +9,30 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { RpfManager } from './rpf-manager.js';
+import { RpfManager, RpfFileCopy, RpfIndexStats } from './rpf-manager.js';
+import { RpfFile, RpfFileEntry, RpfResourceFileEntry, RpfResource } from './rpf.js';
+import { RpfWriter, RpfWriteResult } from './rpf-writer.js';
+import { WritePolicy, WritePlan } from './write-policy.js';
+import { RpfEncryption } from './crypto.js';
+import { ResourceReader } from './resource.js';
+import { YtdFile } from './ytd.js';
+import { MetaFile, MetaXmlWriter } from './meta.js';
+import { JenkHash, HashDictionary } from './hash.js';
+import { Gxt2File, TextLabelIndex, TEXT_LANGUAGES } from './gxt2.js';
+import { YmapFile, MapPlacementIndex, MapQueryArea } from './ymap.js';
+import { ArchetypeIndex } from './ytyp.js';
+import { Drawable, DrawableFile, LOD_LEVELS } from './drawable.js';
+import { ModelExporter, ModelTextureResolver } from './model-export.js';
+import { YbnFile, BoundType } from './ybn.js';
+import { AwcFile } from './awc.js';
+import { YcdFile, Clip, ClipIndex } from './ycd.js';
+import { YscFile, NativeDatabase } from './ysc.js';
+import { ContentSearch, GrepProgress } from './grep.js';
+import { YnvFile, NavMeshHit, NavMeshPolygon, NAVMESH_CELL_SIZE } from './ynv.js';
+import { GameFileSystem, GameFileCandidate } from './vfs.js';
+import { BulkExtractor, BulkExtractManifest } from './extract.js';
+import { FileChunkReader, FileChunk } from './entry-reader.js';
+import { BinaryView, BinaryField, BinaryTemplate, DecodedField, BUILTIN_TEMPLATES } from './binary-view.js';
 
 const ToolInputSchema = ToolSchema.shape.inputSchema;
 type ToolInput = z.infer<typeof ToolInputSchema>;
@@ -42,6 +65,19 @@ if (!gtaPath) {
   process.exit(1);
 }
 const rpfManager = new RpfManager();
+const textLabelIndex = new TextLabelIndex(rpfManager);
+const mapPlacementIndex = new MapPlacementIndex(rpfManager);
+const archetypeIndex = new ArchetypeIndex(rpfManager);
+const clipIndex = new ClipIndex(rpfManager);
+const contentSearch = new ContentSearch(rpfManager);
+const gameFileSystem = new GameFileSystem(rpfManager);
+const modelTextureResolver = new ModelTextureResolver(rpfManager, archetypeIndex);
+const writePolicy = WritePolicy.fromEnvironment(gtaPath);
+const bulkExtractor = new BulkExtractor(rpfManager, writePolicy);
+const fileChunkReader = new FileChunkReader(rpfManager);
+
+// Larger files are not returned whole by read_file; read_file_chunk reads them in parts
+const MAX_READ_FILE_SIZE = 16 * 1024 * 1024;
 
 const ListRpfArgsSchema = z.object({
   pattern: z.string().optional().describe('Optional pattern to filter RPF files')
@@ -52,9 +88,17 @@ const ListDirectoryArgsSchema = z.object({
   directoryPath: z.string().optional().default('').describe('Path within the RPF to list. Empty string for root.')
 });
 
+const ResourceModeSchema = z.enum(['rsc7', 'segments']).optional().default('rsc7')
+  .describe('How to return resource files (.ytd, .ydr, .yft, .ybn, .ymap...): "rsc7" for the raw RSC7 container, "segments" for the decompressed system and graphics segments');
+
+const DryRunSchema = z.boolean().optional().default(false)
+  .describe('Only report which files would be created or overwritten, without writing anything');
+
 const ReadFileArgsSchema = z.object({
   rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
-  filePath: z.string().describe('Path to the file within the RPF')
+  filePath: z.string().describe('Path to the file within the RPF'),
+  resourceMode: ResourceModeSchema,
+  raw: z.boolean().optional().default(false).describe('Return binary meta files (.ymt, .ytyp, .ymf, .ymap) and text tables (.gxt2) as base64 instead of decoding them')
 });
 
 const GetFileInfoArgsSchema = z.object({
@@ -75,7 +119,296 @@ const GetDirectoryTreeArgsSchema = z.object({
 const ExtractFileArgsSchema = z.object({
   rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
   filePath: z.string().describe('Path to the file within the RPF'),
-  outputPath: z.string().describe('Local path to save the extracted file')
+  outputPath: z.string().describe('Local path to save the extracted file'),
+  resourceMode: ResourceModeSchema,
+  dryRun: DryRunSchema
+});
+
+const ListTexturesArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ytd texture dictionary within the RPF')
+});
+
+const ExportTextureArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ytd texture dictionary within the RPF'),
+  textureName: z.string().describe('Name of the texture inside the dictionary'),
+  outputPath: z.string().describe('Local path to save the exported texture'),
+  format: z.enum(['dds', 'png']).optional().default('png').describe('Output format: "dds" keeps the original data and all mips, "png" decodes a single mip level'),
+  mipLevel: z.number().optional().default(0).describe('Mip level to decode when exporting PNG'),
+  dryRun: DryRunSchema
+});
+
+const HashStringArgsSchema = z.object({
+  strings: z.array(z.string()).describe('Strings to hash with JOAAT (lowercased first, as the game does)'),
+  addToDictionary: z.boolean().optional().default(false).describe('Remember the strings in the persistent hash dictionary so lookups can resolve them later')
+});
+
+const LookupHashArgsSchema = z.object({
+  hashes: z.array(z.string()).describe('Hashes to resolve, as hex (0x1234ABCD or hash_1234ABCD) or decimal (signed or unsigned)')
+});
+
+const LanguageSchema = z.string().optional().default('american')
+  .describe(`Text language: ${TEXT_LANGUAGES.join(', ')}`);
+
+const GetTextLabelArgsSchema = z.object({
+  label: z.string().describe('Text label name (e.g. "BLIP_GARAGE") or its hash'),
+  language: LanguageSchema
+});
+
+const SearchTextArgsSchema = z.object({
+  query: z.string().describe('Text to search for in localized strings (case-insensitive)'),
+  language: LanguageSchema,
+  regex: z.boolean().optional().default(false).describe('Treat the query as a regular expression'),
+  limit: z.number().optional().default(50).describe('Maximum number of results to return')
+});
+
+const ListMapEntitiesArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ymap file within the RPF'),
+  limit: z.number().optional().default(200).describe('Maximum number of entities to list')
+});
+
+const Vector3Schema = z.tuple([z.number(), z.number(), z.number()]);
+
+const FindMapPlacementsArgsSchema = z.object({
+  center: Vector3Schema.optional().describe('Centre of the search sphere as [x, y, z] (use with radius)'),
+  radius: z.number().optional().describe('Search radius around the centre'),
+  min: Vector3Schema.optional().describe('Minimum corner of the search box as [x, y, z] (use with max)'),
+  max: Vector3Schema.optional().describe('Maximum corner of the search box as [x, y, z] (use with min)'),
+  archetype: z.string().optional().describe('Only report entities of this archetype (name or hash)'),
+  limit: z.number().optional().default(50).describe('Maximum number of ymaps to return')
+});
+
+const FindArchetypeArgsSchema = z.object({
+  name: z.string().describe('Archetype (model) name, e.g. "prop_bench_01a", or its hash')
+});
+
+const GetModelInfoArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ydr, .ydd or .yft file within the RPF'),
+  drawableName: z.string().optional().describe('Only show this drawable of a .ydd dictionary')
+});
+
+const ExportModelArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ydr, .ydd or .yft file within the RPF'),
+  outputPath: z.string().describe('Local path of the model file to write (.obj or .gltf)'),
+  format: z.enum(['obj', 'gltf']).optional().default('obj').describe('Output format; OBJ also writes a .mtl material library'),
+  lod: z.enum(LOD_LEVELS).optional().default('high').describe('Level of detail to export'),
+  drawableName: z.string().optional().describe('Drawable to export from a .ydd dictionary (required when it holds several)'),
+  exportTextures: z.boolean().optional().default(true).describe('Also write the referenced textures next to the model, looked up in the embedded or associated .ytd'),
+  textureFormat: z.enum(['png', 'dds']).optional().default('png').describe('Format of the texture files referenced by the materials'),
+  dryRun: DryRunSchema
+});
+
+const GetBoundsInfoArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ybn file within the RPF')
+});
+
+const ExportBoundsArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ybn file within the RPF'),
+  outputPath: z.string().describe('Local path to save the .obj collision mesh'),
+  dryRun: DryRunSchema
+});
+
+const QueryNavmeshArgsSchema = z.object({
+  rpfPath: z.string().optional().describe('Path to the RPF file relative to GTA V directory. Omit together with filePath to locate the cell from the position'),
+  filePath: z.string().optional().describe('Path to the .ynv file within the RPF'),
+  position: Vector3Schema.optional().describe('World position [x, y, z] to test for nearby navmesh'),
+  radius: z.number().positive().optional().default(5).describe('Search radius around the position'),
+  limit: z.number().optional().default(10).describe('Maximum number of nearby polygons and special links to list')
+});
+
+const ExportNavmeshArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ynv file within the RPF'),
+  outputPath: z.string().describe('Local path to save the .obj navmesh'),
+  dryRun: DryRunSchema
+});
+
+const GetAudioInfoArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .awc file within the RPF')
+});
+
+const ExportAudioArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .awc file within the RPF'),
+  stream: z.string().optional().describe('Stream name or hash (e.g. "0x1A2B3C4D"). Optional when the container has a single stream'),
+  outputPath: z.string().describe('Local path to save the .wav file'),
+  dryRun: DryRunSchema
+});
+
+const ListAnimationsArgsSchema = z.object({
+  rpfPath: z.string().optional().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().optional().describe('Path to the .ycd clip dictionary within the RPF'),
+  clip: z.string().optional().describe('Clip name or hash. With a file, shows its tracks; without one, finds the dictionaries that contain it'),
+  limit: z.number().optional().default(200).describe('Maximum number of clips to list')
+});
+
+const ExportAnimationArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ycd clip dictionary within the RPF'),
+  clip: z.string().describe('Clip name or hash'),
+  outputPath: z.string().describe('Local path to save the .json file'),
+  dryRun: DryRunSchema
+});
+
+const GetScriptInfoArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ysc file within the RPF'),
+  limit: z.number().optional().default(50).describe('Maximum number of natives, strings and functions to list')
+});
+
+const DisassembleScriptArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the .ysc file within the RPF'),
+  function: z.string().optional().describe('Function to start at, by name (e.g. "func_12") or index'),
+  offset: z.number().optional().describe('Code offset to start at (ignored when function is given)'),
+  limit: z.number().optional().default(500).describe('Maximum number of instructions'),
+  nativeDatabase: z.string().optional().describe('Local path of a native database (natives.json layout or "0xHASH NAME" lines) used to name natives. Defaults to GTA_V_NATIVE_DATABASE')
+});
+
+const GrepFilesArgsSchema = z.object({
+  pattern: z.string().describe('Text, regular expression, hex bytes (e.g. "52 53 43 37", ?? as wildcard) or name/hash to search for'),
+  mode: z.enum(['text', 'regex', 'bytes', 'hash']).optional().default('text').describe('How to interpret the pattern. "hash" finds the joaat of a name stored as a 32-bit value, as binary meta and resources reference models'),
+  caseSensitive: z.boolean().optional().default(false).describe('Match text and regex patterns case-sensitively'),
+  rpfGlob: z.string().optional().describe('Only search archives whose path matches this glob (e.g. "update/*.rpf", "**/dlc.rpf")'),
+  directory: z.string().optional().describe('Only search below this directory within each archive'),
+  extensions: z.array(z.string()).optional().describe('Only search files with these extensions (e.g. ["ymap", "meta"])'),
+  maxResults: z.number().optional().default(100).describe('Stop after this many matches'),
+  maxMatchesPerFile: z.number().optional().default(5).describe('Maximum matches reported per file'),
+  contextBytes: z.number().optional().default(32).describe('Bytes of context around each match'),
+  maxFileSize: z.number().optional().default(32 * 1024 * 1024).describe('Skip files larger than this many bytes, decompressed'),
+  maxBytes: z.number().optional().default(1024 * 1024 * 1024).describe('Stop after searching this many decompressed bytes'),
+  timeLimit: z.number().optional().default(60000).describe('Stop after this many milliseconds')
+});
+
+const RebuildIndexArgsSchema = z.object({
+  full: z.boolean().optional().default(true).describe('Discard the whole index cache and rescan every archive. When false only new and changed archives are rescanned')
+});
+
+const GetIndexStatusArgsSchema = z.object({});
+
+const FindFileCopiesArgsSchema = z.object({
+  name: z.string().optional().describe('File name (e.g. "handling.meta") or path ending (e.g. "data/handling.meta") to find every copy of. Omit to report all files shipped in more than one archive'),
+  pattern: z.string().optional().describe('Report mode: only include file names matching this pattern (e.g. "*.ytd")'),
+  compareContents: z.boolean().optional().describe('Hash the contents of each copy to tell identical copies apart. Defaults to true when looking up a name and false in report mode'),
+  onlyDifferent: z.boolean().optional().default(false).describe('Report mode: only list files whose copies differ in size or hash'),
+  maxResults: z.number().optional().default(100).describe('Maximum number of duplicated files to list in report mode')
+});
+
+const ResolveGamePathArgsSchema = z.object({
+  path: z.string().describe('Mounted game path (e.g. "common:/data/handling.meta", "platform:/levels/gta5/trains.xml", "dlc_mpbeach:/common/data/handling.meta") or a file name looked up across all mounted archives (e.g. "prop_bench_01a.ydr")')
+});
+
+const RPF_ENCRYPTIONS = {
+  open: RpfEncryption.OPEN,
+  none: RpfEncryption.NONE,
+  aes: RpfEncryption.AES
+};
+
+const CreateRpfArgsSchema = z.object({
+  outputPath: z.string().describe('Local path of the archive to create'),
+  sourceDirectory: z.string().optional().describe('Local directory whose contents are packed into the archive, keeping its folder structure'),
+  files: z.array(z.object({
+    path: z.string().describe('Path of the file within the archive (e.g. "common/data/handling.meta")'),
+    sourcePath: z.string().describe('Local file to store at that path')
+  })).optional().default([]).describe('Individual files to add, after sourceDirectory'),
+  encryption: z.enum(['open', 'none', 'aes']).optional().default('open').describe('Table of contents encryption. "open" is what OpenIV-style mods use; NG encryption cannot be written'),
+  dryRun: DryRunSchema
+});
+
+const AddFileToRpfArgsSchema = z.object({
+  rpfPath: z.string().describe('Archive to modify: a top-level archive path relative to the GTA V directory, or a local .rpf file'),
+  filePath: z.string().describe('Path within the archive to add or replace'),
+  sourcePath: z.string().describe('Local file to store. RSC7 resources (as exported by extract_file) are stored as resources'),
+  outputPath: z.string().optional().describe('Where to write the modified copy. Defaults to the same relative path below the output directory'),
+  inPlace: z.boolean().optional().default(false).describe('Overwrite the archive itself instead of writing a copy'),
+  dryRun: DryRunSchema
+});
+
+const RemoveFileFromRpfArgsSchema = z.object({
+  rpfPath: z.string().describe('Archive to modify: a top-level archive path relative to the GTA V directory, or a local .rpf file'),
+  filePath: z.string().describe('File or directory within the archive to remove'),
+  outputPath: z.string().optional().describe('Where to write the modified copy. Defaults to the same relative path below the output directory'),
+  inPlace: z.boolean().optional().default(false).describe('Overwrite the archive itself instead of writing a copy'),
+  dryRun: DryRunSchema
+});
+
+// Options shared by extract_directory and extract_matching
+const BulkExtractArgsSchema = z.object({
+  rpfPath: z.string().describe('Archive path relative to the GTA V directory, or a glob over archive paths such as "update/x64/dlcpacks/*/dlc.rpf"'),
+  outputDirectory: z.string().optional().default('').describe('Directory to recreate the tree in, relative to the output directory unless absolute'),
+  recurseNested: z.boolean().optional().default(true).describe('Extract the contents of nested archives into folders named after them instead of writing the .rpf files'),
+  flatten: z.boolean().optional().default(false).describe('Write every file directly into outputDirectory instead of recreating the tree. Files whose name was already used are skipped'),
+  skipExisting: z.boolean().optional().default(false).describe('Skip files that were already extracted, e.g. to resume an interrupted extraction'),
+  conversion: z.enum(['none', 'segments', 'decoded']).optional().default('none')
+    .describe('"none" writes files as stored (resources as RSC7 containers), "segments" writes resources as decompressed .system/.graphics segments, "decoded" converts texture dictionaries to a folder of textures, binary meta files to XML and .gxt2 text tables to text'),
+  textureFormat: z.enum(['png', 'dds']).optional().default('png').describe('Format of textures extracted from .ytd files with conversion "decoded"'),
+  maxFiles: z.number().optional().default(5000).describe('Maximum number of files to extract'),
+  maxListed: z.number().optional().default(200).describe('Maximum number of files listed in the manifest'),
+  dryRun: DryRunSchema
+});
+
+const ExtractDirectoryArgsSchema = BulkExtractArgsSchema.extend({
+  directoryPath: z.string().optional().default('').describe('Directory within each archive to extract, including its subdirectories and nested archives. Empty for the whole archive')
+});
+
+const ExtractMatchingArgsSchema = BulkExtractArgsSchema.extend({
+  pattern: z.string().describe('Glob over file paths within the archives, e.g. "x64/levels/**/*.ymap". Without a slash it matches file names anywhere, e.g. "*.ytd"'),
+  directoryPath: z.string().optional().describe('Only consider files below this directory')
+});
+
+const ReadFileChunkArgsSchema = z.object({
+  rpfPath: z.string().optional().describe('Path to the RPF file relative to GTA V directory. Not needed with continuationToken'),
+  filePath: z.string().optional().describe('Path to the file within the RPF. Not needed with continuationToken'),
+  offset: z.number().int().min(0).optional().default(0).describe('Byte offset to start reading at'),
+  length: z.number().int().positive().max(MAX_READ_FILE_SIZE).optional().default(1024 * 1024).describe('Number of bytes to read'),
+  resourceMode: ResourceModeSchema,
+  encoding: z.enum(['base64', 'hex', 'utf8']).optional().default('base64').describe('How to return the bytes'),
+  continuationToken: z.string().optional().describe('Token from a previous chunk to continue right after it; rpfPath, filePath, offset and resourceMode are taken from it')
+});
+
+const HexdumpFileArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the file within the RPF'),
+  offset: z.number().int().min(0).optional().default(0).describe('Byte offset to start the dump at'),
+  length: z.number().int().positive().max(65536).optional().default(256).describe('Number of bytes to dump'),
+  resourceMode: ResourceModeSchema,
+  annotated: z.boolean().optional().default(false).describe('List the fields of the structure template starting on each line, detected from the file\'s magic unless template is given'),
+  template: z.enum(['rsc7', 'rpf7', 'pso', 'rbf']).optional().describe('Built-in template to annotate with, applied at the start of the file')
+});
+
+const BinaryFieldSchema: z.ZodType<BinaryField> = z.lazy(() => z.object({
+  name: z.string(),
+  type: z.enum(['u8', 'u16', 'u32', 'u64', 'i8', 'i16', 'i32', 'i64', 'f32', 'f64', 'ascii', 'bytes', 'hash']).optional()
+    .describe('Scalar type; "hash" is a u32 JOAAT shown by name when known. Leave out for a structure of nested fields'),
+  offset: z.union([z.number(), z.string()]).optional().describe('Offset from the start of the enclosing structure, by default right after the previous field'),
+  length: z.union([z.number(), z.string()]).optional().describe('Byte length of ascii and bytes fields'),
+  count: z.union([z.number(), z.string()]).optional().describe('Repeat the field as an array'),
+  endian: z.enum(['little', 'big']).optional(),
+  format: z.enum(['hex', 'dec']).optional(),
+  values: z.record(z.string()).optional().describe('Names for known values, keyed by decimal or 0x-prefixed hex'),
+  fields: z.array(BinaryFieldSchema).optional().describe('Nested fields of a structure')
+}));
+
+const InspectBinaryArgsSchema = z.object({
+  rpfPath: z.string().describe('Path to the RPF file relative to GTA V directory'),
+  filePath: z.string().describe('Path to the file within the RPF'),
+  template: z.enum(['auto', 'rsc7', 'rpf7', 'pso', 'rbf']).optional().default('auto').describe('Built-in template, or "auto" to pick one from the magic. Ignored when definition is given'),
+  definition: z.object({
+    name: z.string().optional().default('custom'),
+    endian: z.enum(['little', 'big']).optional(),
+    fields: z.array(BinaryFieldSchema)
+  }).optional().describe('Structure template to apply instead of a built-in one. Offsets, lengths and counts can be numbers or expressions over earlier fields: "name", "name + 8", "name - 8" or "name * 16", nested fields named by path ("header.count")'),
+  offset: z.number().int().min(0).optional().default(0).describe('Byte offset the template is applied at'),
+  length: z.number().int().positive().max(MAX_READ_FILE_SIZE).optional().default(65536).describe('Number of bytes read for the template to decode'),
+  resourceMode: ResourceModeSchema,
+  maxFields: z.number().optional().default(500).describe('Maximum number of fields to decode')
 });
 
 const server = new Server(
@@ -90,6 +423,215 @@ const server = new Server(
   },
 );
 
+function getResourceOrThrow(rpfPath: string, filePath: string): RpfResource {
+  if (!rpfManager.isResource(rpfPath, filePath)) {
+    throw new Error(`Not a resource file: ${filePath} in ${rpfPath}`);
+  }
+
+  const resource = rpfManager.getResourceContent(rpfPath, filePath);
+  if (!resource) {
+    throw new Error(`Failed to decompress resource: ${filePath} in ${rpfPath}`);
+  }
+
+  return resource;
+}
+
+function readMetaXml(rpfPath: string, filePath: string): string {
+  if (rpfManager.isResource(rpfPath, filePath)) {
+    return MetaXmlWriter.write(MetaFile.fromResource(new ResourceReader(getResourceOrThrow(rpfPath, filePath))));
+  }
+
+  const content = rpfManager.getFileContent(rpfPath, filePath);
+  if (!content) {
+    throw new Error(`File not found: ${filePath} in ${rpfPath}`);
+  }
+
+  return MetaFile.toXml(content);
+}
+
+function readYtd(rpfPath: string, filePath: string): YtdFile {
+  return YtdFile.read(new ResourceReader(getResourceOrThrow(rpfPath, filePath)));
+}
+
+function readDrawables(rpfPath: string, filePath: string, drawableName?: string): Drawable[] {
+  const file = DrawableFile.read(new ResourceReader(getResourceOrThrow(rpfPath, filePath)), filePath);
+  if (!drawableName) {
+    return file.drawables;
+  }
+
+  const drawable = file.findDrawable(drawableName);
+  if (!drawable) {
+    throw new Error(`Drawable not found: ${drawableName}. Available: ${file.drawables.map(d => d.name).join(', ')}`);
+  }
+  return [drawable];
+}
+
+// Cells touched by a square of half-size `radius` around the position, nearest archive entry per cell
+function findNavmeshCells(position: number[], radius: number): { rpfPath: string, filePath: string }[] {
+  const names = new Set<string>();
+  for (const dx of [-radius, 0, radius]) {
+    for (const dy of [-radius, 0, radius]) {
+      names.add(`${YnvFile.getCellName(position[0] + dx, position[1] + dy)}.ynv`);
+    }
+  }
+
+  // One pass over the archives for every navmesh, keeping the first copy of each cell
+  const found = new Map<string, { rpfPath: string, filePath: string }>();
+  for (const result of rpfManager.searchFiles('*.ynv')) {
+    const name = result.entry.nameLower;
+    if (names.has(name) && !found.has(name)) {
+      found.set(name, { rpfPath: result.rpfPath, filePath: result.entryPath });
+    }
+  }
+  return Array.from(names).filter(name => found.has(name)).map(name => found.get(name)!);
+}
+
+function readAwc(rpfPath: string, filePath: string): AwcFile {
+  const content = rpfManager.getFileContent(rpfPath, filePath);
+  if (!content) {
+    throw new Error(`File not found: ${filePath} in ${rpfPath}`);
+  }
+  return AwcFile.read(content);
+}
+
+function formatClip(clip: Clip): string {
+  const animations = clip.animations.map(({ animation }) => animation
+    ? `${HashDictionary.format(animation.hash)}: ${animation.frames} frames, ${animation.duration.toFixed(2)}s, ${animation.tracks.length} tracks`
+    : 'missing animation');
+  return `${clip.name} (${clip.typeName}, ${clip.duration.toFixed(2)}s): ${animations.join('; ') || 'no animations'}`;
+}
+
+function readYsc(rpfPath: string, filePath: string): YscFile {
+  return YscFile.read(new ResourceReader(getResourceOrThrow(rpfPath, filePath)));
+}
+
+// Reloads the archives and drops everything indexed from the old ones
+async function rebuildIndexes(full: boolean): Promise<RpfIndexStats> {
+  const stats = await rpfManager.rebuildIndex(full);
+  textLabelIndex.clear();
+  mapPlacementIndex.clear();
+  archetypeIndex.clear();
+  clipIndex.clear();
+  gameFileSystem.clear();
+  return stats;
+}
+
+// Archives to modify are either loaded top-level game archives or local .rpf files
+async function openRpfForWriting(rpfPath: string): Promise<{ writer: RpfWriter, sourcePath: string, relativePath: string }> {
+  const fs = await import('fs');
+  const path = await import('path');
+
+  let rpf = rpfManager.getRpfFile(rpfPath);
+  if (rpf?.parent) {
+    throw new Error(`Cannot modify nested archive ${rpfPath} directly; extract it, modify the copy and add it back to its parent`);
+  }
+  if (!rpf) {
+    if (!fs.existsSync(rpfPath) || !fs.statSync(rpfPath).isFile()) {
+      throw new Error(`RPF not found: ${rpfPath}`);
+    }
+    rpf = new RpfFile(path.resolve(rpfPath), path.basename(rpfPath), 0);
+    rpf.scanStructure();
+  }
+
+  const relativePath = path.relative(path.resolve(gtaPath), rpf.filePath);
+  return {
+    writer: RpfWriter.fromRpf(rpf),
+    sourcePath: rpf.filePath,
+    relativePath: relativePath.startsWith('..') || path.isAbsolute(relativePath) ? path.basename(rpf.filePath) : relativePath
+  };
+}
+
+// Copies keep the archive's file name, so they can replace the original in a mod
+async function writeRpfCopy(writer: RpfWriter, source: { sourcePath: string, relativePath: string }, outputPath: string | undefined, inPlace: boolean, dryRun: boolean): Promise<{ result: RpfWriteResult, plan: WritePlan }> {
+  const path = await import('path');
+
+  const target = inPlace ? source.sourcePath : writePolicy.resolve(outputPath ?? source.relativePath);
+  if (!inPlace && target === path.resolve(source.sourcePath)) {
+    throw new Error(`Output path is the archive itself; set inPlace to overwrite ${source.sourcePath}`);
+  }
+  return writeArchive(writer, target, dryRun);
+}
+
+// The archive's size is known before any data is copied, so dry runs plan the same write
+async function writeArchive(writer: RpfWriter, outputPath: string, dryRun: boolean): Promise<{ result: RpfWriteResult, plan: WritePlan }> {
+  const path = await import('path');
+
+  const layout = writer.measure();
+  const plan = writePolicy.plan(outputPath, layout.size);
+  if (dryRun) {
+    return { result: { outputPath: plan.path, ...layout }, plan };
+  }
+
+  writePolicy.prepare(plan);
+  const result = writer.write(plan.path);
+
+  // Pick up changes to archives inside the game directory
+  if (!path.relative(path.resolve(gtaPath), plan.path).startsWith('..')) {
+    await rebuildIndexes(false);
+  }
+  return { result, plan };
+}
+
+function describeArchiveChanges(writer: RpfWriter): string[] {
+  const changes = writer.changes.map(change => `${change.action} ${change.path} in archive`);
+  const encryption = describeEncryptionChange(writer);
+  return encryption ? [...changes, encryption] : changes;
+}
+
+function describeEncryptionChange(writer: RpfWriter): string {
+  if (writer.sourceEncryption === undefined) {
+    return '';
+  }
+  return `The table of contents is rewritten with ${RpfEncryption[writer.encryption]} encryption instead of ${RpfEncryption[writer.sourceEncryption]}, which cannot be written`;
+}
+
+// Dry runs list the planned writes in place of the usual summary
+function describeWrites(plans: WritePlan[], dryRun: boolean, summary: string, changes: string[] = []): string {
+  if (!dryRun) {
+    return summary;
+  }
+  return ['Dry run, nothing was written.', ...changes, ...plans.map(plan => WritePolicy.describe(plan))].join('\n');
+}
+
+function formatExtractManifest(manifest: BulkExtractManifest, dryRun: boolean, maxListed: number): string {
+  const output = [
+    `${dryRun ? 'Dry run, nothing was written. Would extract' : 'Extracted'} ${manifest.written} files (${manifest.bytes} bytes) from ${manifest.archives.length} archives to ${manifest.outputDirectory}`,
+    `Skipped: ${manifest.skipped}, failed: ${manifest.failed}`
+  ];
+  if (manifest.truncated > 0) {
+    output.push(`Stopped at maxFiles: ${manifest.truncated} more matching files were not extracted`);
+  }
+  if (manifest.files.length === 0) {
+    output.push('No files matched');
+    return output.join('\n');
+  }
+
+  // Failures first, they are what needs attention
+  const files = [...manifest.files].sort((a, b) => Number(b.status === 'failed') - Number(a.status === 'failed'));
+  output.push('');
+  for (const file of files.slice(0, maxListed)) {
+    const targets = file.outputs.map(plan => dryRun ? WritePolicy.describe(plan) : plan.path).join(', ');
+    output.push(`[${file.status}] ${file.rpfPath}/${file.filePath.replace(/\\/g, '/')}${targets ? ` -> ${targets}` : ''}${file.note ? ` (${file.note})` : ''}`);
+  }
+  if (files.length > maxListed) {
+    output.push(`... ${files.length - maxListed} more files`);
+  }
+  return output.join('\n');
+}
+
+function formatFileChunk(chunk: FileChunk, encoding: 'base64' | 'hex' | 'utf8'): string {
+  const end = chunk.offset + chunk.data.length;
+  const output = [
+    `${chunk.filePath} in ${chunk.rpfPath}${chunk.mode === 'inflated' ? ' (inflated resource)' : ''}: bytes ${chunk.offset}-${end} of ${chunk.size}`
+  ];
+  for (const segment of chunk.segments ?? []) {
+    output.push(`${segment.name} segment: bytes ${segment.offset}-${segment.offset + segment.size}`);
+  }
+  output.push(chunk.nextToken ? `Continuation token: ${chunk.nextToken}` : 'End of file');
+  output.push('', `${encoding === 'utf8' ? 'Text' : encoding === 'hex' ? 'Hex' : 'Base64'} (${chunk.data.length} bytes):`, chunk.data.toString(encoding));
+  return output.join('\n');
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
@@ -105,7 +647,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "read_file",
-        description: "Read the contents of a file from an RPF archive. Returns text content for text files or base64 for binary files.",
+        description: "Read the contents of a file from an RPF archive. Returns text content for text files, XML for binary meta files (.ymt, .ytyp, .ymf, .ymap) or base64 for other binary files. Resource files can be returned as a raw RSC7 container or as decompressed segments.",
         inputSchema: zodToJsonSchema(ReadFileArgsSchema) as ToolInput,
       },
       {
@@ -128,6 +670,176 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         description: "Extract a file from an RPF archive to local filesystem",
         inputSchema: zodToJsonSchema(ExtractFileArgsSchema) as ToolInput,
       },
+      {
+        name: "list_textures",
+        description: "List the textures in a .ytd texture dictionary with their dimensions, format and mip count",
+        inputSchema: zodToJsonSchema(ListTexturesArgsSchema) as ToolInput,
+      },
+      {
+        name: "export_texture",
+        description: "Export a texture from a .ytd texture dictionary as DDS or PNG",
+        inputSchema: zodToJsonSchema(ExportTextureArgsSchema) as ToolInput,
+      },
+      {
+        name: "hash_string",
+        description: "Calculate the JOAAT (Jenkins one-at-a-time) hash of strings, optionally adding them to the hash dictionary",
+        inputSchema: zodToJsonSchema(HashStringArgsSchema) as ToolInput,
+      },
+      {
+        name: "lookup_hash",
+        description: "Resolve JOAAT hashes back to strings using the names of all loaded archive entries and user-supplied strings",
+        inputSchema: zodToJsonSchema(LookupHashArgsSchema) as ToolInput,
+      },
+      {
+        name: "get_text_label",
+        description: "Resolve a localized text label (name or hash) across all GXT2 text archives of a language",
+        inputSchema: zodToJsonSchema(GetTextLabelArgsSchema) as ToolInput,
+      },
+      {
+        name: "search_text",
+        description: "Full-text search of localized game strings (dialogue, UI labels...) in all GXT2 text archives of a language",
+        inputSchema: zodToJsonSchema(SearchTextArgsSchema) as ToolInput,
+      },
+      {
+        name: "list_map_entities",
+        description: "Decode a .ymap map data file: extents, LOD parent, entities with resolved archetype names, car generators and occluders",
+        inputSchema: zodToJsonSchema(ListMapEntitiesArgsSchema) as ToolInput,
+      },
+      {
+        name: "find_map_placements",
+        description: "Find which .ymap files place entities inside a bounding box or radius, optionally for a single archetype, across all archives. The first call decodes every ymap and may take a while",
+        inputSchema: zodToJsonSchema(FindMapPlacementsArgsSchema) as ToolInput,
+      },
+      {
+        name: "find_archetype",
+        description: "Find where a model (archetype) is defined: the .ytyp declaring it, its texture and drawable dictionaries, LOD distance, bounds and flags. The first call indexes every ytyp and may take a while",
+        inputSchema: zodToJsonSchema(FindArchetypeArgsSchema) as ToolInput,
+      },
+      {
+        name: "get_model_info",
+        description: "Inspect a drawable (.ydr), drawable dictionary (.ydd) or fragment (.yft): LODs, models, geometries, vertex declarations, shaders with their parameters, and bone counts",
+        inputSchema: zodToJsonSchema(GetModelInfoArgsSchema) as ToolInput,
+      },
+      {
+        name: "export_model",
+        description: "Export a .ydr, .ydd or .yft model to OBJ or glTF, with materials referencing its textures from the embedded or associated .ytd. Runs entirely on the CPU",
+        inputSchema: zodToJsonSchema(ExportModelArgsSchema) as ToolInput,
+      },
+      {
+        name: "get_bounds_info",
+        description: "Summarize a .ybn collision file: bound tree (composites, BVH geometries, box/sphere/capsule/cylinder primitives), extents, vertex and polygon counts, and polygons per material",
+        inputSchema: zodToJsonSchema(GetBoundsInfoArgsSchema) as ToolInput,
+      },
+      {
+        name: "export_bounds",
+        description: "Export the collision mesh of a .ybn to OBJ, with primitives tessellated and faces grouped per bound and material",
+        inputSchema: zodToJsonSchema(ExportBoundsArgsSchema) as ToolInput,
+      },
+      {
+        name: "query_navmesh",
+        description: "Summarize a .ynv navmesh cell (vertices, polygons by surface, links to neighbouring cells, ladders/climbs/drops) and answer whether there is walkable navmesh near a world position. Give a file, a position, or both; a position alone locates the cell by its grid name",
+        inputSchema: zodToJsonSchema(QueryNavmeshArgsSchema) as ToolInput,
+      },
+      {
+        name: "export_navmesh",
+        description: "Export a .ynv navmesh to OBJ in world coordinates, with polygons grouped by surface (walkable, pavement, steep, water) and special links as lines",
+        inputSchema: zodToJsonSchema(ExportNavmeshArgsSchema) as ToolInput,
+      },
+      {
+        name: "get_audio_info",
+        description: "List the streams of an .awc audio container (e.g. in x64/audio/sfx/*.rpf): stream name or hash, sample rate, channels, codec, duration and chunks",
+        inputSchema: zodToJsonSchema(GetAudioInfoArgsSchema) as ToolInput,
+      },
+      {
+        name: "export_audio",
+        description: "Decode a PCM or ADPCM stream of an .awc audio container to a WAV file for previewing",
+        inputSchema: zodToJsonSchema(ExportAudioArgsSchema) as ToolInput,
+      },
+      {
+        name: "list_animations",
+        description: "List the clips of a .ycd clip dictionary with durations, frame counts and tracks, show one clip's bone ids and tracks, or find which dictionaries contain a clip by name or hash. Searching without a file indexes every ycd on first use and may take a while",
+        inputSchema: zodToJsonSchema(ListAnimationsArgsSchema) as ToolInput,
+      },
+      {
+        name: "export_animation",
+        description: "Export a clip of a .ycd clip dictionary to JSON: time range, rate, animations, bone tracks, keyframe times and the compressed channel data of each sequence",
+        inputSchema: zodToJsonSchema(ExportAnimationArgsSchema) as ToolInput,
+      },
+      {
+        name: "get_script_info",
+        description: "Inspect a compiled .ysc script (from script.rpf or update.rpf): name, code page layout, parameter, static and global counts, native hash table, string table and functions",
+        inputSchema: zodToJsonSchema(GetScriptInfoArgsSchema) as ToolInput,
+      },
+      {
+        name: "disassemble_script",
+        description: "Disassemble a compiled .ysc script into an opcode listing, with jump and call targets resolved, string references shown and native hashes named from a user-supplied native database",
+        inputSchema: zodToJsonSchema(DisassembleScriptArgsSchema) as ToolInput,
+      },
+      {
+        name: "grep_files",
+        description: "Search the decompressed contents of archive files for text, a regular expression, a byte pattern or a name hash, scoped by archive glob, directory and extension. Returns each match's archive, file path, offset and a context snippet, e.g. to find which meta files reference a model",
+        inputSchema: zodToJsonSchema(GrepFilesArgsSchema) as ToolInput,
+      },
+      {
+        name: "rebuild_index",
+        description: "Reload the archive index. Archive tables of contents are cached on disk and reused while an archive's size and modification time are unchanged; use this after modifying game files or if the cache is suspected to be stale",
+        inputSchema: zodToJsonSchema(RebuildIndexArgsSchema) as ToolInput,
+      },
+      {
+        name: "get_index_status",
+        description: "Report how far archive loading has progressed. Archives are loaded in the background after startup, and on demand when a tool needs one that is not loaded yet",
+        inputSchema: zodToJsonSchema(GetIndexStatusArgsSchema) as ToolInput,
+      },
+      {
+        name: "resolve_game_path",
+        description: "Find which archive actually supplies a file at runtime. Applies update.rpf overrides, DLC mount points (dlc_xxx:/) and DLC load order from dlclist.xml and setup2.xml, and lists the copies that are overridden or never mounted",
+        inputSchema: zodToJsonSchema(ResolveGamePathArgsSchema) as ToolInput,
+      },
+      {
+        name: "find_file_copies",
+        description: "Find every archive containing a given file, with sizes and content hashes, marking the copy the game uses. Without a name, report all files shipped in more than one archive and whether their copies differ, e.g. to find why a modded file is shadowed by an update or DLC copy",
+        inputSchema: zodToJsonSchema(FindFileCopiesArgsSchema) as ToolInput,
+      },
+      {
+        name: "create_rpf",
+        description: "Create a new RPF7 archive from a local directory and/or individual local files, e.g. to package a mod",
+        inputSchema: zodToJsonSchema(CreateRpfArgsSchema) as ToolInput,
+      },
+      {
+        name: "add_file_to_rpf",
+        description: "Add a local file to an archive, or replace the file at that path. Writes a modified copy of the archive unless inPlace is set; the archive keeps its encryption scheme, except that NG archives are rewritten with OPEN encryption",
+        inputSchema: zodToJsonSchema(AddFileToRpfArgsSchema) as ToolInput,
+      },
+      {
+        name: "remove_file_from_rpf",
+        description: "Remove a file, or a directory and everything below it, from an archive. Writes a modified copy of the archive unless inPlace is set",
+        inputSchema: zodToJsonSchema(RemoveFileFromRpfArgsSchema) as ToolInput,
+      },
+      {
+        name: "extract_directory",
+        description: "Extract a directory, or whole archives, recreating the tree on disk. Can recurse into nested archives, flatten, skip files extracted before and convert resources to textures, XML or text. Returns a manifest of what was written",
+        inputSchema: zodToJsonSchema(ExtractDirectoryArgsSchema) as ToolInput,
+      },
+      {
+        name: "extract_matching",
+        description: "Extract every file matching a glob from one or more archives, recreating the tree on disk, with the same options as extract_directory. Returns a manifest of what was written",
+        inputSchema: zodToJsonSchema(ExtractMatchingArgsSchema) as ToolInput,
+      },
+      {
+        name: "read_file_chunk",
+        description: "Read part of a file from an RPF archive, for files too large for read_file. Uncompressed files are read at any offset directly; compressed files and resource segments are inflated incrementally. Each chunk returns a continuation token for the next one",
+        inputSchema: zodToJsonSchema(ReadFileChunkArgsSchema) as ToolInput,
+      },
+      {
+        name: "hexdump_file",
+        description: "Hex dump part of a file from an RPF archive, 16 bytes per line with an ASCII column. In annotated mode the header fields of RSC7, RPF7, PSO and RBF files are listed next to the bytes they describe",
+        inputSchema: zodToJsonSchema(HexdumpFileArgsSchema) as ToolInput,
+      },
+      {
+        name: "inspect_binary",
+        description: "Decode a binary structure in a file with a declarative template and list each field's offset, size, type and value. Built-in templates cover RSC7, RPF7, PSO and RBF headers; custom templates support nested structures, arrays and counts or offsets taken from earlier fields",
+        inputSchema: zodToJsonSchema(InspectBinaryArgsSchema) as ToolInput,
+      },
     ],
   };
 });
@@ -151,11 +863,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           rpfList = rpfList.filter(rpf => rpf.toLowerCase().includes(pattern));
         }
 
+        // Nested archives are only known once their parent has been read
+        const { pending } = rpfManager.getIndexStatus();
+        const loading = pending > 0
+          ? `\n\n${pending} archives are still loading; nested archives inside them are not listed yet (see get_index_status)`
+          : '';
+
         return {
           content: [{
             type: "text",
             text: rpfList.length > 0
-              ? `Found ${rpfList.length} RPF files:\n${rpfList.join('\n')}`
+              ? `Found ${rpfList.length} RPF files:\n${rpfList.join('\n')}${loading}`
               : "No RPF files found matching the criteria"
           }],
         };
@@ -206,29 +924,80 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Invalid arguments: ${parsed.error}`);
         }
 
-        const content = rpfManager.getFileContent(parsed.data.rpfPath, parsed.data.filePath);
+        if (parsed.data.resourceMode === 'segments') {
+          const resourceEntry = rpfManager.getRpfFile(parsed.data.rpfPath)?.findEntry(parsed.data.filePath);
+          const inflatedSize = resourceEntry instanceof RpfResourceFileEntry ? resourceEntry.systemSize + resourceEntry.graphicsSize : 0;
+          if (inflatedSize > MAX_READ_FILE_SIZE) {
+            throw new Error(`${parsed.data.filePath} inflates to ${inflatedSize} bytes, too large to return at once; use read_file_chunk with resourceMode "segments" to read it in parts`);
+          }
+          const resource = getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath);
 
-        if (!content) {
-          throw new Error(`File not found: ${parsed.data.filePath} in ${parsed.data.rpfPath}`);
+          return {
+            content: [{
+              type: "text",
+              text: [
+                `Resource version: ${resource.version}`,
+                `System segment (${resource.systemData.length} bytes). Base64: ${resource.systemData.toString('base64')}`,
+                `Graphics segment (${resource.graphicsData.length} bytes). Base64: ${resource.graphicsData.toString('base64')}`
+              ].join('\n')
+            }],
+          };
         }
 
         const fileExt = parsed.data.filePath.split('.').pop()?.toLowerCase() || '';
-        const textExtensions = ['txt', 'xml', 'meta', 'dat', 'gxt2', 'cfg', 'ini', 'ymt', 'ytyp', 'ymf'];
+        const metaExtensions = ['ymt', 'ytyp', 'ymf', 'ymap'];
 
-        if (textExtensions.includes(fileExt)) {
-          try {
-            const textContent = content.toString('utf-8');
-            return {
-              content: [{
-                type: "text",
-                text: textContent
-              }],
-            };
-          } catch {
-            return {
-              content: [{
-                type: "text",
-                text: `Binary file (${content.length} bytes). Base64: ${content.toString('base64')}`
+        if (fileExt === 'gxt2' && !parsed.data.raw) {
+          const gxt2Content = rpfManager.getFileContent(parsed.data.rpfPath, parsed.data.filePath);
+
+          if (!gxt2Content) {
+            throw new Error(`File not found: ${parsed.data.filePath} in ${parsed.data.rpfPath}`);
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: Gxt2File.read(gxt2Content).toText()
+            }],
+          };
+        }
+
+        if (metaExtensions.includes(fileExt) && !parsed.data.raw) {
+          return {
+            content: [{
+              type: "text",
+              text: readMetaXml(parsed.data.rpfPath, parsed.data.filePath)
+            }],
+          };
+        }
+
+        const entry = rpfManager.getRpfFile(parsed.data.rpfPath)?.findEntry(parsed.data.filePath);
+        if (entry instanceof RpfFileEntry && entry.getContentSize() > MAX_READ_FILE_SIZE) {
+          throw new Error(`${parsed.data.filePath} is ${entry.getContentSize()} bytes, too large to return at once; use read_file_chunk to read it in parts`);
+        }
+
+        const content = rpfManager.getFileContent(parsed.data.rpfPath, parsed.data.filePath);
+
+        if (!content) {
+          throw new Error(`File not found: ${parsed.data.filePath} in ${parsed.data.rpfPath}`);
+        }
+
+        const textExtensions = ['txt', 'xml', 'meta', 'dat', 'cfg', 'ini'];
+
+        if (textExtensions.includes(fileExt)) {
+          try {
+            const textContent = content.toString('utf-8');
+            return {
+              content: [{
+                type: "text",
+                text: textContent
+              }],
+            };
+          } catch {
+            return {
+              content: [{
+                type: "text",
+                text: `Binary file (${content.length} bytes). Base64: ${content.toString('base64')}`
               }],
             };
           }
@@ -268,6 +1037,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             output.push(`Uncompressed Size: ${info.compressedSize} bytes`);
           }
           output.push(`Encrypted: ${info.encrypted}`);
+          if (info.resource) {
+            output.push(`Resource Version: ${info.resource.version}`);
+            output.push(`System Segment: ${info.resource.systemSize} bytes`);
+            output.push(`Graphics Segment: ${info.resource.graphicsSize} bytes`);
+          }
         }
 
         return {
@@ -346,54 +1120,1347 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Invalid arguments: ${parsed.error}`);
         }
 
+        const { outputPath, dryRun } = parsed.data;
+
+        if (parsed.data.resourceMode === 'segments') {
+          const resource = getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath);
+          const system = await writePolicy.writeFile(`${outputPath}.system`, resource.systemData, dryRun);
+          const graphics = await writePolicy.writeFile(`${outputPath}.graphics`, resource.graphicsData, dryRun);
+
+          return {
+            content: [{
+              type: "text",
+              text: describeWrites([system, graphics], dryRun,
+                `Successfully extracted ${parsed.data.filePath} (resource version ${resource.version}) to ${system.path} (${resource.systemData.length} bytes) and ${graphics.path} (${resource.graphicsData.length} bytes)`)
+            }],
+          };
+        }
+
         const content = rpfManager.getFileContent(parsed.data.rpfPath, parsed.data.filePath);
 
         if (!content) {
           throw new Error(`File not found: ${parsed.data.filePath} in ${parsed.data.rpfPath}`);
         }
 
-        const fs = await import('fs/promises');
-        const path = await import('path');
+        const plan = await writePolicy.writeFile(outputPath, content, dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], dryRun, `Successfully extracted ${parsed.data.filePath} to ${plan.path} (${content.length} bytes)`)
+          }],
+        };
+      }
+
+      case "list_textures": {
+
+        const parsed = ListTexturesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
 
-        const outputDir = path.dirname(parsed.data.outputPath);
-        await fs.mkdir(outputDir, { recursive: true });
-        await fs.writeFile(parsed.data.outputPath, content);
+        const ytd = readYtd(parsed.data.rpfPath, parsed.data.filePath);
+
+        if (ytd.textures.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No textures found in ${parsed.data.filePath}`
+            }],
+          };
+        }
+
+        const output = [`Found ${ytd.textures.length} textures:\n`];
+
+        ytd.textures.forEach(texture => {
+          output.push(`${texture.name} - ${texture.width}x${texture.height}, ${texture.formatName}, ${texture.levels} mips`);
+        });
 
         return {
           content: [{
             type: "text",
-            text: `Successfully extracted ${parsed.data.filePath} to ${parsed.data.outputPath} (${content.length} bytes)`
+            text: output.join('\n')
           }],
         };
       }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return {
-      content: [{ type: "text", text: `Error: ${errorMessage}` }],
-      isError: true,
-    };
-  }
-});
+      case "export_texture": {
 
-async function runServer() {
-  try {
-    console.error("Initializing GTA V Browser MCP Server...");
-    console.error(`GTA V Directory: ${gtaPath}`);
+        const parsed = ExportTextureArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
 
-    // Initialize RPF manager with the provided path
-    console.error("Loading RPF archives...");
-    await rpfManager.init(gtaPath);
-    const rpfCount = rpfManager.getRpfList().length;
-    console.error(`Successfully loaded ${rpfCount} RPF archives`);
+        const ytd = readYtd(parsed.data.rpfPath, parsed.data.filePath);
+        const texture = ytd.findTexture(parsed.data.textureName);
 
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+        if (!texture) {
+          throw new Error(`Texture not found: ${parsed.data.textureName} in ${parsed.data.filePath}`);
+        }
 
-    console.error("GTA V Browser MCP Server ready on stdio");
+        const content = parsed.data.format === 'dds'
+          ? YtdFile.toDds(texture)
+          : YtdFile.toPng(texture, parsed.data.mipLevel);
+
+        const plan = await writePolicy.writeFile(parsed.data.outputPath, content, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun,
+              `Successfully exported ${texture.name} (${texture.width}x${texture.height}, ${texture.formatName}) to ${plan.path} (${content.length} bytes)`)
+          }],
+        };
+      }
+
+      case "hash_string": {
+
+        const parsed = HashStringArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const output = parsed.data.strings.map(text => {
+          const hash = JenkHash.joaat(text);
+          return `${text}: ${JenkHash.format(hash)} (unsigned ${hash}, signed ${hash | 0})`;
+        });
+
+        if (parsed.data.addToDictionary) {
+          const added = HashDictionary.addUserStrings(parsed.data.strings);
+          output.push(`\nAdded ${added} new strings to the hash dictionary`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "lookup_hash": {
+
+        const parsed = LookupHashArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const output = parsed.data.hashes.map(value => {
+          const hash = JenkHash.parse(value);
+          if (hash === null) {
+            return `${value}: invalid hash`;
+          }
+
+          const name = HashDictionary.get(hash);
+          return `${JenkHash.format(hash)}: ${name ?? 'unknown'}`;
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "get_text_label": {
+
+        const parsed = GetTextLabelArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const labels = textLabelIndex.getLabel(parsed.data.language, parsed.data.label);
+
+        if (labels.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `Text label not found: ${parsed.data.label} (${parsed.data.language})`
+            }],
+          };
+        }
+
+        const output = [`${HashDictionary.format(labels[0].hash)} (${JenkHash.format(labels[0].hash)}): ${labels[0].text}`];
+
+        if (labels.length > 1) {
+          output.push(`\nDefined in ${labels.length} text tables:`);
+        }
+        labels.forEach(label => {
+          output.push(`${label.rpfPath}:${label.filePath}${labels.length > 1 ? ` = ${label.text}` : ''}`);
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "search_text": {
+
+        const parsed = SearchTextArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { results, total } = textLabelIndex.search(
+          parsed.data.language,
+          parsed.data.query,
+          parsed.data.regex,
+          parsed.data.limit
+        );
+
+        if (total === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No text found matching: ${parsed.data.query} (${parsed.data.language})`
+            }],
+          };
+        }
+
+        const output = [`Found ${total} matches:\n`];
+
+        results.forEach(label => {
+          output.push(`${HashDictionary.format(label.hash)} [${label.rpfPath}:${label.filePath}]: ${label.text}`);
+        });
+
+        if (total > results.length) {
+          output.push(`\n... and ${total - results.length} more results`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "list_map_entities": {
+
+        const parsed = ListMapEntitiesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const ymap = YmapFile.read(new ResourceReader(getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath)));
+        const formatVector = (v: number[]) => v.map(c => +c.toFixed(3)).join(', ');
+
+        const output = [
+          `Map: ${ymap.name}`,
+          `LOD Parent: ${ymap.parent || 'none'}`,
+          `Flags: ${ymap.flags}`,
+          `Content: ${YmapFile.formatContentFlags(ymap.contentFlags)}`,
+          `Streaming Extents: (${formatVector(ymap.streamingExtents.min)}) - (${formatVector(ymap.streamingExtents.max)})`,
+          `Entities Extents: (${formatVector(ymap.entitiesExtents.min)}) - (${formatVector(ymap.entitiesExtents.max)})`,
+          `Car Generators: ${ymap.carGenerators.length}`,
+          `Box Occluders: ${ymap.boxOccluders.length}`,
+          `Occlude Models: ${ymap.occludeModels.length}`,
+          '',
+          `Found ${ymap.entities.length} entities:\n`
+        ];
+
+        ymap.entities.slice(0, parsed.data.limit).forEach(entity => {
+          const parent = entity.parentIndex >= 0 ? `, parent #${entity.parentIndex}` : '';
+          const type = entity.type === 'CEntityDef' ? '' : ` [${entity.type}]`;
+          output.push(`#${entity.index} ${entity.archetypeName}${type} at (${formatVector(entity.position)}) ${entity.lodLevel}, lodDist ${entity.lodDist}${parent}`);
+        });
+
+        if (ymap.entities.length > parsed.data.limit) {
+          output.push(`\n... and ${ymap.entities.length - parsed.data.limit} more results`);
+        }
+
+        if (ymap.carGenerators.length > 0) {
+          output.push('', 'Car Generators:');
+          ymap.carGenerators.forEach(carGen => {
+            output.push(`${carGen.carModel || '(random)'} at (${formatVector(carGen.position)})${carGen.popGroup ? `, group ${carGen.popGroup}` : ''}`);
+          });
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "find_map_placements": {
+
+        const parsed = FindMapPlacementsArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { center, radius, min, max, archetype, limit } = parsed.data;
+        let area: MapQueryArea | null = null;
+        if (center && radius !== undefined) {
+          area = { center, radius };
+        } else if (min && max) {
+          area = { min, max };
+        } else if (center || radius !== undefined || min || max) {
+          throw new Error('Specify either center and radius, or min and max');
+        }
+
+        if (!area && !archetype) {
+          throw new Error('Specify an area (center/radius or min/max), an archetype, or both');
+        }
+
+        const archetypeHash = archetype ? JenkHash.parse(archetype) ?? HashDictionary.add(archetype) : null;
+        const { results, total, entityCount } = mapPlacementIndex.query(area, archetypeHash, limit);
+
+        if (total === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No map placements found"
+            }],
+          };
+        }
+
+        const output = [`Found ${entityCount} entities in ${total} ymaps:\n`];
+
+        results.forEach(placement => {
+          output.push(`${placement.rpfPath}:${placement.filePath} (${placement.entities.length} entities)`);
+          placement.entities.slice(0, 20).forEach(entity => {
+            output.push(`  #${entity.index} ${entity.archetypeName} at (${entity.position.map(c => +c.toFixed(3)).join(', ')})`);
+          });
+          if (placement.entities.length > 20) {
+            output.push(`  ... and ${placement.entities.length - 20} more`);
+          }
+        });
+
+        if (total > results.length) {
+          output.push(`\n... and ${total - results.length} more results`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "find_archetype": {
+
+        const parsed = FindArchetypeArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const hash = JenkHash.parse(parsed.data.name) ?? HashDictionary.add(parsed.data.name);
+        const locations = archetypeIndex.find(hash);
+
+        if (locations.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `No archetype definition found for: ${parsed.data.name}`
+            }],
+          };
+        }
+
+        const formatVector = (v: number[]) => v.map(c => +c.toFixed(3)).join(', ');
+        const output = [`Found ${locations.length} definitions of ${HashDictionary.format(hash)}:`];
+
+        locations.forEach(({ rpfPath, filePath, archetype }) => {
+          output.push('');
+          output.push(`${rpfPath}:${filePath}`);
+          output.push(`  Type: ${archetype.type}${archetype.assetType ? ` (${archetype.assetType})` : ''}`);
+          output.push(`  Asset: ${archetype.assetName || 'none'}`);
+          output.push(`  Texture Dictionary: ${archetype.textureDictionary || 'none'}`);
+          output.push(`  Drawable Dictionary: ${archetype.drawableDictionary || 'none'}`);
+          if (archetype.clipDictionary) output.push(`  Clip Dictionary: ${archetype.clipDictionary}`);
+          if (archetype.physicsDictionary) output.push(`  Physics Dictionary: ${archetype.physicsDictionary}`);
+          output.push(`  LOD Distance: ${archetype.lodDist}, HD Texture Distance: ${archetype.hdTextureDist}`);
+          output.push(`  Flags: ${archetype.flags}, Special Attribute: ${archetype.specialAttribute}`);
+          output.push(`  Bounding Box: (${formatVector(archetype.bbMin)}) - (${formatVector(archetype.bbMax)})`);
+          output.push(`  Bounding Sphere: (${formatVector(archetype.bsCentre)}), radius ${+archetype.bsRadius.toFixed(3)}`);
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "get_model_info": {
+
+        const parsed = GetModelInfoArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const drawables = readDrawables(parsed.data.rpfPath, parsed.data.filePath, parsed.data.drawableName);
+        const formatVector = (v: number[]) => v.map(c => +c.toFixed(3)).join(', ');
+        const output = [`Found ${drawables.length} drawables:`];
+
+        drawables.forEach(drawable => {
+          output.push('');
+          output.push(`Drawable: ${drawable.name}`);
+          output.push(`Bounding Sphere: (${formatVector(drawable.boundingCenter)}), radius ${+drawable.boundingRadius.toFixed(3)}`);
+          output.push(`Bounding Box: (${formatVector(drawable.bbMin)}) - (${formatVector(drawable.bbMax)})`);
+          output.push(`Bones: ${drawable.boneCount}`);
+          if (drawable.textureDictionary) {
+            output.push(`Embedded Textures: ${drawable.textureDictionary.textures.map(t => t.name).join(', ')}`);
+          }
+
+          output.push('LODs:');
+          drawable.lods.forEach(lod => {
+            output.push(`  ${lod.level} (distance ${lod.distance}): ${lod.models.length} models`);
+            lod.models.forEach((model, m) => {
+              const binding = model.hasSkin ? 'skinned' : `bone ${model.boneIndex}`;
+              output.push(`    Model ${m}: ${model.geometries.length} geometries, render mask 0x${model.renderMask.toString(16)}, ${binding}`);
+              model.geometries.forEach((geometry, g) => {
+                output.push(`      Geometry ${g}: shader ${geometry.shaderIndex}, ${geometry.vertexCount} vertices, ${geometry.indexCount} indices (${geometry.triangleCount} triangles), stride ${geometry.vertexStride}${geometry.boneIdCount ? `, ${geometry.boneIdCount} bone ids` : ''}`);
+                output.push(`        Vertex layout: ${geometry.declaration.components.map(c => `${c.semantic} ${c.type} @${c.offset}`).join(', ')}`);
+              });
+            });
+          });
+
+          output.push('Shaders:');
+          drawable.shaders.forEach((shader, i) => {
+            output.push(`  ${i}: ${shader.name} (${shader.fileName}), render bucket ${shader.renderBucket}`);
+            shader.parameters.forEach(parameter => {
+              const value = parameter.texture !== undefined
+                ? parameter.texture || '(none)'
+                : (parameter.values ?? []).map(v => `(${formatVector(v)})`).join(' ');
+              output.push(`    ${parameter.name} = ${value}`);
+            });
+          });
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "export_model": {
+
+        const parsed = ExportModelArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { rpfPath, filePath, format, lod, textureFormat, dryRun } = parsed.data;
+        const drawables = readDrawables(rpfPath, filePath, parsed.data.drawableName);
+        if (drawables.length !== 1) {
+          throw new Error(`${filePath} contains ${drawables.length} drawables, specify drawableName: ${drawables.map(d => d.name).join(', ')}`);
+        }
+        const drawable = drawables[0];
+
+        const path = await import('path');
+
+        // Materials and textures are written next to the model, wherever the policy resolves it
+        const outputPath = writePolicy.resolve(parsed.data.outputPath);
+        const outputDir = path.dirname(outputPath);
+
+        const plans: WritePlan[] = [];
+        if (format === 'obj') {
+          const mtlPath = path.join(outputDir, `${path.parse(outputPath).name}.mtl`);
+          const { obj, mtl } = ModelExporter.toObj(drawable, lod, path.basename(mtlPath), textureFormat);
+          plans.push(await writePolicy.writeFile(outputPath, obj, dryRun));
+          plans.push(await writePolicy.writeFile(mtlPath, mtl, dryRun));
+        } else {
+          plans.push(await writePolicy.writeFile(outputPath, ModelExporter.toGltf(drawable, lod, textureFormat), dryRun));
+        }
+
+        const output = [`Successfully exported ${drawable.name} (${lod} LOD) to:`, ...plans.map(plan => plan.path)];
+
+        if (parsed.data.exportTextures) {
+          const { textures, missing } = modelTextureResolver.resolve(drawable, rpfPath, filePath);
+          for (const { texture, source } of textures.values()) {
+            const texturePath = path.join(outputDir, `${texture.name}.${textureFormat}`);
+            const plan = await writePolicy.writeFile(texturePath, textureFormat === 'dds' ? YtdFile.toDds(texture) : YtdFile.toPng(texture), dryRun);
+            plans.push(plan);
+            output.push(`${plan.path} (from ${source})`);
+          }
+          if (missing.length > 0) {
+            output.push(`\nTextures not found: ${missing.join(', ')}`);
+          }
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites(plans, dryRun, output.join('\n'))
+          }],
+        };
+      }
+
+      case "get_bounds_info": {
+
+        const parsed = GetBoundsInfoArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const root = YbnFile.read(new ResourceReader(getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath)));
+        const bounds = YbnFile.flatten(root);
+        const formatVector = (v: number[]) => v.map(c => +c.toFixed(3)).join(', ');
+
+        const materialCounts = new Map<number, number>();
+        let vertexCount = 0;
+        let polygonCount = 0;
+        for (const { bound } of bounds) {
+          vertexCount += bound.vertices.length;
+          polygonCount += bound.polygons.length;
+          for (const polygon of bound.polygons) {
+            materialCounts.set(polygon.material, (materialCounts.get(polygon.material) ?? 0) + 1);
+          }
+        }
+
+        const output = [
+          `Bounds: ${parsed.data.filePath}`,
+          `Box: (${formatVector(root.boxMin)}) - (${formatVector(root.boxMax)})`,
+          `Sphere: (${formatVector(root.sphereCenter)}), radius ${+root.sphereRadius.toFixed(3)}`,
+          `Vertices: ${vertexCount}`,
+          `Polygons: ${polygonCount}`,
+          `Polygons per material: ${Array.from(materialCounts).sort((a, b) => a[0] - b[0]).map(([material, count]) => `${material}: ${count}`).join(', ') || 'none'}`,
+          '',
+          `Found ${bounds.length} bounds:\n`
+        ];
+
+        bounds.forEach(({ bound, transform, path }) => {
+          const details: string[] = [];
+          if (bound.type === BoundType.Composite) {
+            details.push(`${bound.children.length} children`);
+          } else if (bound.type === BoundType.Geometry || bound.type === BoundType.GeometryBVH) {
+            const types = new Map<string, number>();
+            bound.polygons.forEach(p => types.set(p.type, (types.get(p.type) ?? 0) + 1));
+            details.push(`${bound.vertices.length} vertices`);
+            details.push(`${bound.polygons.length} polygons (${Array.from(types).map(([type, count]) => `${count} ${type}`).join(', ')})`);
+            details.push(`materials ${bound.materials.map(m => m.type).join(', ') || 'none'}`);
+          } else {
+            details.push(`material ${bound.materialType}`);
+          }
+          if (bound.bvhNodeCount) {
+            details.push(`BVH ${bound.bvhNodeCount} nodes`);
+          }
+          details.push(`box (${formatVector(bound.boxMin)}) - (${formatVector(bound.boxMax)})`);
+          if (path) {
+            details.push(`offset (${formatVector(transform.slice(12, 15))})`);
+          }
+          output.push(`[${path || 'root'}] ${bound.typeName}: ${details.join(', ')}`);
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "export_bounds": {
+
+        const parsed = ExportBoundsArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const root = YbnFile.read(new ResourceReader(getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath)));
+
+        const name = parsed.data.filePath.split(/[\/\\]/).pop()!.replace(/\.[^.]+$/, '');
+        const content = YbnFile.toObj(root, name);
+
+        const plan = await writePolicy.writeFile(parsed.data.outputPath, content, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun,
+              `Successfully exported collision mesh of ${parsed.data.filePath} to ${plan.path} (${content.length} bytes)`)
+          }],
+        };
+      }
+
+      case "query_navmesh": {
+
+        const parsed = QueryNavmeshArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { rpfPath, filePath, position, radius, limit } = parsed.data;
+        if (!filePath && !position) {
+          throw new Error('Either filePath or position is required');
+        }
+        if (filePath && !rpfPath) {
+          throw new Error('rpfPath is required with filePath');
+        }
+        if (position && radius >= NAVMESH_CELL_SIZE) {
+          throw new Error(`Radius must be smaller than the navmesh cell size (${NAVMESH_CELL_SIZE})`);
+        }
+
+        const cells = filePath ? [{ rpfPath: rpfPath!, filePath }] : findNavmeshCells(position!, radius);
+        if (cells.length === 0) {
+          throw new Error(`No navmesh cell found for position (${position!.join(', ')}); expected ${YnvFile.getCellName(position![0], position![1])}.ynv`);
+        }
+
+        const formatVector = (v: number[]) => v.map(c => +c.toFixed(3)).join(', ');
+        const output: string[] = [];
+        const hits: { cell: string, hit: NavMeshHit }[] = [];
+
+        for (const cell of cells) {
+          const ynv = YnvFile.read(new ResourceReader(getResourceOrThrow(cell.rpfPath, cell.filePath)));
+          const count = (predicate: (polygon: NavMeshPolygon) => boolean) => ynv.polygons.filter(predicate).length;
+          const neighbours = new Set<number>();
+          let openEdges = 0;
+          for (const polygon of ynv.polygons) {
+            for (const edge of polygon.edges) {
+              if (edge.areaId < 0) openEdges++;
+              else if (edge.areaId !== ynv.areaId) neighbours.add(edge.areaId);
+            }
+          }
+
+          output.push(
+            `Navmesh: ${cell.filePath} (${cell.rpfPath})`,
+            `Area ID: ${ynv.areaId}`,
+            `Box: (${formatVector(ynv.aabbMin)}) - (${formatVector(ynv.aabbMax)})`,
+            `Vertices: ${ynv.vertices.length}`,
+            `Polygons: ${ynv.polygons.length} (${count(YnvFile.isWalkable)} walkable, ${count(p => p.isPavement)} pavement, ${count(p => p.isSteep)} steep, ${count(p => p.isWater)} water)`,
+            `Open edges: ${openEdges}`,
+            `Neighbouring areas: ${Array.from(neighbours).sort((a, b) => a - b).join(', ') || 'none'}`,
+            `Cover points: ${ynv.coverPointCount}`,
+            `Special links: ${ynv.links.length}`
+          );
+          ynv.links.slice(0, limit).forEach(link => {
+            output.push(`  type ${link.type}: (${formatVector(link.from)}) -> (${formatVector(link.to)}), polygon ${link.areaFrom}:${link.polygonFrom} -> ${link.areaTo}:${link.polygonTo}`);
+          });
+          if (ynv.links.length > limit) {
+            output.push(`  ... and ${ynv.links.length - limit} more links`);
+          }
+          output.push('');
+
+          if (position) {
+            ynv.findNear(position, radius).forEach(hit => hits.push({ cell: cell.filePath, hit }));
+          }
+        }
+
+        if (position) {
+          hits.sort((a, b) => a.hit.distance - b.hit.distance);
+          const walkable = hits.filter(({ hit }) => YnvFile.isWalkable(hit.polygon));
+          output.push(walkable.length > 0
+            ? `Walkable navmesh near (${formatVector(position)}): yes, nearest at ${+walkable[0].hit.distance.toFixed(3)} (${formatVector(walkable[0].hit.point)})`
+            : `Walkable navmesh near (${formatVector(position)}): no, nothing walkable within ${radius}`);
+
+          if (hits.length > 0) {
+            output.push(`Found ${hits.length} polygons within ${radius}:\n`);
+            hits.slice(0, limit).forEach(({ cell, hit }) => {
+              const surface = [hit.polygon.isPavement && 'pavement', hit.polygon.isSteep && 'steep', hit.polygon.isWater && 'water'].filter(Boolean).join(', ');
+              output.push(`${cell} #${hit.polygon.index}: distance ${+hit.distance.toFixed(3)} at (${formatVector(hit.point)}), flags 0x${hit.polygon.flags.toString(16)}${surface ? ` (${surface})` : ''}`);
+            });
+            if (hits.length > limit) {
+              output.push(`\n... and ${hits.length - limit} more results`);
+            }
+          }
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n').trimEnd()
+          }],
+        };
+      }
+
+      case "export_navmesh": {
+
+        const parsed = ExportNavmeshArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const ynv = YnvFile.read(new ResourceReader(getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath)));
+
+        const name = parsed.data.filePath.split(/[\/\\]/).pop()!.replace(/\.[^.]+$/, '');
+        const content = ynv.toObj(name);
+
+        const plan = await writePolicy.writeFile(parsed.data.outputPath, content, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun, `Successfully exported navmesh ${parsed.data.filePath} to ${plan.path} (${content.length} bytes)`)
+          }],
+        };
+      }
+
+      case "get_audio_info": {
+
+        const parsed = GetAudioInfoArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const awc = readAwc(parsed.data.rpfPath, parsed.data.filePath);
+        const output = [
+          `Audio container: ${parsed.data.filePath}`,
+          `Version: ${awc.version}, flags 0x${awc.flags.toString(16)}${awc.isEncrypted ? ' (audio data encrypted)' : ''}`
+        ];
+        if (awc.blockStream) {
+          output.push(`Streamed: ${awc.blockStream.channelCount} channels in ${awc.blockStream.blockCount} blocks of ${awc.blockStream.blockSize} bytes`);
+        }
+        output.push('', `Found ${awc.streams.length} streams:\n`);
+
+        for (const stream of awc.streams) {
+          output.push(`${AwcFile.formatStreamName(stream)}: ${stream.codecName}, ${stream.sampleRate} Hz, ${stream.channels} channel${stream.channels === 1 ? '' : 's'}, ${stream.sampleCount} samples (${stream.duration.toFixed(2)}s)`);
+          output.push(`  chunks: ${stream.chunks.map(chunk => `${chunk.typeName} (${chunk.size} bytes)`).join(', ')}`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "export_audio": {
+
+        const parsed = ExportAudioArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const awc = readAwc(parsed.data.rpfPath, parsed.data.filePath);
+        let stream = awc.streams[0];
+        if (parsed.data.stream) {
+          const found = awc.findStream(AwcFile.parseStreamId(parsed.data.stream));
+          if (!found) {
+            throw new Error(`Stream not found: ${parsed.data.stream}. Available: ${awc.streams.map(s => AwcFile.formatStreamName(s)).join(', ')}`);
+          }
+          stream = found;
+        } else if (awc.streams.length !== 1) {
+          throw new Error(`The container has ${awc.streams.length} streams; specify one of: ${awc.streams.map(s => AwcFile.formatStreamName(s)).join(', ')}`);
+        }
+
+        const wav = awc.toWav(stream);
+        const plan = await writePolicy.writeFile(parsed.data.outputPath, wav, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun,
+              `Successfully exported ${AwcFile.formatStreamName(stream)} (${stream.codecName}, ${stream.duration.toFixed(2)}s) to ${plan.path} (${wav.length} bytes)`)
+          }],
+        };
+      }
+
+      case "list_animations": {
+
+        const parsed = ListAnimationsArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { rpfPath, filePath, clip: clipName, limit } = parsed.data;
+
+        if (!filePath) {
+          if (!clipName) {
+            throw new Error('Either filePath or clip is required');
+          }
+
+          const hash = JenkHash.parse(clipName) ?? HashDictionary.add(clipName);
+          const locations = clipIndex.find(hash);
+          if (locations.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `No clip found for: ${clipName}`
+              }],
+            };
+          }
+
+          const output = [`Found ${locations.length} dictionaries containing ${HashDictionary.format(hash)}:\n`];
+          locations.forEach(location => output.push(`${location.rpfPath}:${location.filePath}\n  ${formatClip(location.clip)}`));
+          return {
+            content: [{
+              type: "text",
+              text: output.join('\n')
+            }],
+          };
+        }
+
+        if (!rpfPath) {
+          throw new Error('rpfPath is required with filePath');
+        }
+
+        const ycd = YcdFile.read(new ResourceReader(getResourceOrThrow(rpfPath, filePath)));
+
+        if (clipName) {
+          const clip = ycd.findClip(clipName);
+          if (!clip) {
+            throw new Error(`Clip not found: ${clipName}`);
+          }
+
+          const output = [formatClip(clip)];
+          clip.animations.forEach(({ animation, startTime, endTime, rate }) => {
+            output.push('', `Range ${startTime.toFixed(3)}-${endTime.toFixed(3)}s at rate ${rate}`);
+            if (!animation) return;
+
+            output.push(`${HashDictionary.format(animation.hash)}: ${animation.frames} frames in ${animation.sequences.length} sequences`);
+            animation.tracks.forEach(track => output.push(`  bone ${track.boneId}: ${track.trackName}`));
+          });
+
+          return {
+            content: [{
+              type: "text",
+              text: output.join('\n')
+            }],
+          };
+        }
+
+        const output = [`Found ${ycd.clips.length} clips and ${ycd.animations.size} animations:\n`];
+        ycd.clips.slice(0, limit).forEach(clip => output.push(formatClip(clip)));
+        if (ycd.clips.length > limit) {
+          output.push(`\n... and ${ycd.clips.length - limit} more results`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "export_animation": {
+
+        const parsed = ExportAnimationArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const ycd = YcdFile.read(new ResourceReader(getResourceOrThrow(parsed.data.rpfPath, parsed.data.filePath)));
+        const clip = ycd.findClip(parsed.data.clip);
+        if (!clip) {
+          throw new Error(`Clip not found: ${parsed.data.clip}`);
+        }
+
+        const content = JSON.stringify(YcdFile.toJson(clip), null, 2);
+        const plan = await writePolicy.writeFile(parsed.data.outputPath, content, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun, `Successfully exported clip ${clip.name} to ${plan.path} (${content.length} bytes)`)
+          }],
+        };
+      }
+
+      case "get_script_info": {
+
+        const parsed = GetScriptInfoArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const ysc = readYsc(parsed.data.rpfPath, parsed.data.filePath);
+        const { limit } = parsed.data;
+        const strings = ysc.listStrings();
+        const functions = ysc.listFunctions();
+        const more = (total: number) => total > limit ? [`  ... and ${total - limit} more`] : [];
+
+        const output = [
+          `Script: ${ysc.name || 'unnamed'} (${HashDictionary.format(ysc.nameHash)})`,
+          `Globals Signature: ${JenkHash.format(ysc.globalsSignature)}`,
+          `Code: ${ysc.code.length} bytes in ${ysc.codePageSizes.length} pages (${ysc.codePageSizes.join(', ')})`,
+          `Parameters: ${ysc.parameterCount}`,
+          `Statics: ${ysc.staticsCount}`,
+          `Globals: ${ysc.globalsCount}${ysc.globalsCount ? ` (block ${ysc.globalsBlock})` : ''}`,
+          `String Table: ${ysc.strings.length} bytes in ${ysc.stringPageSizes.length} pages, ${strings.length} strings`,
+          '',
+          `Found ${ysc.natives.length} natives:`,
+          ...ysc.natives.slice(0, limit).map((hash, i) => `  ${i}: 0x${hash.toString(16).toUpperCase().padStart(16, '0')}`),
+          ...more(ysc.natives.length),
+          '',
+          `Found ${functions.length} functions:`,
+          ...functions.slice(0, limit).map(f => `  ${f.name} at 0x${f.address.toString(16).toUpperCase().padStart(6, '0')}: ${f.parameterCount} params, frame ${f.frameSize}`),
+          ...more(functions.length),
+          '',
+          `Found ${strings.length} strings:`,
+          ...strings.slice(0, limit).map(({ offset, text }) => `  ${offset}: ${JSON.stringify(text)}`),
+          ...more(strings.length)
+        ];
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "disassemble_script": {
+
+        const parsed = DisassembleScriptArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const ysc = readYsc(parsed.data.rpfPath, parsed.data.filePath);
+        const databasePath = parsed.data.nativeDatabase || process.env.GTA_V_NATIVE_DATABASE;
+        const natives = databasePath ? NativeDatabase.load(databasePath) : undefined;
+
+        let start = parsed.data.offset ?? 0;
+        if (parsed.data.function) {
+          const functions = ysc.listFunctions();
+          const wanted = parsed.data.function;
+          const found = functions.find(f => f.name === wanted) ?? (/^\d+$/.test(wanted) ? functions[parseInt(wanted, 10)] : undefined);
+          if (!found) {
+            throw new Error(`Function not found: ${wanted} (script has ${functions.length} functions)`);
+          }
+          start = found.address;
+        }
+        if (start < 0 || start >= ysc.code.length) {
+          throw new Error(`Offset ${start} is outside the code (${ysc.code.length} bytes)`);
+        }
+
+        const instructions = ysc.disassemble(start, parsed.data.limit, natives);
+        const lines = instructions.map(i =>
+          `${i.address.toString(16).toUpperCase().padStart(6, '0')}: ${i.name}${i.operands ? ` ${i.operands}` : ''}${i.comment ? `  ; ${i.comment}` : ''}`);
+
+        const last = instructions[instructions.length - 1];
+        const end = last ? last.address + last.length : start;
+        if (end < ysc.code.length) {
+          lines.push(`\n... continues at offset ${end}`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: `Disassembly of ${ysc.name || parsed.data.filePath}${natives ? ` (${natives.size} natives known)` : ''}:\n\n${lines.join('\n')}`
+          }],
+        };
+      }
+
+      case "grep_files": {
+
+        const parsed = GrepFilesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { maxResults, ...options } = parsed.data;
+        const progress: GrepProgress = { filesSearched: 0, filesSkipped: 0, bytesSearched: 0 };
+        const matches = [];
+        for await (const match of contentSearch.search(options, progress)) {
+          matches.push(match);
+          if (matches.length >= maxResults) break;
+        }
+
+        const files = new Set(matches.map(match => `${match.rpfPath}:${match.filePath}`));
+        const skipped = progress.filesSkipped ? `, ${progress.filesSkipped} skipped` : '';
+        const output = [`Found ${matches.length} matches in ${files.size} files (${progress.filesSearched} files searched${skipped}):\n`];
+        for (const match of matches) {
+          const offset = `${match.segment ? `${match.segment}+` : ''}0x${match.offset.toString(16).toUpperCase()}`;
+          output.push(`${match.rpfPath}:${match.filePath} @ ${offset}: ${match.snippet}`);
+        }
+        if (matches.length >= maxResults) {
+          output.push(`\n... stopped after ${maxResults} results; narrow the search or raise maxResults to see more`);
+        } else if (progress.truncated) {
+          const budget = progress.truncated === 'bytes' ? `maxBytes (${progress.bytesSearched} bytes searched)` : 'timeLimit';
+          output.push(`\n... stopped in ${progress.stoppedAt} after reaching ${budget}; narrow the search with rpfGlob, directory or extensions, or raise the limit to search the rest`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "rebuild_index": {
+        const parsed = RebuildIndexArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const stats = await rebuildIndexes(parsed.data.full);
+        const failed = stats.failed ? `, ${stats.failed} failed` : '';
+
+        return {
+          content: [{
+            type: "text",
+            text: `Rebuilt index of ${stats.archives} archives: ${stats.scanned} scanned, ${stats.cached} loaded from cache${failed}.\nIndex cache: ${rpfManager.indexCachePath}`
+          }],
+        };
+      }
+
+      case "get_index_status": {
+        const parsed = GetIndexStatusArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const status = rpfManager.getIndexStatus();
+        const loaded = status.cached + status.scanned;
+        const state = status.pending === 0 ? 'complete' : status.warmingUp ? 'loading in the background' : 'loading on demand';
+        const percent = status.archives ? Math.floor((loaded + status.failed) / status.archives * 100) : 100;
+
+        const output = [
+          `Index ${state}: ${loaded + status.failed}/${status.archives} archives processed (${percent}%) in ${(status.elapsed / 1000).toFixed(1)}s`,
+          `Loaded: ${loaded} (${status.cached} from cache, ${status.scanned} scanned)`,
+          `Nested archives: ${status.nested}`,
+          `Pending: ${status.pending}`,
+          `Failed: ${status.failed}`,
+          `Index cache: ${rpfManager.indexCachePath}`
+        ];
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "resolve_game_path": {
+        const parsed = ResolveGamePathArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const resolution = gameFileSystem.resolve(parsed.data.path);
+        if (!resolution.winner && resolution.inactive.length === 0) {
+          throw new Error(`No archive supplies ${parsed.data.path}`);
+        }
+
+        const describe = (candidate: GameFileCandidate) => {
+          const source = candidate.dlc ? `dlc ${candidate.dlc}` : candidate.layer;
+          return `${candidate.rpfPath}:${candidate.entryPath} (${candidate.size} bytes, ${source})`;
+        };
+
+        const output = [parsed.data.path];
+        output.push(resolution.winner ? `Used by the game: ${describe(resolution.winner)}` : 'Not used by the game: no mounted archive supplies it');
+        if (resolution.shadowed.length > 0) {
+          output.push(`\nOverridden copies (${resolution.shadowed.length}):`);
+          output.push(...resolution.shadowed.map(candidate => `  ${describe(candidate)}`));
+        }
+        if (resolution.inactive.length > 0) {
+          output.push(`\nNot mounted (${resolution.inactive.length}):`);
+          output.push(...resolution.inactive.map(candidate => `  ${describe(candidate)}: ${candidate.inactiveReason}`));
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "find_file_copies": {
+        const parsed = FindFileCopiesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { name, pattern, onlyDifferent, maxResults } = parsed.data;
+        const compareContents = parsed.data.compareContents ?? !!name;
+        const formatCopy = (copy: RpfFileCopy) => `${copy.rpfPath}:${copy.entryPath} (${copy.size} bytes${copy.hash ? `, sha1 ${copy.hash}` : ''})`;
+
+        if (name) {
+          const copies = rpfManager.findFileCopies(name, compareContents);
+          if (copies.length === 0) {
+            throw new Error(`File not found in any archive: ${name}`);
+          }
+
+          const used = gameFileSystem.resolve(name.replace(/\\/g, '/').split('/').pop() ?? name).winner;
+          const hashes = new Set(copies.map(copy => copy.hash));
+          const sizes = new Set(copies.map(copy => copy.size));
+          const summary = sizes.size > 1 ? 'sizes differ' : compareContents ? (hashes.size > 1 ? 'contents differ' : 'all identical') : 'same size';
+
+          const output = [`Found ${copies.length} copies of ${name} (${summary}):\n`];
+          for (const copy of copies) {
+            const isUsed = used && used.rpfPath === copy.rpfPath && used.entryPath === copy.entryPath;
+            output.push(`${formatCopy(copy)}${isUsed ? ' [used by the game]' : ''}`);
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: output.join('\n')
+            }],
+          };
+        }
+
+        let duplicates = rpfManager.findDuplicates(pattern, compareContents);
+        if (onlyDifferent) {
+          duplicates = duplicates.filter(duplicate => duplicate.sizesDiffer || duplicate.hashesDiffer);
+        }
+
+        const output = [`Found ${duplicates.length} files shipped in more than one archive:\n`];
+        for (const duplicate of duplicates.slice(0, maxResults)) {
+          const difference = duplicate.sizesDiffer ? 'sizes differ' : duplicate.hashesDiffer === undefined ? 'same size' : duplicate.hashesDiffer ? 'contents differ' : 'identical';
+          output.push(`${duplicate.path}: ${duplicate.copies.length} copies, ${difference}`);
+          output.push(...duplicate.copies.map(copy => `  ${formatCopy(copy)}`));
+        }
+        if (duplicates.length > maxResults) {
+          output.push(`\n... and ${duplicates.length - maxResults} more results`);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "create_rpf": {
+        const parsed = CreateRpfArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const fs = await import('fs/promises');
+        const path = await import('path');
+
+        const writer = new RpfWriter(RPF_ENCRYPTIONS[parsed.data.encryption]);
+        const sources = [...parsed.data.files];
+
+        if (parsed.data.sourceDirectory) {
+          const root = parsed.data.sourceDirectory;
+          const walk = async (dir: string): Promise<void> => {
+            for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+              const fullPath = path.join(dir, entry.name);
+              if (entry.isDirectory()) {
+                writer.addDirectory(path.relative(root, fullPath));
+                await walk(fullPath);
+              } else if (entry.isFile()) {
+                sources.unshift({ path: path.relative(root, fullPath), sourcePath: fullPath });
+              }
+            }
+          };
+          await walk(root);
+        }
+
+        for (const source of sources) {
+          writer.addFile(source.path, await fs.readFile(source.sourcePath));
+        }
+
+        const { result, plan } = await writeArchive(writer, parsed.data.outputPath, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun,
+              `Successfully created ${result.outputPath} with ${result.files} files (${result.size} bytes, ${parsed.data.encryption} encryption)`,
+              describeArchiveChanges(writer))
+          }],
+        };
+      }
+
+      case "add_file_to_rpf": {
+        const parsed = AddFileToRpfArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const fs = await import('fs/promises');
+
+        const data = await fs.readFile(parsed.data.sourcePath);
+        const source = await openRpfForWriting(parsed.data.rpfPath);
+        const replaced = source.writer.addFile(parsed.data.filePath, data);
+        const { result, plan } = await writeRpfCopy(source.writer, source, parsed.data.outputPath, parsed.data.inPlace, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun,
+              [`Successfully ${replaced ? 'replaced' : 'added'} ${parsed.data.filePath} (${data.length} bytes) and wrote ${result.outputPath} (${result.files} files, ${result.size} bytes)`, describeEncryptionChange(source.writer)].filter(line => line).join('\n'),
+              describeArchiveChanges(source.writer))
+          }],
+        };
+      }
+
+      case "remove_file_from_rpf": {
+        const parsed = RemoveFileFromRpfArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const source = await openRpfForWriting(parsed.data.rpfPath);
+        const removed = source.writer.remove(parsed.data.filePath);
+        const { result, plan } = await writeRpfCopy(source.writer, source, parsed.data.outputPath, parsed.data.inPlace, parsed.data.dryRun);
+
+        return {
+          content: [{
+            type: "text",
+            text: describeWrites([plan], parsed.data.dryRun,
+              [`Successfully removed ${parsed.data.filePath} (${removed} files) and wrote ${result.outputPath} (${result.files} files, ${result.size} bytes)`, describeEncryptionChange(source.writer)].filter(line => line).join('\n'),
+              describeArchiveChanges(source.writer))
+          }],
+        };
+      }
+
+      case "extract_directory": {
+        const parsed = ExtractDirectoryArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const manifest = await bulkExtractor.extract({ ...parsed.data, directory: parsed.data.directoryPath });
+
+        return {
+          content: [{
+            type: "text",
+            text: formatExtractManifest(manifest, parsed.data.dryRun, parsed.data.maxListed)
+          }],
+        };
+      }
+
+      case "extract_matching": {
+        const parsed = ExtractMatchingArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const manifest = await bulkExtractor.extract({ ...parsed.data, directory: parsed.data.directoryPath });
+
+        return {
+          content: [{
+            type: "text",
+            text: formatExtractManifest(manifest, parsed.data.dryRun, parsed.data.maxListed)
+          }],
+        };
+      }
+
+      case "read_file_chunk": {
+        const parsed = ReadFileChunkArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { rpfPath, filePath, offset, length, continuationToken } = parsed.data;
+        let chunk: FileChunk;
+        if (continuationToken) {
+          chunk = await fileChunkReader.continue(continuationToken, length);
+        } else {
+          if (!rpfPath || !filePath) {
+            throw new Error('Specify rpfPath and filePath, or a continuationToken');
+          }
+          chunk = await fileChunkReader.read({ rpfPath, filePath, offset, length, mode: parsed.data.resourceMode === 'segments' ? 'inflated' : 'content' });
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: formatFileChunk(chunk, parsed.data.encoding)
+          }],
+        };
+      }
+
+      case "hexdump_file": {
+        const parsed = HexdumpFileArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { rpfPath, filePath, offset, length, annotated } = parsed.data;
+        const mode = parsed.data.resourceMode === 'segments' ? 'inflated' : 'content';
+        const chunk = await fileChunkReader.read({ rpfPath, filePath, mode, offset, length });
+        const output = [`${chunk.filePath} in ${rpfPath}: bytes ${chunk.offset}-${chunk.offset + chunk.data.length} of ${chunk.size}`];
+
+        let annotations: DecodedField[] = [];
+        if (annotated) {
+          // Templates describe the start of the file, so they are decoded from there
+          const header = offset === 0 ? chunk.data : (await fileChunkReader.read({ rpfPath, filePath, mode, offset: 0, length: 65536 })).data;
+          const template = parsed.data.template ? BUILTIN_TEMPLATES[parsed.data.template] : BinaryView.detect(header);
+          if (template) {
+            annotations = BinaryView.apply(template, header).fields;
+            output.push(`Annotated with the ${template.name} template`);
+          } else {
+            output.push('No template matches the start of this file');
+          }
+        }
+
+        output.push('', BinaryView.hexdump(chunk.data, chunk.offset, annotations));
+        return {
+          content: [{
+            type: "text",
+            text: output.join('\n')
+          }],
+        };
+      }
+
+      case "inspect_binary": {
+        const parsed = InspectBinaryArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments: ${parsed.error}`);
+        }
+
+        const { rpfPath, filePath, offset, length } = parsed.data;
+        const mode = parsed.data.resourceMode === 'segments' ? 'inflated' : 'content';
+        const chunk = await fileChunkReader.read({ rpfPath, filePath, mode, offset, length });
+
+        let template: BinaryTemplate | null;
+        if (parsed.data.definition) {
+          template = parsed.data.definition;
+        } else if (parsed.data.template === 'auto') {
+          template = BinaryView.detect(chunk.data);
+          if (!template) {
+            throw new Error(`No built-in template matches the data at offset ${offset}; choose a template or give a definition`);
+          }
+        } else {
+          template = BUILTIN_TEMPLATES[parsed.data.template];
+        }
+
+        const result = BinaryView.apply(template, chunk.data, offset, parsed.data.maxFields);
+        return {
+          content: [{
+            type: "text",
+            text: [
+              `${chunk.filePath} in ${rpfPath}: ${template.name} template at offset ${offset} (${result.fields.length} fields)`,
+              '',
+              BinaryView.formatFields(result)
+            ].join('\n')
+          }],
+        };
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      content: [{ type: "text", text: `Error: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+});
+
+async function runServer() {
+  try {
+    console.error("Initializing GTA V Browser MCP Server...");
+    console.error(`GTA V Directory: ${gtaPath}`);
+
+    // Archives are only registered here; their tables of contents are read on demand and warmed up after connecting
+    await rpfManager.init(gtaPath);
+    console.error(`Found ${rpfManager.getRpfList().length} RPF archives`);
+
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+
+    console.error("GTA V Browser MCP Server ready on stdio");
+
+    rpfManager.warmUp()
+      .then(stats => console.error(`Successfully loaded ${stats.cached + stats.scanned} RPF archives (${stats.cached} from cache, ${stats.failed} failed)`))
+      .catch(error => console.error("Failed to load RPF archives:", error));
   } catch (error) {
     console.error("Fatal error running server:", error);
     process.exit(1);
@@ -0,0 +1,988 @@
+import { ResourceReader } from './resource.js';
+import { JenkHash, HashDictionary } from './hash.js';
+
+export const META_RESOURCE_VERSION = 2;
+export const PSO_MAGIC = 0x5053494E; // 'PSIN', big-endian
+export const RBF_MAGIC = 0x30464252; // 'RBF0'
+
+// Entry hash that marks the element type descriptor of an array
+const ARRAY_INFO_HASH = 0x100;
+
+export type MetaValueKind =
+  | 'bool' | 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'int64'
+  | 'float' | 'half' | 'vec2' | 'vec3' | 'vec4' | 'hash' | 'enum' | 'flags'
+  | 'string' | 'stringPointer' | 'struct' | 'structPointer' | 'array' | 'dataBlock' | 'unknown';
+
+export interface MetaEntryInfo {
+  nameHash: number;
+  offset: number;
+  kind: MetaValueKind;
+  /** Byte size of the field; 0 for inline structures, whose size comes from their structure info */
+  size: number;
+  /** Structure or enum name hash, depending on kind */
+  referenceKey: number;
+  /** Inline string length or fixed array count */
+  count?: number;
+  arrayLayout?: 'atArray' | 'inline';
+  element?: MetaEntryInfo;
+}
+
+export interface MetaStructureInfo {
+  nameHash: number;
+  size: number;
+  entries: MetaEntryInfo[];
+}
+
+export interface MetaEnumInfo {
+  nameHash: number;
+  values: Map<number, number>;
+}
+
+export interface MetaBlock {
+  nameHash: number;
+  data: Buffer;
+}
+
+/**
+ * A binary meta document normalised from either a resource meta or a PSO file.
+ * Pointers in both formats address a block (1-based, low 12 bits) and an offset
+ * within it (next 20 bits).
+ */
+export interface MetaDocument {
+  format: 'RSC' | 'PSO';
+  bigEndian: boolean;
+  rootBlockIndex: number;
+  blocks: MetaBlock[];
+  structures: Map<number, MetaStructureInfo>;
+  enums: Map<number, MetaEnumInfo>;
+}
+
+// Names of the structures, fields and enum values found in the common meta
+// files (.ytyp, .ymap, .ymt, .ymf). Used to turn JOAAT hashes back into names.
+const BUILTIN_META_NAMES = [
+  // Map types and archetypes
+  'CMapTypes', 'CBaseArchetypeDef', 'CTimeArchetypeDef', 'CMloArchetypeDef', 'CMloRoomDef',
+  'CMloPortalDef', 'CMloEntitySet', 'CMloTimeCycleModifier', 'CCompositeEntityType',
+  'extensions', 'archetypes', 'name', 'dependencies', 'compositeEntityTypes',
+  'lodDist', 'flags', 'specialAttribute', 'bbMin', 'bbMax', 'bsCentre', 'bsRadius',
+  'hdTextureDist', 'textureDictionary', 'clipDictionary', 'drawableDictionary',
+  'physicsDictionary', 'assetType', 'assetName', 'timeFlags', 'mloFlags', 'entities',
+  'rooms', 'portals', 'entitySets', 'timeCycleModifiers', 'portalCount', 'floorId',
+  'exteriorVisibiltyDepth', 'attachedObjects', 'roomFrom', 'roomTo', 'corners',
+  'opacity', 'audioOcclusion', 'locations', 'blend', 'startHour', 'endHour', 'sphere',
+  'percentage', 'range', 'timecycleName', 'secondaryTimecycleName',
+  'ASSET_TYPE_UNINITIALIZED', 'ASSET_TYPE_FRAGMENT', 'ASSET_TYPE_DRAWABLE',
+  'ASSET_TYPE_DRAWABLEDICTIONARY', 'ASSET_TYPE_ASSETLESS',
+  // Map data and entities
+  'CMapData', 'CEntityDef', 'CMloInstanceDef', 'CCarGen', 'CBlockDesc', 'CLODLight',
+  'CDistantLODLight', 'BoxOccluder', 'OccludeModel', 'CTimeCycleModifier',
+  'CContainerLodDef', 'rage__fwGrassInstanceListDef', 'rage__fwInstancedMapData',
+  'parent', 'contentFlags', 'streamingExtentsMin', 'streamingExtentsMax',
+  'entitiesExtentsMin', 'entitiesExtentsMax', 'containerLods', 'boxOccluders',
+  'occludeModels', 'physicsDictionaries', 'instancedData', 'carGenerators', 'LODLightsSOA',
+  'DistantLODLightsSOA', 'block', 'archetypeName', 'guid', 'position', 'rotation',
+  'scaleXY', 'scaleZ', 'parentIndex', 'childLodDist', 'lodLevel', 'numChildren', 'priorityLevel',
+  'ambientOcclusionMultiplier', 'artificialAmbientOcclusion', 'tintValue', 'groupId',
+  'defaultEntitySets', 'numExitPortals', 'MLOInstflags', 'orientX', 'orientY',
+  'perpendicularLength', 'carModel', 'popGroup', 'livery', 'bodyColorRemap1',
+  'bodyColorRemap2', 'bodyColorRemap3', 'bodyColorRemap4', 'version', 'exportedBy',
+  'owner', 'time', 'iCenterX', 'iCenterY', 'iCenterZ', 'iCosZ', 'iLength', 'iWidth',
+  'iHeight', 'iSinZ', 'verts', 'bmin', 'bmax', 'dataSize', 'numVertsInBytes',
+  'numTris', 'direction', 'falloff', 'falloffExponent', 'timeAndStateFlags', 'hash',
+  'coneInnerAngle', 'coneOuterAngleOrCapExt', 'coronaIntensity', 'RGBI', 'numStreetLights',
+  'category', 'minExtents', 'maxExtents',
+  'LODTYPES_DEPTH_HD', 'LODTYPES_DEPTH_LOD', 'LODTYPES_DEPTH_SLOD1', 'LODTYPES_DEPTH_SLOD2',
+  'LODTYPES_DEPTH_SLOD3', 'LODTYPES_DEPTH_ORPHANHD', 'LODTYPES_DEPTH_SLOD4',
+  'PRI_REQUIRED', 'PRI_OPTIONAL_HIGH', 'PRI_OPTIONAL_MEDIUM', 'PRI_OPTIONAL_LOW',
+  // Extensions
+  'CExtensionDefParticleEffect', 'CExtensionDefLightEffect', 'CExtensionDefAudioEmitter',
+  'CExtensionDefSpawnPoint', 'CExtensionDefLadder', 'CExtensionDefBuoyancy',
+  'CExtensionDefExplosionEffect', 'CExtensionDefDoor', 'CExtensionDefWindDisturbance',
+  'CExtensionDefProcObject', 'CExtensionDefExpression', 'CExtensionDefLightShaft',
+  'CExtensionDefSpawnPointOverride', 'offsetPosition', 'offsetRotation', 'fxName',
+  'fxType', 'boneTag', 'scale', 'probability', 'color', 'instances', 'effectHash',
+  // Peds
+  'CPedModelInfo__InitDataList', 'CPedModelInfo__InitData', 'CPedVariationInfo',
+  'CPVComponentData', 'CPVDrawblData', 'CPVTextureData', 'CPedPropInfo',
+  'CPedPropMetaData', 'CPedPropTexData', 'CAnchorProps', 'CComponentInfo',
+  'CPVDrawblData__CPVClothComponentData', 'InitDatas', 'txdRelationships',
+  'multiTxdRelationships', 'bHasTexVariations', 'bHasDrawblVariations',
+  'bHasLowLODs', 'bIsSuperLOD', 'availComp', 'aComponentData3', 'aSelectionSets',
+  'compInfos', 'propInfo', 'dlcName', 'numAvailTex', 'aDrawblData3', 'propMask',
+  'numAlternatives', 'aTexData', 'clothData', 'ownsCloth', 'texId', 'distribution',
+  'numAvailProps', 'aPropMetaData', 'aAnchors', 'audioId', 'expressionMods',
+  'renderFlags', 'propFlags', 'anchorId', 'propId', 'stickyness', 'props', 'anchor',
+  'inclusions', 'exclusions', 'inclusionId', 'exclusionId',
+  'pedXml_audioID', 'pedXml_audioID2', 'pedXml_expressionMods', 'pedXml_flags',
+  'pedXml_compIdx', 'pedXml_drawblIdx', 'pedXml_vfxComps',
+  // Vehicles
+  'CVehicleModelInfo__InitDataList', 'CVehicleModelInfo__InitData', 'CVehicleKit',
+  'CVehicleModelInfoVarGlobal', 'CVehicleModelInfoVariation', 'residentTxd',
+  'residentAnims', 'initDatas', 'modelName', 'txdName',
+  'handlingId', 'gameName', 'vehicleMakeName', 'expressionDictName', 'expressionName',
+  'animConvRoofDictName', 'animConvRoofName', 'animConvRoofWindowsAffected', 'ptfxAssetName',
+  'audioNameHash', 'layout', 'coverBoundOffsets', 'explosionInfo', 'scenarioLayout',
+  'cameraName', 'aimCameraName', 'bonnetCameraName', 'povCameraName', 'type', 'plateType',
+  'dashboardType', 'vehicleClass', 'wheelType', 'trailers', 'additionalTrailers',
+  'drivers', 'extraIncludes', 'doorsWithCollisionWhenClosed', 'driveableDoors',
+  'bumpersNeedToCollideWithMap', 'needsRopeTexture', 'requiredExtras', 'rewards',
+  'cinematicPartCamera', 'NmBraceOverrideSet', 'buoyancySphereOffset',
+  'buoyancySphereSizeScale', 'pOverrideRagdollThreshold', 'firstPersonDrivebyData',
+  'kits', 'variationData', 'kitName', 'id', 'kitType', 'visibleMods', 'linkMods',
+  'statMods', 'slotNames', 'liveryNames', 'livery2Names', 'colors', 'sirens', 'lights',
+  'txdParent', 'txdChild', 'child',
+  // Generic
+  'Item', 'Value', 'Data'
+];
+
+const BUILTIN_NAMES = new Map<number, string>(BUILTIN_META_NAMES.map(name => [JenkHash.joaat(name), name]));
+
+export type Vector3 = [number, number, number];
+
+export type MetaValue = boolean | number | string | number[] | MetaObject | MetaValue[] | null;
+
+export interface MetaObject {
+  /** Structure name */
+  _type: string;
+  [field: string]: MetaValue;
+}
+
+interface MetaArrayItems {
+  block: MetaBlock;
+  offset: number;
+  count: number;
+  stride: number;
+}
+
+export class MetaNames {
+  static getName(hash: number): string | undefined {
+    return BUILTIN_NAMES.get(hash >>> 0) ?? HashDictionary.get(hash);
+  }
+
+  static format(hash: number): string {
+    return this.getName(hash) ?? HashDictionary.format(hash);
+  }
+}
+
+export class MetaFile {
+  static isPso(data: Buffer): boolean {
+    return data.length >= 8 && data.readUInt32BE(0) === PSO_MAGIC;
+  }
+
+  static isRbf(data: Buffer): boolean {
+    return data.length >= 4 && data.readUInt32LE(0) === RBF_MAGIC;
+  }
+
+  /**
+   * Converts a non-resource meta file (PSO or RBF) to XML. Files that are already
+   * XML text are returned unchanged.
+   */
+  static toXml(data: Buffer): string {
+    if (this.isPso(data)) {
+      return MetaXmlWriter.write(this.fromPso(data));
+    }
+    if (this.isRbf(data)) {
+      return RbfFile.toXml(data);
+    }
+
+    const text = data.toString('utf-8').replace(/^\uFEFF/, '');
+    if (text.trimStart().startsWith('<')) {
+      return text;
+    }
+
+    throw new Error('Unrecognized meta format (expected PSO, RBF or resource meta)');
+  }
+
+  /**
+   * Reads a resource meta (RSC7 version 2), the format used by .ymap, .ytyp and most .ymt files.
+   */
+  static fromResource(reader: ResourceReader): MetaDocument {
+    if (reader.version !== META_RESOURCE_VERSION) {
+      throw new Error(`Unsupported meta resource version: ${reader.version}`);
+    }
+
+    const root = reader.rootAddress;
+    const rootBlockIndex = reader.readInt32(root + 0x1C);
+    const structureInfosPointer = reader.readPointer(root + 0x20);
+    const enumInfosPointer = reader.readPointer(root + 0x28);
+    const dataBlocksPointer = reader.readPointer(root + 0x30);
+    const structureInfosCount = reader.readUInt16(root + 0x48);
+    const enumInfosCount = reader.readUInt16(root + 0x4A);
+    const dataBlocksCount = reader.readUInt16(root + 0x4C);
+
+    const document: MetaDocument = {
+      format: 'RSC',
+      bigEndian: false,
+      rootBlockIndex,
+      blocks: [],
+      structures: new Map(),
+      enums: new Map()
+    };
+
+    reader.readArray(structureInfosPointer, structureInfosCount, 0x20, (r, address) => {
+      const nameHash = r.readUInt32(address);
+      const entriesPointer = r.readPointer(address + 0x10);
+      const size = r.readInt32(address + 0x18);
+      const entriesCount = r.readUInt16(address + 0x1E);
+
+      const raw = r.readArray(entriesPointer, entriesCount, 0x10, (er, ea) => ({
+        nameHash: er.readUInt32(ea),
+        offset: er.readInt32(ea + 4),
+        type: er.readUInt8(ea + 8),
+        referenceIndex: er.readInt16(ea + 0xA),
+        referenceKey: er.readUInt32(ea + 0xC)
+      }));
+
+      const entries = raw.map(e => this.mapResourceEntry(e));
+      raw.forEach((e, i) => {
+        if (e.type === 0x52 || e.type === 0x50) {
+          entries[i].element = entries[e.referenceIndex];
+        }
+      });
+
+      document.structures.set(nameHash, {
+        nameHash,
+        size,
+        entries: entries.filter(e => e.nameHash !== ARRAY_INFO_HASH)
+      });
+    });
+
+    reader.readArray(enumInfosPointer, enumInfosCount, 0x18, (r, address) => {
+      const nameHash = r.readUInt32(address);
+      const entriesPointer = r.readPointer(address + 0x8);
+      const entriesCount = r.readInt32(address + 0x10);
+      const values = new Map<number, number>();
+
+      r.readArray(entriesPointer, entriesCount, 8, (er, ea) => {
+        values.set(er.readInt32(ea + 4), er.readUInt32(ea));
+      });
+
+      document.enums.set(nameHash, { nameHash, values });
+    });
+
+    reader.readArray(dataBlocksPointer, dataBlocksCount, 0x10, (r, address) => {
+      const nameHash = r.readUInt32(address);
+      const length = r.readInt32(address + 4);
+      const dataPointer = r.readPointer(address + 8);
+      document.blocks.push({ nameHash, data: r.readBytes(dataPointer, length) });
+    });
+
+    return document;
+  }
+
+  /**
+   * Reads a PSO file: big-endian PSIN data, PMAP block map and PSCH schema sections.
+   */
+  static fromPso(data: Buffer): MetaDocument {
+    const document: MetaDocument = {
+      format: 'PSO',
+      bigEndian: true,
+      rootBlockIndex: 0,
+      blocks: [],
+      structures: new Map(),
+      enums: new Map()
+    };
+
+    let dataSection: Buffer | undefined;
+    let mapSection: Buffer | undefined;
+    let schemaSection: Buffer | undefined;
+
+    let position = 0;
+    while (position + 8 <= data.length) {
+      const ident = data.readUInt32BE(position);
+      const length = data.readInt32BE(position + 4);
+      if (length < 8) break;
+
+      const section = data.subarray(position, position + length);
+      switch (ident) {
+        case PSO_MAGIC: dataSection = section; break;
+        case 0x504D4150: mapSection = section; break;    // 'PMAP'
+        case 0x50534348: schemaSection = section; break; // 'PSCH'
+      }
+      position += length;
+    }
+
+    if (!dataSection || !mapSection || !schemaSection) {
+      throw new Error('PSO file is missing its PSIN, PMAP or PSCH section');
+    }
+
+    // Block offsets are relative to the start of the PSIN section
+    document.rootBlockIndex = mapSection.readInt32BE(8);
+    const blockCount = mapSection.readUInt16BE(12);
+    for (let i = 0; i < blockCount; i++) {
+      const entry = 16 + i * 16;
+      const nameHash = mapSection.readUInt32BE(entry);
+      const offset = mapSection.readInt32BE(entry + 4);
+      const length = mapSection.readInt32BE(entry + 12);
+      document.blocks.push({ nameHash, data: dataSection.subarray(offset, offset + length) });
+    }
+
+    const schemaCount = schemaSection.readUInt32BE(8);
+    for (let i = 0; i < schemaCount; i++) {
+      const nameHash = schemaSection.readUInt32BE(12 + i * 8);
+      const offset = schemaSection.readInt32BE(16 + i * 8);
+      const header = schemaSection.readUInt32BE(offset);
+      const type = header >>> 24;
+
+      if (type === 0) {
+        const entriesCount = header & 0xFFFF;
+        const hasExtraField = ((header >>> 16) & 0xFF) === 1;
+        const size = schemaSection.readInt32BE(offset + 4);
+        let entryOffset = offset + (hasExtraField ? 16 : 12);
+
+        const raw: { nameHash: number, type: number, subtype: number, offset: number, referenceKey: number }[] = [];
+        for (let e = 0; e < entriesCount; e++) {
+          raw.push({
+            nameHash: schemaSection.readUInt32BE(entryOffset),
+            type: schemaSection.readUInt8(entryOffset + 4),
+            subtype: schemaSection.readUInt8(entryOffset + 5),
+            offset: schemaSection.readUInt16BE(entryOffset + 6),
+            referenceKey: schemaSection.readUInt32BE(entryOffset + 8)
+          });
+          entryOffset += 12;
+        }
+
+        const entries = raw.map(e => this.mapPsoEntry(e));
+        raw.forEach((e, i) => {
+          if (e.type === 0x0D) {
+            entries[i].element = entries[e.referenceKey & 0xFFFF];
+          } else if (e.type === 0x0F && raw[e.referenceKey & 0xFFFF]) {
+            // Flags point at an entry that holds the enum name
+            entries[i].referenceKey = raw[e.referenceKey & 0xFFFF].referenceKey;
+          }
+        });
+
+        document.structures.set(nameHash, {
+          nameHash,
+          size,
+          entries: entries.filter(e => e.nameHash !== ARRAY_INFO_HASH)
+        });
+      } else if (type === 1) {
+        const entriesCount = header & 0xFFFFFF;
+        const values = new Map<number, number>();
+        for (let e = 0; e < entriesCount; e++) {
+          const entryOffset = offset + 4 + e * 8;
+          values.set(schemaSection.readInt32BE(entryOffset + 4), schemaSection.readUInt32BE(entryOffset));
+        }
+        document.enums.set(nameHash, { nameHash, values });
+      }
+    }
+
+    return document;
+  }
+
+  private static mapResourceEntry(e: { nameHash: number, offset: number, type: number, referenceKey: number }): MetaEntryInfo {
+    const entry = (kind: MetaValueKind, size: number, extra: Partial<MetaEntryInfo> = {}): MetaEntryInfo => ({
+      nameHash: e.nameHash,
+      offset: e.offset,
+      kind,
+      size,
+      referenceKey: e.referenceKey,
+      ...extra
+    });
+
+    switch (e.type) {
+      case 0x01: return entry('bool', 1);
+      case 0x10: return entry('int8', 1);
+      case 0x11: return entry('uint8', 1);
+      case 0x12: return entry('int16', 2);
+      case 0x13: return entry('uint16', 2);
+      case 0x14: return entry('int32', 4);
+      case 0x15: return entry('uint32', 4);
+      case 0x21: return entry('float', 4);
+      case 0x33: return entry('vec3', 16);
+      case 0x34: return entry('vec4', 16);
+      case 0x4A: return entry('hash', 4);
+      case 0x60: return entry('enum', 1);
+      case 0x62: return entry('enum', 4);
+      case 0x63: return entry('flags', 4);
+      case 0x64: return entry('flags', 2);
+      case 0x65: return entry('flags', 4);
+      case 0x40: return entry('string', e.referenceKey, { count: e.referenceKey });
+      case 0x44: return entry('stringPointer', 16);
+      case 0x05: return entry('struct', 0);
+      case 0x07: return entry('structPointer', 8);
+      case 0x50: return entry('array', 0, { arrayLayout: 'inline', count: e.referenceKey });
+      case 0x52: return entry('array', 16, { arrayLayout: 'atArray' });
+      case 0x59: return entry('dataBlock', 4);
+      default: return entry('unknown', 0);
+    }
+  }
+
+  private static mapPsoEntry(e: { nameHash: number, offset: number, type: number, subtype: number, referenceKey: number }): MetaEntryInfo {
+    const entry = (kind: MetaValueKind, size: number, extra: Partial<MetaEntryInfo> = {}): MetaEntryInfo => ({
+      nameHash: e.nameHash,
+      offset: e.offset,
+      kind,
+      size,
+      referenceKey: e.referenceKey,
+      ...extra
+    });
+    const smallSize = [4, 2, 1][e.subtype] ?? 4;
+
+    switch (e.type) {
+      case 0x00: return entry('bool', 1);
+      case 0x01: return entry('int8', 1);
+      case 0x02: return entry('uint8', 1);
+      case 0x03: return entry('int16', 2);
+      case 0x04: return entry('uint16', 2);
+      case 0x05: return entry('int32', 4);
+      case 0x06: return entry('uint32', 4);
+      case 0x07: return entry('float', 4);
+      case 0x08: return entry('vec2', 8);
+      case 0x09: return entry('vec3', 16);
+      case 0x0A: return entry('vec4', 16);
+      case 0x0B:
+        if (e.subtype === 7 || e.subtype === 8) return entry('hash', 4);
+        if (e.subtype === 0) {
+          const length = (e.referenceKey >>> 16) || (e.referenceKey & 0xFFFF);
+          return entry('string', length, { count: length });
+        }
+        return entry('stringPointer', e.subtype === 3 ? 16 : 8);
+      case 0x0C:
+        return e.subtype === 0 ? entry('struct', 0) : entry('structPointer', 8);
+      case 0x0D:
+        if (e.subtype === 1) {
+          return entry('array', 0, { arrayLayout: 'inline', count: (e.referenceKey >>> 16) & 0xFFFF });
+        }
+        return entry('array', 16, { arrayLayout: 'atArray' });
+      case 0x0E: return entry('enum', smallSize);
+      case 0x0F: return entry('flags', smallSize);
+      case 0x14: return entry('vec3', 16);
+      case 0x15: return entry('vec4', 16);
+      case 0x1E: return entry('half', 2);
+      case 0x20: return entry('int64', 8);
+      default: return entry('unknown', 0);
+    }
+  }
+}
+
+/**
+ * Shared access to the values of a meta document, honouring its byte order.
+ */
+abstract class MetaDataReader {
+  protected constructor(protected document: MetaDocument) {}
+
+  protected resolvePointer(pointer: number): { block: MetaBlock, offset: number } | null {
+    const blockIndex = pointer & 0xFFF;
+    const block = this.document.blocks[blockIndex - 1];
+    if (!block) return null;
+
+    return { block, offset: (pointer >>> 12) & 0xFFFFF };
+  }
+
+  protected readNumeric(kind: MetaValueKind, data: Buffer, offset: number): number {
+    const be = this.document.bigEndian;
+    switch (kind) {
+      case 'int8': return data.readInt8(offset);
+      case 'uint8': return data.readUInt8(offset);
+      case 'int16': return be ? data.readInt16BE(offset) : data.readInt16LE(offset);
+      case 'uint16': return this.readUInt16(data, offset);
+      case 'int32': return be ? data.readInt32BE(offset) : data.readInt32LE(offset);
+      case 'uint32': return this.readUInt32(data, offset);
+      case 'int64': return Number(be ? data.readBigInt64BE(offset) : data.readBigInt64LE(offset));
+      case 'float': return this.readFloat(data, offset);
+      case 'half': return this.readHalf(this.readUInt16(data, offset));
+      default: return 0;
+    }
+  }
+
+  protected readSized(data: Buffer, offset: number, size: number): number {
+    if (size === 1) return data.readUInt8(offset);
+    if (size === 2) return this.readUInt16(data, offset);
+    return this.readUInt32(data, offset);
+  }
+
+  protected readUInt16(data: Buffer, offset: number): number {
+    return this.document.bigEndian ? data.readUInt16BE(offset) : data.readUInt16LE(offset);
+  }
+
+  protected readUInt32(data: Buffer, offset: number): number {
+    return this.document.bigEndian ? data.readUInt32BE(offset) : data.readUInt32LE(offset);
+  }
+
+  protected readFloat(data: Buffer, offset: number): number {
+    return this.document.bigEndian ? data.readFloatBE(offset) : data.readFloatLE(offset);
+  }
+
+  protected readHalf(value: number): number {
+    return ResourceReader.halfToFloat(value);
+  }
+
+  protected readCString(data: Buffer, offset: number): string {
+    const end = data.indexOf(0, offset);
+    return data.toString('latin1', offset, end >= 0 ? end : data.length);
+  }
+
+  protected formatEnum(enumHash: number, value: number, isFlags: boolean): string {
+    const info = this.document.enums.get(enumHash);
+
+    if (!isFlags) {
+      const nameHash = info?.values.get(value);
+      return nameHash !== undefined ? MetaNames.format(nameHash) : String(value);
+    }
+
+    const names: string[] = [];
+    for (let bit = 0; bit < 32; bit++) {
+      if (value & (1 << bit)) {
+        const nameHash = info?.values.get(bit);
+        names.push(nameHash !== undefined ? MetaNames.format(nameHash) : String(1 << bit >>> 0));
+      }
+    }
+    return names.join(' ');
+  }
+
+  /**
+   * Finds the items of an inline or atArray field. Returns null for empty arrays.
+   */
+  protected locateArrayItems(entry: MetaEntryInfo, element: MetaEntryInfo, block: MetaBlock, offset: number): MetaArrayItems | null {
+    let itemsBlock = block;
+    let itemsOffset = offset;
+    let count = entry.count ?? 0;
+
+    if (entry.arrayLayout === 'atArray') {
+      count = this.readUInt16(block.data, offset + 8);
+      const target = this.resolvePointer(this.readUInt32(block.data, offset));
+      if (!target) return null;
+      itemsBlock = target.block;
+      itemsOffset = target.offset;
+    }
+
+    if (count === 0) return null;
+
+    const stride = element.kind === 'struct'
+      ? this.document.structures.get(element.referenceKey)?.size ?? 0
+      : element.size;
+
+    return { block: itemsBlock, offset: itemsOffset, count, stride };
+  }
+}
+
+export class MetaXmlWriter extends MetaDataReader {
+  private lines: string[] = [];
+
+  private constructor(document: MetaDocument) {
+    super(document);
+  }
+
+  static write(document: MetaDocument): string {
+    const writer = new MetaXmlWriter(document);
+    const root = document.blocks[document.rootBlockIndex - 1];
+    if (!root) {
+      throw new Error(`Meta root block ${document.rootBlockIndex} not found`);
+    }
+
+    const rootName = MetaNames.format(root.nameHash);
+    writer.lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+    writer.lines.push(`<${rootName}>`);
+    writer.writeStructure(root.nameHash, root, 0, 1);
+    writer.lines.push(`</${rootName}>`);
+    return writer.lines.join('\n');
+  }
+
+  private writeStructure(structureHash: number, block: MetaBlock, offset: number, depth: number): void {
+    const structure = this.document.structures.get(structureHash);
+    if (!structure) {
+      this.line(depth, `<!-- Unknown structure ${MetaNames.format(structureHash)} -->`);
+      return;
+    }
+
+    for (const entry of structure.entries) {
+      this.writeEntry(entry, MetaNames.format(entry.nameHash), block, offset + entry.offset, depth);
+    }
+  }
+
+  private writeEntry(entry: MetaEntryInfo, tag: string, block: MetaBlock, offset: number, depth: number): void {
+    switch (entry.kind) {
+      case 'bool':
+        this.line(depth, `<${tag} value="${block.data[offset] !== 0}"/>`);
+        break;
+
+      case 'int8': case 'uint8': case 'int16': case 'uint16':
+      case 'int32': case 'uint32': case 'int64': case 'float': case 'half':
+        this.line(depth, `<${tag} value="${this.readNumber(entry.kind, block.data, offset)}"/>`);
+        break;
+
+      case 'vec2': case 'vec3': case 'vec4': {
+        const axes = ['x', 'y', 'z', 'w'].slice(0, entry.kind === 'vec2' ? 2 : entry.kind === 'vec3' ? 3 : 4);
+        const attributes = axes.map((axis, i) => `${axis}="${this.formatFloat(this.readFloat(block.data, offset + i * 4))}"`);
+        this.line(depth, `<${tag} ${attributes.join(' ')}/>`);
+        break;
+      }
+
+      case 'hash': {
+        const hash = this.readUInt32(block.data, offset);
+        this.line(depth, hash ? `<${tag}>${this.escape(MetaNames.format(hash))}</${tag}>` : `<${tag}/>`);
+        break;
+      }
+
+      case 'enum': case 'flags': {
+        const value = this.readSized(block.data, offset, entry.size);
+        const text = this.formatEnum(entry.referenceKey, value, entry.kind === 'flags');
+        this.line(depth, text ? `<${tag}>${this.escape(text)}</${tag}>` : `<${tag}/>`);
+        break;
+      }
+
+      case 'string': {
+        const bytes = block.data.subarray(offset, offset + (entry.count ?? 0));
+        const end = bytes.indexOf(0);
+        const text = bytes.toString('latin1', 0, end >= 0 ? end : bytes.length);
+        this.line(depth, text ? `<${tag}>${this.escape(text)}</${tag}>` : `<${tag}/>`);
+        break;
+      }
+
+      case 'stringPointer': {
+        const target = this.resolvePointer(this.readUInt32(block.data, offset));
+        const text = target ? this.readCString(target.block.data, target.offset) : '';
+        this.line(depth, text ? `<${tag}>${this.escape(text)}</${tag}>` : `<${tag}/>`);
+        break;
+      }
+
+      case 'struct':
+        this.line(depth, `<${tag}>`);
+        this.writeStructure(entry.referenceKey, block, offset, depth + 1);
+        this.line(depth, `</${tag}>`);
+        break;
+
+      case 'structPointer': {
+        const target = this.resolvePointer(this.readUInt32(block.data, offset));
+        if (!target) {
+          this.line(depth, `<${tag} type="NULL"/>`);
+          break;
+        }
+        this.line(depth, `<${tag} type="${MetaNames.format(target.block.nameHash)}">`);
+        this.writeStructure(target.block.nameHash, target.block, target.offset, depth + 1);
+        this.line(depth, `</${tag}>`);
+        break;
+      }
+
+      case 'array':
+        this.writeArray(entry, tag, block, offset, depth);
+        break;
+
+      case 'dataBlock': {
+        const target = this.resolvePointer(this.readUInt32(block.data, offset));
+        this.line(depth, target
+          ? `<${tag} content="bytes" length="${target.block.data.length}"/>`
+          : `<${tag}/>`);
+        break;
+      }
+
+      default:
+        this.line(depth, `<!-- ${tag}: unsupported field type -->`);
+    }
+  }
+
+  private writeArray(entry: MetaEntryInfo, tag: string, block: MetaBlock, offset: number, depth: number): void {
+    const element = entry.element;
+    if (!element) {
+      this.line(depth, `<!-- ${tag}: array without element type -->`);
+      return;
+    }
+
+    const items = this.locateArrayItems(entry, element, block, offset);
+    if (!items) {
+      this.line(depth, `<${tag}/>`);
+      return;
+    }
+    const { block: itemsBlock, offset: itemsOffset, count, stride } = items;
+
+    const numeric = ['int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'int64', 'float', 'half'];
+    if (numeric.includes(element.kind)) {
+      const content = element.kind === 'float' || element.kind === 'half' ? 'float_array' : 'int_array';
+      this.line(depth, `<${tag} content="${content}">`);
+      for (let i = 0; i < count; i++) {
+        const value = this.readNumber(element.kind, itemsBlock.data, itemsOffset + i * stride);
+        this.line(depth + 1, String(value));
+      }
+      this.line(depth, `</${tag}>`);
+      return;
+    }
+
+    if (element.kind === 'vec3' || element.kind === 'vec4') {
+      const axes = element.kind === 'vec3' ? 3 : 4;
+      this.line(depth, `<${tag} content="vector${axes}_array">`);
+      for (let i = 0; i < count; i++) {
+        const values: string[] = [];
+        for (let a = 0; a < axes; a++) {
+          values.push(this.formatFloat(this.readFloat(itemsBlock.data, itemsOffset + i * stride + a * 4)));
+        }
+        this.line(depth + 1, values.join(', '));
+      }
+      this.line(depth, `</${tag}>`);
+      return;
+    }
+
+    const itemType = element.kind === 'struct' ? ` itemType="${MetaNames.format(element.referenceKey)}"` : '';
+    this.line(depth, `<${tag}${itemType}>`);
+    for (let i = 0; i < count; i++) {
+      this.writeEntry({ ...element, offset: 0 }, 'Item', itemsBlock, itemsOffset + i * stride, depth + 1);
+    }
+    this.line(depth, `</${tag}>`);
+  }
+
+  private readNumber(kind: MetaValueKind, data: Buffer, offset: number): string {
+    const be = this.document.bigEndian;
+    switch (kind) {
+      case 'int8': return String(data.readInt8(offset));
+      case 'uint8': return String(data.readUInt8(offset));
+      case 'int16': return String(be ? data.readInt16BE(offset) : data.readInt16LE(offset));
+      case 'uint16': return String(this.readUInt16(data, offset));
+      case 'int32': return String(be ? data.readInt32BE(offset) : data.readInt32LE(offset));
+      case 'uint32': return String(this.readUInt32(data, offset));
+      case 'int64': return String(be ? data.readBigInt64BE(offset) : data.readBigInt64LE(offset));
+      case 'float': return this.formatFloat(this.readFloat(data, offset));
+      case 'half': return this.formatFloat(this.readHalf(this.readUInt16(data, offset)));
+      default: return '';
+    }
+  }
+
+  private formatFloat(value: number): string {
+    return Number.isInteger(value) ? value.toFixed(1) : String(+value.toPrecision(7));
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private line(depth: number, text: string): void {
+    this.lines.push(' '.repeat(depth) + text);
+  }
+}
+
+/**
+ * Converts a meta document to plain objects keyed by field name. Hashes are kept
+ * as numbers, enums become their value names and vectors become number arrays.
+ */
+export class MetaObjectReader extends MetaDataReader {
+  private constructor(document: MetaDocument) {
+    super(document);
+  }
+
+  static read(document: MetaDocument): MetaObject {
+    const reader = new MetaObjectReader(document);
+    const root = document.blocks[document.rootBlockIndex - 1];
+    if (!root) {
+      throw new Error(`Meta root block ${document.rootBlockIndex} not found`);
+    }
+    return reader.readStructure(root.nameHash, root, 0);
+  }
+
+  private readStructure(structureHash: number, block: MetaBlock, offset: number): MetaObject {
+    const result: MetaObject = { _type: MetaNames.format(structureHash) };
+    const structure = this.document.structures.get(structureHash);
+    if (!structure) return result;
+
+    for (const entry of structure.entries) {
+      result[MetaNames.format(entry.nameHash)] = this.readEntry(entry, block, offset + entry.offset);
+    }
+    return result;
+  }
+
+  private readEntry(entry: MetaEntryInfo, block: MetaBlock, offset: number): MetaValue {
+    switch (entry.kind) {
+      case 'bool':
+        return block.data[offset] !== 0;
+
+      case 'int8': case 'uint8': case 'int16': case 'uint16':
+      case 'int32': case 'uint32': case 'int64': case 'float': case 'half':
+        return this.readNumeric(entry.kind, block.data, offset);
+
+      case 'vec2': case 'vec3': case 'vec4': {
+        const axes = entry.kind === 'vec2' ? 2 : entry.kind === 'vec3' ? 3 : 4;
+        const values: number[] = [];
+        for (let i = 0; i < axes; i++) {
+          values.push(this.readFloat(block.data, offset + i * 4));
+        }
+        return values;
+      }
+
+      case 'hash':
+        return this.readUInt32(block.data, offset);
+
+      case 'enum':
+        return this.formatEnum(entry.referenceKey, this.readSized(block.data, offset, entry.size), false);
+
+      case 'flags':
+        return this.readSized(block.data, offset, entry.size);
+
+      case 'string': {
+        const bytes = block.data.subarray(offset, offset + (entry.count ?? 0));
+        const end = bytes.indexOf(0);
+        return bytes.toString('latin1', 0, end >= 0 ? end : bytes.length);
+      }
+
+      case 'stringPointer': {
+        const target = this.resolvePointer(this.readUInt32(block.data, offset));
+        return target ? this.readCString(target.block.data, target.offset) : '';
+      }
+
+      case 'struct':
+        return this.readStructure(entry.referenceKey, block, offset);
+
+      case 'structPointer': {
+        const target = this.resolvePointer(this.readUInt32(block.data, offset));
+        return target ? this.readStructure(target.block.nameHash, target.block, target.offset) : null;
+      }
+
+      case 'array': {
+        const element = entry.element;
+        const items = element && this.locateArrayItems(entry, element, block, offset);
+        if (!element || !items) return [];
+
+        const values: MetaValue[] = [];
+        for (let i = 0; i < items.count; i++) {
+          values.push(this.readEntry({ ...element, offset: 0 }, items.block, items.offset + i * items.stride));
+        }
+        return values;
+      }
+
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Typed access to the loosely typed values produced by MetaObjectReader.
+ */
+export class MetaValues {
+  static number(value: MetaValue | undefined, fallback: number = 0): number {
+    return typeof value === 'number' ? value : fallback;
+  }
+
+  static vector3(value: MetaValue | undefined): Vector3 {
+    const v = Array.isArray(value) ? value as number[] : [];
+    return [v[0] ?? 0, v[1] ?? 0, v[2] ?? 0];
+  }
+
+  static vector4(value: MetaValue | undefined): [number, number, number, number] {
+    const v = Array.isArray(value) ? value as number[] : [];
+    return [v[0] ?? 0, v[1] ?? 0, v[2] ?? 0, v[3] ?? 1];
+  }
+
+  static objects(value: MetaValue | undefined): MetaObject[] {
+    if (!Array.isArray(value)) return [];
+    return (value as MetaValue[]).filter((item): item is MetaObject => item !== null && typeof item === 'object' && !Array.isArray(item));
+  }
+}
+
+interface RbfNode {
+  name: string;
+  value?: string | number | boolean | number[] | Buffer;
+  children: RbfNode[];
+}
+
+export class RbfFile {
+  /**
+   * Converts an RBF0 binary XML file back to XML text.
+   */
+  static toXml(data: Buffer): string {
+    if (data.length < 4 || data.readUInt32LE(0) !== RBF_MAGIC) {
+      throw new Error('Not an RBF file');
+    }
+
+    const descriptors: { name: string, type: number }[] = [];
+    const root: RbfNode = { name: '', children: [] };
+    const stack: RbfNode[] = [root];
+    let position = 4;
+
+    while (position < data.length) {
+      const descriptorIndex = data[position++];
+      const current = stack[stack.length - 1];
+
+      if (descriptorIndex === 0xFF) {
+        position++;
+        if (stack.length > 1) stack.pop();
+        continue;
+      }
+
+      if (descriptorIndex === 0xFD) {
+        const length = data.readInt32LE(position);
+        current.value = data.subarray(position + 4, position + 4 + length);
+        position += 4 + length;
+        continue;
+      }
+
+      const dataType = data[position++];
+      let name: string;
+      if (descriptorIndex === descriptors.length) {
+        const nameLength = data.readInt16LE(position);
+        name = data.toString('latin1', position + 2, position + 2 + nameLength);
+        position += 2 + nameLength;
+        descriptors.push({ name, type: dataType });
+      } else {
+        name = descriptors[descriptorIndex]?.name ?? `unknown_${descriptorIndex}`;
+      }
+
+      const node: RbfNode = { name, children: [] };
+      switch (dataType) {
+        case 0x00:
+          current.children.push(node);
+          stack.push(node);
+          continue;
+        case 0x10:
+          node.value = data.readUInt32LE(position);
+          position += 4;
+          break;
+        case 0x20:
+          node.value = true;
+          break;
+        case 0x30:
+          node.value = false;
+          break;
+        case 0x40:
+          node.value = [data.readFloatLE(position)];
+          position += 4;
+          break;
+        case 0x50:
+          node.value = [data.readFloatLE(position), data.readFloatLE(position + 4), data.readFloatLE(position + 8)];
+          position += 12;
+          break;
+        case 0x60: {
+          const length = data.readInt16LE(position);
+          node.value = data.toString('latin1', position + 2, position + 2 + length);
+          position += 2 + length;
+          break;
+        }
+        default:
+          throw new Error(`Unknown RBF data type 0x${dataType.toString(16)} at offset ${position - 2}`);
+      }
+      current.children.push(node);
+    }
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    for (const child of root.children) {
+      this.writeNode(child, 0, lines);
+    }
+    return lines.join('\n');
+  }
+
+  private static writeNode(node: RbfNode, depth: number, lines: string[]): void {
+    const indent = ' '.repeat(depth);
+    const value = node.value;
+
+    if (typeof value === 'number') {
+      lines.push(`${indent}<${node.name} value="${value}"/>`);
+    } else if (typeof value === 'boolean') {
+      lines.push(`${indent}<${node.name} value="${value}"/>`);
+    } else if (Array.isArray(value)) {
+      const attributes = value.length === 1
+        ? `value="${value[0]}"`
+        : `x="${value[0]}" y="${value[1]}" z="${value[2]}"`;
+      lines.push(`${indent}<${node.name} ${attributes}/>`);
+    } else if (typeof value === 'string') {
+      lines.push(`${indent}<${node.name}>${value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</${node.name}>`);
+    } else if (Buffer.isBuffer(value)) {
+      lines.push(`${indent}<${node.name} content="bytes">${value.toString('hex')}</${node.name}>`);
+    } else if (node.children.length === 0) {
+      lines.push(`${indent}<${node.name}/>`);
+    } else {
+      lines.push(`${indent}<${node.name}>`);
+      for (const child of node.children) {
+        this.writeNode(child, depth + 1, lines);
+      }
+      lines.push(`${indent}</${node.name}>`);
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import { RpfManager } from './rpf-manager.js';
+import { ResourceReader } from './resource.js';
+import { Drawable, DrawableFile, DrawableGeometry, DrawableLod, DrawableShader, LodLevel } from './drawable.js';
+import { ArchetypeIndex } from './ytyp.js';
+import { YtdFile, YtdTexture } from './ytd.js';
+import { JenkHash } from './hash.js';
+
+export type ModelFormat = 'obj' | 'gltf';
+
+export interface MaterialTextures {
+  diffuse?: string;
+  normal?: string;
+  specular?: string;
+}
+
+interface MeshData {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  uvs: Float32Array | null;
+  indices: Uint16Array;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset: number;
+  byteLength: number;
+  target: number;
+}
+
+interface GltfAccessor {
+  bufferView: number;
+  componentType: number;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+}
+
+const DIFFUSE_SAMPLERS = ['DiffuseSampler', 'TextureSampler_layer0', 'TextureSamplerDiffPal'].map(name => JenkHash.joaat(name));
+const NORMAL_SAMPLER = JenkHash.joaat('BumpSampler');
+const SPECULAR_SAMPLER = JenkHash.joaat('SpecSampler');
+
+/**
+ * Converts decoded drawables to OBJ or glTF. Everything runs on the CPU;
+ * textures are referenced by file name (<texture>.<extension>) next to the model.
+ */
+export class ModelExporter {
+  static getMaterialTextures(shader: DrawableShader): MaterialTextures {
+    const textures: MaterialTextures = {};
+    for (const parameter of shader.parameters) {
+      if (!parameter.texture) continue;
+
+      if (DIFFUSE_SAMPLERS.includes(parameter.nameHash) && !textures.diffuse) {
+        textures.diffuse = parameter.texture;
+      } else if (parameter.nameHash === NORMAL_SAMPLER) {
+        textures.normal = parameter.texture;
+      } else if (parameter.nameHash === SPECULAR_SAMPLER) {
+        textures.specular = parameter.texture;
+      }
+    }
+
+    // Fall back to the first texture for shaders with unusual sampler names
+    if (!textures.diffuse) {
+      textures.diffuse = shader.parameters.find(p => p.texture)?.texture;
+    }
+    return textures;
+  }
+
+  static getLod(drawable: Drawable, level: LodLevel): DrawableLod {
+    const lod = drawable.lods.find(l => l.level === level);
+    if (!lod) {
+      throw new Error(`${drawable.name} has no ${level} LOD (available: ${drawable.lods.map(l => l.level).join(', ') || 'none'})`);
+    }
+    return lod;
+  }
+
+  /**
+   * Writes an OBJ and its MTL library. Coordinates stay in the game's Z-up space.
+   */
+  static toObj(drawable: Drawable, level: LodLevel, mtlFileName: string, textureExtension: string): { obj: string, mtl: string } {
+    const lod = this.getLod(drawable, level);
+    const obj = [`# ${drawable.name} (${level} LOD)`, `mtllib ${mtlFileName}`];
+    let vertexBase = 1;
+
+    lod.models.forEach((model, m) => {
+      obj.push(`o ${drawable.name}_${m}`);
+
+      model.geometries.forEach((geometry, g) => {
+        const mesh = this.getMeshData(geometry);
+        const count = geometry.vertexCount;
+
+        for (let i = 0; i < count; i++) {
+          obj.push(`v ${this.formatFloats(mesh.positions, i * 3, 3)}`);
+        }
+        for (let i = 0; i < count; i++) {
+          // OBJ texture space has V pointing up
+          obj.push(mesh.uvs ? `vt ${this.formatNumber(mesh.uvs[i * 2])} ${this.formatNumber(1 - mesh.uvs[i * 2 + 1])}` : 'vt 0 0');
+        }
+        for (let i = 0; i < count; i++) {
+          obj.push(mesh.normals ? `vn ${this.formatFloats(mesh.normals, i * 3, 3)}` : 'vn 0 0 1');
+        }
+
+        obj.push(`g ${drawable.name}_${m}_${g}`);
+        obj.push(`usemtl ${this.getMaterialName(drawable, geometry.shaderIndex)}`);
+        for (let i = 0; i + 2 < mesh.indices.length; i += 3) {
+          const face = [0, 1, 2].map(k => {
+            const index = mesh.indices[i + k] + vertexBase;
+            return `${index}/${index}/${index}`;
+          });
+          obj.push(`f ${face.join(' ')}`);
+        }
+
+        vertexBase += count;
+      });
+    });
+
+    const mtl: string[] = [];
+    drawable.shaders.forEach((shader, i) => {
+      const textures = this.getMaterialTextures(shader);
+      mtl.push(`newmtl ${this.getMaterialName(drawable, i)}`);
+      mtl.push('Ka 0 0 0', 'Kd 1 1 1', 'Ks 0 0 0');
+      if (textures.diffuse) mtl.push(`map_Kd ${textures.diffuse}.${textureExtension}`);
+      if (textures.normal) mtl.push(`map_Bump ${textures.normal}.${textureExtension}`);
+      if (textures.specular) mtl.push(`map_Ks ${textures.specular}.${textureExtension}`);
+      mtl.push('');
+    });
+
+    return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') };
+  }
+
+  /**
+   * Writes a self-contained glTF 2.0 file with the geometry embedded as a data URI.
+   * Positions and normals are converted from the game's Z-up space to glTF's Y-up.
+   */
+  static toGltf(drawable: Drawable, level: LodLevel, textureExtension: string): string {
+    const lod = this.getLod(drawable, level);
+    const chunks: Buffer[] = [];
+    let byteLength = 0;
+
+    const bufferViews: GltfBufferView[] = [];
+    const accessors: GltfAccessor[] = [];
+
+    const addAccessor = (data: Float32Array | Uint16Array, type: string, count: number, target: number, bounds?: { min: number[], max: number[] }): number => {
+      const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+      const padding = (4 - (bytes.length % 4)) % 4;
+      bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target });
+      chunks.push(bytes, Buffer.alloc(padding));
+      byteLength += bytes.length + padding;
+
+      accessors.push({
+        bufferView: bufferViews.length - 1,
+        componentType: data instanceof Float32Array ? 5126 : 5123,
+        count,
+        type,
+        ...bounds
+      });
+      return accessors.length - 1;
+    };
+
+    const meshes = lod.models.map((model, m) => ({
+      name: `${drawable.name}_${m}`,
+      primitives: model.geometries.map(geometry => {
+        const mesh = this.getMeshData(geometry);
+        const count = geometry.vertexCount;
+        const positions = this.toYUp(mesh.positions);
+        const attributes: Record<string, number> = {
+          POSITION: addAccessor(positions, 'VEC3', count, 34962, this.getBounds(positions))
+        };
+        if (mesh.normals) {
+          attributes.NORMAL = addAccessor(this.normalize(this.toYUp(mesh.normals)), 'VEC3', count, 34962);
+        }
+        if (mesh.uvs) {
+          attributes.TEXCOORD_0 = addAccessor(mesh.uvs, 'VEC2', count, 34962);
+        }
+
+        return {
+          attributes,
+          indices: addAccessor(mesh.indices, 'SCALAR', mesh.indices.length, 34963),
+          material: geometry.shaderIndex < drawable.shaders.length ? geometry.shaderIndex : undefined
+        };
+      })
+    }));
+
+    const images: { uri: string }[] = [];
+    const textures: { source: number }[] = [];
+    const textureIndex = (name: string): number => {
+      let index = images.findIndex(image => image.uri === `${name}.${textureExtension}`);
+      if (index < 0) {
+        images.push({ uri: `${name}.${textureExtension}` });
+        textures.push({ source: images.length - 1 });
+        index = images.length - 1;
+      }
+      return index;
+    };
+
+    const materials = drawable.shaders.map((shader, i) => {
+      const maps = this.getMaterialTextures(shader);
+      return {
+        name: this.getMaterialName(drawable, i),
+        pbrMetallicRoughness: {
+          metallicFactor: 0,
+          roughnessFactor: 1,
+          ...(maps.diffuse ? { baseColorTexture: { index: textureIndex(maps.diffuse) } } : {})
+        },
+        ...(maps.normal ? { normalTexture: { index: textureIndex(maps.normal) } } : {})
+      };
+    });
+
+    const buffer = Buffer.concat(chunks);
+    const gltf = {
+      asset: { version: '2.0', generator: 'gtavbrowser-mcp' },
+      scene: 0,
+      scenes: [{ name: drawable.name, nodes: meshes.map((_, i) => i) }],
+      nodes: meshes.map((mesh, i) => ({ name: mesh.name, mesh: i })),
+      meshes,
+      materials,
+      textures: textures.length > 0 ? textures : undefined,
+      images: images.length > 0 ? images : undefined,
+      accessors,
+      bufferViews,
+      buffers: [{ byteLength: buffer.length, uri: `data:application/octet-stream;base64,${buffer.toString('base64')}` }]
+    };
+
+    return JSON.stringify(gltf, null, 2);
+  }
+
+  /**
+   * Names of all textures referenced by the drawable's shaders.
+   */
+  static getTextureNames(drawable: Drawable): string[] {
+    const names = new Set<string>();
+    for (const shader of drawable.shaders) {
+      const textures = this.getMaterialTextures(shader);
+      for (const name of [textures.diffuse, textures.normal, textures.specular]) {
+        if (name) names.add(name);
+      }
+    }
+    return Array.from(names);
+  }
+
+  private static getMeshData(geometry: DrawableGeometry): MeshData {
+    const positions = DrawableFile.getVertexAttribute(geometry, 'position');
+    if (!positions) {
+      throw new Error('Geometry has no vertex positions');
+    }
+
+    const normals = DrawableFile.getVertexAttribute(geometry, 'normal');
+    const uvs = DrawableFile.getVertexAttribute(geometry, 'texCoord0');
+
+    return {
+      positions: this.toComponents(positions, 3),
+      normals: normals ? this.toComponents(normals, 3) : null,
+      uvs: uvs ? this.toComponents(uvs, 2) : null,
+      indices: geometry.indices
+    };
+  }
+
+  // Trims or pads attributes to the component count the output formats expect
+  private static toComponents(attribute: { size: number, values: Float32Array }, components: number): Float32Array {
+    if (attribute.size === components) return attribute.values;
+
+    const count = attribute.values.length / attribute.size;
+    const result = new Float32Array(count * components);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < Math.min(components, attribute.size); c++) {
+        result[i * components + c] = attribute.values[i * attribute.size + c];
+      }
+    }
+    return result;
+  }
+
+  private static toYUp(values: Float32Array): Float32Array {
+    const result = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i += 3) {
+      result[i] = values[i];
+      result[i + 1] = values[i + 2];
+      result[i + 2] = -values[i + 1];
+    }
+    return result;
+  }
+
+  private static normalize(values: Float32Array): Float32Array {
+    for (let i = 0; i < values.length; i += 3) {
+      const length = Math.hypot(values[i], values[i + 1], values[i + 2]);
+      if (length > 0) {
+        values[i] /= length;
+        values[i + 1] /= length;
+        values[i + 2] /= length;
+      } else {
+        values[i + 2] = 1;
+      }
+    }
+    return values;
+  }
+
+  private static getBounds(positions: Float32Array): { min: number[], max: number[] } {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+      for (let c = 0; c < 3; c++) {
+        min[c] = Math.min(min[c], positions[i + c]);
+        max[c] = Math.max(max[c], positions[i + c]);
+      }
+    }
+    return positions.length > 0 ? { min, max } : { min: [0, 0, 0], max: [0, 0, 0] };
+  }
+
+  private static getMaterialName(drawable: Drawable, shaderIndex: number): string {
+    const shader = drawable.shaders[shaderIndex];
+    return shader ? `${shaderIndex}_${shader.name}` : `${shaderIndex}_default`;
+  }
+
+  private static formatFloats(values: Float32Array, offset: number, count: number): string {
+    const parts: string[] = [];
+    for (let i = 0; i < count; i++) {
+      parts.push(this.formatNumber(values[offset + i]));
+    }
+    return parts.join(' ');
+  }
+
+  private static formatNumber(value: number): string {
+    return String(+value.toFixed(6));
+  }
+}
+
+export interface ResolvedTexture {
+  texture: YtdTexture;
+  /** Where the texture was found: "embedded" or "<rpf>:<path>" of the .ytd */
+  source: string;
+}
+
+/**
+ * Finds the textures a drawable references: first in its embedded dictionary,
+ * then in a .ytd with the same name, then in the texture dictionary its
+ * archetype definition points to.
+ */
+export class ModelTextureResolver {
+  constructor(private rpfManager: RpfManager, private archetypeIndex: ArchetypeIndex) {}
+
+  resolve(drawable: Drawable, rpfPath: string, filePath: string): { textures: Map<string, ResolvedTexture>, missing: string[] } {
+    const names = ModelExporter.getTextureNames(drawable);
+    const textures = new Map<string, ResolvedTexture>();
+    const pending = () => names.filter(name => !textures.has(name.toLowerCase()));
+
+    const collect = (ytd: YtdFile | null, source: string) => {
+      if (!ytd) return;
+      for (const name of pending()) {
+        const texture = ytd.findTexture(name);
+        if (texture) {
+          textures.set(name.toLowerCase(), { texture, source });
+        }
+      }
+    };
+
+    collect(drawable.textureDictionary, 'embedded');
+
+    // Vehicles and peds keep their textures in a dictionary named after the model
+    const baseName = filePath.split(/[\/\\]/).pop()!.replace(/\.[^.]+$/, '');
+    for (const dictionaryName of [drawable.name, baseName]) {
+      if (pending().length === 0) break;
+      for (const location of this.findTextureDictionaries(dictionaryName, rpfPath)) {
+        collect(this.readYtd(location.rpfPath, location.entryPath), `${location.rpfPath}:${location.entryPath}`);
+      }
+    }
+
+    if (pending().length > 0) {
+      for (const { archetype } of this.archetypeIndex.find(JenkHash.joaat(drawable.name))) {
+        if (!archetype.textureDictionary) continue;
+        for (const location of this.findTextureDictionaries(archetype.textureDictionary, rpfPath)) {
+          collect(this.readYtd(location.rpfPath, location.entryPath), `${location.rpfPath}:${location.entryPath}`);
+        }
+      }
+    }
+
+    return { textures, missing: pending() };
+  }
+
+  // Dictionaries in the model's own archive are tried first
+  private findTextureDictionaries(name: string, preferredRpf: string): { rpfPath: string, entryPath: string }[] {
+    const fileName = `${name.toLowerCase()}.ytd`;
+    return this.rpfManager.searchFiles(fileName)
+      .filter(result => result.entryPath.split(/[\/\\]/).pop()!.toLowerCase() === fileName)
+      .sort((a, b) => Number(b.rpfPath === preferredRpf) - Number(a.rpfPath === preferredRpf));
+  }
+
+  private readYtd(rpfPath: string, filePath: string): YtdFile | null {
+    const resource = this.rpfManager.getResourceContent(rpfPath, filePath);
+    if (!resource) return null;
+
+    try {
+      return YtdFile.read(new ResourceReader(resource));
+    } catch (error) {
+      console.error(`Failed to read texture dictionary ${filePath} from ${rpfPath}: ${error}`);
+      return null;
+    }
+  }
+}
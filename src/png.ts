@@ -0,0 +1,66 @@
+import zlib from 'zlib';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+export class PngEncoder {
+  /**
+   * Encodes 8-bit RGBA pixels (row-major, no padding) as a PNG file.
+   */
+  static encode(width: number, height: number, rgba: Buffer): Buffer {
+    if (rgba.length < width * height * 4) {
+      throw new Error(`Not enough pixel data for ${width}x${height} image`);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 6; // colour type: RGBA
+    header[10] = 0;
+    header[11] = 0;
+    header[12] = 0;
+
+    // Every scanline is prefixed with filter type 0 (none)
+    const rowLength = width * 4;
+    const raw = Buffer.alloc((rowLength + 1) * height);
+    for (let y = 0; y < height; y++) {
+      rgba.copy(raw, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+    }
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      this.chunk('IHDR', header),
+      this.chunk('IDAT', zlib.deflateSync(raw)),
+      this.chunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+
+  private static chunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'ascii');
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(this.crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+    return chunk;
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+  }
+}
@@ -0,0 +1,253 @@
+import { RpfResource } from './rpf.js';
+
+export const SYSTEM_BASE = 0x50000000;
+export const GRAPHICS_BASE = 0x60000000;
+
+export interface AtArray {
+  pointer: number;
+  count: number;
+  capacity: number;
+}
+
+export type ResourceItemReader<T> = (reader: ResourceReader, address: number) => T;
+
+/**
+ * Reads structures out of the decompressed segments of an RSC7 resource.
+ *
+ * All addresses are resource pointers as stored in the file: 0x5xxxxxxx points
+ * into the system (virtual) segment and 0x6xxxxxxx into the graphics (physical)
+ * segment. The root block of every resource lives at SYSTEM_BASE.
+ */
+export class ResourceReader {
+  readonly version: number;
+  readonly systemData: Buffer;
+  readonly graphicsData: Buffer;
+
+  constructor(resource: RpfResource) {
+    this.version = resource.version;
+    this.systemData = resource.systemData;
+    this.graphicsData = resource.graphicsData;
+  }
+
+  get rootAddress(): number {
+    return SYSTEM_BASE;
+  }
+
+  isValidPointer(address: number, length: number = 1): boolean {
+    const segment = this.getSegment(address);
+    if (!segment) return false;
+
+    const offset = address & 0x0FFFFFFF;
+    return offset + length <= segment.length;
+  }
+
+  readUInt8(address: number): number {
+    const { data, offset } = this.locate(address, 1);
+    return data.readUInt8(offset);
+  }
+
+  readUInt16(address: number): number {
+    const { data, offset } = this.locate(address, 2);
+    return data.readUInt16LE(offset);
+  }
+
+  readInt16(address: number): number {
+    const { data, offset } = this.locate(address, 2);
+    return data.readInt16LE(offset);
+  }
+
+  readUInt32(address: number): number {
+    const { data, offset } = this.locate(address, 4);
+    return data.readUInt32LE(offset);
+  }
+
+  readInt32(address: number): number {
+    const { data, offset } = this.locate(address, 4);
+    return data.readInt32LE(offset);
+  }
+
+  readUInt64(address: number): bigint {
+    const { data, offset } = this.locate(address, 8);
+    return data.readBigUInt64LE(offset);
+  }
+
+  readFloat(address: number): number {
+    const { data, offset } = this.locate(address, 4);
+    return data.readFloatLE(offset);
+  }
+
+  readVector3(address: number): [number, number, number] {
+    return [this.readFloat(address), this.readFloat(address + 4), this.readFloat(address + 8)];
+  }
+
+  readVector4(address: number): [number, number, number, number] {
+    return [
+      this.readFloat(address),
+      this.readFloat(address + 4),
+      this.readFloat(address + 8),
+      this.readFloat(address + 12)
+    ];
+  }
+
+  readBytes(address: number, length: number): Buffer {
+    const { data, offset } = this.locate(address, length);
+    return data.subarray(offset, offset + length);
+  }
+
+  /**
+   * Reads a 64-bit pointer field. Returns 0 for null pointers.
+   */
+  readPointer(address: number): number {
+    return Number(this.readUInt64(address) & 0xFFFFFFFFn);
+  }
+
+  readString(address: number): string {
+    const { data, offset } = this.locate(address, 1);
+    let end = offset;
+    while (end < data.length && data[end] !== 0) {
+      end++;
+    }
+    return data.toString('latin1', offset, end);
+  }
+
+  /**
+   * Follows a pointer field to a null-terminated string.
+   */
+  readStringPointer(address: number): string | null {
+    const pointer = this.readPointer(address);
+    return pointer ? this.readString(pointer) : null;
+  }
+
+  readArray<T>(address: number, count: number, stride: number, readItem: ResourceItemReader<T>): T[] {
+    const items: T[] = [];
+    if (!address || count === 0) return items;
+
+    this.locate(address, count * stride);
+    for (let i = 0; i < count; i++) {
+      items.push(readItem(this, address + i * stride));
+    }
+    return items;
+  }
+
+  readUInt32Array(address: number, count: number): number[] {
+    return this.readArray(address, count, 4, (r, a) => r.readUInt32(a));
+  }
+
+  readPointerArray(address: number, count: number): number[] {
+    return this.readArray(address, count, 8, (r, a) => r.readPointer(a));
+  }
+
+  /**
+   * Reads an atArray header: a 64-bit pointer followed by 16-bit count and capacity.
+   */
+  readAtArray(address: number): AtArray {
+    return {
+      pointer: this.readPointer(address),
+      count: this.readUInt16(address + 8),
+      capacity: this.readUInt16(address + 10)
+    };
+  }
+
+  /**
+   * Reads an atArray of structures stored inline with the given stride.
+   */
+  readSimpleList<T>(address: number, stride: number, readItem: ResourceItemReader<T>): T[] {
+    const array = this.readAtArray(address);
+    return this.readArray(array.pointer, array.count, stride, readItem);
+  }
+
+  readUInt32List(address: number): number[] {
+    return this.readSimpleList(address, 4, (r, a) => r.readUInt32(a));
+  }
+
+  /**
+   * Reads a pgObjectArray: an atArray of pointers, each resolved with readItem.
+   * Null pointers are kept as null so indices stay aligned.
+   */
+  readPgObjectArray<T>(address: number, readItem: ResourceItemReader<T>): (T | null)[] {
+    const array = this.readAtArray(address);
+    return this.readPointerArray(array.pointer, array.count)
+      .map(pointer => pointer ? readItem(this, pointer) : null);
+  }
+
+  /**
+   * Pairs an atArray of hashes with a pgObjectArray of values.
+   */
+  readHashKeyedArray<T>(hashesAddress: number, valuesAddress: number, readItem: ResourceItemReader<T>): Map<number, T> {
+    const hashes = this.readUInt32List(hashesAddress);
+    const values = this.readPgObjectArray(valuesAddress, readItem);
+
+    if (hashes.length !== values.length) {
+      throw new Error(`Hash count ${hashes.length} does not match value count ${values.length}`);
+    }
+
+    const result = new Map<number, T>();
+    hashes.forEach((hash, i) => {
+      const value = values[i];
+      if (value !== null) {
+        result.set(hash, value);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Reads an atMap: buckets of pointers to linked entries keyed by a u32 hash at offset 0,
+   * with the next entry pointer at `nextOffset`. readItem receives each entry's address.
+   */
+  readAtMap<T>(bucketsPointer: number, bucketCount: number, nextOffset: number, readItem: ResourceItemReader<T>): Map<number, T> {
+    const result = new Map<number, T>();
+    const visited = new Set<number>();
+
+    for (let entry of this.readPointerArray(bucketsPointer, bucketCount)) {
+      while (entry && !visited.has(entry)) {
+        visited.add(entry);
+        result.set(this.readUInt32(entry), readItem(this, entry));
+        entry = this.readPointer(entry + nextOffset);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Reads a pgDictionary (texture dictionaries, drawable dictionaries...).
+   * Layout: 0x10-byte pgBase, parent pointer, usage count, hashes at 0x20, values at 0x30.
+   */
+  readPgDictionary<T>(address: number, readItem: ResourceItemReader<T>): Map<number, T> {
+    return this.readHashKeyedArray(address + 0x20, address + 0x30, readItem);
+  }
+
+  /**
+   * Converts an IEEE 754 half-precision value (as stored in vertex data and PSO files) to a number.
+   */
+  static halfToFloat(value: number): number {
+    const sign = (value & 0x8000) ? -1 : 1;
+    const exponent = (value >> 10) & 0x1F;
+    const mantissa = value & 0x3FF;
+    if (exponent === 0) return sign * mantissa * Math.pow(2, -24);
+    if (exponent === 0x1F) return mantissa ? NaN : sign * Infinity;
+    return sign * (1 + mantissa / 1024) * Math.pow(2, exponent - 15);
+  }
+
+  private getSegment(address: number): Buffer | undefined {
+    switch ((address >>> 28) & 0xF) {
+      case 0x5: return this.systemData;
+      case 0x6: return this.graphicsData;
+      default: return undefined;
+    }
+  }
+
+  private locate(address: number, length: number): { data: Buffer, offset: number } {
+    const data = this.getSegment(address);
+    if (!data) {
+      throw new Error(`Invalid resource pointer: 0x${(address >>> 0).toString(16)}`);
+    }
+
+    const offset = address & 0x0FFFFFFF;
+    if (offset + length > data.length) {
+      throw new Error(`Resource pointer out of range: 0x${(address >>> 0).toString(16)} (+${length} bytes)`);
+    }
+
+    return { data, offset };
+  }
+}
@@ -1,6 +1,10 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { RpfFile, RpfEntry, RpfDirectoryEntry, RpfFileEntry } from './rpf.js';
+import { RpfFile, RpfEntry, RpfDirectoryEntry, RpfFileEntry, RpfResourceFileEntry, RpfResource } from './rpf.js';
+import { ResourceReader } from './resource.js';
+import { HashDictionary } from './hash.js';
+import { RpfIndexCache } from './index-cache.js';
 
 export interface RpfSearchResult {
   rpfPath: string;
@@ -9,44 +13,227 @@ export interface RpfSearchResult {
   rpfFile: RpfFile;
 }
 
+export interface RpfFileInfo {
+  name: string;
+  path: string;
+  type: 'directory' | 'file';
+  size: number;
+  compressedSize: number;
+  encrypted: boolean;
+  rpfPath: string;
+  /** Page sizes of a resource's inflated segments */
+  resource?: {
+    version: number;
+    systemSize: number;
+    graphicsSize: number;
+  };
+}
+
+export interface RpfIndexStats {
+  archives: number;
+  cached: number;
+  scanned: number;
+  failed: number;
+}
+
+export interface RpfIndexStatus extends RpfIndexStats {
+  pending: number;
+  nested: number;
+  warmingUp: boolean;
+  /** Milliseconds since the current warm-up or rebuild started */
+  elapsed: number;
+}
+
+export interface RpfFileCopy {
+  rpfPath: string;
+  entryPath: string;
+  /** Size of the file's contents, inflated if it is stored compressed */
+  size: number;
+  /** SHA-1 of the stored data, when contents were compared */
+  hash?: string;
+}
+
+export interface RpfDuplicate {
+  /** Path the copies are mounted at, e.g. common/data/handling.meta */
+  path: string;
+  copies: RpfFileCopy[];
+  sizesDiffer: boolean;
+  hashesDiffer?: boolean;
+}
+
 export class RpfManager {
   private rootPath: string = "";
   private rpfFiles: Map<string, RpfFile> = new Map();
+  // Archives found on disk whose table of contents has not been read yet, by relative path
+  private pendingArchives: Map<string, string> = new Map();
+  private stats: RpfIndexStats = { archives: 0, cached: 0, scanned: 0, failed: 0 };
+  private startedAt = Date.now();
+  private warmingUp: boolean = false;
   private initialized: boolean = false;
+  private indexCache: RpfIndexCache;
+
+  constructor(indexCache: RpfIndexCache = new RpfIndexCache()) {
+    this.indexCache = indexCache;
+  }
 
+  /**
+   * Registers the archives below rootPath without reading them. Tables of contents are read on
+   * first access, or ahead of time by warmUp.
+   */
   async init(rootPath: string): Promise<void> {
     if (!fs.existsSync(rootPath)) {
       throw new Error(`Root path does not exist: ${rootPath}`);
     }
 
     this.rootPath = path.resolve(rootPath);
-    await this.scanForRpfFiles();
+    this.indexCache.load(this.rootPath);
+    this.registerArchives();
     this.initialized = true;
   }
 
-  private async scanForRpfFiles(): Promise<void> {
+  /**
+   * Loads the remaining archives one at a time, yielding to the event loop in between so
+   * requests are still served while the index fills up.
+   */
+  async warmUp(): Promise<RpfIndexStats> {
+    if (this.warmingUp) return this.stats;
+
+    this.warmingUp = true;
+    try {
+      let next: string | undefined;
+      while ((next = this.pendingArchives.keys().next().value) !== undefined) {
+        this.loadArchive(next);
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    } finally {
+      this.warmingUp = false;
+      this.indexCache.save();
+    }
+
+    return this.stats;
+  }
+
+  /**
+   * Loads every archive that has not been loaded yet. Used by operations that need the whole index.
+   */
+  loadAll(): void {
+    if (this.pendingArchives.size === 0) return;
+
+    for (const relativePath of Array.from(this.pendingArchives.keys())) {
+      this.loadArchive(relativePath);
+    }
+    this.indexCache.save();
+  }
+
+  /**
+   * Reloads every archive. A full rebuild discards the index cache and rescans all
+   * tables of contents; otherwise only new and changed archives are rescanned.
+   */
+  async rebuildIndex(full: boolean = true): Promise<RpfIndexStats> {
+    if (full) {
+      this.indexCache.clear();
+    }
+    this.registerArchives();
+    this.loadAll();
+    return { ...this.stats };
+  }
+
+  getIndexStatus(): RpfIndexStatus {
+    const loaded = this.stats.cached + this.stats.scanned;
+    return {
+      ...this.stats,
+      pending: this.pendingArchives.size,
+      nested: this.rpfFiles.size - loaded,
+      warmingUp: this.warmingUp,
+      elapsed: Date.now() - this.startedAt
+    };
+  }
+
+  get indexCachePath(): string {
+    return this.indexCache.cachePath;
+  }
+
+  private registerArchives(): void {
     const rpfPaths = this.findRpfFiles(this.rootPath);
+    const present = new Set<string>();
 
+    this.rpfFiles.clear();
+    this.pendingArchives.clear();
     for (const rpfPath of rpfPaths) {
-      try {
-        const rpfFile = new RpfFile(
+      const relativePath = path.relative(this.rootPath, rpfPath).replace(/\\/g, '/');
+      this.pendingArchives.set(relativePath, rpfPath);
+      present.add(relativePath);
+    }
+
+    this.stats = { archives: rpfPaths.length, cached: 0, scanned: 0, failed: 0 };
+    this.startedAt = Date.now();
+    this.indexCache.retain(present);
+  }
+
+  // Archives whose size and mtime match the index cache are restored from it instead of reading their TOC
+  private loadArchive(relativePath: string): void {
+    const rpfPath = this.pendingArchives.get(relativePath);
+    if (!rpfPath) return;
+
+    this.pendingArchives.delete(relativePath);
+
+    try {
+      const fileStats = fs.statSync(rpfPath);
+      let rpfFile = this.loadCachedRpf(rpfPath, relativePath, fileStats.size, fileStats.mtimeMs);
+      const cached = rpfFile !== null;
+
+      if (!rpfFile) {
+        rpfFile = new RpfFile(
           rpfPath,
           path.basename(rpfPath),
           0
         );
 
-        await rpfFile.scanStructure();
+        rpfFile.scanStructure();
+        this.indexCache.set(relativePath, fileStats.size, fileStats.mtimeMs, rpfFile.toIndexData());
+      }
 
-        const relativePath = path.relative(this.rootPath, rpfPath).replace(/\\/g, '/');
-        this.rpfFiles.set(relativePath, rpfFile);
+      this.rpfFiles.set(relativePath, rpfFile);
+      this.addEntryNames(rpfFile);
 
-        console.error(`Loaded RPF: ${relativePath}`);
+      console.error(`Loaded RPF: ${relativePath}${cached ? ' (cached)' : ''}`);
+      this.stats[cached ? 'cached' : 'scanned']++;
 
-        this.addNestedRpfs(rpfFile, relativePath);
-      } catch (error) {
-        console.error(`Failed to load RPF ${rpfPath}: ${error}`);
+      this.addNestedRpfs(rpfFile, relativePath);
+    } catch (error) {
+      console.error(`Failed to load RPF ${rpfPath}: ${error}`);
+      this.indexCache.delete(relativePath);
+      this.stats.failed++;
+    }
+  }
+
+  private loadCachedRpf(rpfPath: string, relativePath: string, size: number, mtime: number): RpfFile | null {
+    const data = this.indexCache.get(relativePath, size, mtime);
+    if (!data) return null;
+
+    try {
+      return RpfFile.fromIndexData(rpfPath, data);
+    } catch (error) {
+      console.error(`Ignoring cached index of ${relativePath}: ${error}`);
+      return null;
+    }
+  }
+
+  // Archetypes, textures and other assets are referenced by the hash of their file name
+  private addEntryNames(rpfFile: RpfFile): void {
+    for (const entry of rpfFile.allEntries) {
+      if (!entry.name) continue;
+
+      HashDictionary.add(entry.name);
+      const dot = entry.name.lastIndexOf('.');
+      if (dot > 0) {
+        HashDictionary.add(entry.name.substring(0, dot));
       }
     }
+
+    for (const child of rpfFile.children) {
+      this.addEntryNames(child);
+    }
   }
 
   private findRpfFiles(dirPath: string): string[] {
@@ -73,9 +260,10 @@ export class RpfManager {
     return rpfFiles;
   }
 
+  // Nested archives are addressed by their full path within the parent, e.g. "dlc.rpf/x64/levels/a.rpf"
   private addNestedRpfs(rpfFile: RpfFile, basePath: string): void {
     for (const child of rpfFile.children) {
-      const nestedPath = `${basePath}/${child.fileName}`;
+      const nestedPath = `${basePath}/${child.parentEntry?.path.replace(/\\/g, '/') ?? child.fileName}`;
       this.rpfFiles.set(nestedPath, child);
       console.error(`Loaded nested RPF: ${nestedPath}`);
 
@@ -85,16 +273,33 @@ export class RpfManager {
     }
   }
 
+  /**
+   * Paths of loaded and not yet loaded archives. Nested archives are only listed once the
+   * archive containing them is loaded; call loadAll first when the complete list is needed.
+   */
   getRpfList(): string[] {
-    return Array.from(this.rpfFiles.keys()).sort();
+    return Array.from(new Set([...this.rpfFiles.keys(), ...this.pendingArchives.keys()])).sort();
   }
 
   getRpfFile(rpfPath: string): RpfFile | undefined {
-    return this.rpfFiles.get(rpfPath);
+    const rpfFile = this.rpfFiles.get(rpfPath);
+    if (rpfFile) return rpfFile;
+
+    // A nested path such as "x64/a.rpf/data/b.rpf" needs its top-level archive loaded first
+    const lowerPath = rpfPath.toLowerCase();
+    let end = 0;
+    while ((end = lowerPath.indexOf('.rpf', end) + 4) >= 4) {
+      const archivePath = rpfPath.substring(0, end);
+      if (this.pendingArchives.has(archivePath)) {
+        this.loadArchive(archivePath);
+        return this.rpfFiles.get(rpfPath);
+      }
+    }
+    return undefined;
   }
 
   listDirectory(rpfPath: string, directoryPath: string = ""): { directories: string[], files: string[] } | null {
-    const rpf = this.rpfFiles.get(rpfPath);
+    const rpf = this.getRpfFile(rpfPath);
     if (!rpf || !rpf.root) return null;
 
     let targetDir: RpfDirectoryEntry;
@@ -116,7 +321,7 @@ export class RpfManager {
   }
 
   getFileContent(rpfPath: string, filePath: string): Buffer | null {
-    const rpf = this.rpfFiles.get(rpfPath);
+    const rpf = this.getRpfFile(rpfPath);
     if (!rpf) return null;
 
     const entry = rpf.findEntry(filePath);
@@ -132,8 +337,35 @@ export class RpfManager {
     }
   }
 
-  getFileInfo(rpfPath: string, filePath: string): any | null {
-    const rpf = this.rpfFiles.get(rpfPath);
+  getResourceContent(rpfPath: string, filePath: string): RpfResource | null {
+    const rpf = this.getRpfFile(rpfPath);
+    if (!rpf) return null;
+
+    const entry = rpf.findEntry(filePath);
+    if (!entry || !(entry instanceof RpfResourceFileEntry)) {
+      return null;
+    }
+
+    try {
+      return entry.getResourceData(rpf);
+    } catch (error) {
+      console.error(`Failed to decompress resource ${filePath} from ${rpfPath}: ${error}`);
+      return null;
+    }
+  }
+
+  getResourceReader(rpfPath: string, filePath: string): ResourceReader | null {
+    const resource = this.getResourceContent(rpfPath, filePath);
+    return resource ? new ResourceReader(resource) : null;
+  }
+
+  isResource(rpfPath: string, filePath: string): boolean {
+    const entry = this.getRpfFile(rpfPath)?.findEntry(filePath);
+    return entry instanceof RpfResourceFileEntry;
+  }
+
+  getFileInfo(rpfPath: string, filePath: string): RpfFileInfo | null {
+    const rpf = this.getRpfFile(rpfPath);
     if (!rpf) return null;
 
     const entry = rpf.findEntry(filePath);
@@ -142,7 +374,7 @@ export class RpfManager {
     const isDirectory = entry instanceof RpfDirectoryEntry;
     const fileEntry = entry as RpfFileEntry;
 
-    return {
+    const info: RpfFileInfo = {
       name: entry.name,
       path: entry.path,
       type: isDirectory ? 'directory' : 'file',
@@ -151,12 +383,23 @@ export class RpfManager {
       encrypted: isDirectory ? false : fileEntry.isEncrypted,
       rpfPath: rpfPath
     };
+
+    if (entry instanceof RpfResourceFileEntry) {
+      info.resource = {
+        version: entry.version,
+        systemSize: entry.systemSize,
+        graphicsSize: entry.graphicsSize
+      };
+    }
+
+    return info;
   }
 
   searchFiles(pattern: string): RpfSearchResult[] {
     const results: RpfSearchResult[] = [];
     const searchPattern = pattern.toLowerCase();
 
+    this.loadAll();
     for (const [rpfPath, rpfFile] of this.rpfFiles) {
       if (!rpfFile.root) continue;
 
@@ -166,6 +409,106 @@ export class RpfManager {
     return results;
   }
 
+  /**
+   * Every copy of a file across all archives. A bare name matches files of that name anywhere;
+   * a path such as "data/handling.meta" matches entries whose path ends with it.
+   */
+  findFileCopies(logicalPath: string, compareContents: boolean = false): RpfFileCopy[] {
+    const target = logicalPath.replace(/\\/g, '/').replace(/^\/+/, '').toLowerCase();
+    const name = target.split('/').pop() ?? target;
+    const copies: RpfFileCopy[] = [];
+
+    this.loadAll();
+    for (const [rpfPath, rpfFile] of this.rpfFiles) {
+      for (const entry of rpfFile.allEntries) {
+        if (!(entry instanceof RpfFileEntry) || entry.nameLower !== name) continue;
+
+        const entryPath = entry.path.replace(/\\/g, '/').toLowerCase();
+        if (target !== name && entryPath !== target && !entryPath.endsWith(`/${target}`)) continue;
+
+        copies.push(this.describeCopy(rpfPath, rpfFile, entry, compareContents));
+      }
+    }
+
+    return copies;
+  }
+
+  /**
+   * Files shipped at the same mounted path in more than one archive, such as update.rpf copies
+   * shadowing base game files, optionally limited to file names matching pattern. Contents are only
+   * hashed when requested, and then for every copy of a file once any two of its copies have the same size.
+   */
+  findDuplicates(pattern: string = '', compareContents: boolean = false): RpfDuplicate[] {
+    const searchPattern = pattern.toLowerCase();
+    const byPath = new Map<string, { rpfPath: string, rpfFile: RpfFile, entry: RpfFileEntry }[]>();
+
+    this.loadAll();
+    for (const [rpfPath, rpfFile] of this.rpfFiles) {
+      for (const entry of rpfFile.allEntries) {
+        if (!(entry instanceof RpfFileEntry)) continue;
+        if (searchPattern && !this.matchesPattern(entry.nameLower, searchPattern)) continue;
+
+        const mountedPath = this.getMountedPath(rpfPath, entry);
+        const locations = byPath.get(mountedPath) ?? [];
+        locations.push({ rpfPath, rpfFile, entry });
+        byPath.set(mountedPath, locations);
+      }
+    }
+
+    const duplicates: RpfDuplicate[] = [];
+    for (const [mountedPath, locations] of byPath) {
+      if (locations.length < 2) continue;
+
+      const sizes = new Set(locations.map(({ entry }) => entry.getContentSize()));
+      const hashContents = compareContents && sizes.size < locations.length;
+      const copies = locations.map(({ rpfPath, rpfFile, entry }) => this.describeCopy(rpfPath, rpfFile, entry, hashContents));
+
+      const duplicate: RpfDuplicate = { path: mountedPath, copies, sizesDiffer: sizes.size > 1 };
+      if (compareContents) {
+        duplicate.hashesDiffer = duplicate.sizesDiffer || new Set(copies.map(copy => copy.hash)).size > 1;
+      }
+      duplicates.push(duplicate);
+    }
+
+    return duplicates.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private describeCopy(rpfPath: string, rpfFile: RpfFile, entry: RpfFileEntry, compareContents: boolean): RpfFileCopy {
+    const copy: RpfFileCopy = { rpfPath, entryPath: entry.path, size: entry.getContentSize() };
+
+    if (compareContents) {
+      try {
+        copy.hash = crypto.createHash('sha1').update(entry.getFileData(rpfFile)).digest('hex');
+      } catch (error) {
+        console.error(`Failed to hash ${entry.path} in ${rpfPath}: ${error}`);
+      }
+    }
+
+    return copy;
+  }
+
+  // Base archives are mounted at common/ and x64/, while update.rpf contains those folders itself. DLC packs
+  // mirror them too; anything else in a pack, such as its content.xml, only exists on the pack's own device
+  private getMountedPath(rpfPath: string, entry: RpfFileEntry): string {
+    const fullPath = `${rpfPath}/${entry.path}`.replace(/\\/g, '/').toLowerCase();
+
+    const dlc = fullPath.match(/^(?:.*\/)?dlcpacks\/([^/]+)\/dlc\.rpf\/(.*)$/);
+    if (dlc) {
+      return /^(common|x64)\//.test(dlc[2]) ? dlc[2] : `dlc_${dlc[1]}:/${dlc[2]}`;
+    }
+
+    const update = fullPath.match(/^update\/update\d*\.rpf\/(.*)$/);
+    if (update) return update[1];
+
+    const common = fullPath.match(/^common\.rpf\/(.*)$/);
+    if (common) return `common/${common[1]}`;
+
+    const platform = fullPath.match(/^x64[a-z]?\.rpf\/(.*)$/);
+    if (platform) return `x64/${platform[1]}`;
+
+    return fullPath;
+  }
+
   private searchInDirectory(
     dir: RpfDirectoryEntry,
     rpfPath: string,
@@ -207,7 +550,7 @@ export class RpfManager {
   }
 
   getDirectoryTree(rpfPath: string, directoryPath: string = "", maxDepth: number = 3): any | null {
-    const rpf = this.rpfFiles.get(rpfPath);
+    const rpf = this.getRpfFile(rpfPath);
     if (!rpf || !rpf.root) return null;
 
     let targetDir: RpfDirectoryEntry;
@@ -0,0 +1,405 @@
+import fs from 'fs';
+import path from 'path';
+import { GTACrypto, RpfEncryption } from './crypto.js';
+import { RpfFile, RpfFileEntry, RpfResourceFileEntry, RpfBinaryFileEntry, RpfDirectoryEntry, RPF7_MAGIC, RSC7_MAGIC } from './rpf.js';
+
+const BLOCK_SIZE = 512;
+const DIRECTORY_IDENT = 0x7FFFFF00;
+// Resource sizes that do not fit the 24-bit size field are stored in place of bytes of the RSC7 header instead
+const MAX_ENTRY_SIZE = 0xFFFFFF;
+const RESOURCE_OFFSET_FLAG = 0x800000;
+
+/**
+ * A file to be written: either an entry copied byte for byte from an existing archive,
+ * or new data stored uncompressed (plain files) or as given (RSC7 resources).
+ */
+type RpfWriterSource =
+  | { kind: 'entry', rpf: RpfFile, entry: RpfFileEntry }
+  | { kind: 'data', data: Buffer };
+
+interface RpfWriterFile {
+  path: string;
+  source: RpfWriterSource;
+}
+
+interface RpfWriterNode {
+  name: string;
+  file?: RpfWriterFile;
+  children?: RpfWriterNode[];
+  entriesIndex?: number;
+}
+
+export interface RpfWriteResult {
+  outputPath: string;
+  size: number;
+  entries: number;
+  files: number;
+}
+
+export interface RpfWriterChange {
+  action: 'add' | 'replace' | 'remove';
+  path: string;
+}
+
+interface RpfLayout {
+  nodes: RpfWriterNode[];
+  names: { buffer: Buffer, offsets: Map<RpfWriterNode, number> };
+  placements: Map<RpfWriterNode, { block: number, size: number }>;
+  totalSize: number;
+}
+
+/**
+ * Builds RPF7 archives. Existing entries are copied as stored, so compression and per-file
+ * encryption survive; the table of contents and names are rebuilt, sorted and re-encrypted
+ * with the archive's scheme, except that NG archives are rewritten with OPEN encryption since
+ * NG encryption cannot be written, and their encrypted entries are decrypted on the way.
+ * New files are stored uncompressed and unencrypted.
+ */
+export class RpfWriter {
+  /** Files added, replaced and removed since the writer was created */
+  readonly changes: RpfWriterChange[] = [];
+  private files: Map<string, RpfWriterFile> = new Map();
+  private directories: Map<string, string> = new Map();
+
+  /** Encryption of the archive the writer started from, when it differs from the one written */
+  sourceEncryption?: RpfEncryption;
+
+  constructor(readonly encryption: RpfEncryption = RpfEncryption.OPEN) {
+    if (encryption === RpfEncryption.NG) {
+      throw new Error('NG encryption cannot be written; use OPEN or AES encryption instead');
+    }
+  }
+
+  /**
+   * Starts from the contents of an existing archive, keeping its encryption scheme unless it is NG.
+   */
+  static fromRpf(rpf: RpfFile): RpfWriter {
+    const writer = new RpfWriter(rpf.encryption === RpfEncryption.NG ? RpfEncryption.OPEN : rpf.encryption);
+    if (writer.encryption !== rpf.encryption) {
+      writer.sourceEncryption = rpf.encryption;
+    }
+
+    for (const entry of rpf.allEntries) {
+      if (entry instanceof RpfDirectoryEntry) {
+        if (entry.path) {
+          writer.addDirectory(entry.path);
+        }
+      } else if (entry instanceof RpfFileEntry) {
+        writer.setFile(entry.path, { kind: 'entry', rpf, entry });
+      }
+    }
+
+    return writer;
+  }
+
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  hasFile(entryPath: string): boolean {
+    return this.files.has(RpfWriter.normalize(entryPath).toLowerCase());
+  }
+
+  /**
+   * Adds or replaces a file, creating its directories. Returns true when an existing file was replaced.
+   */
+  addFile(entryPath: string, data: Buffer): boolean {
+    const replaced = this.hasFile(entryPath);
+    this.setFile(entryPath, { kind: 'data', data });
+    this.changes.push({ action: replaced ? 'replace' : 'add', path: RpfWriter.normalize(entryPath) });
+    return replaced;
+  }
+
+  addDirectory(entryPath: string): void {
+    const parts = RpfWriter.normalize(entryPath).split('\\');
+    for (let i = 1; i <= parts.length; i++) {
+      const dirPath = parts.slice(0, i).join('\\');
+      if (this.files.has(dirPath.toLowerCase())) {
+        throw new Error(`Cannot create directory ${dirPath}: a file with that path exists`);
+      }
+      if (!this.directories.has(dirPath.toLowerCase())) {
+        this.directories.set(dirPath.toLowerCase(), dirPath);
+      }
+    }
+  }
+
+  /**
+   * Removes a file, or a directory with everything below it. Returns the number of files removed.
+   */
+  remove(entryPath: string): number {
+    const target = RpfWriter.normalize(entryPath).toLowerCase();
+
+    const file = this.files.get(target);
+    if (file) {
+      this.files.delete(target);
+      this.changes.push({ action: 'remove', path: file.path });
+      return 1;
+    }
+    if (!this.directories.has(target)) {
+      throw new Error(`Entry not found in archive: ${entryPath}`);
+    }
+
+    let removed = 0;
+    for (const [key, file] of Array.from(this.files)) {
+      if (key.startsWith(`${target}\\`)) {
+        this.files.delete(key);
+        this.changes.push({ action: 'remove', path: file.path });
+        removed++;
+      }
+    }
+    for (const key of Array.from(this.directories.keys())) {
+      if (key === target || key.startsWith(`${target}\\`)) {
+        this.directories.delete(key);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Size and entry counts of the archive write would produce, without reading any file data.
+   */
+  measure(): { size: number, entries: number, files: number } {
+    const layout = this.layout();
+    return { size: layout.totalSize, entries: layout.nodes.length, files: layout.placements.size };
+  }
+
+  /**
+   * Writes the archive to a temporary file next to outputPath and renames it into place,
+   * so an archive can be rewritten over the file its entries are copied from.
+   */
+  write(outputPath: string): RpfWriteResult {
+    const fileName = path.basename(outputPath);
+    const { nodes, names, placements, totalSize } = this.layout();
+    const entries = this.buildEntries(nodes, names, placements);
+
+    const header = Buffer.alloc(16);
+    header.writeUInt32LE(RPF7_MAGIC, 0);
+    header.writeUInt32LE(nodes.length, 4);
+    header.writeUInt32LE(names.buffer.length, 8);
+    header.writeUInt32LE(this.encryption >>> 0, 12);
+
+    const outputDirectory = path.dirname(path.resolve(outputPath));
+    fs.mkdirSync(outputDirectory, { recursive: true });
+    const tempPath = path.join(outputDirectory, `.${fileName}.${process.pid}.tmp`);
+
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, Buffer.concat([header, this.encrypt(entries), this.encrypt(names.buffer)]), 0, undefined, 0);
+
+      for (const [node, placement] of placements) {
+        const data = this.readSource(node.file!.source);
+        fs.writeSync(fd, data, 0, data.length, placement.block * BLOCK_SIZE);
+      }
+
+      fs.ftruncateSync(fd, totalSize);
+    } catch (error) {
+      fs.closeSync(fd);
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+    fs.closeSync(fd);
+    fs.renameSync(tempPath, outputPath);
+
+    return { outputPath, size: totalSize, entries: nodes.length, files: placements.size };
+  }
+
+  private layout(): RpfLayout {
+    const nodes = this.buildTree();
+    const names = this.buildNames(nodes);
+    const headerSize = 16 + nodes.length * 16 + names.buffer.length;
+
+    // Data blocks follow the header, each file starting on a 512-byte boundary
+    let block = Math.ceil(headerSize / BLOCK_SIZE);
+    const placements = new Map<RpfWriterNode, { block: number, size: number }>();
+    for (const node of nodes) {
+      if (!node.file) continue;
+
+      const size = this.getSourceSize(node.file.source);
+      placements.set(node, { block, size });
+      block += Math.max(1, Math.ceil(size / BLOCK_SIZE));
+    }
+    if (block > MAX_ENTRY_SIZE) {
+      throw new Error(`Archive is too large: ${block} blocks exceed the RPF7 offset range`);
+    }
+
+    return { nodes, names, placements, totalSize: block * BLOCK_SIZE };
+  }
+
+  private buildEntries(nodes: RpfWriterNode[], names: RpfLayout['names'], placements: RpfLayout['placements']): Buffer {
+    const entries = Buffer.alloc(nodes.length * 16);
+    nodes.forEach((node, index) => {
+      const offset = index * 16;
+      const nameOffset = names.offsets.get(node) ?? 0;
+
+      if (node.children) {
+        entries.writeUInt32LE(nameOffset, offset);
+        entries.writeUInt32LE(DIRECTORY_IDENT, offset + 4);
+        entries.writeUInt32LE(node.entriesIndex ?? 0, offset + 8);
+        entries.writeUInt32LE(node.children.length, offset + 12);
+      } else if (node.file) {
+        this.writeFileEntry(entries, offset, nameOffset, node.file.source, placements.get(node)!);
+      }
+    });
+    return entries;
+  }
+
+  private setFile(entryPath: string, source: RpfWriterSource): void {
+    const normalized = RpfWriter.normalize(entryPath);
+    const key = normalized.toLowerCase();
+
+    if (!normalized) {
+      throw new Error('File path within the archive is empty');
+    }
+    if (this.directories.has(key)) {
+      throw new Error(`Cannot add file ${normalized}: a directory with that path exists`);
+    }
+
+    const dir = normalized.lastIndexOf('\\');
+    if (dir > 0) {
+      this.addDirectory(normalized.substring(0, dir));
+    }
+    this.files.set(key, { path: normalized, source });
+  }
+
+  // Entries are laid out breadth first so each directory's children are contiguous, sorted by name as the game looks them up
+  private buildTree(): RpfWriterNode[] {
+    const root: RpfWriterNode = { name: '', children: [] };
+    const byPath = new Map<string, RpfWriterNode>([['', root]]);
+
+    const getDirectory = (dirPath: string): RpfWriterNode => {
+      const key = dirPath.toLowerCase();
+      let node = byPath.get(key);
+      if (!node) {
+        const dir = dirPath.lastIndexOf('\\');
+        node = { name: dirPath.substring(dir + 1), children: [] };
+        getDirectory(dir > 0 ? dirPath.substring(0, dir) : '').children!.push(node);
+        byPath.set(key, node);
+      }
+      return node;
+    };
+
+    for (const dirPath of this.directories.values()) {
+      getDirectory(dirPath);
+    }
+    for (const file of this.files.values()) {
+      const dir = file.path.lastIndexOf('\\');
+      getDirectory(dir > 0 ? file.path.substring(0, dir) : '').children!.push({ name: file.path.substring(dir + 1), file });
+    }
+
+    const nodes: RpfWriterNode[] = [root];
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (!node.children) continue;
+
+      node.children.sort((a, b) => compareNames(a.name, b.name));
+      node.entriesIndex = nodes.length;
+      nodes.push(...node.children);
+    }
+    return nodes;
+  }
+
+  // Names are null terminated and the table is padded to 16 bytes; file entries only have 16 bits for the offset
+  private buildNames(nodes: RpfWriterNode[]): { buffer: Buffer, offsets: Map<RpfWriterNode, number> } {
+    const offsets = new Map<RpfWriterNode, number>();
+    const parts: Buffer[] = [Buffer.alloc(1)];
+    let length = 1;
+
+    for (const node of nodes) {
+      if (!node.name) continue;
+
+      if (node.file && length > 0xFFFF) {
+        throw new Error('Names table is too large: file names must start within the first 64 KB');
+      }
+      offsets.set(node, length);
+      const name = Buffer.from(`${node.name}\0`, 'latin1');
+      parts.push(name);
+      length += name.length;
+    }
+
+    const padding = (16 - (length % 16)) % 16;
+    parts.push(Buffer.alloc(padding));
+    return { buffer: Buffer.concat(parts), offsets };
+  }
+
+  private writeFileEntry(entries: Buffer, offset: number, nameOffset: number, source: RpfWriterSource, placement: { block: number, size: number }): void {
+    if (source.kind === 'entry') {
+      const { entry } = source;
+      if (entry instanceof RpfResourceFileEntry) {
+        this.writeResourceEntry(entries, offset, nameOffset, placement, entry.systemFlags, entry.graphicsFlags);
+      } else {
+        entries.writeBigUInt64LE(BigInt(nameOffset) | (BigInt(entry.fileSize) << 16n) | (BigInt(placement.block) << 40n), offset);
+        entries.writeUInt32LE(entry.fileUncompressedSize, offset + 8);
+        entries.writeUInt32LE(entry instanceof RpfBinaryFileEntry && !this.isDecrypted(source) ? entry.encryptionType : 0, offset + 12);
+      }
+      return;
+    }
+
+    const { data } = source;
+    if (isResource(data)) {
+      this.writeResourceEntry(entries, offset, nameOffset, placement, data.readUInt32LE(8), data.readUInt32LE(12));
+    } else {
+      // A size of 0 marks the file as stored uncompressed
+      entries.writeBigUInt64LE(BigInt(nameOffset) | (BigInt(placement.block) << 40n), offset);
+      entries.writeUInt32LE(data.length, offset + 8);
+      entries.writeUInt32LE(0, offset + 12);
+    }
+  }
+
+  private writeResourceEntry(entries: Buffer, offset: number, nameOffset: number, placement: { block: number, size: number }, systemFlags: number, graphicsFlags: number): void {
+    if (placement.block >= RESOURCE_OFFSET_FLAG) {
+      throw new Error('Archive is too large: resource offsets exceed the RPF7 offset range');
+    }
+
+    const size = Math.min(placement.size, MAX_ENTRY_SIZE);
+    entries.writeBigUInt64LE(BigInt(nameOffset) | (BigInt(size) << 16n) | (BigInt(placement.block | RESOURCE_OFFSET_FLAG) << 40n), offset);
+    entries.writeUInt32LE(systemFlags >>> 0, offset + 8);
+    entries.writeUInt32LE(graphicsFlags >>> 0, offset + 12);
+  }
+
+  private getSourceSize(source: RpfWriterSource): number {
+    return source.kind === 'entry' ? source.entry.getStoredSize() : source.data.length;
+  }
+
+  private readSource(source: RpfWriterSource): Buffer {
+    if (source.kind === 'data') {
+      return isResource(source.data) && source.data.length >= MAX_ENTRY_SIZE ? withLargeSize(source.data) : source.data;
+    }
+    return this.isDecrypted(source) ? source.entry.getDecryptedData(source.rpf) : source.entry.getRawData(source.rpf);
+  }
+
+  // Entries encrypted with NG keys are written in the clear, which OPEN archives expect
+  private isDecrypted(source: { rpf: RpfFile, entry: RpfFileEntry }): boolean {
+    return source.entry.isEncrypted && source.rpf.isNGEncrypted;
+  }
+
+  private encrypt(data: Buffer): Buffer {
+    return this.encryption === RpfEncryption.AES ? GTACrypto.encryptAES(data) : data;
+  }
+
+  private static normalize(entryPath: string): string {
+    return entryPath.replace(/\//g, '\\').replace(/^\\+|\\+$/g, '');
+  }
+}
+
+function isResource(data: Buffer): boolean {
+  return data.length > 16 && data.readUInt32LE(0) === RSC7_MAGIC;
+}
+
+// Stores the size of a resource too large for its entry in the bytes CodeWalker reads it from;
+// the entry keeps the flags, so only the stored header copy changes
+function withLargeSize(data: Buffer): Buffer {
+  const result = Buffer.from(data);
+  const size = data.length;
+  result[2] = (size >>> 24) & 0xFF;
+  result[5] = (size >>> 16) & 0xFF;
+  result[14] = (size >>> 8) & 0xFF;
+  result[7] = size & 0xFF;
+  return result;
+}
+
+// Ordinal comparison of lower-case names
+function compareNames(a: string, b: string): number {
+  const lowerA = a.toLowerCase();
+  const lowerB = b.toLowerCase();
+  return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
+}
@@ -22,16 +22,14 @@ export class RpfDirectoryEntry extends RpfEntry {
 
   read(data: DataView, offset: number): void {
     this.nameOffset = data.getUint32(offset, true);
-    const h1 = data.getUint32(offset + 4, true);
-    const h2 = data.getUint32(offset + 8, true);
-    const h3 = data.getUint32(offset + 12, true);
+    const ident = data.getUint32(offset + 4, true);
 
-    this.entriesIndex = h1;
-    this.entriesCount = h2;
-
-    if (h3 !== 0x7FFFFF00) {
-      throw new Error(`Invalid directory entry identifier: ${h3.toString(16)}`);
+    if (ident !== 0x7FFFFF00) {
+      throw new Error(`Invalid directory entry identifier: ${ident.toString(16)}`);
     }
+
+    this.entriesIndex = data.getUint32(offset + 8, true);
+    this.entriesCount = data.getUint32(offset + 12, true);
   }
 }
 
@@ -44,31 +42,131 @@ export abstract class RpfFileEntry extends RpfEntry {
   abstract read(data: DataView, offset: number): void;
 
   getFileData(rpf: RpfFile): Buffer {
-    const fd = fs.openSync(rpf.filePath, 'r');
-    try {
-      const fileOffset = this.fileOffset * 512;
-      const buffer = Buffer.alloc(this.fileSize);
-      fs.readSync(fd, buffer, 0, this.fileSize, rpf.startPos + fileOffset);
+    let result = this.readData(rpf, 0, this.getStoredSize());
 
-      let result: Buffer = buffer;
+    if (this.isCompressed) {
+      result = zlib.inflateSync(result) as Buffer;
+    }
 
-      if (this.isEncrypted) {
-        if (rpf.isAESEncrypted) {
-          result = GTACrypto.decryptAES(result) as Buffer;
-        } else if (rpf.isNGEncrypted) {
-          result = GTACrypto.decryptNG(result, this.name, this.fileUncompressedSize) as Buffer;
-        }
-      }
+    return result;
+  }
+
+  // Uncompressed binary files are stored with a size of 0 and only their uncompressed size
+  getStoredSize(): number {
+    return this.fileSize || this.fileUncompressedSize;
+  }
+
+  /**
+   * Whether getFileData has to inflate the stored data. Resources are returned still compressed.
+   */
+  get isCompressed(): boolean {
+    return this.fileSize > 0 && this.fileUncompressedSize > 0 && this.fileUncompressedSize !== this.fileSize;
+  }
+
+  /**
+   * Size of the data getFileData returns.
+   */
+  getContentSize(): number {
+    return this.isCompressed ? this.fileUncompressedSize : this.getStoredSize();
+  }
+
+  /**
+   * Reads part of what getFileData returns without reading the rest of the entry. Compressed
+   * files can only be inflated from the start; stream them with readStoredChunks instead.
+   */
+  readRange(rpf: RpfFile, offset: number, length: number): Buffer {
+    if (this.isCompressed) {
+      throw new Error(`${this.name} is compressed and can only be read from the start`);
+    }
+
+    const end = Math.min(this.getContentSize(), offset + length);
+    if (offset < 0 || offset >= end) {
+      return Buffer.alloc(0);
+    }
+    return this.readStoredRange(rpf, offset, end - offset);
+  }
+
+  /**
+   * Yields the stored data from dataStart on, decrypted, in chunks of about chunkSize bytes,
+   * so compressed entries can be inflated without holding all of it in memory.
+   */
+  *readStoredChunks(rpf: RpfFile, chunkSize: number = 1 << 20): Generator<Buffer> {
+    // Whole 16-byte blocks, so each chunk decrypts like the same bytes of the full entry
+    const step = Math.max(16, chunkSize - chunkSize % 16);
+    const storedSize = this.getStoredSize();
+
+    for (let offset = this.dataStart; offset < storedSize; offset += step) {
+      yield this.readData(rpf, offset, Math.min(step, storedSize - offset));
+    }
+  }
+
+  // Offset within the stored data where the file's data, and its encryption, starts
+  protected get dataStart(): number {
+    return 0;
+  }
+
+  // Encrypted data is decrypted in 16-byte blocks counted from dataStart, with a plain tail,
+  // so reads are widened to whole blocks and trimmed afterwards
+  protected readStoredRange(rpf: RpfFile, offset: number, length: number): Buffer {
+    if (!this.isEncrypted) {
+      return this.readData(rpf, offset, length);
+    }
 
-      if (this.fileUncompressedSize > 0 && this.fileUncompressedSize !== this.fileSize) {
-        result = zlib.inflateSync(result) as Buffer;
+    const start = this.dataStart + Math.floor((offset - this.dataStart) / 16) * 16;
+    const end = Math.min(this.getStoredSize(), this.dataStart + Math.ceil((offset + length - this.dataStart) / 16) * 16);
+    return this.readData(rpf, start, end - start).subarray(offset - start, offset - start + length);
+  }
+
+  /**
+   * Reads the entry's data exactly as stored in the archive, still compressed and encrypted.
+   */
+  getRawData(rpf: RpfFile): Buffer {
+    return this.readRaw(rpf, 0, this.getStoredSize());
+  }
+
+  /**
+   * Reads the entry's data as stored in the archive, still compressed but decrypted.
+   */
+  getDecryptedData(rpf: RpfFile): Buffer {
+    if (!this.isEncrypted) {
+      return this.getRawData(rpf);
+    }
+    // Anything in front of dataStart, such as a resource's RSC7 header, is stored in the clear
+    return Buffer.concat([
+      this.readRaw(rpf, 0, this.dataStart),
+      this.readData(rpf, this.dataStart, this.getStoredSize() - this.dataStart)
+    ]);
+  }
+
+  protected readData(rpf: RpfFile, offset: number, length: number): Buffer {
+    let result = this.readRaw(rpf, offset, length);
+
+    if (this.isEncrypted) {
+      if (rpf.isAESEncrypted) {
+        result = GTACrypto.decryptAES(result) as Buffer;
+      } else if (rpf.isNGEncrypted) {
+        result = GTACrypto.decryptNG(result, this.name, this.getKeyLength()) as Buffer;
       }
+    }
+
+    return result;
+  }
 
-      return result;
+  private readRaw(rpf: RpfFile, offset: number, length: number): Buffer {
+    const fd = fs.openSync(rpf.filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, rpf.startPos + this.fileOffset * 512 + offset);
+      return buffer;
     } finally {
       fs.closeSync(fd);
     }
   }
+
+  // NG keys are selected from the entry name and this length
+  protected getKeyLength(): number {
+    return this.fileUncompressedSize;
+  }
 }
 
 export class RpfBinaryFileEntry extends RpfFileEntry {
@@ -98,6 +196,19 @@ export class RpfBinaryFileEntry extends RpfFileEntry {
   }
 }
 
+export const RSC7_MAGIC = 0x37435352;
+export const RSC7_HEADER_SIZE = 16;
+// Size field value of resources whose real size is stored with their data
+const LARGE_RESOURCE_SIZE = 0xFFFFFF;
+
+export interface RpfResource {
+  version: number;
+  systemFlags: number;
+  graphicsFlags: number;
+  systemData: Buffer;
+  graphicsData: Buffer;
+}
+
 export class RpfResourceFileEntry extends RpfFileEntry {
   systemFlags: number = 0;
   graphicsFlags: number = 0;
@@ -108,26 +219,153 @@ export class RpfResourceFileEntry extends RpfFileEntry {
 
     this.nameOffset = Number((d1 >> 0n) & 0xFFFFn);
     this.fileSize = Number((d1 >> 16n) & 0xFFFFFFn);
-    this.fileOffset = Number((d1 >> 40n) & 0xFFFFFFn);
+    // The top bit of the offset marks the entry as a resource
+    this.fileOffset = Number((d1 >> 40n) & 0x7FFFFFn);
 
     this.systemFlags = Number(d2 & 0xFFFFFFFFn);
     this.graphicsFlags = Number((d2 >> 32n) & 0xFFFFFFFFn);
 
-    if (this.fileSize === 0xFFFFFF) {
-      this.fileSize = this.getResourceSize();
-      this.fileUncompressedSize = this.fileSize;
+  }
+
+  /**
+   * Whether the entry's size did not fit its 24-bit size field and has to be read with setLargeSize.
+   */
+  get hasLargeSize(): boolean {
+    return this.fileSize === LARGE_RESOURCE_SIZE;
+  }
+
+  /**
+   * Sets the size of a resource too large for its entry from the first 16 bytes stored for it,
+   * where the archive keeps the size in place of parts of the RSC7 header, as CodeWalker reads it.
+   */
+  setLargeSize(stored: Buffer): void {
+    this.fileSize = (stored[7] | (stored[14] << 8) | (stored[5] << 16) | (stored[2] << 24)) >>> 0;
+    this.fileUncompressedSize = this.fileSize;
+  }
+
+  get version(): number {
+    return (((this.systemFlags >>> 28) & 0xF) << 4) | ((this.graphicsFlags >>> 28) & 0xF);
+  }
+
+  get systemSize(): number {
+    return RpfResourceFileEntry.getPageFlagsSize(this.systemFlags);
+  }
+
+  get graphicsSize(): number {
+    return RpfResourceFileEntry.getPageFlagsSize(this.graphicsFlags);
+  }
+
+  /**
+   * Returns the resource as a standalone RSC7 file: the rebuilt 16-byte header
+   * followed by the still-compressed body, as OpenIV and CodeWalker export it.
+   */
+  getFileData(rpf: RpfFile): Buffer {
+    return Buffer.concat([this.getResourceHeader(), this.readResourceBody(rpf)]);
+  }
+
+  /**
+   * Inflates the resource body and splits it into its virtual (system) and
+   * physical (graphics) segments.
+   */
+  getResourceData(rpf: RpfFile): RpfResource {
+    const inflated = zlib.inflateRawSync(this.readResourceBody(rpf)) as Buffer;
+    const systemSize = this.systemSize;
+    const graphicsSize = this.graphicsSize;
+
+    if (inflated.length < systemSize + graphicsSize) {
+      throw new Error(
+        `Resource ${this.name} is truncated: expected ${systemSize + graphicsSize} bytes, got ${inflated.length}`
+      );
+    }
+
+    return {
+      version: this.version,
+      systemFlags: this.systemFlags,
+      graphicsFlags: this.graphicsFlags,
+      systemData: inflated.subarray(0, systemSize),
+      graphicsData: inflated.subarray(systemSize, systemSize + graphicsSize)
+    };
+  }
+
+  /**
+   * Reads part of the standalone RSC7 file getFileData returns: the rebuilt header followed by the body.
+   */
+  readRange(rpf: RpfFile, offset: number, length: number): Buffer {
+    const end = Math.min(this.fileSize, offset + length);
+    if (offset < 0 || offset >= end) {
+      return Buffer.alloc(0);
+    }
+
+    const parts: Buffer[] = [];
+    if (offset < RSC7_HEADER_SIZE) {
+      parts.push(this.getResourceHeader().subarray(offset, Math.min(end, RSC7_HEADER_SIZE)));
     }
+    if (end > RSC7_HEADER_SIZE) {
+      const start = Math.max(offset, RSC7_HEADER_SIZE);
+      parts.push(this.readStoredRange(rpf, start, end - start));
+    }
+    return Buffer.concat(parts);
+  }
+
+  getResourceHeader(): Buffer {
+    const header = Buffer.alloc(RSC7_HEADER_SIZE);
+    header.writeUInt32LE(RSC7_MAGIC, 0);
+    header.writeUInt32LE(this.version, 4);
+    header.writeUInt32LE(this.systemFlags >>> 0, 8);
+    header.writeUInt32LE(this.graphicsFlags >>> 0, 12);
+    return header;
   }
 
-  private getResourceSize(): number {
-    const baseSize = ((this.systemFlags >> 27) & 0x1) ? 0x10 : 0x0;
-    const virtualSize = (this.systemFlags & 0x7FF) << ((this.systemFlags >> 11) & 0xF);
-    const physicalSize = ((this.systemFlags >> 15) & 0x7F) << ((this.systemFlags >> 25) & 0xF);
-    const virtualSizeGraphics = (this.graphicsFlags & 0x7FF) << ((this.graphicsFlags >> 11) & 0xF);
-    const physicalSizeGraphics = ((this.graphicsFlags >> 15) & 0x7F) << ((this.graphicsFlags >> 25) & 0xF);
+  protected getKeyLength(): number {
+    return this.fileSize;
+  }
 
-    return baseSize + virtualSize + physicalSize + virtualSizeGraphics + physicalSizeGraphics;
+  protected get dataStart(): number {
+    return RSC7_HEADER_SIZE;
+  }
+
+  private readResourceBody(rpf: RpfFile): Buffer {
+    // The archive stores its own copy of the RSC7 header in front of the body
+    if (this.fileSize <= RSC7_HEADER_SIZE) {
+      throw new Error(`Resource ${this.name} has no data`);
+    }
+    return this.readData(rpf, RSC7_HEADER_SIZE, this.fileSize - RSC7_HEADER_SIZE);
   }
+
+  static getPageFlagsSize(flags: number): number {
+    // Page counts per size class, matching CodeWalker's RpfResourcePageFlags.Size
+    const s0 = ((flags >>> 27) & 0x1) << 0;
+    const s1 = ((flags >>> 26) & 0x1) << 1;
+    const s2 = ((flags >>> 25) & 0x1) << 2;
+    const s3 = ((flags >>> 24) & 0x1) << 3;
+    const s4 = ((flags >>> 17) & 0x7F) << 4;
+    const s5 = ((flags >>> 11) & 0x3F) << 5;
+    const s6 = ((flags >>> 7) & 0xF) << 6;
+    const s7 = ((flags >>> 5) & 0x3) << 7;
+    const s8 = ((flags >>> 4) & 0x1) << 8;
+    const baseSize = 0x200 << (flags & 0xF);
+
+    return baseSize * (s0 + s1 + s2 + s3 + s4 + s5 + s6 + s7 + s8);
+  }
+}
+
+export const RPF7_MAGIC = 0x52504637;
+
+/**
+ * Serialized table of contents of an archive and its nested archives, as stored in the index cache.
+ */
+export interface RpfIndexData {
+  fileName: string;
+  startPos: number;
+  encryption: number;
+  /** Decrypted entries and names tables, base64 encoded */
+  entries: string;
+  names: string;
+  /** Index of the entry a nested archive was read from */
+  entryIndex?: number;
+  /** Sizes of resources too large for their entries, by entry index */
+  largeSizes?: Record<number, number>;
+  children: RpfIndexData[];
 }
 
 export class RpfFile {
@@ -145,7 +383,10 @@ export class RpfFile {
   allEntries: RpfEntry[] = [];
   root?: RpfDirectoryEntry;
   parent?: RpfFile;
+  /** Entry of the parent archive this archive is stored in */
+  parentEntry?: RpfFileEntry;
   children: RpfFile[] = [];
+  private toc?: { entries: Buffer, names: Buffer };
 
   constructor(filePath: string, fileName: string, startPos: number = 0, parent?: RpfFile) {
     this.filePath = filePath;
@@ -154,6 +395,9 @@ export class RpfFile {
     this.startPos = startPos;
     this.parent = parent;
 
+    // Nested archives take their size from the entry they are stored in
+    if (parent) return;
+
     try {
       const stats = fs.statSync(filePath);
       this.fileSize = stats.size;
@@ -162,7 +406,7 @@ export class RpfFile {
     }
   }
 
-  async scanStructure(): Promise<void> {
+  scanStructure(): void {
     const fd = fs.openSync(this.filePath, 'r');
 
     try {
@@ -176,7 +420,7 @@ export class RpfFile {
       this.encryption = headerView.getUint32(12, true);
 
 
-      if (this.version !== 0x52504637) {
+      if (this.version !== RPF7_MAGIC) {
         throw new Error(`Invalid RPF version: ${this.version.toString(16)}`);
       }
 
@@ -201,21 +445,91 @@ export class RpfFile {
         decryptedNames = GTACrypto.decryptNG(namesBuffer, this.fileName, this.fileSize) as Buffer;
       }
 
+      this.toc = { entries: decryptedEntries, names: decryptedNames };
       this.parseEntries(decryptedEntries, decryptedNames);
-      await this.scanNestedRpfs();
+      this.readLargeSizes(fd);
+      this.scanNestedRpfs();
 
     } finally {
       fs.closeSync(fd);
     }
   }
 
+  /**
+   * Rebuilds an archive, and its nested archives, from a cached table of contents without reading the file.
+   */
+  static fromIndexData(filePath: string, data: RpfIndexData, parent?: RpfFile): RpfFile {
+    const rpf = new RpfFile(filePath, data.fileName, data.startPos, parent);
+    const entries = Buffer.from(data.entries, 'base64');
+    const names = Buffer.from(data.names, 'base64');
+
+    rpf.version = RPF7_MAGIC;
+    rpf.encryption = data.encryption;
+    rpf.isAESEncrypted = data.encryption === RpfEncryption.AES;
+    rpf.isNGEncrypted = data.encryption === RpfEncryption.NG;
+    rpf.entryCount = entries.length / 16;
+    rpf.namesLength = names.length;
+    rpf.toc = { entries, names };
+    rpf.parseEntries(entries, names);
+
+    for (const [index, size] of Object.entries(data.largeSizes ?? {})) {
+      const entry = rpf.allEntries[Number(index)];
+      if (entry instanceof RpfResourceFileEntry) {
+        entry.fileSize = size;
+        entry.fileUncompressedSize = size;
+      }
+    }
+
+    for (const childData of data.children) {
+      const child = RpfFile.fromIndexData(filePath, childData, rpf);
+      rpf.children.push(child);
+
+      const entry = childData.entryIndex !== undefined ? rpf.allEntries[childData.entryIndex] : undefined;
+      if (entry) {
+        entry.file = child;
+        if (entry instanceof RpfFileEntry) {
+          child.parentEntry = entry;
+          child.fileSize = RpfFile.getNestedSize(entry);
+        }
+      }
+    }
+
+    return rpf;
+  }
+
+  toIndexData(): RpfIndexData {
+    if (!this.toc) {
+      throw new Error(`RPF ${this.fileName} has not been scanned`);
+    }
+
+    const largeSizes: Record<number, number> = {};
+    this.allEntries.forEach((entry, index) => {
+      if (entry instanceof RpfResourceFileEntry && this.toc!.entries.readUIntLE(index * 16 + 2, 3) === LARGE_RESOURCE_SIZE) {
+        largeSizes[index] = entry.fileSize;
+      }
+    });
+
+    return {
+      fileName: this.fileName,
+      startPos: this.startPos,
+      encryption: this.encryption,
+      entries: this.toc.entries.toString('base64'),
+      names: this.toc.names.toString('base64'),
+      largeSizes: Object.keys(largeSizes).length > 0 ? largeSizes : undefined,
+      children: this.children.map(child => ({
+        ...child.toIndexData(),
+        entryIndex: this.allEntries.findIndex(entry => entry.file === child)
+      }))
+    };
+  }
+
   private parseEntries(entriesData: Buffer, namesData: Buffer): void {
-    const entriesView = new DataView(entriesData.buffer);
+    const entriesView = new DataView(entriesData.buffer, entriesData.byteOffset, entriesData.byteLength);
     this.allEntries = [];
 
     for (let i = 0; i < this.entryCount; i++) {
       const offset = i * 16;
-      const h2 = entriesView.getUint32(offset + 8, true);
+      const h2 = entriesView.getUint32(offset + 4, true);
 
       let entry: RpfEntry;
       let entryType: string;
@@ -236,6 +550,11 @@ export class RpfFile {
       entry.nameLower = entry.name.toLowerCase();
       entry.file = this;
 
+      // Scripts are the only resources stored encrypted
+      if (entry instanceof RpfResourceFileEntry) {
+        entry.isEncrypted = entry.nameLower.endsWith('.ysc');
+      }
+
       this.allEntries.push(entry);
     }
 
@@ -291,22 +610,35 @@ export class RpfFile {
     }
   }
 
-  private async scanNestedRpfs(): Promise<void> {
+  private readLargeSizes(fd: number): void {
+    const stored = Buffer.alloc(16);
+    for (const entry of this.allEntries) {
+      if (entry instanceof RpfResourceFileEntry && entry.hasLargeSize) {
+        fs.readSync(fd, stored, 0, 16, this.startPos + entry.fileOffset * 512);
+        entry.setLargeSize(stored);
+      }
+    }
+  }
+
+  private scanNestedRpfs(): void {
     if (!this.root) return;
 
     const rpfFiles = this.findRpfFiles(this.root);
 
     for (const rpfEntry of rpfFiles) {
       if (rpfEntry instanceof RpfBinaryFileEntry) {
+        // Entry offsets are relative to the containing archive, which may itself be nested
         const nestedRpf = new RpfFile(
           this.filePath,
           rpfEntry.name,
-          rpfEntry.fileOffset * 512,
+          this.startPos + rpfEntry.fileOffset * 512,
           this
         );
+        nestedRpf.parentEntry = rpfEntry;
+        nestedRpf.fileSize = RpfFile.getNestedSize(rpfEntry);
 
         try {
-          await nestedRpf.scanStructure();
+          nestedRpf.scanStructure();
           this.children.push(nestedRpf);
 
           rpfEntry.file = nestedRpf;
@@ -317,6 +649,11 @@ export class RpfFile {
     }
   }
 
+  // NG keys of a nested archive are selected from its entry name and stored size
+  private static getNestedSize(entry: RpfFileEntry): number {
+    return entry.fileSize || entry.fileUncompressedSize;
+  }
+
   private findRpfFiles(dir: RpfDirectoryEntry): RpfFileEntry[] {
     const rpfFiles: RpfFileEntry[] = [];
 
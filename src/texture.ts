@@ -0,0 +1,584 @@
+const fourCC = (code: string): number =>
+  code.charCodeAt(0) | (code.charCodeAt(1) << 8) | (code.charCodeAt(2) << 16) | (code.charCodeAt(3) << 24);
+
+// Values match D3DFORMAT, with FourCC codes for the block-compressed formats
+export enum TextureFormat {
+  A8R8G8B8 = 21,
+  A1R5G5B5 = 25,
+  A8 = 28,
+  A8B8G8R8 = 32,
+  L8 = 50,
+  DXT1 = fourCC('DXT1'),
+  DXT3 = fourCC('DXT3'),
+  DXT5 = fourCC('DXT5'),
+  ATI1 = fourCC('ATI1'),
+  ATI2 = fourCC('ATI2'),
+  BC7 = fourCC('BC7 ')
+}
+
+const BLOCK_SIZES: Partial<Record<TextureFormat, number>> = {
+  [TextureFormat.DXT1]: 8,
+  [TextureFormat.ATI1]: 8,
+  [TextureFormat.DXT3]: 16,
+  [TextureFormat.DXT5]: 16,
+  [TextureFormat.ATI2]: 16,
+  [TextureFormat.BC7]: 16
+};
+
+const PIXEL_SIZES: Partial<Record<TextureFormat, number>> = {
+  [TextureFormat.A8R8G8B8]: 4,
+  [TextureFormat.A8B8G8R8]: 4,
+  [TextureFormat.A1R5G5B5]: 2,
+  [TextureFormat.A8]: 1,
+  [TextureFormat.L8]: 1
+};
+
+// DDS_PIXELFORMAT flags
+const DDPF_ALPHAPIXELS = 0x1;
+const DDPF_ALPHA = 0x2;
+const DDPF_FOURCC = 0x4;
+const DDPF_RGB = 0x40;
+const DDPF_LUMINANCE = 0x20000;
+
+const DXGI_FORMAT_BC7_UNORM = 98;
+
+// BC7 partition tables: one bit (two subsets) or two bits (three subsets) per pixel
+const BC7_PARTITIONS_2 = [
+  0xcccc, 0x8888, 0xeeee, 0xecc8, 0xc880, 0xfeec, 0xfec8, 0xec80,
+  0xc800, 0xffec, 0xfe80, 0xe800, 0xffe8, 0xff00, 0xfff0, 0xf000,
+  0xf710, 0x008e, 0x7100, 0x08ce, 0x008c, 0x7310, 0x3100, 0x8cce,
+  0x088c, 0x3110, 0x6666, 0x366c, 0x17e8, 0x0ff0, 0x718e, 0x399c,
+  0xaaaa, 0xf0f0, 0x5a5a, 0x33cc, 0x3c3c, 0x55aa, 0x9696, 0xa55a,
+  0x73ce, 0x13c8, 0x324c, 0x3bdc, 0x6996, 0xc33c, 0x9966, 0x0660,
+  0x0272, 0x04e4, 0x4e40, 0x2720, 0xc936, 0x936c, 0x39c6, 0x639c,
+  0x9336, 0x9cc6, 0x817e, 0xe718, 0xccf0, 0x0fcc, 0x7744, 0xee22
+];
+
+const BC7_PARTITIONS_3 = [
+  0xaa685050, 0x6a5a5040, 0x5a5a4200, 0x5450a0a8, 0xa5a50000, 0xa0a05050, 0x5555a0a0, 0x5a5a5050,
+  0xaa550000, 0xaa555500, 0xaaaa5500, 0x90909090, 0x94949494, 0xa4a4a4a4, 0xa9a59450, 0x2a0a4250,
+  0xa5945040, 0x0a425054, 0xa5a5a500, 0x55a0a0a0, 0xa8a85454, 0x6a6a4040, 0xa4a45000, 0x1a1a0500,
+  0x0050a4a4, 0xaaa59090, 0x14696914, 0x69691400, 0xa08585a0, 0xaa821414, 0x50a4a450, 0x6a5a0200,
+  0xa9a58000, 0x5090a0a8, 0xa8a09050, 0x24242424, 0x00aa5500, 0x24924924, 0x24499224, 0x50a50a50,
+  0x500aa550, 0xaaaa4444, 0x66660000, 0xa5a0a5a0, 0x50a050a0, 0x69286928, 0x44aaaa44, 0x66666600,
+  0xaa444444, 0x54a854a8, 0x95809580, 0x96969600, 0xa85454a8, 0x80959580, 0xaa141414, 0x96960000,
+  0xaaaa1414, 0xa05050a0, 0xa0a5a5a0, 0x96000000, 0x40804080, 0xa9a8a9a8, 0xaaaaaa44, 0x2a4a5254
+];
+
+const BC7_ANCHOR_2 = [
+  15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15,
+  15, 2, 8, 2, 2, 8, 8, 15, 2, 8, 2, 2, 8, 8, 2, 2,
+  15, 15, 6, 8, 2, 8, 15, 15, 2, 8, 2, 2, 2, 15, 15, 6,
+  6, 2, 6, 8, 15, 15, 2, 2, 15, 15, 15, 15, 15, 2, 2, 15
+];
+
+const BC7_ANCHOR_3A = [
+  3, 3, 15, 15, 8, 3, 15, 15, 8, 8, 6, 6, 6, 5, 3, 3,
+  3, 3, 8, 15, 3, 3, 6, 10, 5, 8, 8, 6, 8, 5, 15, 15,
+  8, 15, 3, 5, 6, 10, 8, 15, 15, 3, 15, 5, 15, 15, 15, 15,
+  3, 15, 5, 5, 5, 8, 5, 10, 5, 10, 8, 13, 15, 12, 3, 3
+];
+
+const BC7_ANCHOR_3B = [
+  15, 8, 8, 3, 15, 15, 3, 8, 15, 15, 15, 15, 15, 15, 15, 8,
+  15, 8, 15, 3, 15, 8, 15, 8, 3, 15, 6, 10, 15, 15, 10, 8,
+  15, 3, 15, 10, 10, 8, 9, 10, 6, 15, 8, 15, 3, 6, 6, 8,
+  15, 3, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 3, 15, 15, 8
+];
+
+const BC7_WEIGHTS: Record<number, number[]> = {
+  2: [0, 21, 43, 64],
+  3: [0, 9, 18, 27, 37, 46, 55, 64],
+  4: [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64]
+};
+
+interface Bc7Mode {
+  subsets: number;
+  partitionBits: number;
+  rotationBits: number;
+  indexSelectionBits: number;
+  colorBits: number;
+  alphaBits: number;
+  endpointPBits: boolean;
+  sharedPBits: boolean;
+  indexBits: number;
+  secondaryIndexBits: number;
+}
+
+const BC7_MODES: Bc7Mode[] = [
+  [3, 4, 0, 0, 4, 0, 1, 0, 3, 0],
+  [2, 6, 0, 0, 6, 0, 0, 1, 3, 0],
+  [3, 6, 0, 0, 5, 0, 0, 0, 2, 0],
+  [2, 6, 0, 0, 7, 0, 1, 0, 2, 0],
+  [1, 0, 2, 1, 5, 6, 0, 0, 2, 3],
+  [1, 0, 2, 0, 7, 8, 0, 0, 2, 2],
+  [1, 0, 0, 0, 7, 7, 1, 0, 4, 0],
+  [2, 6, 0, 0, 5, 5, 1, 0, 2, 0]
+].map(([subsets, partitionBits, rotationBits, indexSelectionBits, colorBits, alphaBits, epb, spb, indexBits, secondaryIndexBits]) => ({
+  subsets,
+  partitionBits,
+  rotationBits,
+  indexSelectionBits,
+  colorBits,
+  alphaBits,
+  endpointPBits: epb === 1,
+  sharedPBits: spb === 1,
+  indexBits,
+  secondaryIndexBits
+}));
+
+class BlockBitReader {
+  private position = 0;
+
+  constructor(private block: Buffer) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = (this.block[this.position >> 3] >> (this.position & 7)) & 1;
+      value |= bit << i;
+      this.position++;
+    }
+    return value;
+  }
+}
+
+export class TextureDecoder {
+  static getFormatName(format: number): string {
+    return TextureFormat[format] ?? `UNKNOWN(0x${format.toString(16)})`;
+  }
+
+  static isSupported(format: number): boolean {
+    return format in BLOCK_SIZES || format in PIXEL_SIZES;
+  }
+
+  static getMipSize(format: number, width: number, height: number): number {
+    const blockSize = BLOCK_SIZES[format as TextureFormat];
+    if (blockSize) {
+      return Math.max(1, Math.ceil(width / 4)) * Math.max(1, Math.ceil(height / 4)) * blockSize;
+    }
+
+    const pixelSize = PIXEL_SIZES[format as TextureFormat];
+    if (pixelSize) {
+      return width * height * pixelSize;
+    }
+
+    throw new Error(`Unsupported texture format: ${this.getFormatName(format)}`);
+  }
+
+  /**
+   * Byte offsets and sizes of every mip level, largest first.
+   */
+  static getMipLayout(format: number, width: number, height: number, levels: number): { offset: number, size: number }[] {
+    const layout: { offset: number, size: number }[] = [];
+    let offset = 0;
+
+    for (let level = 0; level < levels; level++) {
+      const size = this.getMipSize(format, Math.max(1, width >> level), Math.max(1, height >> level));
+      layout.push({ offset, size });
+      offset += size;
+    }
+
+    return layout;
+  }
+
+  /**
+   * Decodes a single mip level to 8-bit RGBA.
+   */
+  static decode(format: number, data: Buffer, width: number, height: number): Buffer {
+    const rgba = Buffer.alloc(width * height * 4);
+
+    switch (format) {
+      case TextureFormat.DXT1:
+      case TextureFormat.DXT3:
+      case TextureFormat.DXT5:
+      case TextureFormat.ATI1:
+      case TextureFormat.ATI2:
+      case TextureFormat.BC7:
+        this.decodeBlocks(format, data, width, height, rgba);
+        break;
+
+      case TextureFormat.A8R8G8B8:
+      case TextureFormat.A8B8G8R8:
+        for (let i = 0; i < width * height; i++) {
+          const bgra = format === TextureFormat.A8R8G8B8;
+          rgba[i * 4 + 0] = data[i * 4 + (bgra ? 2 : 0)];
+          rgba[i * 4 + 1] = data[i * 4 + 1];
+          rgba[i * 4 + 2] = data[i * 4 + (bgra ? 0 : 2)];
+          rgba[i * 4 + 3] = data[i * 4 + 3];
+        }
+        break;
+
+      case TextureFormat.A1R5G5B5:
+        for (let i = 0; i < width * height; i++) {
+          const value = data.readUInt16LE(i * 2);
+          rgba[i * 4 + 0] = this.expand5((value >> 10) & 0x1F);
+          rgba[i * 4 + 1] = this.expand5((value >> 5) & 0x1F);
+          rgba[i * 4 + 2] = this.expand5(value & 0x1F);
+          rgba[i * 4 + 3] = (value & 0x8000) ? 255 : 0;
+        }
+        break;
+
+      case TextureFormat.A8:
+      case TextureFormat.L8:
+        for (let i = 0; i < width * height; i++) {
+          const alpha = format === TextureFormat.A8;
+          rgba[i * 4 + 0] = alpha ? 255 : data[i];
+          rgba[i * 4 + 1] = alpha ? 255 : data[i];
+          rgba[i * 4 + 2] = alpha ? 255 : data[i];
+          rgba[i * 4 + 3] = alpha ? data[i] : 255;
+        }
+        break;
+
+      default:
+        throw new Error(`Unsupported texture format: ${this.getFormatName(format)}`);
+    }
+
+    return rgba;
+  }
+
+  /**
+   * Wraps raw texture data (all mips) in a DDS container.
+   */
+  static toDds(format: number, data: Buffer, width: number, height: number, levels: number): Buffer {
+    const header = Buffer.alloc(128);
+    const isBlockCompressed = format in BLOCK_SIZES;
+
+    header.write('DDS ', 0, 'ascii');
+    header.writeUInt32LE(124, 4);
+    // CAPS | HEIGHT | WIDTH | PIXELFORMAT | MIPMAPCOUNT, plus LINEARSIZE or PITCH
+    header.writeUInt32LE(0x1 | 0x2 | 0x4 | 0x1000 | 0x20000 | (isBlockCompressed ? 0x80000 : 0x8), 8);
+    header.writeUInt32LE(height, 12);
+    header.writeUInt32LE(width, 16);
+    header.writeUInt32LE(isBlockCompressed
+      ? this.getMipSize(format, width, height)
+      : width * (PIXEL_SIZES[format as TextureFormat] ?? 4), 20);
+    header.writeUInt32LE(0, 24);
+    header.writeUInt32LE(levels, 28);
+
+    // DDS_PIXELFORMAT
+    header.writeUInt32LE(32, 76);
+    let dx10: Buffer | undefined;
+
+    switch (format) {
+      case TextureFormat.BC7:
+        header.writeUInt32LE(DDPF_FOURCC, 80);
+        header.writeUInt32LE(fourCC('DX10'), 84);
+        dx10 = Buffer.alloc(20);
+        dx10.writeUInt32LE(DXGI_FORMAT_BC7_UNORM, 0);
+        dx10.writeUInt32LE(3, 4); // TEXTURE2D
+        dx10.writeUInt32LE(0, 8);
+        dx10.writeUInt32LE(1, 12);
+        dx10.writeUInt32LE(0, 16);
+        break;
+      case TextureFormat.DXT1:
+      case TextureFormat.DXT3:
+      case TextureFormat.DXT5:
+      case TextureFormat.ATI1:
+      case TextureFormat.ATI2:
+        header.writeUInt32LE(DDPF_FOURCC, 80);
+        header.writeUInt32LE(format >>> 0, 84);
+        break;
+      case TextureFormat.A8R8G8B8:
+        this.writePixelFormat(header, DDPF_RGB | DDPF_ALPHAPIXELS, 32, 0x00FF0000, 0x0000FF00, 0x000000FF, 0xFF000000);
+        break;
+      case TextureFormat.A8B8G8R8:
+        this.writePixelFormat(header, DDPF_RGB | DDPF_ALPHAPIXELS, 32, 0x000000FF, 0x0000FF00, 0x00FF0000, 0xFF000000);
+        break;
+      case TextureFormat.A1R5G5B5:
+        this.writePixelFormat(header, DDPF_RGB | DDPF_ALPHAPIXELS, 16, 0x7C00, 0x03E0, 0x001F, 0x8000);
+        break;
+      case TextureFormat.A8:
+        this.writePixelFormat(header, DDPF_ALPHA, 8, 0, 0, 0, 0xFF);
+        break;
+      case TextureFormat.L8:
+        this.writePixelFormat(header, DDPF_LUMINANCE, 8, 0xFF, 0, 0, 0);
+        break;
+      default:
+        throw new Error(`Unsupported texture format: ${this.getFormatName(format)}`);
+    }
+
+    // TEXTURE, plus COMPLEX | MIPMAP when there is more than one level
+    header.writeUInt32LE(0x1000 | (levels > 1 ? 0x400008 : 0), 108);
+
+    return Buffer.concat(dx10 ? [header, dx10, data] : [header, data]);
+  }
+
+  private static writePixelFormat(header: Buffer, flags: number, bits: number, r: number, g: number, b: number, a: number): void {
+    header.writeUInt32LE(flags, 80);
+    header.writeUInt32LE(bits, 88);
+    header.writeUInt32LE(r >>> 0, 92);
+    header.writeUInt32LE(g >>> 0, 96);
+    header.writeUInt32LE(b >>> 0, 100);
+    header.writeUInt32LE(a >>> 0, 104);
+  }
+
+  private static decodeBlocks(format: number, data: Buffer, width: number, height: number, rgba: Buffer): void {
+    const blockSize = BLOCK_SIZES[format as TextureFormat]!;
+    const blocksX = Math.max(1, Math.ceil(width / 4));
+    const blocksY = Math.max(1, Math.ceil(height / 4));
+    const pixels = Buffer.alloc(64);
+
+    for (let by = 0; by < blocksY; by++) {
+      for (let bx = 0; bx < blocksX; bx++) {
+        const offset = (by * blocksX + bx) * blockSize;
+        if (offset + blockSize > data.length) return;
+
+        const block = data.subarray(offset, offset + blockSize);
+        this.decodeBlock(format, block, pixels);
+
+        for (let py = 0; py < 4; py++) {
+          const y = by * 4 + py;
+          if (y >= height) break;
+          for (let px = 0; px < 4; px++) {
+            const x = bx * 4 + px;
+            if (x >= width) break;
+            pixels.copy(rgba, (y * width + x) * 4, (py * 4 + px) * 4, (py * 4 + px) * 4 + 4);
+          }
+        }
+      }
+    }
+  }
+
+  private static decodeBlock(format: number, block: Buffer, out: Buffer): void {
+    switch (format) {
+      case TextureFormat.DXT1:
+        this.decodeColorBlock(block, out, true);
+        break;
+      case TextureFormat.DXT3:
+        this.decodeColorBlock(block.subarray(8), out, false);
+        for (let i = 0; i < 16; i++) {
+          const nibble = (block[i >> 1] >> ((i & 1) * 4)) & 0xF;
+          out[i * 4 + 3] = nibble * 17;
+        }
+        break;
+      case TextureFormat.DXT5:
+        this.decodeColorBlock(block.subarray(8), out, false);
+        this.decodeAlphaBlock(block, out, 3);
+        break;
+      case TextureFormat.ATI1:
+        this.decodeAlphaBlock(block, out, 0);
+        for (let i = 0; i < 16; i++) {
+          out[i * 4 + 1] = out[i * 4];
+          out[i * 4 + 2] = out[i * 4];
+          out[i * 4 + 3] = 255;
+        }
+        break;
+      case TextureFormat.ATI2:
+        this.decodeAlphaBlock(block, out, 0);
+        this.decodeAlphaBlock(block.subarray(8), out, 1);
+        // Two-channel normal maps: rebuild Z from X and Y
+        for (let i = 0; i < 16; i++) {
+          const x = out[i * 4] / 127.5 - 1;
+          const y = out[i * 4 + 1] / 127.5 - 1;
+          const z = Math.sqrt(Math.max(0, 1 - x * x - y * y));
+          out[i * 4 + 2] = Math.round((z + 1) * 127.5);
+          out[i * 4 + 3] = 255;
+        }
+        break;
+      case TextureFormat.BC7:
+        this.decodeBc7Block(block, out);
+        break;
+    }
+  }
+
+  private static decodeColorBlock(block: Buffer, out: Buffer, allowTransparent: boolean): void {
+    const c0 = block.readUInt16LE(0);
+    const c1 = block.readUInt16LE(2);
+    const indices = block.readUInt32LE(4);
+
+    const colors = [this.rgb565(c0), this.rgb565(c1), [0, 0, 0, 255], [0, 0, 0, 255]];
+    if (c0 > c1 || !allowTransparent) {
+      for (let c = 0; c < 3; c++) {
+        colors[2][c] = Math.round((2 * colors[0][c] + colors[1][c]) / 3);
+        colors[3][c] = Math.round((colors[0][c] + 2 * colors[1][c]) / 3);
+      }
+    } else {
+      for (let c = 0; c < 3; c++) {
+        colors[2][c] = Math.round((colors[0][c] + colors[1][c]) / 2);
+      }
+      colors[3] = [0, 0, 0, 0];
+    }
+
+    for (let i = 0; i < 16; i++) {
+      const color = colors[(indices >>> (i * 2)) & 0x3];
+      out[i * 4 + 0] = color[0];
+      out[i * 4 + 1] = color[1];
+      out[i * 4 + 2] = color[2];
+      out[i * 4 + 3] = color[3];
+    }
+  }
+
+  private static decodeAlphaBlock(block: Buffer, out: Buffer, channel: number): void {
+    const a0 = block[0];
+    const a1 = block[1];
+    const values = [a0, a1];
+
+    if (a0 > a1) {
+      for (let i = 1; i <= 6; i++) {
+        values.push(Math.round(((7 - i) * a0 + i * a1) / 7));
+      }
+    } else {
+      for (let i = 1; i <= 4; i++) {
+        values.push(Math.round(((5 - i) * a0 + i * a1) / 5));
+      }
+      values.push(0, 255);
+    }
+
+    // 16 three-bit indices packed into the remaining 48 bits
+    let bits = 0n;
+    for (let i = 7; i >= 2; i--) {
+      bits = (bits << 8n) | BigInt(block[i]);
+    }
+
+    for (let i = 0; i < 16; i++) {
+      out[i * 4 + channel] = values[Number((bits >> BigInt(i * 3)) & 0x7n)];
+    }
+  }
+
+  private static decodeBc7Block(block: Buffer, out: Buffer): void {
+    let modeIndex = 0;
+    while (modeIndex < 8 && !(block[0] & (1 << modeIndex))) {
+      modeIndex++;
+    }
+
+    if (modeIndex === 8) {
+      out.fill(0);
+      return;
+    }
+
+    const mode = BC7_MODES[modeIndex];
+    const bits = new BlockBitReader(block);
+    bits.read(modeIndex + 1);
+
+    const partition = bits.read(mode.partitionBits);
+    const rotation = bits.read(mode.rotationBits);
+    const indexSelection = bits.read(mode.indexSelectionBits);
+
+    const endpointCount = mode.subsets * 2;
+    const endpoints: number[][] = Array.from({ length: endpointCount }, () => [0, 0, 0, 255]);
+
+    for (let c = 0; c < 3; c++) {
+      for (let e = 0; e < endpointCount; e++) {
+        endpoints[e][c] = bits.read(mode.colorBits);
+      }
+    }
+    if (mode.alphaBits > 0) {
+      for (let e = 0; e < endpointCount; e++) {
+        endpoints[e][3] = bits.read(mode.alphaBits);
+      }
+    }
+
+    let colorPrecision = mode.colorBits;
+    let alphaPrecision = mode.alphaBits;
+
+    if (mode.endpointPBits || mode.sharedPBits) {
+      const pBits: number[] = [];
+      const pBitCount = mode.endpointPBits ? endpointCount : mode.subsets;
+      for (let i = 0; i < pBitCount; i++) {
+        pBits.push(bits.read(1));
+      }
+
+      for (let e = 0; e < endpointCount; e++) {
+        const p = mode.endpointPBits ? pBits[e] : pBits[e >> 1];
+        for (let c = 0; c < 4; c++) {
+          if (c === 3 && mode.alphaBits === 0) continue;
+          endpoints[e][c] = (endpoints[e][c] << 1) | p;
+        }
+      }
+
+      colorPrecision++;
+      if (mode.alphaBits > 0) alphaPrecision++;
+    }
+
+    for (let e = 0; e < endpointCount; e++) {
+      for (let c = 0; c < 3; c++) {
+        endpoints[e][c] = this.expandBits(endpoints[e][c], colorPrecision);
+      }
+      if (mode.alphaBits > 0) {
+        endpoints[e][3] = this.expandBits(endpoints[e][3], alphaPrecision);
+      }
+    }
+
+    const subsetOf = (pixel: number): number => {
+      if (mode.subsets === 2) return (BC7_PARTITIONS_2[partition] >> pixel) & 1;
+      if (mode.subsets === 3) return (BC7_PARTITIONS_3[partition] >>> (pixel * 2)) & 3;
+      return 0;
+    };
+
+    const isAnchor = (pixel: number): boolean => {
+      if (pixel === 0) return true;
+      if (mode.subsets === 2) return pixel === BC7_ANCHOR_2[partition];
+      if (mode.subsets === 3) return pixel === BC7_ANCHOR_3A[partition] || pixel === BC7_ANCHOR_3B[partition];
+      return false;
+    };
+
+    const primary: number[] = [];
+    for (let i = 0; i < 16; i++) {
+      primary.push(bits.read(isAnchor(i) ? mode.indexBits - 1 : mode.indexBits));
+    }
+
+    const secondary: number[] = [];
+    if (mode.secondaryIndexBits > 0) {
+      for (let i = 0; i < 16; i++) {
+        secondary.push(bits.read(i === 0 ? mode.secondaryIndexBits - 1 : mode.secondaryIndexBits));
+      }
+    }
+
+    for (let i = 0; i < 16; i++) {
+      const subset = subsetOf(i);
+      const e0 = endpoints[subset * 2];
+      const e1 = endpoints[subset * 2 + 1];
+
+      let colorIndex = primary[i];
+      let colorBits = mode.indexBits;
+      let alphaIndex = primary[i];
+      let alphaBits = mode.indexBits;
+
+      if (mode.secondaryIndexBits > 0) {
+        if (indexSelection) {
+          colorIndex = secondary[i];
+          colorBits = mode.secondaryIndexBits;
+        } else {
+          alphaIndex = secondary[i];
+          alphaBits = mode.secondaryIndexBits;
+        }
+      }
+
+      const colorWeight = BC7_WEIGHTS[colorBits][colorIndex];
+      const alphaWeight = BC7_WEIGHTS[alphaBits][alphaIndex];
+      const pixel = [0, 0, 0, 0];
+
+      for (let c = 0; c < 3; c++) {
+        pixel[c] = ((64 - colorWeight) * e0[c] + colorWeight * e1[c] + 32) >> 6;
+      }
+      pixel[3] = ((64 - alphaWeight) * e0[3] + alphaWeight * e1[3] + 32) >> 6;
+
+      if (rotation > 0) {
+        const swap = rotation - 1;
+        [pixel[swap], pixel[3]] = [pixel[3], pixel[swap]];
+      }
+
+      out[i * 4 + 0] = pixel[0];
+      out[i * 4 + 1] = pixel[1];
+      out[i * 4 + 2] = pixel[2];
+      out[i * 4 + 3] = pixel[3];
+    }
+  }
+
+  private static expandBits(value: number, precision: number): number {
+    const shifted = value << (8 - precision);
+    return (shifted | (shifted >> precision)) & 0xFF;
+  }
+
+  private static expand5(value: number): number {
+    return (value << 3) | (value >> 2);
+  }
+
+  private static rgb565(value: number): number[] {
+    const r = (value >> 11) & 0x1F;
+    const g = (value >> 5) & 0x3F;
+    const b = value & 0x1F;
+    return [(r << 3) | (r >> 2), (g << 2) | (g >> 4), (b << 3) | (b >> 2), 255];
+  }
+}
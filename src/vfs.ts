@@ -0,0 +1,283 @@
+import { RpfManager } from './rpf-manager.js';
+import { RpfFileEntry } from './rpf.js';
+
+export type GameLayer = 'base' | 'update' | 'dlc';
+
+export interface DlcPack {
+  /** Folder name below dlcpacks, lower case */
+  name: string;
+  rpfPath: string;
+  /** Mount point from setup2.xml, e.g. "dlc_mpbeach" */
+  deviceName: string;
+  order: number;
+  /** Position in dlclist.xml, -1 when the pack is not listed */
+  listIndex: number;
+  active: boolean;
+  /** Archives content.xml registers, relative to dlc.rpf; null when content.xml could not be read */
+  contentRpfs: Set<string> | null;
+}
+
+export interface GameFileCandidate {
+  rpfPath: string;
+  entryPath: string;
+  size: number;
+  layer: GameLayer;
+  dlc?: string;
+  /** Higher priorities win */
+  priority: number;
+  /** Why the game does not load this copy, when it does not */
+  inactiveReason?: string;
+}
+
+export interface GameFileResolution {
+  path: string;
+  winner: GameFileCandidate | null;
+  shadowed: GameFileCandidate[];
+  inactive: GameFileCandidate[];
+}
+
+interface GameMount {
+  rpfPath: string;
+  prefix: string;
+}
+
+// Priority bands: update archives override the base game, DLC packs override both in load order
+const UPDATE_PRIORITY = 1000;
+const DLC_PRIORITY = 2000;
+
+/**
+ * Merged view of the game's archives as the game mounts them: base archives under common:/ and
+ * platform:/, update.rpf overriding both, and DLC packs mounted at their setup2.xml device in
+ * the order given by dlclist.xml and setup2.xml.
+ */
+export class GameFileSystem {
+  private packs: DlcPack[] | null = null;
+
+  constructor(private rpfManager: RpfManager) {}
+
+  /**
+   * Drops the DLC packs so mounts are read again from dlclist.xml and setup2.xml.
+   */
+  clear(): void {
+    this.packs = null;
+  }
+
+  getDlcPacks(): DlcPack[] {
+    return this.loadPacks();
+  }
+
+  /**
+   * Resolves a mounted path such as "common:/data/handling.meta" or "dlc_mpbeach:/common/data/handling.meta",
+   * or a bare file name looked up the way streamed assets are, across every archive the game mounts.
+   */
+  resolve(gamePath: string): GameFileResolution {
+    const normalized = gamePath.trim().replace(/\\/g, '/');
+    const mount = normalized.match(/^([a-z0-9_]+):\/*(.*)$/i);
+
+    const candidates = mount
+      ? this.findMounted(mount[1].toLowerCase(), mount[2].replace(/%platform%/gi, 'x64'))
+      : this.findByName(normalized.split('/').pop() ?? normalized);
+
+    const active = candidates.filter(candidate => !candidate.inactiveReason);
+    active.sort((a, b) => b.priority - a.priority);
+
+    return {
+      path: gamePath,
+      winner: active[0] ?? null,
+      shadowed: active.slice(1),
+      inactive: candidates.filter(candidate => candidate.inactiveReason)
+    };
+  }
+
+  private findMounted(device: string, filePath: string): GameFileCandidate[] {
+    if (device === 'dlcpacks') {
+      // dlcpacks:/name/dlc.rpf/... addresses a pack by its folder
+      const match = filePath.match(/^([^/]+)\/dlc\.rpf\/(.*)$/i);
+      const pack = match && this.loadPacks().find(candidate => candidate.name === match[1].toLowerCase());
+      if (!match || !pack) return [];
+      return this.findMounted(pack.deviceName, match[2]);
+    }
+
+    return this.locateAll(device, filePath).map(({ rpfPath, entry }) => this.describe(rpfPath, entry));
+  }
+
+  private locateAll(device: string, filePath: string): { rpfPath: string, entry: RpfFileEntry }[] {
+    const found: { rpfPath: string, entry: RpfFileEntry }[] = [];
+    for (const mount of this.getMounts(device)) {
+      const location = this.locate(mount.rpfPath, `${mount.prefix}${filePath}`);
+      if (location) {
+        found.push(location);
+      }
+    }
+    return found;
+  }
+
+  // Highest priority first
+  private getMounts(device: string): GameMount[] {
+    const topLevel = this.getTopLevelArchives();
+    const updates = topLevel.filter(rpfPath => /^update\/update\d*\.rpf$/i.test(rpfPath)).reverse();
+
+    switch (device) {
+      case 'common':
+        return [
+          ...updates.map(rpfPath => ({ rpfPath, prefix: 'common/' })),
+          ...topLevel.filter(rpfPath => rpfPath.toLowerCase() === 'common.rpf').map(rpfPath => ({ rpfPath, prefix: '' }))
+        ];
+      case 'platform':
+      case 'x64':
+        return [
+          ...updates.map(rpfPath => ({ rpfPath, prefix: 'x64/' })),
+          ...topLevel.filter(rpfPath => /^x64[a-z]?\.rpf$/i.test(rpfPath)).map(rpfPath => ({ rpfPath, prefix: '' }))
+        ];
+      case 'update':
+        return updates.map(rpfPath => ({ rpfPath, prefix: '' }));
+    }
+
+    const pack = this.loadPacks().find(candidate => candidate.deviceName === device);
+    if (!pack) {
+      throw new Error(`Unknown mount point: ${device}:/`);
+    }
+    return [{ rpfPath: pack.rpfPath, prefix: '' }];
+  }
+
+  private findByName(name: string): GameFileCandidate[] {
+    const lowerName = name.toLowerCase();
+    const candidates: GameFileCandidate[] = [];
+
+    for (const result of this.rpfManager.searchFiles(lowerName)) {
+      if (!(result.entry instanceof RpfFileEntry) || result.entry.nameLower !== lowerName) continue;
+
+      candidates.push(this.describe(result.rpfPath, result.entry));
+    }
+    return candidates;
+  }
+
+  // Follows "archive.rpf/" segments of the path into nested archives
+  private locate(rpfPath: string, filePath: string): { rpfPath: string, entry: RpfFileEntry } | null {
+    const rpf = this.rpfManager.getRpfFile(rpfPath);
+    if (!rpf) return null;
+
+    const entry = rpf.findEntry(filePath);
+    if (entry instanceof RpfFileEntry) {
+      return { rpfPath, entry };
+    }
+
+    const nested = filePath.toLowerCase().indexOf('.rpf/');
+    if (nested < 0) return null;
+
+    return this.locate(`${rpfPath}/${filePath.substring(0, nested + 4)}`, filePath.substring(nested + 5));
+  }
+
+  private describe(rpfPath: string, entry: RpfFileEntry): GameFileCandidate {
+    const candidate: GameFileCandidate = {
+      rpfPath,
+      entryPath: entry.path,
+      size: entry.fileUncompressedSize || entry.fileSize,
+      layer: 'base',
+      priority: 0
+    };
+
+    const lowerPath = rpfPath.toLowerCase();
+    const packs = this.loadPacks();
+    const packIndex = packs.findIndex(pack => lowerPath === pack.rpfPath.toLowerCase() || lowerPath.startsWith(`${pack.rpfPath.toLowerCase()}/`));
+
+    if (packIndex >= 0) {
+      const pack = packs[packIndex];
+      candidate.layer = 'dlc';
+      candidate.dlc = pack.name;
+      candidate.priority = DLC_PRIORITY + packIndex;
+
+      const relative = lowerPath.substring(pack.rpfPath.length + 1);
+      if (!pack.active) {
+        candidate.inactiveReason = `DLC ${pack.name} is not listed in dlclist.xml`;
+      } else if (relative && pack.contentRpfs && !Array.from(pack.contentRpfs).some(rpf => relative === rpf || relative.startsWith(`${rpf}/`))) {
+        candidate.inactiveReason = `${relative} is not registered in ${pack.name}'s content.xml`;
+      }
+    } else {
+      const update = lowerPath.match(/^update\/update(\d*)\.rpf(\/|$)/);
+      if (update) {
+        candidate.layer = 'update';
+        candidate.priority = UPDATE_PRIORITY + Number(update[1] || 1);
+      }
+    }
+
+    return candidate;
+  }
+
+  private getTopLevelArchives(): string[] {
+    return this.rpfManager.getRpfList().filter(rpfPath => !this.rpfManager.getRpfFile(rpfPath)?.parent);
+  }
+
+  private loadPacks(): DlcPack[] {
+    if (this.packs) return this.packs;
+
+    this.rpfManager.loadAll();
+    const dlcList = this.readDlcList();
+    const packs: DlcPack[] = [];
+
+    for (const rpfPath of this.getTopLevelArchives()) {
+      const match = rpfPath.match(/(?:^|\/)dlcpacks\/([^/]+)\/dlc\.rpf$/i);
+      if (!match) continue;
+
+      const name = match[1].toLowerCase();
+      const setup = this.readXml(rpfPath, 'setup2.xml');
+      const deviceName = (setup && xmlValues(setup, 'deviceName')[0]) || `dlc_${name}`;
+      const order = Number(setup?.match(/<order\s+value="(-?\d+)"/i)?.[1] ?? 0);
+
+      const datFile = (setup && xmlValues(setup, 'datFile')[0]) || 'content.xml';
+      const content = this.readXml(rpfPath, datFile);
+      let contentRpfs: Set<string> | null = null;
+      if (content) {
+        // Archive paths are given relative to the pack's own device, e.g. dlc_mpbeach:/%PLATFORM%/levels/gta5/props.rpf
+        const devicePrefix = new RegExp(`^${deviceName}:/*`, 'i');
+        contentRpfs = new Set(xmlValues(content, 'filename')
+          .filter(filename => filename.toLowerCase().endsWith('.rpf') && devicePrefix.test(filename))
+          .map(filename => filename.replace(devicePrefix, '').replace(/%platform%/gi, 'x64').replace(/\\/g, '/').toLowerCase()));
+      }
+
+      const listIndex = dlcList ? dlcList.indexOf(name) : -1;
+      packs.push({
+        name,
+        rpfPath,
+        deviceName: deviceName.toLowerCase(),
+        order,
+        listIndex,
+        active: !dlcList || listIndex >= 0,
+        contentRpfs
+      });
+    }
+
+    // Lowest first, so later packs override earlier ones
+    packs.sort((a, b) => a.order - b.order || a.listIndex - b.listIndex || a.name.localeCompare(b.name));
+    this.packs = packs;
+    return packs;
+  }
+
+  // dlclist.xml lists the packs the game mounts, e.g. <Item>dlcpacks:/mpBeach/</Item>
+  private readDlcList(): string[] | null {
+    const xml = this.locateAll('common', 'data/dlclist.xml')
+      .map(({ rpfPath, entry }) => this.readXml(rpfPath, entry.path))
+      .find(text => text !== null);
+    if (!xml) return null;
+
+    return xmlValues(xml, 'Item')
+      .map(item => item.match(/dlcpacks[:/]*\/([^/]+)/i)?.[1]?.toLowerCase())
+      .filter((name): name is string => !!name);
+  }
+
+  private readXml(rpfPath: string, filePath: string): string | null {
+    const content = this.rpfManager.getFileContent(rpfPath, filePath);
+    return content ? content.toString('utf8').replace(/^\uFEFF/, '') : null;
+  }
+}
+
+// Text of every <tag>...</tag> element; setup2.xml and content.xml do not need a full XML parser
+function xmlValues(xml: string, tag: string): string[] {
+  const values: string[] = [];
+  const regex = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) !== null) {
+    values.push(match[1].trim());
+  }
+  return values;
+}
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Outside the package, so written files, backups and caches survive reinstalling it
+export const DEFAULT_DATA_DIRECTORY = path.join(os.homedir(), 'gtavbrowser-mcp');
+
+// Links followed before giving up, as in Linux's limit for path resolution
+const MAX_LINK_DEPTH = 40;
+
+export interface WritePolicyOptions {
+  /** Directories files may be written below; the first one is where relative paths go */
+  writableRoots: string[];
+  /** The game install, which is only written to when allowGameWrites is set */
+  gameRoot?: string;
+  allowGameWrites?: boolean;
+  /** Overwritten files are copied below this directory first */
+  backupDirectory: string;
+}
+
+export interface WritePlan {
+  path: string;
+  action: 'create' | 'overwrite';
+  size: number;
+  previousSize?: number;
+  /** Where the current file is copied before it is overwritten */
+  backupPath?: string;
+}
+
+/**
+ * Decides where the server may write. Every file it creates or overwrites is checked against
+ * the writable directories and the game install, and files are backed up before they are
+ * overwritten. Plans can be made without writing anything, for dry runs.
+ */
+export class WritePolicy {
+  private writableRoots: string[];
+  private gameRoot: string | null;
+  private backupDirectory: string;
+
+  constructor(private options: WritePolicyOptions) {
+    if (options.writableRoots.length === 0) {
+      throw new Error('At least one writable directory is required');
+    }
+    this.writableRoots = options.writableRoots.map(root => WritePolicy.realPath(root));
+    this.gameRoot = options.gameRoot ? WritePolicy.realPath(options.gameRoot) : null;
+    this.backupDirectory = path.resolve(options.backupDirectory);
+  }
+
+  /**
+   * GTA_V_OUTPUT_DIRECTORY and GTA_V_WRITABLE_ROOTS (separated like PATH) name the writable
+   * directories, GTA_V_ALLOW_GAME_WRITES enables writing to the game install and
+   * GTA_V_BACKUP_DIRECTORY moves backups out of ~/gtavbrowser-mcp/backups.
+   */
+  static fromEnvironment(gameRoot: string): WritePolicy {
+    const extraRoots = (process.env.GTA_V_WRITABLE_ROOTS || '').split(path.delimiter).filter(root => root.trim());
+
+    return new WritePolicy({
+      writableRoots: [process.env.GTA_V_OUTPUT_DIRECTORY || path.join(DEFAULT_DATA_DIRECTORY, 'output'), ...extraRoots],
+      gameRoot,
+      allowGameWrites: /^(1|true|yes)$/i.test(process.env.GTA_V_ALLOW_GAME_WRITES || ''),
+      backupDirectory: process.env.GTA_V_BACKUP_DIRECTORY || path.join(DEFAULT_DATA_DIRECTORY, 'backups')
+    });
+  }
+
+  get outputDirectory(): string {
+    return this.writableRoots[0];
+  }
+
+  get allowGameWrites(): boolean {
+    return !!this.options.allowGameWrites;
+  }
+
+  /**
+   * Resolves an output path, relative paths against the output directory, and throws
+   * when it may not be written. Symbolic links are followed before the check.
+   */
+  resolve(outputPath: string): string {
+    const resolved = WritePolicy.realPath(path.resolve(this.outputDirectory, outputPath));
+
+    if (this.gameRoot && WritePolicy.isInside(this.gameRoot, resolved)) {
+      if (!this.allowGameWrites) {
+        throw new Error(`Refusing to write ${resolved}: it is inside the game directory. Set GTA_V_ALLOW_GAME_WRITES=1 to allow modifying the game install`);
+      }
+      return resolved;
+    }
+
+    if (!this.writableRoots.some(root => WritePolicy.isInside(root, resolved))) {
+      throw new Error(`Refusing to write ${resolved}: it is outside the writable directories (${this.writableRoots.join(', ')}). Add its directory to GTA_V_WRITABLE_ROOTS to allow it`);
+    }
+    return resolved;
+  }
+
+  plan(outputPath: string, size: number): WritePlan {
+    const resolved = this.resolve(outputPath);
+
+    if (!fs.existsSync(resolved)) {
+      return { path: resolved, action: 'create', size };
+    }
+
+    const stats = fs.statSync(resolved);
+    if (!stats.isFile()) {
+      throw new Error(`Cannot write ${resolved}: it is not a file`);
+    }
+    return {
+      path: resolved,
+      action: 'overwrite',
+      size,
+      previousSize: stats.size,
+      backupPath: path.join(this.backupDirectory, WritePolicy.timestamp(), path.relative(path.parse(resolved).root, resolved))
+    };
+  }
+
+  /**
+   * Backs up the file a plan overwrites and creates its directory, so the caller can write it.
+   */
+  prepare(plan: WritePlan): void {
+    if (plan.backupPath) {
+      fs.mkdirSync(path.dirname(plan.backupPath), { recursive: true });
+      fs.copyFileSync(plan.path, plan.backupPath);
+    }
+    fs.mkdirSync(path.dirname(plan.path), { recursive: true });
+  }
+
+  async writeFile(outputPath: string, data: Buffer | string, dryRun: boolean = false): Promise<WritePlan> {
+    const plan = this.plan(outputPath, Buffer.byteLength(data));
+    if (!dryRun) {
+      this.prepare(plan);
+      await fs.promises.writeFile(plan.path, data);
+    }
+    return plan;
+  }
+
+  static describe(plan: WritePlan): string {
+    if (plan.action === 'create') {
+      return `create ${plan.path} (${plan.size} bytes)`;
+    }
+    return `overwrite ${plan.path} (${plan.previousSize} -> ${plan.size} bytes, backup to ${plan.backupPath})`;
+  }
+
+  // Follows links in the part of the path that exists; the rest is appended as given. Dangling links
+  // count as existing and are followed to their target, since writing through one creates the target
+  private static realPath(filePath: string, depth: number = 0): string {
+    let existing = path.resolve(filePath);
+    const missing: string[] = [];
+
+    while (!fs.lstatSync(existing, { throwIfNoEntry: false })) {
+      const parent = path.dirname(existing);
+      if (parent === existing) break;
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+
+    if (fs.lstatSync(existing, { throwIfNoEntry: false })?.isSymbolicLink() && !fs.existsSync(existing)) {
+      if (depth >= MAX_LINK_DEPTH) {
+        throw new Error(`Too many levels of symbolic links: ${filePath}`);
+      }
+      const target = path.resolve(path.dirname(existing), fs.readlinkSync(existing));
+      return path.join(WritePolicy.realPath(target, depth + 1), ...missing);
+    }
+
+    try {
+      existing = fs.realpathSync(existing);
+    } catch {
+      // Unreadable ancestors are checked as given
+    }
+    return path.join(existing, ...missing);
+  }
+
+  private static isInside(root: string, filePath: string): boolean {
+    const relative = process.platform === 'win32'
+      ? path.relative(root.toLowerCase(), filePath.toLowerCase())
+      : path.relative(root, filePath);
+    return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+  }
+
+  // One directory per write, sortable and valid on every file system
+  private static timestamp(): string {
+    return new Date().toISOString().replace(/[:.]/g, '-');
+  }
+}
@@ -0,0 +1,459 @@
+import { ResourceReader } from './resource.js';
+import { Vector3 } from './meta.js';
+
+export const BOUNDS_RESOURCE_VERSION = 43;
+
+export enum BoundType {
+  Sphere = 0,
+  Capsule = 1,
+  Box = 3,
+  Geometry = 4,
+  GeometryBVH = 8,
+  Composite = 10,
+  Disc = 12,
+  Cylinder = 13,
+  Cloth = 15
+}
+
+export type BoundPolygon =
+  | { type: 'triangle', vertices: [number, number, number], material: number }
+  | { type: 'sphere', vertices: [number], radius: number, material: number }
+  | { type: 'capsule' | 'cylinder', vertices: [number, number], radius: number, material: number }
+  | { type: 'box', vertices: [number, number, number, number], material: number };
+
+export interface BoundMaterial {
+  /** Index into materials.dat */
+  type: number;
+  proceduralId: number;
+  roomId: number;
+  pedDensity: number;
+  flags: number;
+}
+
+export interface BoundChild {
+  bound: Bound | null;
+  /** Row-major 4x4 matrix, translation in elements 12-14 */
+  transform: number[];
+}
+
+export interface Bound {
+  type: BoundType;
+  typeName: string;
+  boxMin: Vector3;
+  boxMax: Vector3;
+  boxCenter: Vector3;
+  sphereCenter: Vector3;
+  sphereRadius: number;
+  margin: number;
+  /** Material type of primitive bounds */
+  materialType: number;
+  vertices: Vector3[];
+  polygons: BoundPolygon[];
+  materials: BoundMaterial[];
+  /** Node count of the BVH of BVH geometries and composites, 0 when there is none */
+  bvhNodeCount: number;
+  children: BoundChild[];
+}
+
+const POLYGON_TYPES = ['triangle', 'sphere', 'capsule', 'box', 'cylinder'] as const;
+
+/**
+ * Reads collision bounds (.ybn, and the bounds embedded in fragments).
+ */
+export class YbnFile {
+  static read(reader: ResourceReader): Bound {
+    if (reader.version !== BOUNDS_RESOURCE_VERSION) {
+      throw new Error(`Unsupported bounds version: ${reader.version}`);
+    }
+    return this.readBound(reader, reader.rootAddress);
+  }
+
+  /**
+   * Lists every bound in the tree, depth first, with its accumulated transform.
+   */
+  static flatten(bound: Bound, transform: number[] = IDENTITY): { bound: Bound, transform: number[], path: string }[] {
+    const result = [{ bound, transform, path: '' }];
+    bound.children.forEach((child, i) => {
+      if (!child.bound) return;
+      const childTransform = multiply(child.transform, transform);
+      for (const item of this.flatten(child.bound, childTransform)) {
+        result.push({ ...item, path: `${i}${item.path ? '/' + item.path : ''}` });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Builds an OBJ of the collision mesh. Primitives (spheres, capsules, boxes,
+   * cylinders) are tessellated; faces are grouped per bound and per material type.
+   */
+  static toObj(root: Bound, name: string): string {
+    const lines = [`# Collision bounds of ${name}`];
+    let vertexBase = 1;
+
+    for (const { bound, transform, path } of this.flatten(root)) {
+      const mesh = new MeshBuilder();
+      this.addBoundMesh(bound, mesh);
+      if (mesh.faces.length === 0) continue;
+
+      lines.push(`g ${name}${path ? '_' + path.replace(/\//g, '_') : ''}_${bound.typeName}`);
+      for (const vertex of mesh.vertices) {
+        const [x, y, z] = transformPoint(vertex, transform);
+        lines.push(`v ${format(x)} ${format(y)} ${format(z)}`);
+      }
+
+      let material = -1;
+      for (const face of mesh.faces) {
+        if (face.material !== material) {
+          material = face.material;
+          lines.push(`usemtl material_${material}`);
+        }
+        lines.push(`f ${face.indices.map(i => i + vertexBase).join(' ')}`);
+      }
+      vertexBase += mesh.vertices.length;
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // phBound layout: type 0x10, sphere radius 0x14, box max 0x20, margin 0x2C,
+  // box min 0x30, box centre 0x40, material 0x4C, sphere centre 0x50
+  private static readBound(reader: ResourceReader, address: number): Bound {
+    const type = reader.readUInt8(address + 0x10) as BoundType;
+    const bound: Bound = {
+      type,
+      typeName: BoundType[type] ?? `Unknown${type}`,
+      boxMin: reader.readVector3(address + 0x30),
+      boxMax: reader.readVector3(address + 0x20),
+      boxCenter: reader.readVector3(address + 0x40),
+      sphereCenter: reader.readVector3(address + 0x50),
+      sphereRadius: reader.readFloat(address + 0x14),
+      margin: reader.readFloat(address + 0x2C),
+      materialType: reader.readUInt8(address + 0x4C),
+      vertices: [],
+      polygons: [],
+      materials: [],
+      bvhNodeCount: 0,
+      children: []
+    };
+
+    if (type === BoundType.Geometry || type === BoundType.GeometryBVH) {
+      this.readGeometry(reader, address, bound);
+    } else if (type === BoundType.Composite) {
+      this.readComposite(reader, address, bound);
+    }
+
+    return bound;
+  }
+
+  // phBoundGeometry: polygons 0x88, quantum 0x90, centre 0xA0, vertices 0xB0, counts 0xD0,
+  // materials 0xF0, per-polygon material indices 0x110, material count 0x118, BVH 0x130
+  private static readGeometry(reader: ResourceReader, address: number, bound: Bound): void {
+    const polygonsPointer = reader.readPointer(address + 0x88);
+    const quantum = reader.readVector3(address + 0x90);
+    const center = reader.readVector3(address + 0xA0);
+    const verticesPointer = reader.readPointer(address + 0xB0);
+    const vertexCount = reader.readUInt32(address + 0xD0);
+    const polygonCount = reader.readUInt32(address + 0xD4);
+    const materialsPointer = reader.readPointer(address + 0xF0);
+    const materialIndicesPointer = reader.readPointer(address + 0x110);
+    const materialCount = reader.readUInt8(address + 0x118);
+
+    // Vertices are quantised to int16 triplets relative to the geometry centre
+    bound.vertices = reader.readArray(verticesPointer, vertexCount, 6, (r, a) => [
+      r.readInt16(a) * quantum[0] + center[0],
+      r.readInt16(a + 2) * quantum[1] + center[1],
+      r.readInt16(a + 4) * quantum[2] + center[2]
+    ] as Vector3);
+
+    bound.materials = reader.readArray(materialsPointer, materialCount, 8, (r, a) => {
+      const data1 = r.readUInt32(a);
+      const data2 = r.readUInt32(a + 4);
+      return {
+        type: data1 & 0xFF,
+        proceduralId: (data1 >>> 8) & 0xFF,
+        roomId: (data1 >>> 16) & 0x1F,
+        pedDensity: (data1 >>> 21) & 0x7,
+        flags: ((data1 >>> 24) & 0xFF) | ((data2 & 0xFF) << 8)
+      };
+    });
+
+    const materialIndices = materialIndicesPointer
+      ? reader.readArray(materialIndicesPointer, polygonCount, 1, (r, a) => r.readUInt8(a))
+      : [];
+
+    bound.polygons = reader.readArray(polygonsPointer, polygonCount, 16, (r, a) => this.readPolygon(r, a));
+    bound.polygons.forEach((polygon, i) => {
+      polygon.material = bound.materials[materialIndices[i] ?? 0]?.type ?? 0;
+    });
+
+    if (bound.type === BoundType.GeometryBVH) {
+      const bvhPointer = reader.readPointer(address + 0x130);
+      bound.bvhNodeCount = bvhPointer ? reader.readUInt16(bvhPointer + 0x08) : 0;
+    }
+  }
+
+  // Polygons are 16 bytes; the low 3 bits of the first byte hold the primitive type
+  private static readPolygon(reader: ResourceReader, address: number): BoundPolygon {
+    // Filled in from the per-polygon material indices by the caller
+    const material = 0;
+    const type = POLYGON_TYPES[reader.readUInt8(address) & 0x7] ?? 'triangle';
+    switch (type) {
+      case 'sphere':
+        return { type, vertices: [reader.readUInt16(address + 2)], radius: reader.readFloat(address + 4), material };
+      case 'capsule':
+      case 'cylinder':
+        return {
+          type,
+          vertices: [reader.readUInt16(address + 2), reader.readUInt16(address + 8)],
+          radius: reader.readFloat(address + 4),
+          material
+        };
+      case 'box':
+        return {
+          type,
+          vertices: [
+            reader.readInt16(address + 4), reader.readInt16(address + 6),
+            reader.readInt16(address + 8), reader.readInt16(address + 10)
+          ],
+          material
+        };
+      default:
+        // The top bit of each index is used as a flag
+        return {
+          type: 'triangle',
+          vertices: [
+            reader.readUInt16(address + 4) & 0x7FFF,
+            reader.readUInt16(address + 6) & 0x7FFF,
+            reader.readUInt16(address + 8) & 0x7FFF
+          ],
+          material
+        };
+    }
+  }
+
+  // phBoundComposite: children 0x70, transforms 0x78, child count 0xA0, BVH 0xA8
+  private static readComposite(reader: ResourceReader, address: number, bound: Bound): void {
+    const childrenPointer = reader.readPointer(address + 0x70);
+    const transformsPointer = reader.readPointer(address + 0x78);
+    const count = reader.readUInt16(address + 0xA0);
+
+    const children = reader.readPointerArray(childrenPointer, count);
+    bound.children = children.map((pointer, i) => ({
+      bound: pointer ? this.readBound(reader, pointer) : null,
+      transform: transformsPointer ? this.readTransform(reader, transformsPointer + i * 64) : IDENTITY
+    }));
+
+    const bvhPointer = reader.readPointer(address + 0xA8);
+    bound.bvhNodeCount = bvhPointer ? reader.readUInt16(bvhPointer + 0x08) : 0;
+  }
+
+  // The fourth column holds flags rather than projection terms, so it is reset
+  private static readTransform(reader: ResourceReader, address: number): number[] {
+    const matrix = reader.readArray(address, 16, 4, (r, a) => r.readFloat(a));
+    matrix[3] = 0;
+    matrix[7] = 0;
+    matrix[11] = 0;
+    matrix[15] = 1;
+    return matrix;
+  }
+
+  private static addBoundMesh(bound: Bound, mesh: MeshBuilder): void {
+    const halfSize = bound.boxMax.map((max, i) => (max - bound.boxMin[i]) / 2);
+
+    switch (bound.type) {
+      case BoundType.Sphere:
+        mesh.addSphere(bound.sphereCenter, bound.sphereRadius, bound.materialType);
+        break;
+
+      case BoundType.Box:
+        mesh.addAxisAlignedBox(bound.boxMin, bound.boxMax, bound.materialType);
+        break;
+
+      // Capsules and cylinders run along the Y axis, discs along X
+      case BoundType.Capsule:
+      case BoundType.Cylinder: {
+        const radius = halfSize[0];
+        const half = bound.type === BoundType.Capsule ? Math.max(0, halfSize[1] - radius) : halfSize[1];
+        const c = bound.boxCenter;
+        const a: Vector3 = [c[0], c[1] - half, c[2]];
+        const b: Vector3 = [c[0], c[1] + half, c[2]];
+        mesh.addCylinder(a, b, radius, bound.materialType, bound.type === BoundType.Capsule);
+        break;
+      }
+
+      case BoundType.Disc: {
+        const c = bound.sphereCenter;
+        mesh.addCylinder([c[0] - bound.margin, c[1], c[2]], [c[0] + bound.margin, c[1], c[2]], bound.sphereRadius, bound.materialType, false);
+        break;
+      }
+
+      case BoundType.Geometry:
+      case BoundType.GeometryBVH: {
+        const vertex = (index: number): Vector3 => bound.vertices[index] ?? [0, 0, 0];
+        for (const polygon of bound.polygons) {
+          switch (polygon.type) {
+            case 'triangle': {
+              const base = mesh.vertices.length;
+              mesh.vertices.push(...polygon.vertices.map(vertex));
+              mesh.faces.push({ indices: [base, base + 1, base + 2], material: polygon.material });
+              break;
+            }
+            case 'sphere':
+              mesh.addSphere(vertex(polygon.vertices[0]), polygon.radius, polygon.material);
+              break;
+            case 'capsule':
+            case 'cylinder':
+              mesh.addCylinder(vertex(polygon.vertices[0]), vertex(polygon.vertices[1]), polygon.radius, polygon.material, polygon.type === 'capsule');
+              break;
+            case 'box':
+              mesh.addBox(polygon.vertices.map(vertex) as [Vector3, Vector3, Vector3, Vector3], polygon.material);
+              break;
+          }
+        }
+        break;
+      }
+    }
+  }
+}
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+// Row-vector convention: the child transform is applied first
+function multiply(a: number[], b: number[]): number[] {
+  const result = new Array(16).fill(0);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 4; col++) {
+      for (let k = 0; k < 4; k++) {
+        result[row * 4 + col] += a[row * 4 + k] * b[k * 4 + col];
+      }
+    }
+  }
+  return result;
+}
+
+function transformPoint(p: Vector3, m: number[]): Vector3 {
+  return [
+    p[0] * m[0] + p[1] * m[4] + p[2] * m[8] + m[12],
+    p[0] * m[1] + p[1] * m[5] + p[2] * m[9] + m[13],
+    p[0] * m[2] + p[1] * m[6] + p[2] * m[10] + m[14]
+  ];
+}
+
+function format(value: number): string {
+  return String(+value.toFixed(4));
+}
+
+const SEGMENTS = 12;
+
+/**
+ * Collects vertices and faces, tessellating collision primitives into low-poly meshes.
+ */
+class MeshBuilder {
+  vertices: Vector3[] = [];
+  faces: { indices: number[], material: number }[] = [];
+
+  addAxisAlignedBox(min: Vector3, max: Vector3, material: number): void {
+    const corners: Vector3[] = [];
+    for (let i = 0; i < 8; i++) {
+      corners.push([i & 1 ? max[0] : min[0], i & 2 ? max[1] : min[1], i & 4 ? max[2] : min[2]]);
+    }
+    const base = this.vertices.length;
+    this.vertices.push(...corners);
+    for (const quad of [[0, 2, 3, 1], [4, 5, 7, 6], [0, 1, 5, 4], [2, 6, 7, 3], [0, 4, 6, 2], [1, 3, 7, 5]]) {
+      this.faces.push({ indices: quad.map(i => base + i), material });
+    }
+  }
+
+  /**
+   * A box polygon stores four alternating corners; the other four are their
+   * reflections through the centre. Each face holds two stored corners and the
+   * reflections of the other two.
+   */
+  addBox(corners: [Vector3, Vector3, Vector3, Vector3], material: number): void {
+    const center = [0, 1, 2].map(axis => corners.reduce((sum, c) => sum + c[axis], 0) / 4);
+    const opposite = corners.map(c => c.map((value, axis) => 2 * center[axis] - value) as Vector3);
+    const base = this.vertices.length;
+    this.vertices.push(...corners, ...opposite);
+
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        const [r, s] = [0, 1, 2, 3].filter(i => i !== p && i !== q);
+        this.faces.push({ indices: [base + p, base + 4 + r, base + q, base + 4 + s], material });
+      }
+    }
+  }
+
+  addSphere(center: Vector3, radius: number, material: number): void {
+    const rings = SEGMENTS / 2;
+    const base = this.vertices.length;
+    for (let ring = 0; ring <= rings; ring++) {
+      const phi = Math.PI * ring / rings;
+      for (let segment = 0; segment < SEGMENTS; segment++) {
+        const theta = 2 * Math.PI * segment / SEGMENTS;
+        this.vertices.push([
+          center[0] + radius * Math.sin(phi) * Math.cos(theta),
+          center[1] + radius * Math.sin(phi) * Math.sin(theta),
+          center[2] + radius * Math.cos(phi)
+        ]);
+      }
+    }
+    for (let ring = 0; ring < rings; ring++) {
+      for (let segment = 0; segment < SEGMENTS; segment++) {
+        const next = (segment + 1) % SEGMENTS;
+        this.faces.push({
+          indices: [
+            base + ring * SEGMENTS + segment, base + (ring + 1) * SEGMENTS + segment,
+            base + (ring + 1) * SEGMENTS + next, base + ring * SEGMENTS + next
+          ],
+          material
+        });
+      }
+    }
+  }
+
+  /**
+   * Adds a cylinder between two points; capsules also get a sphere on each end.
+   */
+  addCylinder(a: Vector3, b: Vector3, radius: number, material: number, capped: boolean): void {
+    const axis = b.map((value, i) => value - a[i]);
+    const length = Math.hypot(axis[0], axis[1], axis[2]) || 1;
+    const dir = axis.map(value => value / length);
+
+    // Two vectors perpendicular to the axis
+    const helper = Math.abs(dir[2]) < 0.9 ? [0, 0, 1] : [1, 0, 0];
+    const u = normalize(cross(dir, helper));
+    const v = cross(dir, u);
+
+    const base = this.vertices.length;
+    for (const end of [a, b]) {
+      for (let segment = 0; segment < SEGMENTS; segment++) {
+        const theta = 2 * Math.PI * segment / SEGMENTS;
+        const cos = Math.cos(theta) * radius, sin = Math.sin(theta) * radius;
+        this.vertices.push([0, 1, 2].map(i => end[i] + u[i] * cos + v[i] * sin) as Vector3);
+      }
+    }
+    for (let segment = 0; segment < SEGMENTS; segment++) {
+      const next = (segment + 1) % SEGMENTS;
+      this.faces.push({ indices: [base + segment, base + next, base + SEGMENTS + next, base + SEGMENTS + segment], material });
+    }
+
+    if (capped) {
+      this.addSphere(a, radius, material);
+      this.addSphere(b, radius, material);
+    } else {
+      const ring = (offset: number) => Array.from({ length: SEGMENTS }, (_, i) => base + offset + i);
+      this.faces.push({ indices: ring(0).reverse(), material });
+      this.faces.push({ indices: ring(SEGMENTS), material });
+    }
+  }
+}
+
+function cross(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: number[]): number[] {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1;
+  return v.map(value => value / length);
+}
@@ -0,0 +1,268 @@
+import { RpfManager } from './rpf-manager.js';
+import { ResourceReader } from './resource.js';
+import { JenkHash, HashDictionary } from './hash.js';
+
+export const CLIP_DICTIONARY_RESOURCE_VERSION = 46;
+
+export enum ClipType {
+  Animation = 1,
+  AnimationList = 2
+}
+
+// Kinds of data a bone id/track pair animates
+export const ANIMATION_TRACKS: Record<number, string> = {
+  0: 'bonePosition',
+  1: 'boneRotation',
+  2: 'boneScale',
+  5: 'moverPosition',
+  6: 'moverRotation',
+  7: 'cameraPosition',
+  8: 'cameraRotation'
+};
+
+export interface AnimationTrack {
+  boneId: number;
+  track: number;
+  trackName: string;
+}
+
+/**
+ * Block of compressed channel data covering a run of frames.
+ */
+export interface AnimationSequence {
+  frames: number;
+  frameLength: number;
+  chunkSize: number;
+  data: Buffer;
+}
+
+export interface Animation {
+  hash: number;
+  frames: number;
+  /** Duration in seconds */
+  duration: number;
+  sequenceFrameLimit: number;
+  tracks: AnimationTrack[];
+  sequences: AnimationSequence[];
+}
+
+export interface ClipAnimationRef {
+  animation: Animation | null;
+  startTime: number;
+  endTime: number;
+  rate: number;
+}
+
+export interface Clip {
+  hash: number;
+  name: string;
+  type: number;
+  typeName: string;
+  /** Playback duration in seconds */
+  duration: number;
+  animations: ClipAnimationRef[];
+}
+
+export class YcdFile {
+  animations: Map<number, Animation> = new Map();
+  clips: Clip[] = [];
+
+  // crClipDictionary layout: animation map pointer 0x18, clip map buckets 0x28 with bucket count 0x30
+  static read(reader: ResourceReader): YcdFile {
+    if (reader.version !== CLIP_DICTIONARY_RESOURCE_VERSION) {
+      throw new Error(`Unsupported clip dictionary version: ${reader.version}`);
+    }
+
+    const root = reader.rootAddress;
+    const ycd = new YcdFile();
+
+    // Clips refer to animations by pointer, so decode each one once; the animation map is read
+    // first so shared animations keep their map hash
+    const byPointer = new Map<number, Animation>();
+    const readAnimation = (pointer: number, hash: number): Animation | null => {
+      if (!pointer) return null;
+
+      let animation = byPointer.get(pointer);
+      if (!animation) {
+        animation = this.readAnimation(reader, pointer, hash);
+        byPointer.set(pointer, animation);
+      }
+      return animation;
+    };
+
+    // Map entries: hash 0x00, value pointer 0x08, next entry 0x10
+    const animationMap = reader.readPointer(root + 0x18);
+    if (animationMap) {
+      const entries = reader.readAtMap(reader.readPointer(animationMap + 0x18), reader.readUInt16(animationMap + 0x20), 0x10,
+        (r, a) => r.readPointer(a + 0x08));
+      for (const [hash, pointer] of entries) {
+        const animation = readAnimation(pointer, hash);
+        if (animation) {
+          ycd.animations.set(hash, animation);
+        }
+      }
+    }
+
+    const clips = reader.readAtMap(reader.readPointer(root + 0x28), reader.readUInt16(root + 0x30), 0x10,
+      (r, a) => r.readPointer(a + 0x08));
+    for (const [hash, pointer] of clips) {
+      if (!pointer) continue;
+
+      // crClip: type 0x10, name pointer 0x18, then type specific data from 0x50
+      const type = reader.readUInt8(pointer + 0x10);
+      const name = (reader.readStringPointer(pointer + 0x18) ?? '').replace(/^pack:\//i, '').replace(/\.clip$/i, '');
+      const clip: Clip = { hash, name: name || HashDictionary.format(hash), type, typeName: ClipType[type] ?? `type_${type}`, duration: 0, animations: [] };
+
+      if (type === ClipType.Animation) {
+        const ref = {
+          animation: readAnimation(reader.readPointer(pointer + 0x50), 0),
+          startTime: reader.readFloat(pointer + 0x58),
+          endTime: reader.readFloat(pointer + 0x5C),
+          rate: reader.readFloat(pointer + 0x60)
+        };
+        clip.animations.push(ref);
+        clip.duration = ref.rate ? (ref.endTime - ref.startTime) / ref.rate : 0;
+      } else if (type === ClipType.AnimationList) {
+        const count = reader.readUInt16(pointer + 0x58);
+        clip.animations = reader.readArray(reader.readPointer(pointer + 0x50), count, 0x18, (r, a) => ({
+          startTime: r.readFloat(a),
+          endTime: r.readFloat(a + 4),
+          rate: r.readFloat(a + 8),
+          animation: readAnimation(r.readPointer(a + 0x10), 0)
+        }));
+        clip.duration = reader.readFloat(pointer + 0x60);
+      }
+
+      if (name) {
+        HashDictionary.add(name);
+      }
+      ycd.clips.push(clip);
+    }
+
+    ycd.clips.sort((a, b) => a.name.localeCompare(b.name));
+    return ycd;
+  }
+
+  findClip(nameOrHash: string): Clip | undefined {
+    const hash = JenkHash.parse(nameOrHash) ?? JenkHash.joaat(nameOrHash);
+    return this.clips.find(clip => clip.hash === hash || clip.name.toLowerCase() === nameOrHash.toLowerCase());
+  }
+
+  /**
+   * Describes a clip and the keyframes of its animations as a JSON-friendly object. Frame times are
+   * given in both animation and clip time; channel data is kept in its compressed sequence form.
+   */
+  static toJson(clip: Clip): object {
+    return {
+      name: clip.name,
+      hash: JenkHash.format(clip.hash),
+      type: clip.typeName,
+      duration: clip.duration,
+      animations: clip.animations.map(({ animation, startTime, endTime, rate }) => {
+        if (!animation) {
+          return { startTime, endTime, rate, animation: null };
+        }
+
+        const frameTime = animation.frames > 1 ? animation.duration / (animation.frames - 1) : 0;
+        const keyframes: { frame: number, animationTime: number, clipTime: number }[] = [];
+        for (let frame = 0; frame < animation.frames; frame++) {
+          const animationTime = frame * frameTime;
+          if (animationTime < startTime - 1e-6 || animationTime > endTime + 1e-6) continue;
+
+          keyframes.push({ frame, animationTime, clipTime: rate ? (animationTime - startTime) / rate : 0 });
+        }
+
+        return {
+          startTime,
+          endTime,
+          rate,
+          animation: HashDictionary.format(animation.hash),
+          frames: animation.frames,
+          duration: animation.duration,
+          tracks: animation.tracks,
+          keyframes,
+          sequences: animation.sequences.map(sequence => ({
+            frames: sequence.frames,
+            frameLength: sequence.frameLength,
+            chunkSize: sequence.chunkSize,
+            data: sequence.data.toString('base64')
+          }))
+        };
+      })
+    };
+  }
+
+  // crAnimation: frames 0x14, frame limit per sequence 0x16, duration 0x18, sequences 0x40, bone ids 0x50
+  private static readAnimation(reader: ResourceReader, address: number, hash: number): Animation {
+    return {
+      hash,
+      frames: reader.readUInt16(address + 0x14),
+      sequenceFrameLimit: reader.readUInt16(address + 0x16),
+      duration: reader.readFloat(address + 0x18),
+      tracks: reader.readSimpleList(address + 0x50, 4, (r, a) => {
+        const track = r.readUInt8(a + 3);
+        return { boneId: r.readUInt16(a), track, trackName: ANIMATION_TRACKS[track] ?? `track_${track}` };
+      }),
+      // crSequence: data length 0x04, frames 0x16, frame length 0x18, chunk size 0x1E, data from 0x20
+      sequences: reader.readPgObjectArray(address + 0x40, (r, a) => ({
+        frames: r.readUInt16(a + 0x16),
+        frameLength: r.readUInt16(a + 0x18),
+        chunkSize: r.readUInt8(a + 0x1E),
+        data: r.readBytes(a + 0x20, r.readUInt32(a + 0x04))
+      })).filter((sequence): sequence is AnimationSequence => sequence !== null)
+    };
+  }
+}
+
+export interface ClipLocation {
+  rpfPath: string;
+  filePath: string;
+  clip: Clip;
+}
+
+/**
+ * Clips of every .ycd in the loaded archives, keyed by clip name hash, so an animation
+ * can be found without knowing which dictionary holds it.
+ */
+export class ClipIndex {
+  private clips: Map<number, ClipLocation[]> | null = null;
+
+  constructor(private rpfManager: RpfManager) {}
+
+  /**
+   * Drops the clip map so the next lookup rescans the clip dictionaries.
+   */
+  clear(): void {
+    this.clips = null;
+  }
+
+  find(nameHash: number): ClipLocation[] {
+    return this.load().get(nameHash >>> 0) ?? [];
+  }
+
+  private load(): Map<number, ClipLocation[]> {
+    if (this.clips) return this.clips;
+
+    const clips = new Map<number, ClipLocation[]>();
+
+    for (const result of this.rpfManager.searchFiles('*.ycd')) {
+      const reader = this.rpfManager.getResourceReader(result.rpfPath, result.entryPath);
+      if (!reader) continue;
+
+      try {
+        for (const clip of YcdFile.read(reader).clips) {
+          // Keyframe data is not needed for lookups; drop it to keep the index small
+          const summary: Clip = { ...clip, animations: clip.animations.map(ref => ({ ...ref, animation: ref.animation && { ...ref.animation, sequences: [] } })) };
+          const locations = clips.get(clip.hash) ?? [];
+          locations.push({ rpfPath: result.rpfPath, filePath: result.entryPath, clip: summary });
+          clips.set(clip.hash, locations);
+        }
+      } catch (error) {
+        console.error(`Failed to read clips ${result.entryPath} from ${result.rpfPath}: ${error}`);
+      }
+    }
+
+    this.clips = clips;
+    return clips;
+  }
+}
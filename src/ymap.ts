@@ -0,0 +1,288 @@
+import { RpfManager } from './rpf-manager.js';
+import { RpfDirectoryEntry, RpfFileEntry } from './rpf.js';
+import { ResourceReader } from './resource.js';
+import { MetaFile, MetaObject, MetaObjectReader, MetaValues, Vector3 } from './meta.js';
+import { HashDictionary } from './hash.js';
+
+export interface YmapExtents {
+  min: Vector3;
+  max: Vector3;
+}
+
+export interface YmapEntity {
+  index: number;
+  /** CEntityDef, or CMloInstanceDef for interior placements */
+  type: string;
+  archetypeHash: number;
+  archetypeName: string;
+  guid: number;
+  flags: number;
+  position: Vector3;
+  rotation: [number, number, number, number];
+  scaleXY: number;
+  scaleZ: number;
+  /** Index of the LOD parent in the parent ymap's entity list, -1 when there is none */
+  parentIndex: number;
+  lodDist: number;
+  childLodDist: number;
+  lodLevel: string;
+  numChildren: number;
+}
+
+export interface YmapCarGenerator {
+  position: Vector3;
+  orientX: number;
+  orientY: number;
+  perpendicularLength: number;
+  carModelHash: number;
+  carModel: string;
+  flags: number;
+  popGroup: string;
+}
+
+export interface YmapBoxOccluder {
+  center: Vector3;
+  size: Vector3;
+  /** Rotation around Z in degrees */
+  angle: number;
+}
+
+export interface YmapOccludeModel {
+  min: Vector3;
+  max: Vector3;
+  numTris: number;
+  flags: number;
+}
+
+// CMapData content flags, as written by the map exporter
+const CONTENT_FLAG_NAMES: [number, string][] = [
+  [1, 'HD'], [2, 'LOD'], [4, 'SLOD2+'], [8, 'Interior'], [16, 'SLOD'], [32, 'Occluder'],
+  [64, 'Physics'], [128, 'LOD lights'], [256, 'Distant LOD lights'], [1024, 'Critical'],
+  [2048, 'Grass instances']
+];
+
+export class YmapFile {
+  nameHash = 0;
+  name = '';
+  parentHash = 0;
+  parent = '';
+  flags = 0;
+  contentFlags = 0;
+  streamingExtents: YmapExtents = { min: [0, 0, 0], max: [0, 0, 0] };
+  entitiesExtents: YmapExtents = { min: [0, 0, 0], max: [0, 0, 0] };
+  entities: YmapEntity[] = [];
+  carGenerators: YmapCarGenerator[] = [];
+  boxOccluders: YmapBoxOccluder[] = [];
+  occludeModels: YmapOccludeModel[] = [];
+
+  static read(reader: ResourceReader): YmapFile {
+    return this.fromMeta(MetaObjectReader.read(MetaFile.fromResource(reader)));
+  }
+
+  static fromMeta(root: MetaObject): YmapFile {
+    if (root._type !== 'CMapData') {
+      throw new Error(`Not a map data file (root structure is ${root._type})`);
+    }
+
+    const ymap = new YmapFile();
+    ymap.nameHash = MetaValues.number(root.name);
+    ymap.name = HashDictionary.format(ymap.nameHash);
+    ymap.parentHash = MetaValues.number(root.parent);
+    ymap.parent = ymap.parentHash ? HashDictionary.format(ymap.parentHash) : '';
+    ymap.flags = MetaValues.number(root.flags);
+    ymap.contentFlags = MetaValues.number(root.contentFlags);
+    ymap.streamingExtents = { min: MetaValues.vector3(root.streamingExtentsMin), max: MetaValues.vector3(root.streamingExtentsMax) };
+    ymap.entitiesExtents = { min: MetaValues.vector3(root.entitiesExtentsMin), max: MetaValues.vector3(root.entitiesExtentsMax) };
+
+    // Entities are stored as pointers so interiors (CMloInstanceDef) can share the list
+    MetaValues.objects(root.entities).forEach((entity, index) => {
+      const archetypeHash = MetaValues.number(entity.archetypeName);
+      ymap.entities.push({
+        index,
+        type: entity._type,
+        archetypeHash,
+        archetypeName: HashDictionary.format(archetypeHash),
+        guid: MetaValues.number(entity.guid),
+        flags: MetaValues.number(entity.flags),
+        position: MetaValues.vector3(entity.position),
+        rotation: MetaValues.vector4(entity.rotation),
+        scaleXY: MetaValues.number(entity.scaleXY, 1),
+        scaleZ: MetaValues.number(entity.scaleZ, 1),
+        parentIndex: MetaValues.number(entity.parentIndex, -1),
+        lodDist: MetaValues.number(entity.lodDist),
+        childLodDist: MetaValues.number(entity.childLodDist),
+        lodLevel: String(entity.lodLevel ?? ''),
+        numChildren: MetaValues.number(entity.numChildren)
+      });
+    });
+
+    for (const carGen of MetaValues.objects(root.carGenerators)) {
+      const carModelHash = MetaValues.number(carGen.carModel);
+      ymap.carGenerators.push({
+        position: MetaValues.vector3(carGen.position),
+        orientX: MetaValues.number(carGen.orientX),
+        orientY: MetaValues.number(carGen.orientY),
+        perpendicularLength: MetaValues.number(carGen.perpendicularLength),
+        carModelHash,
+        carModel: carModelHash ? HashDictionary.format(carModelHash) : '',
+        flags: MetaValues.number(carGen.flags),
+        popGroup: carGen.popGroup ? HashDictionary.format(MetaValues.number(carGen.popGroup)) : ''
+      });
+    }
+
+    // Box occluders are packed as int16 in quarter units, with the Z rotation as a scaled sin/cos pair
+    for (const box of MetaValues.objects(root.boxOccluders)) {
+      ymap.boxOccluders.push({
+        center: [MetaValues.number(box.iCenterX) / 4, MetaValues.number(box.iCenterY) / 4, MetaValues.number(box.iCenterZ) / 4],
+        size: [MetaValues.number(box.iLength) / 4, MetaValues.number(box.iWidth) / 4, MetaValues.number(box.iHeight) / 4],
+        angle: Math.atan2(MetaValues.number(box.iSinZ), MetaValues.number(box.iCosZ)) * 180 / Math.PI
+      });
+    }
+
+    for (const model of MetaValues.objects(root.occludeModels)) {
+      ymap.occludeModels.push({
+        min: MetaValues.vector3(model.bmin),
+        max: MetaValues.vector3(model.bmax),
+        numTris: MetaValues.number(model.numTris),
+        flags: MetaValues.number(model.flags)
+      });
+    }
+
+    return ymap;
+  }
+
+  static formatContentFlags(flags: number): string {
+    const names = CONTENT_FLAG_NAMES.filter(([bit]) => flags & bit).map(([, name]) => name);
+    return names.length > 0 ? names.join(', ') : 'none';
+  }
+}
+
+/**
+ * Area to search for placements: an axis-aligned box, or a sphere given by centre and radius.
+ */
+export type MapQueryArea =
+  | { min: Vector3, max: Vector3 }
+  | { center: Vector3, radius: number };
+
+export interface MapPlacement {
+  rpfPath: string;
+  filePath: string;
+  ymapName: string;
+  entities: { index: number, archetypeName: string, position: Vector3 }[];
+}
+
+interface YmapSummary {
+  rpfPath: string;
+  filePath: string;
+  name: string;
+  archetypes: Uint32Array;
+  positions: Float32Array;
+}
+
+/**
+ * Entity positions and archetypes of every .ymap in the loaded archives, built
+ * on first use so spatial queries don't have to decode thousands of resources.
+ */
+export class MapPlacementIndex {
+  private summaries: YmapSummary[] | null = null;
+
+  constructor(private rpfManager: RpfManager) {}
+
+  /**
+   * Drops the placement summaries so the next query rescans the map files.
+   */
+  clear(): void {
+    this.summaries = null;
+  }
+
+  /**
+   * Finds the ymaps that place entities inside an area, optionally limited to one archetype.
+   */
+  query(area: MapQueryArea | null, archetypeHash: number | null, limit: number = 50): { results: MapPlacement[], total: number, entityCount: number } {
+    const bounds = area && ('radius' in area
+      ? {
+        min: area.center.map(c => c - area.radius) as Vector3,
+        max: area.center.map(c => c + area.radius) as Vector3
+      }
+      : area);
+    const radiusSquared = area && 'radius' in area ? area.radius * area.radius : 0;
+
+    const contains = (x: number, y: number, z: number): boolean => {
+      if (!area || !bounds) return true;
+      if (x < bounds.min[0] || y < bounds.min[1] || z < bounds.min[2]) return false;
+      if (x > bounds.max[0] || y > bounds.max[1] || z > bounds.max[2]) return false;
+      if ('radius' in area) {
+        const dx = x - area.center[0], dy = y - area.center[1], dz = z - area.center[2];
+        return dx * dx + dy * dy + dz * dz <= radiusSquared;
+      }
+      return true;
+    };
+
+    const results: MapPlacement[] = [];
+    let total = 0;
+    let entityCount = 0;
+
+    for (const summary of this.load()) {
+      const entities: MapPlacement['entities'] = [];
+
+      for (let i = 0; i < summary.archetypes.length; i++) {
+        if (archetypeHash !== null && summary.archetypes[i] !== archetypeHash) continue;
+
+        const x = summary.positions[i * 3], y = summary.positions[i * 3 + 1], z = summary.positions[i * 3 + 2];
+        if (contains(x, y, z)) {
+          entities.push({ index: i, archetypeName: HashDictionary.format(summary.archetypes[i]), position: [x, y, z] });
+        }
+      }
+
+      if (entities.length > 0) {
+        total++;
+        entityCount += entities.length;
+        if (results.length < limit) {
+          results.push({ rpfPath: summary.rpfPath, filePath: summary.filePath, ymapName: summary.name, entities });
+        }
+      }
+    }
+
+    return { results, total, entityCount };
+  }
+
+  private load(): YmapSummary[] {
+    if (this.summaries) return this.summaries;
+
+    const summaries: YmapSummary[] = [];
+    this.rpfManager.loadAll();
+    for (const rpfPath of this.rpfManager.getRpfList()) {
+      const rpf = this.rpfManager.getRpfFile(rpfPath);
+      if (!rpf?.root) continue;
+
+      for (const entry of this.findYmapFiles(rpf.root)) {
+        const reader = this.rpfManager.getResourceReader(rpfPath, entry.path);
+        if (!reader) continue;
+
+        try {
+          const ymap = YmapFile.read(reader);
+          const archetypes = new Uint32Array(ymap.entities.length);
+          const positions = new Float32Array(ymap.entities.length * 3);
+          ymap.entities.forEach((entity, i) => {
+            archetypes[i] = entity.archetypeHash;
+            positions.set(entity.position, i * 3);
+          });
+          summaries.push({ rpfPath, filePath: entry.path, name: ymap.name, archetypes, positions });
+        } catch (error) {
+          console.error(`Failed to read map data ${entry.path} from ${rpfPath}: ${error}`);
+        }
+      }
+    }
+
+    this.summaries = summaries;
+    return summaries;
+  }
+
+  private findYmapFiles(dir: RpfDirectoryEntry): RpfFileEntry[] {
+    const files = dir.files.filter(file => file.nameLower.endsWith('.ymap'));
+    for (const subdir of dir.directories) {
+      files.push(...this.findYmapFiles(subdir));
+    }
+    return files;
+  }
+}
@@ -0,0 +1,267 @@
+import { ResourceReader, ResourceItemReader } from './resource.js';
+import { Vector3 } from './meta.js';
+
+export const NAVMESH_RESOURCE_VERSION = 2;
+
+// Navmesh cells cover a 150m grid starting at -6000; file names use three times the cell index
+export const NAVMESH_CELL_SIZE = 150;
+export const NAVMESH_GRID_ORIGIN = -6000;
+
+// Values of an edge's adjacent polygon/area that mean "no neighbour"
+const NO_POLYGON = 0x3FFF;
+const NO_AREA = 0x1F;
+
+export interface NavMeshEdge {
+  /** Area (navmesh cell) of the neighbouring polygon, or -1 for an open edge */
+  areaId: number;
+  polygonIndex: number;
+}
+
+export interface NavMeshPolygon {
+  index: number;
+  flags: number;
+  /** Indices into the navmesh vertices */
+  vertices: number[];
+  edges: NavMeshEdge[];
+  isPavement: boolean;
+  isSteep: boolean;
+  isWater: boolean;
+}
+
+/**
+ * Special link between two polygons that is not a shared edge: ladders, climbs and drops.
+ */
+export interface NavMeshLink {
+  type: number;
+  angle: number;
+  from: Vector3;
+  to: Vector3;
+  polygonFrom: number;
+  polygonTo: number;
+  areaFrom: number;
+  areaTo: number;
+}
+
+export interface NavMeshHit {
+  polygon: NavMeshPolygon;
+  distance: number;
+  point: Vector3;
+}
+
+export class YnvFile {
+  areaId = 0;
+  contentFlags = 0;
+  aabbMin: Vector3 = [0, 0, 0];
+  aabbMax: Vector3 = [0, 0, 0];
+  vertices: Vector3[] = [];
+  polygons: NavMeshPolygon[] = [];
+  links: NavMeshLink[] = [];
+  adjacentAreaIds: number[] = [];
+  coverPointCount = 0;
+
+  // CNavMesh layout: flags 0x08, AABB size 0x58, vertex/index/edge lists 0x68-0x80,
+  // adjacent area ids 0x90, polygon list 0x118, sector tree 0x120, links 0x128, counts 0x138-0x150
+  static read(reader: ResourceReader): YnvFile {
+    if (reader.version !== NAVMESH_RESOURCE_VERSION) {
+      throw new Error(`Unsupported navmesh version: ${reader.version}`);
+    }
+
+    const root = reader.rootAddress;
+    const ynv = new YnvFile();
+    ynv.contentFlags = reader.readUInt32(root + 0x08);
+    const size = reader.readVector3(root + 0x58);
+    ynv.areaId = reader.readUInt32(root + 0x140);
+    ynv.coverPointCount = reader.readUInt32(root + 0x148);
+
+    // Positions are quantised to 16 bits across the sector tree's bounding box
+    const sectorTreePointer = reader.readPointer(root + 0x120);
+    if (sectorTreePointer) {
+      ynv.aabbMin = reader.readVector3(sectorTreePointer);
+      ynv.aabbMax = reader.readVector3(sectorTreePointer + 0x10);
+    }
+    const dequantize: ResourceItemReader<Vector3> = (r, a) => [
+      ynv.aabbMin[0] + r.readUInt16(a) / 65535 * size[0],
+      ynv.aabbMin[1] + r.readUInt16(a + 2) / 65535 * size[1],
+      ynv.aabbMin[2] + r.readUInt16(a + 4) / 65535 * size[2]
+    ];
+
+    const adjacentCount = Math.min(reader.readUInt32(root + 0x90), 32);
+    ynv.adjacentAreaIds = reader.readUInt32Array(root + 0x94, adjacentCount);
+
+    ynv.vertices = this.readList(reader, reader.readPointer(root + 0x68), 6, dequantize);
+    const indices = this.readList(reader, reader.readPointer(root + 0x78), 2, (r, a) => r.readUInt16(a));
+    const edges = this.readList(reader, reader.readPointer(root + 0x80), 8, (r, a) => {
+      const value = r.readUInt32(a);
+      const areaIndex = value & 0x1F;
+      const polygonIndex = (value >>> 5) & 0x3FFF;
+      return polygonIndex === NO_POLYGON || areaIndex === NO_AREA
+        ? { areaId: -1, polygonIndex: -1 }
+        : { areaId: ynv.adjacentAreaIds[areaIndex] ?? -1, polygonIndex };
+    });
+
+    // CNavMeshPoly: flags 0x00, index count in the top 11 bits of 0x02, first index 0x04
+    ynv.polygons = this.readList(reader, reader.readPointer(root + 0x118), 0x30, (r, a) => {
+      const flags = r.readUInt16(a);
+      const indexCount = r.readUInt16(a + 2) >>> 5;
+      const firstIndex = r.readUInt16(a + 4);
+      return {
+        index: 0,
+        flags,
+        vertices: indices.slice(firstIndex, firstIndex + indexCount),
+        edges: edges.slice(firstIndex, firstIndex + indexCount),
+        isPavement: (flags & 0x4) !== 0,
+        isSteep: (flags & 0x40) !== 0,
+        isWater: (flags & 0x80) !== 0
+      };
+    });
+    ynv.polygons.forEach((polygon, i) => polygon.index = i);
+
+    const linksPointer = reader.readPointer(root + 0x128);
+    const linkCount = reader.readUInt32(root + 0x14C);
+    ynv.links = reader.readArray(linksPointer, linkCount, 28, (r, a) => ({
+      type: r.readUInt8(a),
+      angle: r.readUInt8(a + 1),
+      from: dequantize(r, a + 4),
+      to: dequantize(r, a + 10),
+      polygonFrom: r.readUInt16(a + 16),
+      polygonTo: r.readUInt16(a + 20),
+      areaFrom: r.readUInt16(a + 24),
+      areaTo: r.readUInt16(a + 26)
+    }));
+
+    return ynv;
+  }
+
+  /**
+   * File name of the navmesh cell containing a world position, e.g. "navmesh[120][117]".
+   */
+  static getCellName(x: number, y: number): string {
+    const cellX = Math.floor((x - NAVMESH_GRID_ORIGIN) / NAVMESH_CELL_SIZE);
+    const cellY = Math.floor((y - NAVMESH_GRID_ORIGIN) / NAVMESH_CELL_SIZE);
+    return `navmesh[${cellX * 3}][${cellY * 3}]`;
+  }
+
+  static isWalkable(polygon: NavMeshPolygon): boolean {
+    return !polygon.isWater && !polygon.isSteep;
+  }
+
+  /**
+   * Polygons within `radius` of a position, nearest first.
+   */
+  findNear(position: Vector3, radius: number): NavMeshHit[] {
+    const hits: NavMeshHit[] = [];
+
+    for (const polygon of this.polygons) {
+      const points = polygon.vertices.map(i => this.vertices[i]).filter(Boolean);
+      let best: { distance: number, point: Vector3 } | null = null;
+
+      // Polygons are convex, so a triangle fan covers them
+      for (let i = 1; i + 1 < points.length; i++) {
+        const point = closestPointOnTriangle(position, points[0], points[i], points[i + 1]);
+        const distance = Math.hypot(point[0] - position[0], point[1] - position[1], point[2] - position[2]);
+        if (!best || distance < best.distance) {
+          best = { distance, point };
+        }
+      }
+
+      if (best && best.distance <= radius) {
+        hits.push({ polygon, ...best });
+      }
+    }
+
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Builds an OBJ of the navmesh, grouping polygons by surface and drawing special links as lines.
+   */
+  toObj(name: string): string {
+    const lines = [`# Navmesh ${name} (area ${this.areaId})`, `o ${name}`];
+    for (const [x, y, z] of this.vertices) {
+      lines.push(`v ${format(x)} ${format(y)} ${format(z)}`);
+    }
+
+    const surfaces: [string, (polygon: NavMeshPolygon) => boolean][] = [
+      ['walkable', polygon => YnvFile.isWalkable(polygon) && !polygon.isPavement],
+      ['pavement', polygon => YnvFile.isWalkable(polygon) && polygon.isPavement],
+      ['steep', polygon => polygon.isSteep && !polygon.isWater],
+      ['water', polygon => polygon.isWater]
+    ];
+    for (const [surface, matches] of surfaces) {
+      const polygons = this.polygons.filter(matches);
+      if (polygons.length === 0) continue;
+
+      lines.push(`g ${surface}`, `usemtl ${surface}`);
+      for (const polygon of polygons) {
+        if (polygon.vertices.length >= 3) {
+          lines.push(`f ${polygon.vertices.map(i => i + 1).join(' ')}`);
+        }
+      }
+    }
+
+    if (this.links.length > 0) {
+      lines.push('g links');
+      let vertexIndex = this.vertices.length + 1;
+      for (const link of this.links) {
+        lines.push(`v ${link.from.map(format).join(' ')}`, `v ${link.to.map(format).join(' ')}`);
+        lines.push(`l ${vertexIndex} ${vertexIndex + 1}`);
+        vertexIndex += 2;
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // CNavMesh lists are split into parts: a table of { pointer, count } entries at 0x10, part count at 0x20
+  private static readList<T>(reader: ResourceReader, address: number, itemSize: number, readItem: ResourceItemReader<T>): T[] {
+    if (!address) return [];
+
+    const partsPointer = reader.readPointer(address + 0x10);
+    const partCount = reader.readUInt32(address + 0x20);
+    let items: T[] = [];
+
+    reader.readArray(partsPointer, partCount, 16, (r, a) => {
+      items = items.concat(r.readArray(r.readPointer(a), r.readUInt32(a + 8), itemSize, readItem));
+    });
+    return items;
+  }
+}
+
+function format(value: number): string {
+  return String(+value.toFixed(3));
+}
+
+// Closest point on triangle abc to p (Ericson, Real-Time Collision Detection 5.1.5)
+function closestPointOnTriangle(p: Vector3, a: Vector3, b: Vector3, c: Vector3): Vector3 {
+  const sub = (u: Vector3, v: Vector3): Vector3 => [u[0] - v[0], u[1] - v[1], u[2] - v[2]];
+  const dot = (u: Vector3, v: Vector3) => u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+  const along = (origin: Vector3, dir: Vector3, t: number): Vector3 =>
+    [origin[0] + dir[0] * t, origin[1] + dir[1] * t, origin[2] + dir[2] * t];
+
+  const ab = sub(b, a), ac = sub(c, a), ap = sub(p, a);
+  const d1 = dot(ab, ap), d2 = dot(ac, ap);
+  if (d1 <= 0 && d2 <= 0) return a;
+
+  const bp = sub(p, b);
+  const d3 = dot(ab, bp), d4 = dot(ac, bp);
+  if (d3 >= 0 && d4 <= d3) return b;
+
+  const vc = d1 * d4 - d3 * d2;
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) return along(a, ab, d1 / (d1 - d3));
+
+  const cp = sub(p, c);
+  const d5 = dot(ab, cp), d6 = dot(ac, cp);
+  if (d6 >= 0 && d5 <= d6) return c;
+
+  const vb = d5 * d2 - d1 * d6;
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) return along(a, ac, d2 / (d2 - d6));
+
+  const va = d3 * d6 - d5 * d4;
+  if (va <= 0 && (d4 - d3) >= 0 && (d5 - d6) >= 0) {
+    return along(b, sub(c, b), (d4 - d3) / ((d4 - d3) + (d5 - d6)));
+  }
+
+  const denom = 1 / (va + vb + vc);
+  const v = vb * denom, w = vc * denom;
+  return [a[0] + ab[0] * v + ac[0] * w, a[1] + ab[1] * v + ac[1] * w, a[2] + ab[2] * v + ac[2] * w];
+}
@@ -0,0 +1,351 @@
+import fs from 'fs';
+import { ResourceReader } from './resource.js';
+
+export const SCRIPT_RESOURCE_VERSION = 10;
+
+// Code and strings are split into pages of up to 16KB
+const SCRIPT_PAGE_SIZE = 0x4000;
+
+type OperandKind = 'none' | 'u8' | 'u8u8' | 'u8u8u8' | 'u16' | 's16' | 'u24' | 'u32' | 'f32'
+  | 'native' | 'enter' | 'leave' | 'jump' | 'call' | 'switch';
+
+// Opcode table indexed by opcode value
+const OPCODES: [string, OperandKind][] = [
+  ['NOP', 'none'], ['IADD', 'none'], ['ISUB', 'none'], ['IMUL', 'none'], ['IDIV', 'none'], ['IMOD', 'none'],
+  ['INOT', 'none'], ['INEG', 'none'], ['IEQ', 'none'], ['INE', 'none'], ['IGT', 'none'], ['IGE', 'none'],
+  ['ILT', 'none'], ['ILE', 'none'], ['FADD', 'none'], ['FSUB', 'none'], ['FMUL', 'none'], ['FDIV', 'none'],
+  ['FMOD', 'none'], ['FNEG', 'none'], ['FEQ', 'none'], ['FNE', 'none'], ['FGT', 'none'], ['FGE', 'none'],
+  ['FLT', 'none'], ['FLE', 'none'], ['VADD', 'none'], ['VSUB', 'none'], ['VMUL', 'none'], ['VDIV', 'none'],
+  ['VNEG', 'none'], ['IAND', 'none'], ['IOR', 'none'], ['IXOR', 'none'], ['I2F', 'none'], ['F2I', 'none'],
+  ['F2V', 'none'], ['PUSH_CONST_U8', 'u8'], ['PUSH_CONST_U8_U8', 'u8u8'], ['PUSH_CONST_U8_U8_U8', 'u8u8u8'],
+  ['PUSH_CONST_U32', 'u32'], ['PUSH_CONST_F', 'f32'], ['DUP', 'none'], ['DROP', 'none'], ['NATIVE', 'native'],
+  ['ENTER', 'enter'], ['LEAVE', 'leave'], ['LOAD', 'none'], ['STORE', 'none'], ['STORE_REV', 'none'],
+  ['LOAD_N', 'none'], ['STORE_N', 'none'], ['ARRAY_U8', 'u8'], ['ARRAY_U8_LOAD', 'u8'], ['ARRAY_U8_STORE', 'u8'],
+  ['LOCAL_U8', 'u8'], ['LOCAL_U8_LOAD', 'u8'], ['LOCAL_U8_STORE', 'u8'], ['STATIC_U8', 'u8'],
+  ['STATIC_U8_LOAD', 'u8'], ['STATIC_U8_STORE', 'u8'], ['IADD_U8', 'u8'], ['IMUL_U8', 'u8'], ['IOFFSET', 'none'],
+  ['IOFFSET_U8', 'u8'], ['IOFFSET_U8_LOAD', 'u8'], ['IOFFSET_U8_STORE', 'u8'], ['PUSH_CONST_S16', 's16'],
+  ['IADD_S16', 's16'], ['IMUL_S16', 's16'], ['IOFFSET_S16', 's16'], ['IOFFSET_S16_LOAD', 's16'],
+  ['IOFFSET_S16_STORE', 's16'], ['ARRAY_U16', 'u16'], ['ARRAY_U16_LOAD', 'u16'], ['ARRAY_U16_STORE', 'u16'],
+  ['LOCAL_U16', 'u16'], ['LOCAL_U16_LOAD', 'u16'], ['LOCAL_U16_STORE', 'u16'], ['STATIC_U16', 'u16'],
+  ['STATIC_U16_LOAD', 'u16'], ['STATIC_U16_STORE', 'u16'], ['GLOBAL_U16', 'u16'], ['GLOBAL_U16_LOAD', 'u16'],
+  ['GLOBAL_U16_STORE', 'u16'], ['J', 'jump'], ['JZ', 'jump'], ['IEQ_JZ', 'jump'], ['INE_JZ', 'jump'],
+  ['IGT_JZ', 'jump'], ['IGE_JZ', 'jump'], ['ILT_JZ', 'jump'], ['ILE_JZ', 'jump'], ['CALL', 'call'],
+  ['GLOBAL_U24', 'u24'], ['GLOBAL_U24_LOAD', 'u24'], ['GLOBAL_U24_STORE', 'u24'], ['PUSH_CONST_U24', 'u24'],
+  ['SWITCH', 'switch'], ['STRING', 'none'], ['STRINGHASH', 'none'], ['TEXT_LABEL_ASSIGN_STRING', 'u8'],
+  ['TEXT_LABEL_ASSIGN_INT', 'u8'], ['TEXT_LABEL_APPEND_STRING', 'u8'], ['TEXT_LABEL_APPEND_INT', 'u8'],
+  ['TEXT_LABEL_COPY', 'none'], ['CATCH', 'none'], ['THROW', 'none'], ['CALLINDIRECT', 'none'],
+  ['PUSH_CONST_M1', 'none'], ['PUSH_CONST_0', 'none'], ['PUSH_CONST_1', 'none'], ['PUSH_CONST_2', 'none'],
+  ['PUSH_CONST_3', 'none'], ['PUSH_CONST_4', 'none'], ['PUSH_CONST_5', 'none'], ['PUSH_CONST_6', 'none'],
+  ['PUSH_CONST_7', 'none'], ['PUSH_CONST_FM1', 'none'], ['PUSH_CONST_F0', 'none'], ['PUSH_CONST_F1', 'none'],
+  ['PUSH_CONST_F2', 'none'], ['PUSH_CONST_F3', 'none'], ['PUSH_CONST_F4', 'none'], ['PUSH_CONST_F5', 'none'],
+  ['PUSH_CONST_F6', 'none'], ['PUSH_CONST_F7', 'none']
+];
+
+export interface ScriptInstruction {
+  address: number;
+  opcode: number;
+  name: string;
+  operands: string;
+  length: number;
+  comment?: string;
+}
+
+export interface ScriptFunction {
+  index: number;
+  address: number;
+  name: string;
+  parameterCount: number;
+  frameSize: number;
+}
+
+export interface NativeInfo {
+  name: string;
+  namespace?: string;
+}
+
+/**
+ * Native names loaded from a user-supplied database: either the JSON layout of the common
+ * natives.json ({ "NAMESPACE": { "0xHASH": { "name": ... } } }) or "0xHASH NAME" lines.
+ */
+export class NativeDatabase {
+  private static cache: Map<string, { mtime: number, database: NativeDatabase }> = new Map();
+  private natives: Map<bigint, NativeInfo> = new Map();
+
+  get size(): number {
+    return this.natives.size;
+  }
+
+  static load(filePath: string): NativeDatabase {
+    const mtime = fs.statSync(filePath).mtimeMs;
+    const cached = this.cache.get(filePath);
+    if (cached && cached.mtime === mtime) {
+      return cached.database;
+    }
+
+    const database = this.parse(fs.readFileSync(filePath, 'utf8'));
+    this.cache.set(filePath, { mtime, database });
+    return database;
+  }
+
+  static parse(text: string): NativeDatabase {
+    const database = new NativeDatabase();
+
+    if (text.trimStart().startsWith('{')) {
+      const namespaces = JSON.parse(text) as Record<string, Record<string, { name?: string }>>;
+      for (const [namespace, natives] of Object.entries(namespaces)) {
+        for (const [hash, native] of Object.entries(natives ?? {})) {
+          if (native?.name && /^0x[0-9a-f]+$/i.test(hash)) {
+            database.natives.set(BigInt(hash), { name: native.name, namespace });
+          }
+        }
+      }
+      return database;
+    }
+
+    for (const line of text.split(/\r?\n/)) {
+      const match = line.trim().match(/^(0x[0-9a-f]{1,16})[\s,:=]+([\w:]+)/i);
+      if (match) {
+        const [namespace, name] = match[2].includes('::') ? match[2].split('::') : [undefined, match[2]];
+        database.natives.set(BigInt(match[1]), { name, namespace });
+      }
+    }
+    return database;
+  }
+
+  get(hash: bigint): NativeInfo | undefined {
+    return this.natives.get(hash);
+  }
+}
+
+export class YscFile {
+  name = '';
+  nameHash = 0;
+  globalsSignature = 0;
+  code: Buffer = Buffer.alloc(0);
+  codePageSizes: number[] = [];
+  parameterCount = 0;
+  staticsCount = 0;
+  globalsCount = 0;
+  /** Globals block index for scripts that own globals */
+  globalsBlock = 0;
+  natives: bigint[] = [];
+  strings: Buffer = Buffer.alloc(0);
+  stringPageSizes: number[] = [];
+
+  // scrProgram layout: code pages 0x10, signature 0x18, code length 0x1C, counts 0x20-0x2C,
+  // statics 0x30, natives 0x40, name hash 0x58, name 0x60, string pages 0x68, string length 0x70
+  static read(reader: ResourceReader): YscFile {
+    if (reader.version !== SCRIPT_RESOURCE_VERSION) {
+      throw new Error(`Unsupported script version: ${reader.version}`);
+    }
+
+    const root = reader.rootAddress;
+    const ysc = new YscFile();
+    ysc.globalsSignature = reader.readUInt32(root + 0x18);
+    const codeLength = reader.readUInt32(root + 0x1C);
+    ysc.parameterCount = reader.readUInt32(root + 0x20);
+    ysc.staticsCount = reader.readUInt32(root + 0x24);
+    const globals = reader.readUInt32(root + 0x28);
+    ysc.globalsCount = globals & 0x3FFFF;
+    ysc.globalsBlock = globals >>> 18;
+    const nativeCount = reader.readUInt32(root + 0x2C);
+    ysc.nameHash = reader.readUInt32(root + 0x58);
+    ysc.name = reader.readStringPointer(root + 0x60) ?? '';
+    const stringsLength = reader.readUInt32(root + 0x70);
+
+    ({ data: ysc.code, pageSizes: ysc.codePageSizes } = this.readPages(reader, reader.readPointer(root + 0x10), codeLength));
+    ({ data: ysc.strings, pageSizes: ysc.stringPageSizes } = this.readPages(reader, reader.readPointer(root + 0x68), stringsLength));
+
+    // Native hashes are stored rotated left by (code length + index) bits
+    ysc.natives = reader.readArray(reader.readPointer(root + 0x40), nativeCount, 8, (r, a) => r.readUInt64(a))
+      .map((value, i) => rotateLeft(value, (codeLength + i) & 63));
+
+    return ysc;
+  }
+
+  getString(offset: number): string | null {
+    if (offset < 0 || offset >= this.strings.length) return null;
+
+    const end = this.strings.indexOf(0, offset);
+    return this.strings.toString('utf8', offset, end === -1 ? this.strings.length : end);
+  }
+
+  /**
+   * Strings of the string table with their offsets, as referenced by PUSH_CONST + STRING.
+   */
+  listStrings(): { offset: number, text: string }[] {
+    const strings: { offset: number, text: string }[] = [];
+    let start = 0;
+    for (let i = 0; i < this.strings.length; i++) {
+      if (this.strings[i] !== 0) continue;
+      if (i > start) {
+        strings.push({ offset: start, text: this.strings.toString('utf8', start, i) });
+      }
+      start = i + 1;
+    }
+    return strings;
+  }
+
+  /**
+   * Functions in code order, found from their ENTER instructions.
+   */
+  listFunctions(): ScriptFunction[] {
+    const functions: ScriptFunction[] = [];
+    for (const instruction of this.instructions(0)) {
+      if (instruction.opcode !== 45) continue;
+
+      const nameLength = this.code[instruction.address + 4];
+      const name = nameLength > 0
+        ? this.code.toString('latin1', instruction.address + 5, instruction.address + 5 + nameLength).replace(/\0+$/, '')
+        : '';
+      functions.push({
+        index: functions.length,
+        address: instruction.address,
+        name: name || `func_${functions.length}`,
+        parameterCount: this.code[instruction.address + 1],
+        frameSize: this.code.readUInt16LE(instruction.address + 2)
+      });
+    }
+    return functions;
+  }
+
+  /**
+   * Decodes instructions starting at `address`, annotating natives, call targets and strings.
+   */
+  disassemble(address: number, limit: number, natives?: NativeDatabase): ScriptInstruction[] {
+    const functionNames = new Map(this.listFunctions().map(f => [f.address, f.name]));
+    const result: ScriptInstruction[] = [];
+    let previous: ScriptInstruction | null = null;
+
+    for (const instruction of this.instructions(address)) {
+      if (result.length >= limit) break;
+
+      if (instruction.name === 'NATIVE') {
+        const index = parseInt(instruction.operands.split(' ')[0], 10);
+        const hash = this.natives[index];
+        if (hash !== undefined) {
+          const native = natives?.get(hash);
+          const hashText = `0x${hash.toString(16).toUpperCase().padStart(16, '0')}`;
+          instruction.comment = native ? `${native.namespace ? `${native.namespace}::` : ''}${native.name} (${hashText})` : hashText;
+        }
+      } else if (instruction.name === 'CALL') {
+        instruction.comment = functionNames.get(parseInt(instruction.operands, 16));
+      } else if (instruction.name === 'STRING' && previous) {
+        const offset = YscFile.getPushedConstant(previous);
+        const text = offset === null ? null : this.getString(offset);
+        if (text !== null) {
+          instruction.comment = JSON.stringify(text);
+        }
+      }
+
+      result.push(instruction);
+      previous = instruction;
+    }
+    return result;
+  }
+
+  private *instructions(address: number): Generator<ScriptInstruction> {
+    const code = this.code;
+    let position = address;
+
+    while (position < code.length) {
+      const opcode = code[position];
+      const [name, kind] = OPCODES[opcode] ?? [`UNKNOWN_${opcode}`, 'none'];
+      let length = 1;
+      let operands = '';
+      const operand = position + 1;
+
+      if (operand + this.operandLength(kind, operand) > code.length) {
+        // Truncated instruction at the end of the code
+        yield { address: position, opcode, name, operands: '', length: code.length - position };
+        return;
+      }
+
+      switch (kind) {
+        case 'u8': operands = `${code[operand]}`; length += 1; break;
+        case 'u8u8': operands = `${code[operand]} ${code[operand + 1]}`; length += 2; break;
+        case 'u8u8u8': operands = `${code[operand]} ${code[operand + 1]} ${code[operand + 2]}`; length += 3; break;
+        case 'u16': operands = `${code.readUInt16LE(operand)}`; length += 2; break;
+        case 's16': operands = `${code.readInt16LE(operand)}`; length += 2; break;
+        case 'u24': operands = `${code.readUIntLE(operand, 3)}`; length += 3; break;
+        case 'u32': operands = `${code.readUInt32LE(operand)}`; length += 4; break;
+        case 'f32': operands = `${+code.readFloatLE(operand).toPrecision(7)}`; length += 4; break;
+        case 'native': {
+          // Arguments and returns packed in the first byte, native index big-endian in the next two
+          const packed = code[operand];
+          operands = `${code.readUInt16BE(operand + 1)} args=${packed >> 2} returns=${packed & 3}`;
+          length += 3;
+          break;
+        }
+        case 'enter':
+          operands = `params=${code[operand]} frame=${code.readUInt16LE(operand + 1)}`;
+          length += 4 + code[operand + 3];
+          break;
+        case 'leave': operands = `params=${code[operand]} returns=${code[operand + 1]}`; length += 2; break;
+        case 'jump': {
+          const target = position + 3 + code.readInt16LE(operand);
+          operands = hex(target);
+          length += 2;
+          break;
+        }
+        case 'call': operands = hex(code.readUIntLE(operand, 3)); length += 3; break;
+        case 'switch': {
+          // Cases: u32 value and s16 offset relative to the end of the case
+          const count = code[operand];
+          const cases: string[] = [];
+          for (let i = 0; i < count; i++) {
+            const entry = operand + 1 + i * 6;
+            cases.push(`${code.readInt32LE(entry)}:${hex(entry + 6 + code.readInt16LE(entry + 4))}`);
+          }
+          operands = cases.join(' ');
+          length += 1 + count * 6;
+          break;
+        }
+      }
+
+      yield { address: position, opcode, name, operands, length };
+      position += length;
+    }
+  }
+
+  private operandLength(kind: OperandKind, operand: number): number {
+    switch (kind) {
+      case 'none': return 0;
+      case 'u8': return 1;
+      case 'u8u8': case 'u16': case 's16': case 'jump': case 'leave': return 2;
+      case 'u8u8u8': case 'u24': case 'call': case 'native': return 3;
+      case 'u32': case 'f32': return 4;
+      case 'enter': return operand + 3 < this.code.length ? 4 + this.code[operand + 3] : 4;
+      case 'switch': return operand < this.code.length ? 1 + this.code[operand] * 6 : 1;
+    }
+  }
+
+  private static getPushedConstant(instruction: ScriptInstruction): number | null {
+    if (/^PUSH_CONST_[0-7]$/.test(instruction.name)) {
+      return instruction.opcode - 110;
+    }
+    if (['PUSH_CONST_U8', 'PUSH_CONST_S16', 'PUSH_CONST_U24', 'PUSH_CONST_U32'].includes(instruction.name)) {
+      return parseInt(instruction.operands, 10);
+    }
+    return null;
+  }
+
+  private static readPages(reader: ResourceReader, pagesPointer: number, length: number): { data: Buffer, pageSizes: number[] } {
+    const pageCount = Math.ceil(length / SCRIPT_PAGE_SIZE);
+    const pageSizes = Array.from({ length: pageCount }, (_, i) => Math.min(SCRIPT_PAGE_SIZE, length - i * SCRIPT_PAGE_SIZE));
+    const pages = reader.readPointerArray(pagesPointer, pageCount)
+      .map((pointer, i) => reader.readBytes(pointer, pageSizes[i]));
+
+    return { data: Buffer.concat(pages), pageSizes };
+  }
+}
+
+function rotateLeft(value: bigint, bits: number): bigint {
+  const mask = 0xFFFFFFFFFFFFFFFFn;
+  const shift = BigInt(bits);
+  return ((value << shift) | (value >> ((64n - shift) & 63n))) & mask;
+}
+
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(6, '0')}`;
+}
@@ -0,0 +1,113 @@
+import { ResourceReader } from './resource.js';
+import { TextureDecoder } from './texture.js';
+import { PngEncoder } from './png.js';
+
+export const YTD_RESOURCE_VERSION = 13;
+
+export interface YtdTexture {
+  hash: number;
+  name: string;
+  width: number;
+  height: number;
+  depth: number;
+  stride: number;
+  format: number;
+  formatName: string;
+  levels: number;
+  data: Buffer;
+}
+
+export class YtdFile {
+  textures: YtdTexture[] = [];
+
+  static read(reader: ResourceReader): YtdFile {
+    if (reader.version !== YTD_RESOURCE_VERSION) {
+      throw new Error(`Unsupported texture dictionary version: ${reader.version}`);
+    }
+
+    return this.readDictionary(reader, reader.rootAddress);
+  }
+
+  /**
+   * Reads a texture dictionary at any address, e.g. one embedded in a drawable's shader group.
+   */
+  static readDictionary(reader: ResourceReader, address: number): YtdFile {
+    const ytd = new YtdFile();
+    const textures = reader.readPgDictionary(address, (r, a) => this.readTexture(r, a));
+
+    for (const [hash, texture] of textures) {
+      texture.hash = hash;
+      ytd.textures.push(texture);
+    }
+
+    return ytd;
+  }
+
+  findTexture(name: string): YtdTexture | undefined {
+    const lowerName = name.toLowerCase();
+    return this.textures.find(t => t.name.toLowerCase() === lowerName);
+  }
+
+  static toDds(texture: YtdTexture): Buffer {
+    return TextureDecoder.toDds(texture.format, texture.data, texture.width, texture.height, texture.levels);
+  }
+
+  static toPng(texture: YtdTexture, mipLevel: number = 0): Buffer {
+    if (mipLevel >= texture.levels) {
+      throw new Error(`Texture ${texture.name} has no mip level ${mipLevel} (levels: ${texture.levels})`);
+    }
+
+    const layout = TextureDecoder.getMipLayout(texture.format, texture.width, texture.height, texture.levels);
+    const mip = layout[mipLevel];
+    const width = Math.max(1, texture.width >> mipLevel);
+    const height = Math.max(1, texture.height >> mipLevel);
+
+    const rgba = TextureDecoder.decode(
+      texture.format,
+      texture.data.subarray(mip.offset, mip.offset + mip.size),
+      width,
+      height
+    );
+    return PngEncoder.encode(width, height, rgba);
+  }
+
+  // grcTexture layout: name pointer at 0x28, dimensions and format at 0x50, data pointer at 0x70
+  private static readTexture(reader: ResourceReader, address: number): YtdTexture {
+    const width = reader.readUInt16(address + 0x50);
+    const height = reader.readUInt16(address + 0x52);
+    const format = reader.readUInt32(address + 0x58);
+    const levels = reader.readUInt8(address + 0x5D);
+    const dataPointer = reader.readPointer(address + 0x70);
+
+    const texture: YtdTexture = {
+      hash: 0,
+      name: reader.readStringPointer(address + 0x28) ?? '',
+      width,
+      height,
+      depth: reader.readUInt16(address + 0x54),
+      stride: reader.readUInt16(address + 0x56),
+      format,
+      formatName: TextureDecoder.getFormatName(format),
+      levels,
+      data: Buffer.alloc(0)
+    };
+
+    if (dataPointer && TextureDecoder.isSupported(format)) {
+      const layout = TextureDecoder.getMipLayout(format, width, height, levels);
+
+      // Some dictionaries omit the smallest mips, so only read the levels that are there
+      let size = 0;
+      let available = 0;
+      for (const mip of layout) {
+        if (!reader.isValidPointer(dataPointer, mip.offset + mip.size)) break;
+        size = mip.offset + mip.size;
+        available++;
+      }
+
+      texture.levels = available;
+      texture.data = size > 0 ? reader.readBytes(dataPointer, size) : Buffer.alloc(0);
+    }
+
+    return texture;
+  }
+}
@@ -0,0 +1,126 @@
+import { RpfManager } from './rpf-manager.js';
+import { ResourceReader } from './resource.js';
+import { MetaFile, MetaObject, MetaObjectReader, MetaValue, MetaValues, Vector3 } from './meta.js';
+import { HashDictionary } from './hash.js';
+
+export interface ArchetypeDefinition {
+  nameHash: number;
+  name: string;
+  /** CBaseArchetypeDef, CTimeArchetypeDef or CMloArchetypeDef */
+  type: string;
+  assetType: string;
+  assetName: string;
+  textureDictionary: string;
+  drawableDictionary: string;
+  clipDictionary: string;
+  physicsDictionary: string;
+  lodDist: number;
+  hdTextureDist: number;
+  flags: number;
+  specialAttribute: number;
+  bbMin: Vector3;
+  bbMax: Vector3;
+  bsCentre: Vector3;
+  bsRadius: number;
+}
+
+export class YtypFile {
+  nameHash = 0;
+  name = '';
+  archetypes: ArchetypeDefinition[] = [];
+
+  static read(reader: ResourceReader): YtypFile {
+    return this.fromMeta(MetaObjectReader.read(MetaFile.fromResource(reader)));
+  }
+
+  static fromMeta(root: MetaObject): YtypFile {
+    if (root._type !== 'CMapTypes') {
+      throw new Error(`Not an archetype definition file (root structure is ${root._type})`);
+    }
+
+    const ytyp = new YtypFile();
+    ytyp.nameHash = MetaValues.number(root.name);
+    ytyp.name = HashDictionary.format(ytyp.nameHash);
+
+    for (const archetype of MetaValues.objects(root.archetypes)) {
+      const nameHash = MetaValues.number(archetype.name);
+      ytyp.archetypes.push({
+        nameHash,
+        name: HashDictionary.format(nameHash),
+        type: archetype._type,
+        assetType: String(archetype.assetType ?? ''),
+        assetName: formatHash(archetype.assetName),
+        textureDictionary: formatHash(archetype.textureDictionary),
+        drawableDictionary: formatHash(archetype.drawableDictionary),
+        clipDictionary: formatHash(archetype.clipDictionary),
+        physicsDictionary: formatHash(archetype.physicsDictionary),
+        lodDist: MetaValues.number(archetype.lodDist),
+        hdTextureDist: MetaValues.number(archetype.hdTextureDist),
+        flags: MetaValues.number(archetype.flags),
+        specialAttribute: MetaValues.number(archetype.specialAttribute),
+        bbMin: MetaValues.vector3(archetype.bbMin),
+        bbMax: MetaValues.vector3(archetype.bbMax),
+        bsCentre: MetaValues.vector3(archetype.bsCentre),
+        bsRadius: MetaValues.number(archetype.bsRadius)
+      });
+    }
+
+    return ytyp;
+  }
+}
+
+function formatHash(value: MetaValue | undefined): string {
+  const hash = MetaValues.number(value);
+  return hash ? HashDictionary.format(hash) : '';
+}
+
+export interface ArchetypeLocation {
+  rpfPath: string;
+  filePath: string;
+  archetype: ArchetypeDefinition;
+}
+
+/**
+ * Archetype definitions of every .ytyp in the loaded archives, keyed by name hash.
+ * A name can be defined more than once when DLC packs override the base game.
+ */
+export class ArchetypeIndex {
+  private archetypes: Map<number, ArchetypeLocation[]> | null = null;
+
+  constructor(private rpfManager: RpfManager) {}
+
+  /**
+   * Drops the archetype map so the next lookup rescans the .ytyp files.
+   */
+  clear(): void {
+    this.archetypes = null;
+  }
+
+  find(nameHash: number): ArchetypeLocation[] {
+    return this.load().get(nameHash >>> 0) ?? [];
+  }
+
+  private load(): Map<number, ArchetypeLocation[]> {
+    if (this.archetypes) return this.archetypes;
+
+    const archetypes = new Map<number, ArchetypeLocation[]>();
+
+    for (const result of this.rpfManager.searchFiles('*.ytyp')) {
+      const reader = this.rpfManager.getResourceReader(result.rpfPath, result.entryPath);
+      if (!reader) continue;
+
+      try {
+        for (const archetype of YtypFile.read(reader).archetypes) {
+          const locations = archetypes.get(archetype.nameHash) ?? [];
+          locations.push({ rpfPath: result.rpfPath, filePath: result.entryPath, archetype });
+          archetypes.set(archetype.nameHash, locations);
+        }
+      } catch (error) {
+        console.error(`Failed to read archetypes ${result.entryPath} from ${result.rpfPath}: ${error}`);
+      }
+    }
+
+    this.archetypes = archetypes;
+    return archetypes;
+  }
+}
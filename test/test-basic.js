@@ -2,6 +2,69 @@
 
 import { RpfFile } from '../dist/rpf.js';
 import { RpfManager } from '../dist/rpf-manager.js';
+import { RpfIndexCache } from '../dist/index-cache.js';
+
+// Builds an RPF7 archive from { path, data } files, "/" separating directories. The TOC is
+// written unencrypted whatever the encryption in the header says
+function buildRpf(files, encryption = 0x4E45504F) {
+  const root = { name: "", dirs: new Map(), files: [] };
+  for (const file of files) {
+    const parts = file.path.split("/");
+    let dir = root;
+    for (const part of parts.slice(0, -1)) {
+      if (!dir.dirs.has(part)) dir.dirs.set(part, { name: part, dirs: new Map(), files: [] });
+      dir = dir.dirs.get(part);
+    }
+    dir.files.push({ name: parts[parts.length - 1], data: file.data });
+  }
+
+  // Breadth-first, so the children of each directory are contiguous
+  const entries = [root];
+  for (let i = 0; i < entries.length; i++) {
+    const dir = entries[i];
+    if (!dir.dirs) continue;
+    dir.first = entries.length;
+    entries.push(...dir.dirs.values(), ...dir.files);
+    dir.count = entries.length - dir.first;
+  }
+
+  let names = "\0";
+  const nameOffsets = entries.map(entry => {
+    if (!entry.name) return 0;
+    const offset = names.length;
+    names += `${entry.name}\0`;
+    return offset;
+  });
+
+  const header = Buffer.alloc(16 + entries.length * 16 + names.length);
+  header.writeUInt32LE(0x52504637, 0);                       // RPF7
+  header.writeUInt32LE(entries.length, 4);
+  header.writeUInt32LE(names.length, 8);
+  header.writeUInt32LE(encryption, 12);
+  header.write(names, 16 + entries.length * 16, "latin1");
+
+  let block = Math.ceil(header.length / 512);
+  const blocks = [];
+  entries.forEach((entry, i) => {
+    const at = 16 + i * 16;
+    if (entry.dirs) {
+      header.writeUInt32LE(nameOffsets[i], at);
+      header.writeUInt32LE(0x7FFFFF00, at + 4);
+      header.writeUInt32LE(entry.first, at + 8);
+      header.writeUInt32LE(entry.count, at + 12);
+    } else {
+      header.writeBigUInt64LE(BigInt(nameOffsets[i]) | (BigInt(entry.data.length) << 16n) | (BigInt(block) << 40n), at);
+      header.writeUInt32LE(entry.data.length, at + 8);
+      blocks.push({ block, data: entry.data });
+      block += Math.max(1, Math.ceil(entry.data.length / 512));
+    }
+  });
+
+  const archive = Buffer.alloc(block * 512);
+  header.copy(archive);
+  blocks.forEach(({ block, data }) => data.copy(archive, block * 512));
+  return archive;
+}
 
 async function testBasicFunctionality() {
   console.log("Testing GTA V Browser MCP Server basic functionality...\n");
@@ -38,6 +101,1529 @@ async function testBasicFunctionality() {
       throw new Error("Missing crypto functions");
     }
 
+    // Test 5: Verify RSC7 header rebuild from resource flags
+    console.log("Test 5: Checking RSC7 resource header...");
+    const { RpfResourceFileEntry, RSC7_MAGIC } = await import('../dist/rpf.js');
+    const resourceEntry = new RpfResourceFileEntry();
+    resourceEntry.systemFlags = 0x58000001;   // version 5, one 0x400 page
+    resourceEntry.graphicsFlags = 0xD8000008; // version 13, one 0x20000 page
+    const header = resourceEntry.getResourceHeader();
+    if (header.readUInt32LE(0) !== RSC7_MAGIC ||
+        header.readUInt32LE(4) !== 0x5D ||
+        resourceEntry.systemSize !== 0x400 ||
+        resourceEntry.graphicsSize !== 0x20000) {
+      throw new Error("Unexpected RSC7 header or segment sizes");
+    }
+    console.log("✓ RSC7 header and segment sizes are correct\n");
+
+    // Test 6: Resolve pointers and read a pgDictionary from synthetic segments
+    console.log("Test 6: Checking resource reader...");
+    const { ResourceReader } = await import('../dist/resource.js');
+    const systemData = Buffer.alloc(0x100);
+    const graphicsData = Buffer.alloc(0x10);
+    systemData.writeBigUInt64LE(0x50000080n, 0x20);  // hashes pointer
+    systemData.writeUInt16LE(2, 0x28);
+    systemData.writeBigUInt64LE(0x50000090n, 0x30);  // values pointer
+    systemData.writeUInt16LE(2, 0x38);
+    systemData.writeUInt32LE(0x1234, 0x80);
+    systemData.writeUInt32LE(0x5678, 0x84);
+    systemData.writeBigUInt64LE(0x500000A0n, 0x90);
+    systemData.writeBigUInt64LE(0x60000004n, 0x98);
+    systemData.write("first\0", 0xA0, "latin1");
+    graphicsData.write("second\0", 0x4, "latin1");
+    const reader = new ResourceReader({ version: 0, systemFlags: 0, graphicsFlags: 0, systemData, graphicsData });
+    const dictionary = reader.readPgDictionary(reader.rootAddress, (r, address) => r.readString(address));
+    if (dictionary.get(0x1234) !== "first" || dictionary.get(0x5678) !== "second") {
+      throw new Error("Unexpected pgDictionary contents");
+    }
+    if (reader.isValidPointer(0x70000000) || reader.isValidPointer(0x50000100)) {
+      throw new Error("Invalid pointers were accepted");
+    }
+    console.log("✓ Resource pointers resolved correctly\n");
+
+    // Test 7: Decode a DXT1 block, encode it as PNG and read a synthetic texture dictionary
+    console.log("Test 7: Checking texture decoding and texture dictionaries...");
+    const { TextureDecoder, TextureFormat } = await import('../dist/texture.js');
+    const { PngEncoder } = await import('../dist/png.js');
+    const dxt1Block = Buffer.alloc(8);
+    dxt1Block.writeUInt16LE(0xF800, 0); // pure red
+    dxt1Block.writeUInt16LE(0x001F, 2); // pure blue
+    dxt1Block.writeUInt32LE(0x55555555, 4); // every pixel uses color 1
+    const pixels = TextureDecoder.decode(TextureFormat.DXT1, dxt1Block, 4, 4);
+    if (pixels[0] !== 0 || pixels[2] !== 255 || pixels[3] !== 255) {
+      throw new Error("Unexpected DXT1 decode result");
+    }
+    const png = PngEncoder.encode(4, 4, pixels);
+    if (png.readUInt32BE(0) !== 0x89504E47 || png.toString('ascii', 12, 16) !== 'IHDR') {
+      throw new Error("Invalid PNG output");
+    }
+
+    // Texture dictionary: a DXT1 texture with two mips and an A8R8G8B8 texture whose last mip is missing
+    const { YtdFile } = await import('../dist/ytd.js');
+    const { JenkHash: YtdHash } = await import('../dist/hash.js');
+    const ytdSystem = Buffer.alloc(0x200);
+    const ytdGraphics = Buffer.alloc(0x90);
+    ytdSystem.writeBigUInt64LE(0x50000040n, 0x20);  // hashes pointer
+    ytdSystem.writeUInt16LE(2, 0x28);
+    ytdSystem.writeBigUInt64LE(0x50000050n, 0x30);  // textures pointer
+    ytdSystem.writeUInt16LE(2, 0x38);
+    ytdSystem.writeUInt32LE(YtdHash.joaat("ytd_test_dxt"), 0x40);
+    ytdSystem.writeUInt32LE(YtdHash.joaat("ytd_test_argb"), 0x44);
+    ytdSystem.writeBigUInt64LE(0x50000100n, 0x50);
+    ytdSystem.writeBigUInt64LE(0x50000180n, 0x58);
+    ytdSystem.write("ytd_test_dxt\0", 0x80, "latin1");
+    ytdSystem.write("ytd_test_argb\0", 0x90, "latin1");
+    const writeTexture = (address, name, width, height, stride, format, levels, data) => {
+      ytdSystem.writeBigUInt64LE(name, address + 0x28);
+      ytdSystem.writeUInt16LE(width, address + 0x50);
+      ytdSystem.writeUInt16LE(height, address + 0x52);
+      ytdSystem.writeUInt16LE(1, address + 0x54);
+      ytdSystem.writeUInt16LE(stride, address + 0x56);
+      ytdSystem.writeUInt32LE(format, address + 0x58);
+      ytdSystem.writeUInt8(levels, address + 0x5D);
+      ytdSystem.writeBigUInt64LE(data, address + 0x70);
+    };
+    writeTexture(0x100, 0x50000080n, 8, 8, 16, TextureFormat.DXT1, 2, 0x60000000n);
+    writeTexture(0x180, 0x50000090n, 4, 4, 16, TextureFormat.A8R8G8B8, 3, 0x60000040n);
+    for (let block = 0; block < 5; block++) {
+      dxt1Block.copy(ytdGraphics, block * 8);
+    }
+    ytdGraphics.fill(0x80, 0x40);
+
+    const ytd = YtdFile.read(new ResourceReader({ version: 13, systemFlags: 0, graphicsFlags: 0, systemData: ytdSystem, graphicsData: ytdGraphics }));
+    const dxt = ytd.findTexture("YTD_TEST_DXT");
+    const argb = ytd.findTexture("ytd_test_argb");
+    if (ytd.textures.length !== 2 || dxt?.hash !== YtdHash.joaat("ytd_test_dxt") || dxt.width !== 8 || dxt.height !== 8 || dxt.formatName !== "DXT1" || dxt.levels !== 2 || dxt.data.length !== 40) {
+      throw new Error(`Unexpected DXT1 texture: ${JSON.stringify({ ...dxt, data: dxt?.data.length })}`);
+    }
+    if (argb?.formatName !== "A8R8G8B8" || argb.stride !== 16 || argb.levels !== 2 || argb.data.length !== 80) {
+      throw new Error(`Missing mips should be dropped: ${JSON.stringify({ ...argb, data: argb?.data.length })}`);
+    }
+
+    const dxtDds = YtdFile.toDds(dxt);
+    if (dxtDds.toString("ascii", 0, 4) !== "DDS " || dxtDds.readUInt32LE(4) !== 124 || dxtDds.readUInt32LE(12) !== 8 || dxtDds.readUInt32LE(16) !== 8 ||
+        dxtDds.readUInt32LE(20) !== 32 || dxtDds.readUInt32LE(28) !== 2 || dxtDds.toString("ascii", 84, 88) !== "DXT1" || dxtDds.length !== 128 + 40) {
+      throw new Error("Unexpected DDS header for a DXT1 texture");
+    }
+    const argbDds = YtdFile.toDds(argb);
+    if (argbDds.readUInt32LE(20) !== 16 || argbDds.readUInt32LE(88) !== 32 || argbDds.readUInt32LE(92) !== 0x00FF0000 || argbDds.length !== 128 + 80) {
+      throw new Error("Unexpected DDS header for an A8R8G8B8 texture");
+    }
+    const mipPng = YtdFile.toPng(dxt, 1);
+    if (mipPng.readUInt32BE(16) !== 4 || mipPng.readUInt32BE(20) !== 4) {
+      throw new Error("PNG of the second mip should be 4x4");
+    }
+    let missingMip = false;
+    try {
+      YtdFile.toPng(argb, 2);
+    } catch (error) {
+      missingMip = error.message.includes("no mip level 2");
+    }
+    if (!missingMip) {
+      throw new Error("Missing mip level was exported");
+    }
+    console.log("✓ Textures and texture dictionaries decoded correctly\n");
+
+    // Test 8: Convert RBF, PSO and resource meta files to XML
+    console.log("Test 8: Checking binary meta conversion...");
+    const { MetaFile } = await import('../dist/meta.js');
+    const rbf = Buffer.concat([
+      Buffer.from('RBF0'),
+      Buffer.from([0x00, 0x00, 4, 0]), Buffer.from('root'),
+      Buffer.from([0x01, 0x60, 4, 0]), Buffer.from('name'), Buffer.from([5, 0]), Buffer.from('hello'),
+      Buffer.from([0x02, 0x10, 3, 0]), Buffer.from('val'), Buffer.from([7, 0, 0, 0]),
+      Buffer.from([0xFF, 0xFF])
+    ]);
+    const xml = MetaFile.toXml(rbf);
+    if (!xml.includes('<name>hello</name>') || !xml.includes('<val value="7"/>') || !xml.includes('</root>')) {
+      throw new Error("Unexpected RBF XML output");
+    }
+
+    // PSO: big-endian PSIN data, PMAP block map and PSCH schema with a root structure and an atArray block
+    const { MetaXmlWriter } = await import('../dist/meta.js');
+    const { JenkHash: MetaHash, HashDictionary: MetaDictionary } = await import('../dist/hash.js');
+    MetaDictionary.addAll(["CTestMeta", "CTestChild", "count", "flag", "values", "level", "kind", "child", "prop_test", "KIND_A", "KIND_B"]);
+    const psoData = Buffer.alloc(16 + 0x30 + 12);
+    psoData.write("PSIN", 0, "latin1");
+    psoData.writeInt32BE(psoData.length, 4);
+    psoData.writeUInt32BE(MetaHash.joaat("prop_test"), 16);
+    psoData.writeInt32BE(-3, 20);
+    psoData.writeFloatBE(1.5, 24);
+    psoData.writeUInt8(1, 28);
+    [1, 2, 3].forEach((value, i) => psoData.writeFloatBE(value, 32 + i * 4));
+    psoData.writeUInt32BE(2, 48);                 // values -> block 2, offset 0
+    psoData.writeUInt16BE(3, 56);
+    [10, 20, 30].forEach((value, i) => psoData.writeUInt32BE(value, 64 + i * 4));
+    const psoMap = Buffer.alloc(16 + 2 * 16);
+    psoMap.write("PMAP", 0, "latin1");
+    psoMap.writeInt32BE(psoMap.length, 4);
+    psoMap.writeInt32BE(1, 8);
+    psoMap.writeUInt16BE(2, 12);
+    [[MetaHash.joaat("CTestMeta"), 16, 0x30], [6, 64, 12]].forEach(([nameHash, offset, length], i) => {
+      psoMap.writeUInt32BE(nameHash, 16 + i * 16);
+      psoMap.writeInt32BE(offset, 20 + i * 16);
+      psoMap.writeInt32BE(length, 28 + i * 16);
+    });
+    const psoEntries = [["name", 0x0B, 7, 0], ["scale", 0x07, 0, 8], ["count", 0x05, 0, 4], ["flag", 0x00, 0, 12], ["position", 0x09, 0, 16], ["values", 0x0D, 0, 32, 6], [0x100, 0x06, 0, 0]];
+    const psoSchema = Buffer.alloc(20 + 12 + psoEntries.length * 12);
+    psoSchema.write("PSCH", 0, "latin1");
+    psoSchema.writeInt32BE(psoSchema.length, 4);
+    psoSchema.writeUInt32BE(1, 8);
+    psoSchema.writeUInt32BE(MetaHash.joaat("CTestMeta"), 12);
+    psoSchema.writeInt32BE(20, 16);
+    psoSchema.writeUInt32BE(psoEntries.length, 20);
+    psoSchema.writeInt32BE(0x30, 24);
+    psoEntries.forEach(([name, type, subtype, offset, referenceKey = 0], i) => {
+      const at = 32 + i * 12;
+      psoSchema.writeUInt32BE(typeof name === "number" ? name : MetaHash.joaat(name), at);
+      psoSchema.writeUInt8(type, at + 4);
+      psoSchema.writeUInt8(subtype, at + 5);
+      psoSchema.writeUInt16BE(offset, at + 6);
+      psoSchema.writeUInt32BE(referenceKey, at + 8);
+    });
+    const psoXml = MetaFile.toXml(Buffer.concat([psoData, psoMap, psoSchema])).split("\n");
+    const psoExpected = [
+      '<?xml version="1.0" encoding="UTF-8"?>', '<CTestMeta>', ' <name>prop_test</name>', ' <scale value="1.5"/>', ' <count value="-3"/>',
+      ' <flag value="true"/>', ' <position x="1.0" y="2.0" z="3.0"/>', ' <values content="int_array">', '  10', '  20', '  30', ' </values>', '</CTestMeta>'
+    ];
+    if (psoXml.join("\n") !== psoExpected.join("\n")) {
+      throw new Error(`Unexpected PSO XML output:\n${psoXml.join("\n")}`);
+    }
+
+    // Resource meta: structure, enum and data block tables in the system segment, with a pointer to a second block
+    const metaSystem = Buffer.alloc(0x200);
+    metaSystem.writeInt32LE(1, 0x1C);
+    metaSystem.writeBigUInt64LE(0x50000080n, 0x20);  // structure infos
+    metaSystem.writeBigUInt64LE(0x50000120n, 0x28);  // enum infos
+    metaSystem.writeBigUInt64LE(0x50000150n, 0x30);  // data blocks
+    metaSystem.writeUInt16LE(2, 0x48);
+    metaSystem.writeUInt16LE(1, 0x4A);
+    metaSystem.writeUInt16LE(2, 0x4C);
+    const writeStructureInfo = (at, name, entries, size, entryCount) => {
+      metaSystem.writeUInt32LE(MetaHash.joaat(name), at);
+      metaSystem.writeBigUInt64LE(entries, at + 0x10);
+      metaSystem.writeInt32LE(size, at + 0x18);
+      metaSystem.writeUInt16LE(entryCount, at + 0x1E);
+    };
+    const writeMetaEntry = (at, name, offset, type, referenceKey = 0) => {
+      metaSystem.writeUInt32LE(MetaHash.joaat(name), at);
+      metaSystem.writeInt32LE(offset, at + 4);
+      metaSystem.writeUInt8(type, at + 8);
+      metaSystem.writeUInt32LE(referenceKey, at + 0xC);
+    };
+    writeStructureInfo(0x80, "CTestMeta", 0x500000C0n, 0x30, 5);
+    writeStructureInfo(0xA0, "CTestChild", 0x50000110n, 4, 1);
+    writeMetaEntry(0xC0, "name", 0, 0x4A);
+    writeMetaEntry(0xD0, "level", 4, 0x14);
+    writeMetaEntry(0xE0, "kind", 8, 0x62, MetaHash.joaat("eTestKind"));
+    writeMetaEntry(0xF0, "position", 0x10, 0x33);
+    writeMetaEntry(0x100, "child", 0x20, 0x07);
+    writeMetaEntry(0x110, "Value", 0, 0x15);
+    metaSystem.writeUInt32LE(MetaHash.joaat("eTestKind"), 0x120);
+    metaSystem.writeBigUInt64LE(0x50000140n, 0x128);
+    metaSystem.writeInt32LE(2, 0x130);
+    ["KIND_A", "KIND_B"].forEach((name, value) => {
+      metaSystem.writeUInt32LE(MetaHash.joaat(name), 0x140 + value * 8);
+      metaSystem.writeInt32LE(value, 0x144 + value * 8);
+    });
+    [["CTestMeta", 0x30, 0x50000180n], ["CTestChild", 4, 0x500001B0n]].forEach(([name, length, pointer], i) => {
+      metaSystem.writeUInt32LE(MetaHash.joaat(name), 0x150 + i * 0x10);
+      metaSystem.writeInt32LE(length, 0x154 + i * 0x10);
+      metaSystem.writeBigUInt64LE(pointer, 0x158 + i * 0x10);
+    });
+    metaSystem.writeUInt32LE(MetaHash.joaat("prop_test"), 0x180);
+    metaSystem.writeInt32LE(7, 0x184);
+    metaSystem.writeUInt32LE(1, 0x188);
+    [1, -2.5, 3].forEach((value, i) => metaSystem.writeFloatLE(value, 0x190 + i * 4));
+    metaSystem.writeUInt32LE(2, 0x1A0);                // child -> block 2, offset 0
+    metaSystem.writeUInt32LE(99, 0x1B0);
+    const metaDocument = MetaFile.fromResource(new ResourceReader({ version: 2, systemFlags: 0, graphicsFlags: 0, systemData: metaSystem, graphicsData: Buffer.alloc(0) }));
+    const resourceXml = MetaXmlWriter.write(metaDocument).split("\n");
+    const resourceExpected = [
+      '<?xml version="1.0" encoding="UTF-8"?>', '<CTestMeta>', ' <name>prop_test</name>', ' <level value="7"/>', ' <kind>KIND_B</kind>',
+      ' <position x="1.0" y="-2.5" z="3.0"/>', ' <child type="CTestChild">', '  <Value value="99"/>', ' </child>', '</CTestMeta>'
+    ];
+    if (metaDocument.structures.size !== 2 || resourceXml.join("\n") !== resourceExpected.join("\n")) {
+      throw new Error(`Unexpected resource meta XML output:\n${resourceXml.join("\n")}`);
+    }
+    console.log("✓ RBF, PSO and resource meta converted to XML correctly\n");
+
+    // Test 9: Verify JOAAT hashing against known game hashes
+    console.log("Test 9: Checking JOAAT hashes...");
+    const { JenkHash } = await import('../dist/hash.js');
+    if (JenkHash.joaat("adder") !== 0xB779A091 || JenkHash.joaat("ADDER") !== 0xB779A091) {
+      throw new Error("Unexpected JOAAT hash");
+    }
+    if (JenkHash.parse("hash_B779A091") !== 0xB779A091 || JenkHash.parse("-1216765807") !== 0xB779A091) {
+      throw new Error("Unexpected hash parsing result");
+    }
+    console.log("✓ JOAAT hashes are correct\n");
+
+    // Test 10: Decode GXT2 text tables and look labels up across a language's archives
+    console.log("Test 10: Checking GXT2 text tables and label lookup...");
+    const fs = await import('fs');
+    const os = await import('os');
+    const path = await import('path');
+    const { Gxt2File, TextLabelIndex } = await import('../dist/gxt2.js');
+    // Header, hash/offset table sorted by hash, end marker with the data length, then the strings
+    const buildGxt2 = labels => {
+      const sorted = Object.entries(labels).map(([name, text]) => [JenkHash.joaat(name), text]).sort((a, b) => a[0] - b[0]);
+      const strings = sorted.map(([, text]) => Buffer.from(`${text}\0`, "utf8"));
+      const header = Buffer.alloc(8 + sorted.length * 8 + 8);
+      header.writeUInt32LE(0x47585432, 0);
+      header.writeUInt32LE(sorted.length, 4);
+      let offset = header.length;
+      sorted.forEach(([hash], index) => {
+        header.writeUInt32LE(hash, 8 + index * 8);
+        header.writeUInt32LE(offset, 12 + index * 8);
+        offset += strings[index].length;
+      });
+      header.writeUInt32LE(0x47585432, 8 + sorted.length * 8);
+      header.writeUInt32LE(offset, 12 + sorted.length * 8);
+      return Buffer.concat([header, ...strings]);
+    };
+
+    const baseTable = buildGxt2({ GXT2_TEST_CAR: "Adder", GXT2_TEST_GREETING: "Welcome to Los Santos", GXT2_TEST_ACCENT: "Café" });
+    const textTable = Gxt2File.read(baseTable);
+    if (textTable.entries.size !== 3 || textTable.entries.get(JenkHash.joaat("GXT2_TEST_ACCENT")) !== "Café" || textTable.entries.get(JenkHash.joaat("GXT2_TEST_CAR")) !== "Adder") {
+      throw new Error(`GXT2 table decoded ${JSON.stringify(Array.from(textTable.entries))}`);
+    }
+    let notGxt2 = false;
+    try {
+      Gxt2File.read(Buffer.from("not a text table"));
+    } catch (error) {
+      notGxt2 = error.message.includes("Not a GXT2 file");
+    }
+    if (!notGxt2) {
+      throw new Error("Data without the GXT2 magic was accepted");
+    }
+
+    const textRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-text-'));
+    try {
+      fs.mkdirSync(path.join(textRoot, "x64", "data", "lang"), { recursive: true });
+      fs.mkdirSync(path.join(textRoot, "update", "x64", "data", "lang"), { recursive: true });
+      fs.writeFileSync(path.join(textRoot, "x64", "data", "lang", "americandlc.rpf"), buildRpf([{ path: "american/global.gxt2", data: baseTable }]));
+      fs.writeFileSync(path.join(textRoot, "update", "x64", "data", "lang", "american_rel.rpf"), buildRpf([{ path: "global.gxt2", data: buildGxt2({ GXT2_TEST_CAR: "Adder (updated)" }) }]));
+      fs.writeFileSync(path.join(textRoot, "x64", "data", "lang", "french.rpf"), buildRpf([{ path: "global.gxt2", data: buildGxt2({ GXT2_TEST_CAR: "Voiture" }) }]));
+
+      const textManager = new RpfManager(new RpfIndexCache(path.join(textRoot, "index.json")));
+      await textManager.init(textRoot);
+      const labels = new TextLabelIndex(textManager);
+
+      // Update archives are listed before the base game
+      const byName = labels.getLabel("american", "GXT2_TEST_CAR");
+      if (byName.map(label => label.text).join("|") !== "Adder (updated)|Adder" || byName[0].rpfPath !== "update/x64/data/lang/american_rel.rpf" || byName[1].filePath !== "american\\global.gxt2") {
+        throw new Error(`Label lookup by name returned ${JSON.stringify(byName)}`);
+      }
+      const hashName = `hash_${JenkHash.joaat("GXT2_TEST_GREETING").toString(16).toUpperCase().padStart(8, "0")}`;
+      if (labels.getLabel("AMERICAN", hashName)[0]?.text !== "Welcome to Los Santos" || labels.getLabel("french", "GXT2_TEST_CAR")[0]?.text !== "Voiture") {
+        throw new Error("Label lookup by hash or in another language failed");
+      }
+      if (labels.getLabel("american", "GXT2_TEST_MISSING").length !== 0) {
+        throw new Error("Missing label returned results");
+      }
+      const found = labels.search("american", "adder");
+      if (found.total !== 2 || labels.search("american", "^welcome.*santos$", true).results[0]?.hash !== JenkHash.joaat("GXT2_TEST_GREETING")) {
+        throw new Error(`Label search returned ${JSON.stringify(found)}`);
+      }
+      let unknownLanguage = false;
+      try {
+        labels.getLabel("klingon", "GXT2_TEST_CAR");
+      } catch (error) {
+        unknownLanguage = error.message.includes("Unknown language");
+      }
+      if (!unknownLanguage) {
+        throw new Error("Unknown language was accepted");
+      }
+
+      // read_file shows labels by name once they have been looked up, others by hash
+      const text = Gxt2File.read(textManager.getFileContent("x64/data/lang/americandlc.rpf", "american/global.gxt2")).toText().split("\n").sort();
+      const expected = ["GXT2_TEST_CAR = Adder", `${hashName} = Welcome to Los Santos`, `hash_${JenkHash.joaat("GXT2_TEST_ACCENT").toString(16).toUpperCase().padStart(8, "0")} = Café`].sort();
+      if (text.join("|") !== expected.join("|")) {
+        throw new Error(`Text table listed as:\n${text.join("\n")}`);
+      }
+    } finally {
+      fs.rmSync(textRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Text tables decoded and labels found by name and hash\n");
+
+    // Test 11: Decode map data entities from a meta document
+    console.log("Test 11: Checking ymap decoding...");
+    const { MetaObjectReader } = await import('../dist/meta.js');
+    const { YmapFile } = await import('../dist/ymap.js');
+    const mapData = Buffer.alloc(0x20);
+    mapData.writeUInt32LE(JenkHash.joaat("test_map"), 0);
+    mapData.writeUInt32LE((1 << 12) | 2, 8); // entities -> block 2, offset 1
+    mapData.writeUInt16LE(1, 16);
+    const pointers = Buffer.alloc(9);
+    pointers.writeUInt32LE(3, 1); // -> block 3, offset 0
+    const entityDef = Buffer.alloc(0x20);
+    entityDef.writeUInt32LE(JenkHash.joaat("adder"), 0);
+    entityDef.writeFloatLE(10, 0x10);
+    entityDef.writeFloatLE(-20, 0x14);
+    entityDef.writeFloatLE(30.5, 0x18);
+    const field = (name, offset, kind, size, extra = {}) => ({ nameHash: JenkHash.joaat(name), offset, kind, size, referenceKey: 0, ...extra });
+    const mapDocument = {
+      format: 'RSC', bigEndian: false, rootBlockIndex: 1, enums: new Map(),
+      blocks: [
+        { nameHash: JenkHash.joaat("CMapData"), data: mapData },
+        { nameHash: 7, data: pointers },
+        { nameHash: JenkHash.joaat("CEntityDef"), data: entityDef }
+      ],
+      structures: new Map([
+        [JenkHash.joaat("CMapData"), { nameHash: JenkHash.joaat("CMapData"), size: 0x20, entries: [
+          field("name", 0, 'hash', 4),
+          field("entities", 8, 'array', 16, { arrayLayout: 'atArray', element: field("Item", 0, 'structPointer', 8) })
+        ] }],
+        [JenkHash.joaat("CEntityDef"), { nameHash: JenkHash.joaat("CEntityDef"), size: 0x20, entries: [
+          field("archetypeName", 0, 'hash', 4),
+          field("position", 0x10, 'vec3', 16)
+        ] }]
+      ])
+    };
+    const ymap = YmapFile.fromMeta(MetaObjectReader.read(mapDocument));
+    const entity = ymap.entities[0];
+    if (ymap.entities.length !== 1 || entity.archetypeHash !== 0xB779A091 || entity.position.join() !== "10,-20,30.5") {
+      throw new Error("Unexpected ymap entities");
+    }
+    console.log("✓ ymap entities decoded correctly\n");
+
+    // Test 12: Read archetype definitions from a decoded ytyp
+    console.log("Test 12: Checking ytyp archetypes...");
+    const { YtypFile } = await import('../dist/ytyp.js');
+    const ytyp = YtypFile.fromMeta({
+      _type: 'CMapTypes',
+      name: JenkHash.joaat("test_types"),
+      archetypes: [{
+        _type: 'CBaseArchetypeDef',
+        name: JenkHash.joaat("adder"),
+        textureDictionary: JenkHash.joaat("adder"),
+        lodDist: 150,
+        bbMin: [-1, -2, 0],
+        bbMax: [1, 2, 1.5]
+      }]
+    });
+    const archetype = ytyp.archetypes[0];
+    if (archetype.nameHash !== 0xB779A091 || archetype.lodDist !== 150 || archetype.bbMax[1] !== 2 || archetype.drawableDictionary !== '') {
+      throw new Error("Unexpected ytyp archetypes");
+    }
+    console.log("✓ ytyp archetypes read correctly\n");
+
+    // Test 13: Decode a synthetic drawable and export it as OBJ and glTF
+    console.log("Test 13: Checking drawable decoding and model export...");
+    const { DrawableFile } = await import('../dist/drawable.js');
+    const { ModelExporter } = await import('../dist/model-export.js');
+    const ydrSystem = Buffer.alloc(0x800);
+    const ydrGraphics = Buffer.alloc(0x80);
+    const pointer = (offset, target) => ydrSystem.writeBigUInt64LE(BigInt(target), offset);
+    pointer(0x10, 0x50000100);                      // shader group
+    pointer(0x50, 0x50000200);                      // high LOD models
+    ydrSystem.writeFloatLE(50, 0x70);
+    pointer(0xA8, 0x50000700);
+    ydrSystem.write("test_prop.#dr\0", 0x700, "latin1");
+    pointer(0x110, 0x50000140);                     // shaders
+    ydrSystem.writeUInt16LE(1, 0x118);
+    pointer(0x140, 0x50000180);
+    pointer(0x180, 0x50000600);                     // shader parameters
+    ydrSystem.writeUInt32LE(JenkHash.joaat("default"), 0x188);
+    ydrSystem.writeUInt8(1, 0x190);
+    pointer(0x608, 0x50000680);                     // texture parameter
+    ydrSystem.writeUInt32LE(JenkHash.joaat("DiffuseSampler"), 0x610);
+    pointer(0x6A8, 0x50000720);
+    ydrSystem.write("test_diffuse\0", 0x720, "latin1");
+    pointer(0x200, 0x50000220);
+    ydrSystem.writeUInt16LE(1, 0x208);
+    pointer(0x220, 0x50000240);
+    pointer(0x248, 0x50000280);                     // model geometries
+    ydrSystem.writeUInt16LE(1, 0x250);
+    pointer(0x280, 0x50000300);
+    pointer(0x318, 0x50000400);                     // vertex buffer
+    pointer(0x338, 0x50000480);                     // index buffer
+    ydrSystem.writeUInt32LE(1, 0x35C);
+    ydrSystem.writeUInt16LE(3, 0x360);
+    ydrSystem.writeUInt16LE(20, 0x408);
+    pointer(0x410, 0x60000000);
+    ydrSystem.writeUInt32LE(3, 0x418);
+    pointer(0x430, 0x500004C0);
+    ydrSystem.writeUInt32LE(3, 0x488);
+    pointer(0x490, 0x60000040);
+    ydrSystem.writeUInt32LE(0x41, 0x4C0);             // position + texCoord0
+    ydrSystem.writeUInt16LE(20, 0x4C4);
+    ydrSystem.writeBigUInt64LE(6n | (5n << 24n), 0x4C8); // float3, float2
+    [[0, 0, 0, 0, 0], [1, 0, 0, 1, 0], [0, 1, 0, 0, 1]].forEach((vertex, i) => {
+      vertex.forEach((value, c) => ydrGraphics.writeFloatLE(value, i * 20 + c * 4));
+      ydrGraphics.writeUInt16LE(i, 0x40 + i * 2);
+    });
+    const ydr = DrawableFile.read(
+      new ResourceReader({ version: 165, systemFlags: 0, graphicsFlags: 0, systemData: ydrSystem, graphicsData: ydrGraphics }),
+      "props/test_prop.ydr"
+    );
+    const drawable = ydr.drawables[0];
+    if (drawable.name !== "test_prop" || drawable.lods[0].models[0].geometries[0].vertexCount !== 3 || drawable.shaders[0].parameters[0].texture !== "test_diffuse") {
+      throw new Error("Unexpected drawable contents");
+    }
+    const { obj, mtl } = ModelExporter.toObj(drawable, "high", "test_prop.mtl", "png");
+    if (!obj.includes("v 1 0 0") || !obj.includes("vt 0 0") || !obj.includes("f 1/1/1 2/2/2 3/3/3") || !mtl.includes("map_Kd test_diffuse.png")) {
+      throw new Error("Unexpected OBJ output");
+    }
+    const gltf = JSON.parse(ModelExporter.toGltf(drawable, "high", "png"));
+    if (gltf.accessors[0].count !== 3 || gltf.images[0].uri !== "test_diffuse.png") {
+      throw new Error("Unexpected glTF output");
+    }
+    console.log("✓ Drawable decoded and exported correctly\n");
+
+    // Test 14: Decode a composite collision bound and export it as OBJ
+    console.log("Test 14: Checking ybn bounds decoding...");
+    const { YbnFile } = await import('../dist/ybn.js');
+    const ybnSystem = Buffer.alloc(0x500);
+    ybnSystem.writeUInt8(10, 0x10);                                // composite
+    ybnSystem.writeBigUInt64LE(0x50000100n, 0x70);
+    ybnSystem.writeBigUInt64LE(0x50000140n, 0x78);
+    ybnSystem.writeUInt16LE(1, 0xA0);
+    ybnSystem.writeBigUInt64LE(0x50000200n, 0x100);
+    [0, 5, 10, 15].forEach(i => ybnSystem.writeFloatLE(1, 0x140 + i * 4));
+    ybnSystem.writeFloatLE(10, 0x140 + 12 * 4);                     // child translation
+    ybnSystem.writeUInt8(4, 0x210);                                // geometry
+    ybnSystem.writeBigUInt64LE(0x50000400n, 0x288);
+    [0, 1, 2].forEach(i => ybnSystem.writeFloatLE(1, 0x290 + i * 4)); // quantum
+    ybnSystem.writeBigUInt64LE(0x50000440n, 0x2B0);
+    ybnSystem.writeUInt32LE(3, 0x2D0);
+    ybnSystem.writeUInt32LE(1, 0x2D4);
+    ybnSystem.writeBigUInt64LE(0x50000480n, 0x2F0);
+    ybnSystem.writeBigUInt64LE(0x50000490n, 0x310);
+    ybnSystem.writeUInt8(1, 0x318);
+    ybnSystem.writeUInt16LE(1, 0x406);
+    ybnSystem.writeUInt16LE(2, 0x408);
+    ybnSystem.writeInt16LE(1, 0x446);
+    ybnSystem.writeInt16LE(1, 0x44E);
+    ybnSystem.writeUInt32LE(7, 0x480);                             // material type 7
+    const bounds = YbnFile.read(new ResourceReader({ version: 43, systemFlags: 0, graphicsFlags: 0, systemData: ybnSystem, graphicsData: Buffer.alloc(0) }));
+    const geometry = bounds.children[0].bound;
+    if (geometry.polygons.length !== 1 || geometry.polygons[0].material !== 7 || geometry.vertices[1].join() !== "1,0,0") {
+      throw new Error("Unexpected bounds contents");
+    }
+    const boundsObj = YbnFile.toObj(bounds, "test");
+    if (!boundsObj.includes("v 11 0 0") || !boundsObj.includes("usemtl material_7") || !boundsObj.includes("f 1 2 3")) {
+      throw new Error("Unexpected bounds OBJ output");
+    }
+    console.log("✓ ybn bounds decoded and exported correctly\n");
+
+    // Test 15: Decode a synthetic navmesh, query it and export it as OBJ
+    console.log("Test 15: Checking ynv navmesh decoding...");
+    const { YnvFile } = await import('../dist/ynv.js');
+    const ynvSystem = Buffer.alloc(0x500);
+    const ynvPointer = (offset, target) => ynvSystem.writeBigUInt64LE(BigInt(0x50000000 + target), offset);
+    const navList = (offset, header, items, count) => {
+      ynvPointer(offset, header);
+      ynvPointer(header + 0x10, header + 0x30);
+      ynvSystem.writeUInt32LE(1, header + 0x20);
+      ynvPointer(header + 0x30, items);
+      ynvSystem.writeUInt32LE(count, header + 0x38);
+    };
+    [10, 10, 10].forEach((v, i) => ynvSystem.writeFloatLE(v, 0x58 + i * 4));  // AABB size
+    navList(0x68, 0x180, 0x400, 3);                                          // vertices
+    navList(0x78, 0x1C0, 0x420, 3);                                          // indices
+    navList(0x80, 0x200, 0x440, 3);                                          // edges
+    navList(0x118, 0x240, 0x480, 1);                                         // polygons
+    ynvSystem.writeUInt32LE(1, 0x90);
+    ynvSystem.writeUInt32LE(6, 0x94);                                        // adjacent area
+    ynvPointer(0x120, 0x300);
+    ynvSystem.writeFloatLE(100, 0x300);                                      // sector min
+    ynvSystem.writeFloatLE(200, 0x304);
+    ynvPointer(0x128, 0x380);
+    ynvSystem.writeUInt32LE(5, 0x140);
+    ynvSystem.writeUInt32LE(1, 0x14C);
+    ynvSystem.writeUInt16LE(0xFFFF, 0x406);
+    ynvSystem.writeUInt16LE(0xFFFF, 0x40E);
+    [0, 1, 2].forEach(i => ynvSystem.writeUInt16LE(i, 0x420 + i * 2));
+    ynvSystem.writeUInt32LE(7 << 5, 0x440);                                  // neighbour polygon 7
+    ynvSystem.writeUInt32LE(0x1F | (0x3FFF << 5), 0x448);
+    ynvSystem.writeUInt32LE(0x1F | (0x3FFF << 5), 0x450);
+    ynvSystem.writeUInt16LE(0x4, 0x480);                                     // pavement
+    ynvSystem.writeUInt16LE(3 << 5, 0x482);
+    ynvSystem.writeUInt8(2, 0x380);                                          // special link
+    [0xFFFF, 0xFFFF, 0xFFFF].forEach((v, i) => ynvSystem.writeUInt16LE(v, 0x38A + i * 2));
+    const ynv = YnvFile.read(new ResourceReader({ version: 2, systemFlags: 0, graphicsFlags: 0, systemData: ynvSystem, graphicsData: Buffer.alloc(0) }));
+    const navPolygon = ynv.polygons[0];
+    if (ynv.areaId !== 5 || ynv.vertices[1].join() !== "110,200,0" || !navPolygon.isPavement || navPolygon.edges[0].areaId !== 6 || navPolygon.edges[1].areaId !== -1) {
+      throw new Error("Unexpected navmesh contents");
+    }
+    const navHits = ynv.findNear([102, 202, 3], 5);
+    if (navHits.length !== 1 || Math.abs(navHits[0].distance - 3) > 1e-6 || ynv.findNear([120, 220, 0], 5).length !== 0) {
+      throw new Error("Unexpected navmesh query results");
+    }
+    if (YnvFile.getCellName(0, 0) !== "navmesh[120][120]") {
+      throw new Error("Unexpected navmesh cell name");
+    }
+    const navObj = ynv.toObj("test");
+    if (!navObj.includes("v 110 200 0") || !navObj.includes("usemtl pavement") || !navObj.includes("f 1 2 3") || !navObj.includes("l 4 5")) {
+      throw new Error("Unexpected navmesh OBJ output");
+    }
+    console.log("✓ ynv navmesh decoded, queried and exported correctly\n");
+
+    // Test 16: List the streams of a synthetic audio container and decode them to WAV
+    console.log("Test 16: Checking awc audio decoding...");
+    const { AwcFile } = await import('../dist/awc.js');
+    const { HashDictionary } = await import('../dist/hash.js');
+    const awcData = Buffer.alloc(160);
+    awcData.writeUInt32LE(0x54414441, 0);                           // 'ADAT'
+    awcData.writeUInt16LE(1, 4);
+    awcData.writeUInt32LE(2, 8);
+    awcData.writeUInt32LE(((JenkHash.joaat("test_pcm") & 0x1FFFFFFF) | (2 << 29)) >>> 0, 16);
+    awcData.writeUInt32LE(((JenkHash.joaat("test_adpcm") & 0x1FFFFFFF) | (2 << 29)) >>> 0, 20);
+    const awcChunk = (index, type, size, offset) =>
+      awcData.writeBigUInt64LE((BigInt(type) << 56n) | (BigInt(size) << 28n) | BigInt(offset), 24 + index * 8);
+    awcChunk(0, 0xFA, 20, 64);                                      // format
+    awcChunk(1, 0x55, 8, 96);                                       // data
+    awcChunk(2, 0xFA, 20, 112);
+    awcChunk(3, 0x55, 6, 144);
+    awcData.writeUInt32LE(4, 64);
+    awcData.writeUInt16LE(22050, 72);
+    [100, -100, 200, -200].forEach((v, i) => awcData.writeInt16LE(v, 96 + i * 2));
+    awcData.writeUInt32LE(4, 112);
+    awcData.writeUInt16LE(32000, 120);
+    awcData.writeUInt8(4, 131);                                     // ADPCM
+    awcData.writeUInt8(0x07, 148);
+    HashDictionary.add("test_pcm");
+    const awc = AwcFile.read(awcData);
+    if (awc.streams.length !== 2 || awc.streams[0].name !== "test_pcm" || awc.streams[0].codecName !== "PCM" || awc.streams[1].codecName !== "ADPCM") {
+      throw new Error("Unexpected awc streams");
+    }
+    const pcmWav = awc.toWav(awc.streams[0]);
+    if (pcmWav.toString("latin1", 0, 4) !== "RIFF" || pcmWav.readUInt32LE(24) !== 22050 || pcmWav.readInt16LE(46) !== -100) {
+      throw new Error("Unexpected PCM WAV output");
+    }
+    const adpcmWav = awc.toWav(awc.findStream(AwcFile.parseStreamId("test_adpcm")));
+    if (adpcmWav.readUInt32LE(40) !== 8 || [0, 1, 2, 3].map(i => adpcmWav.readInt16LE(44 + i * 2)).join() !== "13,15,16,17") {
+      throw new Error("Unexpected ADPCM WAV output");
+    }
+    // A corrupt sample count is limited to what the data chunk holds
+    const corruptAwc = Buffer.from(awcData);
+    corruptAwc.writeUInt32LE(0xFFFFFFFF, 112);
+    const corrupt = AwcFile.read(corruptAwc);
+    if (corrupt.toWav(corrupt.streams[1]).readUInt32LE(40) !== 8) {
+      throw new Error("ADPCM sample count was not limited to the data");
+    }
+    console.log("✓ awc streams listed and decoded correctly\n");
+
+    // Test 17: Decode a synthetic clip dictionary and export a clip as JSON
+    console.log("Test 17: Checking ycd clip dictionary decoding...");
+    const { YcdFile } = await import('../dist/ycd.js');
+    const ycdSystem = Buffer.alloc(0x500);
+    const ycdPointer = (offset, target) => ycdSystem.writeBigUInt64LE(BigInt(0x50000000 + target), offset);
+    ycdPointer(0x18, 0x100);                                   // animation map
+    ycdPointer(0x118, 0x140);
+    ycdSystem.writeUInt16LE(1, 0x120);
+    ycdPointer(0x140, 0x148);
+    ycdSystem.writeUInt32LE(JenkHash.joaat("walk_anim"), 0x148);
+    ycdPointer(0x150, 0x200);
+    ycdSystem.writeUInt16LE(31, 0x214);                        // frames
+    ycdSystem.writeFloatLE(1, 0x218);                          // duration
+    ycdPointer(0x240, 0x300);                                  // sequences
+    ycdSystem.writeUInt16LE(1, 0x248);
+    ycdPointer(0x250, 0x2E0);                                  // bone ids
+    ycdSystem.writeUInt16LE(2, 0x258);
+    ycdSystem.writeUInt8(1, 0x2E3);
+    ycdSystem.writeUInt16LE(11816, 0x2E4);
+    ycdPointer(0x300, 0x320);
+    ycdSystem.writeUInt32LE(4, 0x324);
+    ycdSystem.writeUInt16LE(31, 0x336);
+    ycdSystem.write("abcd", 0x340, "latin1");
+    ycdPointer(0x28, 0x1C0);                                   // clip map
+    ycdSystem.writeUInt16LE(1, 0x30);
+    ycdPointer(0x1C0, 0x1D0);
+    ycdSystem.writeUInt32LE(JenkHash.joaat("walk"), 0x1D0);
+    ycdPointer(0x1D8, 0x380);
+    ycdSystem.writeUInt8(1, 0x390);                            // single animation clip
+    ycdPointer(0x398, 0x400);
+    ycdSystem.write("pack:/walk.clip\0", 0x400, "latin1");
+    ycdPointer(0x3D0, 0x200);
+    ycdSystem.writeFloatLE(0.5, 0x3D8);
+    ycdSystem.writeFloatLE(1, 0x3DC);
+    ycdSystem.writeFloatLE(1, 0x3E0);
+    const ycd = YcdFile.read(new ResourceReader({ version: 46, systemFlags: 0, graphicsFlags: 0, systemData: ycdSystem, graphicsData: Buffer.alloc(0) }));
+    const clip = ycd.findClip("walk");
+    const clipAnimation = clip?.animations[0].animation;
+    if (!clip || clip.duration !== 0.5 || clipAnimation.frames !== 31 || clipAnimation.hash !== JenkHash.joaat("walk_anim") ||
+        clipAnimation.tracks[1].boneId !== 11816 || clipAnimation.tracks[1].trackName !== "bonePosition") {
+      throw new Error("Unexpected clip dictionary contents");
+    }
+    const clipJson = YcdFile.toJson(clip);
+    const keyframes = clipJson.animations[0].keyframes;
+    if (keyframes.length !== 16 || keyframes[0].frame !== 15 || keyframes[0].clipTime !== 0 || clipJson.animations[0].sequences[0].data !== "YWJjZA==") {
+      throw new Error("Unexpected clip JSON output");
+    }
+    console.log("✓ ycd clips decoded and exported correctly\n");
+
+    // Test 18: Read a synthetic compiled script and disassemble it with a native database
+    console.log("Test 18: Checking ysc script decoding and disassembly...");
+    const { YscFile, NativeDatabase } = await import('../dist/ysc.js');
+    const yscSystem = Buffer.alloc(0x300);
+    const yscPointer = (offset, target) => yscSystem.writeBigUInt64LE(BigInt(0x50000000 + target), offset);
+    const yscCode = [
+      45, 0, 2, 0, 0,                                          // ENTER
+      110, 99,                                                 // PUSH_CONST_0, STRING
+      44, 4, 0, 0,                                             // NATIVE 0, 1 arg
+      93, 18, 0, 0,                                            // CALL 0x12
+      46, 0, 0,                                                // LEAVE
+      45, 0, 2, 0, 0,
+      46, 0, 0
+    ];
+    Buffer.from(yscCode).copy(yscSystem, 0x200);
+    yscPointer(0x10, 0x100);
+    yscPointer(0x100, 0x200);
+    yscSystem.writeUInt32LE(yscCode.length, 0x1C);
+    yscSystem.writeUInt32LE(3, 0x24);                          // statics
+    yscSystem.writeUInt32LE(1, 0x2C);                          // natives
+    const nativeHash = 0x1234567890ABCDEFn;
+    const rotation = BigInt(yscCode.length);
+    yscSystem.writeBigUInt64LE(((nativeHash >> rotation) | (nativeHash << (64n - rotation))) & 0xFFFFFFFFFFFFFFFFn, 0x180);
+    yscPointer(0x40, 0x180);
+    yscPointer(0x60, 0x1A0);
+    yscSystem.write("test_script\0", 0x1A0, "latin1");
+    yscPointer(0x68, 0x110);
+    yscPointer(0x110, 0x280);
+    yscSystem.write("hello\0", 0x280, "latin1");
+    yscSystem.writeUInt32LE(6, 0x70);
+    const ysc = YscFile.read(new ResourceReader({ version: 10, systemFlags: 0, graphicsFlags: 0, systemData: yscSystem, graphicsData: Buffer.alloc(0) }));
+    if (ysc.name !== "test_script" || ysc.staticsCount !== 3 || ysc.natives[0] !== nativeHash || ysc.listStrings()[0].text !== "hello" || ysc.listFunctions().length !== 2) {
+      throw new Error("Unexpected script header contents");
+    }
+    const instructions = ysc.disassemble(0, 100, NativeDatabase.parse("0x1234567890ABCDEF PLAYER::PLAYER_ID"));
+    const byName = name => instructions.find(i => i.name === name);
+    if (instructions.length !== 8 || byName("STRING").comment !== '"hello"' || !byName("NATIVE").comment.startsWith("PLAYER::PLAYER_ID") || byName("CALL").comment !== "func_1") {
+      throw new Error("Unexpected script disassembly");
+    }
+    console.log("✓ ysc script decoded and disassembled correctly\n");
+
+    // Test 19: Search the contents of files in a synthetic archive
+    console.log("Test 19: Checking archive content search...");
+    const { ContentSearch } = await import('../dist/grep.js');
+    const grepRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-grep-'));
+    try {
+      const mapData = Buffer.alloc(16);
+      mapData.writeUInt32BE(JenkHash.joaat("prop_test_model"), 8);
+      fs.writeFileSync(path.join(grepRoot, "test.rpf"), buildRpf([
+        { path: "other.txt", data: Buffer.from("prop_test_model is not here in meta form") },
+        { path: "data/props.meta", data: Buffer.from("<Item>\n  <archetypeName>prop_test_model</archetypeName>\n</Item>") },
+        { path: "data/map.bin", data: mapData }
+      ]));
+
+      const grepManager = new RpfManager(new RpfIndexCache(path.join(grepRoot, "index.json")));
+      await grepManager.init(grepRoot);
+      const search = new ContentSearch(grepManager);
+      const collect = async (matches) => {
+        const results = [];
+        for await (const match of matches) results.push(match);
+        return results;
+      };
+      const options = { mode: "text", caseSensitive: false, maxMatchesPerFile: 5, contextBytes: 8, maxFileSize: 1 << 20 };
+      const textMatches = await collect(search.search({ ...options, pattern: "PROP_TEST_MODEL", extensions: ["meta"] }));
+      if (textMatches.length !== 1 || textMatches[0].filePath !== "data\\props.meta" || textMatches[0].offset !== 24 || !textMatches[0].snippet.includes("prop_test_model")) {
+        throw new Error("Unexpected text search results");
+      }
+      const scoped = await collect(search.search({ ...options, pattern: "prop_test_model", directory: "data", rpfGlob: "*.rpf" }));
+      const hashMatches = await collect(search.search({ ...options, mode: "hash", pattern: "prop_test_model" }));
+      if (scoped.length !== 1 || hashMatches.length !== 1 || hashMatches[0].filePath !== "data\\map.bin" || hashMatches[0].offset !== 8) {
+        throw new Error("Unexpected scoped or hash search results");
+      }
+      if ((await collect(search.search({ ...options, mode: "bytes", pattern: "3C 49 ?? 65 6D" }))).length !== 1) {
+        throw new Error("Unexpected byte search results");
+      }
+
+      // The byte budget stops the search where it ran out, naming the archive
+      const budget = { filesSearched: 0, filesSkipped: 0, bytesSearched: 0 };
+      const budgeted = await collect(search.search({ ...options, pattern: "prop_test_model", maxBytes: 1 }, budget));
+      if (budget.truncated !== "bytes" || budget.stoppedAt !== "test.rpf" || budget.filesSearched !== 1 || budgeted.length > 1) {
+        throw new Error(`Byte budget was not applied: ${JSON.stringify(budget)}`);
+      }
+
+      // Other work gets turns while a single archive with many files is searched
+      fs.writeFileSync(path.join(grepRoot, "many.rpf"), buildRpf(Array.from({ length: 300 }, (_, i) => ({ path: `files/${i}.txt`, data: Buffer.from(`match ${i}`) }))));
+      await grepManager.rebuildIndex(false);
+      let turns = 0;
+      let ticking = true;
+      const tick = () => { turns++; if (ticking) setImmediate(tick); };
+      let turnsAtFirstMatch = -1;
+      for await (const match of search.search({ ...options, pattern: "match", rpfGlob: "many.rpf" })) {
+        if (turnsAtFirstMatch < 0) {
+          turnsAtFirstMatch = turns;
+          setImmediate(tick);
+        }
+      }
+      ticking = false;
+      if (turns - turnsAtFirstMatch < 2) {
+        throw new Error("Searching one archive did not give the event loop a turn");
+      }
+
+      // Resources are measured by their inflated segments, not their stored size
+      const { RpfWriter: GrepRpfWriter } = await import('../dist/rpf-writer.js');
+      const grepResource = Buffer.alloc(64);
+      grepResource.writeUInt32LE(0x37435352, 0);
+      grepResource.writeUInt32LE(2, 4);
+      grepResource.writeUInt32LE(0x28000004, 8);
+      grepResource.writeUInt32LE(0x20000000, 12);
+      const resourceWriter = new GrepRpfWriter();
+      resourceWriter.addFile("big.ydr", grepResource);
+      resourceWriter.write(path.join(grepRoot, "resources.rpf"));
+      await grepManager.rebuildIndex(false);
+      const bigResource = grepManager.getRpfFile("resources.rpf").findEntry("big.ydr");
+      const resourceProgress = { filesSearched: 0, filesSkipped: 0, bytesSearched: 0 };
+      await collect(search.search({ ...options, pattern: "x", rpfGlob: "resources.rpf", maxFileSize: 1024 }, resourceProgress));
+      if (bigResource.systemSize + bigResource.graphicsSize <= 1024 || resourceProgress.filesSkipped !== 1 || resourceProgress.filesSearched !== 0) {
+        throw new Error(`Resource larger than maxFileSize once inflated was searched: ${JSON.stringify(resourceProgress)}`);
+      }
+    } finally {
+      fs.rmSync(grepRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Archive contents searched correctly\n");
+
+    // Test 20: Reuse cached archive tables of contents until an archive changes
+    console.log("Test 20: Checking the archive index cache...");
+    const cacheRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-cache-'));
+    try {
+      const rpfPath = path.join(cacheRoot, "test.rpf");
+      const cachePath = path.join(cacheRoot, "cache", "index.json");
+      fs.writeFileSync(rpfPath, buildRpf([{ path: "data/first.txt", data: Buffer.from("first") }]));
+
+      const firstManager = new RpfManager(new RpfIndexCache(cachePath));
+      await firstManager.init(cacheRoot);
+      await firstManager.warmUp();
+      if (!fs.existsSync(cachePath)) {
+        throw new Error("Index cache was not written");
+      }
+
+      const cachedManager = new RpfManager(new RpfIndexCache(cachePath));
+      await cachedManager.init(cacheRoot);
+      if (cachedManager.getFileContent("test.rpf", "data\\first.txt")?.toString() !== "first") {
+        throw new Error("Cached index did not resolve file contents");
+      }
+      const cachedStats = await cachedManager.rebuildIndex(false);
+      if (cachedStats.cached !== 1 || cachedStats.scanned !== 0) {
+        throw new Error(`Unchanged archive was rescanned: ${JSON.stringify(cachedStats)}`);
+      }
+
+      fs.writeFileSync(rpfPath, buildRpf([{ path: "data/second.txt", data: Buffer.from("second!") }]));
+      fs.utimesSync(rpfPath, new Date(), new Date(Date.now() + 60000));
+      const changedStats = await cachedManager.rebuildIndex(false);
+      if (changedStats.scanned !== 1 || cachedManager.getFileContent("test.rpf", "data\\second.txt")?.toString() !== "second!") {
+        throw new Error(`Changed archive was not rescanned: ${JSON.stringify(changedStats)}`);
+      }
+      if ((await cachedManager.rebuildIndex(true)).scanned !== 1) {
+        throw new Error("Full rebuild did not rescan the archive");
+      }
+    } finally {
+      fs.rmSync(cacheRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Index cache reused and invalidated correctly\n");
+
+    // Test 21: Register archives at startup and read them on first access or during warm-up
+    console.log("Test 21: Checking lazy archive loading...");
+    const lazyRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-lazy-'));
+    try {
+      fs.mkdirSync(path.join(lazyRoot, "update"));
+      fs.writeFileSync(path.join(lazyRoot, "first.rpf"), buildRpf([{ path: "a.txt", data: Buffer.from("a") }]));
+      fs.writeFileSync(path.join(lazyRoot, "update", "second.rpf"), buildRpf([{ path: "b.txt", data: Buffer.from("b") }]));
+
+      const lazyManager = new RpfManager(new RpfIndexCache(path.join(lazyRoot, "index.json")));
+      await lazyManager.init(lazyRoot);
+      const initial = lazyManager.getIndexStatus();
+      if (initial.archives !== 2 || initial.pending !== 2 || lazyManager.getRpfList().length !== 2) {
+        throw new Error(`Archives were loaded during init: ${JSON.stringify(initial)}`);
+      }
+      if (lazyManager.getFileContent("update/second.rpf", "b.txt")?.toString() !== "b" || lazyManager.getIndexStatus().pending !== 1) {
+        throw new Error("Archive was not loaded on first access");
+      }
+      const warmed = await lazyManager.warmUp();
+      if (warmed.scanned !== 2 || lazyManager.getIndexStatus().pending !== 0 || lazyManager.getRpfFile("missing.rpf")) {
+        throw new Error(`Unexpected warm-up result: ${JSON.stringify(warmed)}`);
+      }
+    } finally {
+      fs.rmSync(lazyRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Archives loaded lazily and warmed up\n");
+
+    // Test 22: Read archives nested several levels deep, at offsets relative to each parent
+    console.log("Test 22: Checking multi-level nested archives...");
+    const nestedRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-nested-'));
+    const decryptNG = GTACrypto.decryptNG;
+    try {
+      const inner = buildRpf([{ path: "data/deep.txt", data: Buffer.from("deep") }]);
+      // The NG TOC is stored in plain text; decryption is stubbed below to record the key arguments
+      const middle = buildRpf([
+        { path: "pad.bin", data: Buffer.alloc(1500, 1) },
+        { path: "x64/inner.rpf", data: inner }
+      ], RpfEncryption.NG);
+      const other = buildRpf([{ path: "other.txt", data: Buffer.from("other") }]);
+      fs.writeFileSync(path.join(nestedRoot, "outer.rpf"), buildRpf([
+        { path: "pad.bin", data: Buffer.alloc(3000, 2) },
+        { path: "x64/levels/middle.rpf", data: middle },
+        { path: "x64/other/middle.rpf", data: other }
+      ]));
+
+      const ngCalls = [];
+      GTACrypto.decryptNG = (data, name, size) => {
+        ngCalls.push(`${name}:${size}`);
+        return data;
+      };
+
+      const innerPath = "outer.rpf/x64/levels/middle.rpf/x64/inner.rpf";
+      for (const pass of ["scanned", "cached"]) {
+        const nestedManager = new RpfManager(new RpfIndexCache(path.join(nestedRoot, "index.json")));
+        await nestedManager.init(nestedRoot);
+        await nestedManager.warmUp();
+
+        const expected = ["outer.rpf", "outer.rpf/x64/levels/middle.rpf", innerPath, "outer.rpf/x64/other/middle.rpf"].sort();
+        if (JSON.stringify(nestedManager.getRpfList()) !== JSON.stringify(expected)) {
+          throw new Error(`Unexpected nested archive paths (${pass}): ${nestedManager.getRpfList().join(", ")}`);
+        }
+        if (nestedManager.getFileContent(innerPath, "data\\deep.txt")?.toString() !== "deep" ||
+            nestedManager.getFileContent("outer.rpf/x64/other/middle.rpf", "other.txt")?.toString() !== "other") {
+          throw new Error(`Nested archive contents read from the wrong offset (${pass})`);
+        }
+        const innerRpf = nestedManager.getRpfFile(innerPath);
+        if (innerRpf.startPos !== innerRpf.parent.startPos + innerRpf.parentEntry.fileOffset * 512 || innerRpf.parent.startPos === 0) {
+          throw new Error(`Nested archive offset is not absolute (${pass})`);
+        }
+      }
+      if (ngCalls.length !== 2 || ngCalls.some(call => call !== `middle.rpf:${middle.length}`)) {
+        throw new Error(`NG keys selected with the wrong name or size: ${ngCalls.join(", ")}`);
+      }
+    } finally {
+      GTACrypto.decryptNG = decryptNG;
+      fs.rmSync(nestedRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Nested archives addressed correctly\n");
+
+    // Test 23: Resolve files the way the game mounts them: update overrides, DLC devices and order
+    console.log("Test 23: Checking game path resolution...");
+    const { GameFileSystem } = await import('../dist/vfs.js');
+    const vfsRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-vfs-'));
+    try {
+      const text = value => Buffer.from(value);
+      const setup = (device, order) => text(`<?xml version="1.0"?>\n<SSetupData>\n  <deviceName>${device}</deviceName>\n  <datFile>content.xml</datFile>\n  <order value="${order}" />\n</SSetupData>`);
+      const content = rpfs => text(`<CDataFileMgr__ContentsOfDataFileXml><dataFiles>${rpfs.map(rpf => `<Item><filename>${rpf}</filename><fileType>RPF_FILE</fileType></Item>`).join("")}</dataFiles></CDataFileMgr__ContentsOfDataFileXml>`);
+      const props = buildRpf([{ path: "prop.ydr", data: text("props") }]);
+      const writePack = (name, files) => {
+        fs.mkdirSync(path.join(vfsRoot, "update", "x64", "dlcpacks", name), { recursive: true });
+        fs.writeFileSync(path.join(vfsRoot, "update", "x64", "dlcpacks", name, "dlc.rpf"), buildRpf(files));
+      };
+
+      fs.writeFileSync(path.join(vfsRoot, "common.rpf"), buildRpf([{ path: "data/handling.meta", data: text("base") }]));
+      writePack("packa", [
+        { path: "setup2.xml", data: setup("dlc_packA", 10) },
+        { path: "content.xml", data: content(["dlc_packA:/%PLATFORM%/props.rpf"]) },
+        { path: "common/data/handling.meta", data: text("packa") },
+        { path: "x64/props.rpf", data: props },
+        { path: "x64/unused.rpf", data: props }
+      ]);
+      writePack("packb", [{ path: "setup2.xml", data: setup("dlc_packB", 5) }, { path: "prop.ydr", data: text("packb") }]);
+      writePack("packc", [{ path: "setup2.xml", data: setup("dlc_packC", 20) }, { path: "prop.ydr", data: text("packc") }]);
+      fs.writeFileSync(path.join(vfsRoot, "update", "update.rpf"), buildRpf([
+        { path: "common/data/handling.meta", data: text("update") },
+        { path: "common/data/dlclist.xml", data: text("<SMandatoryPacksData><Paths><Item>dlcpacks:/packB/</Item><Item>dlcpacks:/packA/</Item></Paths></SMandatoryPacksData>") }
+      ]));
+
+      const vfsManager = new RpfManager(new RpfIndexCache(path.join(vfsRoot, "index.json")));
+      await vfsManager.init(vfsRoot);
+      const vfs = new GameFileSystem(vfsManager);
+
+      const handling = vfs.resolve("common:/data/handling.meta");
+      if (handling.winner?.rpfPath !== "update/update.rpf" || handling.shadowed.length !== 1 || handling.shadowed[0].rpfPath !== "common.rpf") {
+        throw new Error(`Update archive does not override the base game: ${JSON.stringify(handling)}`);
+      }
+      if (vfs.resolve("dlc_packa:/common/data/handling.meta").winner?.rpfPath !== "update/x64/dlcpacks/packa/dlc.rpf") {
+        throw new Error("DLC mount point was not resolved");
+      }
+
+      const prop = vfs.resolve("prop.ydr");
+      const packA = "update/x64/dlcpacks/packa/dlc.rpf";
+      if (prop.winner?.rpfPath !== `${packA}/x64/props.rpf` || prop.shadowed.map(candidate => candidate.dlc).join() !== "packb" ||
+          prop.inactive.map(candidate => candidate.rpfPath).sort().join() !== [`${packA}/x64/unused.rpf`, "update/x64/dlcpacks/packc/dlc.rpf"].join()) {
+        throw new Error(`Unexpected DLC order or mounting: ${JSON.stringify(prop)}`);
+      }
+      if (vfs.resolve("dlc_packA:/%PLATFORM%/props.rpf/prop.ydr").winner?.rpfPath !== `${packA}/x64/props.rpf`) {
+        throw new Error("Path into a nested DLC archive was not resolved");
+      }
+      let unknownDevice = false;
+      try {
+        vfs.resolve("dlc_missing:/prop.ydr");
+      } catch (error) {
+        unknownDevice = true;
+      }
+      if (!unknownDevice) {
+        throw new Error("Unknown mount point was accepted");
+      }
+
+      // Rewriting dlclist.xml mounts packC once the index is rebuilt and the packs are read again
+      const { RpfWriter: DlcListWriter } = await import('../dist/rpf-writer.js');
+      const updateWriter = DlcListWriter.fromRpf(vfsManager.getRpfFile("update/update.rpf"));
+      updateWriter.addFile("common/data/dlclist.xml", text("<SMandatoryPacksData><Paths><Item>dlcpacks:/packB/</Item><Item>dlcpacks:/packA/</Item><Item>dlcpacks:/packC/</Item></Paths></SMandatoryPacksData>"));
+      updateWriter.write(path.join(vfsRoot, "update", "update.rpf"));
+      await vfsManager.rebuildIndex(false);
+      vfs.clear();
+      if (vfs.resolve("prop.ydr").winner?.rpfPath !== "update/x64/dlcpacks/packc/dlc.rpf" || vfs.getDlcPacks().length !== 3) {
+        throw new Error("Rebuilt archive's DLC list was not picked up");
+      }
+    } finally {
+      fs.rmSync(vfsRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Game paths resolved through update and DLC mounts\n");
+
+    // Test 24: Find copies of a file across archives and report duplicated files
+    console.log("Test 24: Checking duplicate file analysis...");
+    const copiesRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-copies-'));
+    try {
+      fs.mkdirSync(path.join(copiesRoot, "update"));
+      fs.writeFileSync(path.join(copiesRoot, "common.rpf"), buildRpf([
+        { path: "data/handling.meta", data: Buffer.from("base") },
+        { path: "data/same.txt", data: Buffer.from("same") },
+        { path: "data/other.txt", data: Buffer.from("abcd") }
+      ]));
+      fs.writeFileSync(path.join(copiesRoot, "update", "update.rpf"), buildRpf([
+        { path: "common/data/handling.meta", data: Buffer.from("update") },
+        { path: "common/data/same.txt", data: Buffer.from("same") },
+        { path: "common/data/other.txt", data: Buffer.from("dcba") },
+        { path: "x64/same.txt", data: Buffer.from("same") }
+      ]));
+      // Every pack has its own content.xml; only the copy below common/ shadows the base game
+      for (const pack of ["packa", "packb"]) {
+        fs.mkdirSync(path.join(copiesRoot, "x64", "dlcpacks", pack), { recursive: true });
+        fs.writeFileSync(path.join(copiesRoot, "x64", "dlcpacks", pack, "dlc.rpf"), buildRpf([
+          { path: "content.xml", data: Buffer.from(`<CDataFileMgr__ContentsOfDataFileXml>${pack}</CDataFileMgr__ContentsOfDataFileXml>`) },
+          ...(pack === "packa" ? [{ path: "common/data/same.txt", data: Buffer.from("same") }] : [])
+        ]));
+      }
+
+      // Compressed copies report their inflated size, the size of what is hashed
+      const packedArchive = buildRpf([{ path: "packed.txt", data: (await import('zlib')).deflateSync(Buffer.from("packed contents")) }]);
+      packedArchive.writeUInt32LE(15, 40);
+      fs.writeFileSync(path.join(copiesRoot, "packed.rpf"), packedArchive);
+
+      const copiesManager = new RpfManager(new RpfIndexCache(path.join(copiesRoot, "index.json")));
+      await copiesManager.init(copiesRoot);
+
+      const copies = copiesManager.findFileCopies("data/handling.meta", true);
+      if (copies.length !== 2 || copies[0].hash === copies[1].hash || !copies.some(copy => copy.rpfPath === "update/update.rpf" && copy.size === 6)) {
+        throw new Error(`Unexpected copies: ${JSON.stringify(copies)}`);
+      }
+      if (copiesManager.findFileCopies("common/data/same.txt").some(copy => copy.rpfPath === "common.rpf")) {
+        throw new Error("Path lookup matched entries with a different path");
+      }
+
+      const duplicates = copiesManager.findDuplicates("*.txt", true);
+      const byPath = Object.fromEntries(duplicates.map(duplicate => [duplicate.path, duplicate]));
+      const same = byPath["common/data/same.txt"];
+      const other = byPath["common/data/other.txt"];
+      if (duplicates.length !== 2 || same?.copies.length !== 3 || same.hashesDiffer !== false || other?.sizesDiffer || !other?.hashesDiffer) {
+        throw new Error(`Unexpected duplicate report: ${JSON.stringify(duplicates)}`);
+      }
+      if (copiesManager.findDuplicates("content.xml").length !== 0) {
+        throw new Error("Files on separate DLC devices were reported as duplicates");
+      }
+      const packed = copiesManager.findFileCopies("packed.txt", true)[0];
+      if (packed?.size !== 15 || packed.hash !== (await import("crypto")).createHash("sha1").update("packed contents").digest("hex")) {
+        throw new Error(`Compressed copy reported as ${JSON.stringify(packed)}`);
+      }
+    } finally {
+      fs.rmSync(copiesRoot, { recursive: true, force: true });
+    }
+    console.log("✓ File copies and duplicates reported correctly\n");
+
+    // Test 25: Create archives and add, replace and remove entries
+    console.log("Test 25: Checking archive writing...");
+    const { RpfWriter } = await import('../dist/rpf-writer.js');
+    const writeRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-write-'));
+    try {
+      const readArchive = filePath => {
+        const rpf = new RpfFile(filePath, path.basename(filePath), 0);
+        rpf.scanStructure();
+        return rpf;
+      };
+      const read = (rpf, filePath) => rpf.findEntry(filePath)?.getFileData(rpf);
+
+      // Version 42 resource: the version is rebuilt from the top bits of both flag words
+      const resource = Buffer.concat([Buffer.alloc(16), Buffer.alloc(700, 7)]);
+      resource.writeUInt32LE(0x37435352, 0);
+      resource.writeUInt32LE(42, 4);
+      resource.writeUInt32LE(0x20000001, 8);
+      resource.writeUInt32LE(0xA0000000, 12);
+
+      const writer = new RpfWriter();
+      writer.addFile("zeta.txt", Buffer.from("zeta"));
+      writer.addFile("data/big.bin", Buffer.alloc(1300, 3));
+      writer.addFile("data/model.ydr", resource);
+      writer.addFile("alpha/readme.txt", Buffer.from("alpha"));
+      const measured = writer.measure();
+      const created = writer.write(path.join(writeRoot, "mod.rpf"));
+      if (created.files !== 4 || measured.size !== created.size || measured.entries !== created.entries || created.size % 512 !== 0 || created.size !== fs.statSync(path.join(writeRoot, "mod.rpf")).size) {
+        throw new Error(`Unexpected archive layout: ${JSON.stringify(created)}`);
+      }
+
+      const mod = readArchive(path.join(writeRoot, "mod.rpf"));
+      if (mod.root.directories.map(dir => dir.name).join() !== "alpha,data" || read(mod, "zeta.txt")?.toString() !== "zeta" ||
+          !read(mod, "data/big.bin")?.equals(Buffer.alloc(1300, 3))) {
+        throw new Error("Created archive does not read back");
+      }
+      const model = mod.findEntry("data/model.ydr");
+      if (!(model instanceof RpfResourceFileEntry) || model.version !== 42 || !model.getFileData(mod).equals(resource)) {
+        throw new Error("Resource was not stored as a resource");
+      }
+
+      const edit = RpfWriter.fromRpf(mod);
+      if (!edit.addFile("zeta.txt", Buffer.from("replaced")) || edit.remove("data") !== 2) {
+        throw new Error("Unexpected replace or remove result");
+      }
+      edit.write(path.join(writeRoot, "copy", "mod.rpf"));
+      const copy = readArchive(path.join(writeRoot, "copy", "mod.rpf"));
+      if (read(copy, "zeta.txt")?.toString() !== "replaced" || copy.findEntry("data") || read(copy, "alpha/readme.txt")?.toString() !== "alpha") {
+        throw new Error("Modified copy has the wrong contents");
+      }
+      if (read(readArchive(path.join(writeRoot, "mod.rpf")), "zeta.txt")?.toString() !== "zeta") {
+        throw new Error("Writing a copy changed the original archive");
+      }
+
+      // Rewriting an archive over itself copies entries before the file is replaced
+      const inPlace = RpfWriter.fromRpf(mod);
+      inPlace.remove("zeta.txt");
+      inPlace.write(path.join(writeRoot, "mod.rpf"));
+      const rewritten = readArchive(path.join(writeRoot, "mod.rpf"));
+      if (rewritten.findEntry("zeta.txt") || !read(rewritten, "data/model.ydr")?.equals(resource)) {
+        throw new Error("In-place rewrite has the wrong contents");
+      }
+
+      // Resources of 16 MB and more store 0xFFFFFF in the entry and their size in bytes 2, 5, 7 and 14 of the stored header
+      const large = Buffer.concat([resource.subarray(0, 16), Buffer.alloc((17 << 20) - 16, 9)]);
+      large.writeUInt32LE(0xDEADBEEF, large.length - 4);
+      const largeWriter = new RpfWriter();
+      largeWriter.addFile("large.ydr", large);
+      largeWriter.addFile("next.txt", Buffer.from("next"));
+      largeWriter.write(path.join(writeRoot, "large.rpf"));
+      const largeBytes = fs.readFileSync(path.join(writeRoot, "large.rpf"));
+      const largeAt = largeBytes.readUIntLE(16 + 16 + 5, 3) & 0x7FFFFF;
+      if (largeBytes.readUIntLE(16 + 16 + 2, 3) !== 0xFFFFFF || largeBytes[largeAt * 512 + 2] !== 0x01 || largeBytes[largeAt * 512 + 5] !== 0x10) {
+        throw new Error("Large resource size was not stored in its header");
+      }
+      const largeRpf = readArchive(path.join(writeRoot, "large.rpf"));
+      for (const rpf of [largeRpf, RpfFile.fromIndexData(largeRpf.filePath, JSON.parse(JSON.stringify(largeRpf.toIndexData())))]) {
+        const entry = rpf.findEntry("large.ydr");
+        if (entry.fileSize !== large.length || !entry.getFileData(rpf).subarray(16).equals(large.subarray(16)) ||
+            !entry.readRange(rpf, large.length - 4, 100).equals(large.subarray(large.length - 4)) || read(rpf, "next.txt")?.toString() !== "next") {
+          throw new Error(`Large resource size read as ${entry.fileSize} instead of ${large.length}`);
+        }
+      }
+
+      // AES tables of contents are encrypted on write and kept when the archive is modified
+      const aesWriter = new RpfWriter(RpfEncryption.AES);
+      aesWriter.addFile("common/data/handling.meta", Buffer.from("<CHandlingDataMgr />"));
+      aesWriter.addFile("data/model.ydr", resource);
+      aesWriter.write(path.join(writeRoot, "aes.rpf"));
+      const aesBytes = fs.readFileSync(path.join(writeRoot, "aes.rpf"));
+      if (aesBytes.readUInt32LE(12) !== RpfEncryption.AES || aesBytes.subarray(16, 32).equals(GTACrypto.decryptAES(aesBytes.subarray(16, 32)))) {
+        throw new Error("AES archive table of contents was not encrypted");
+      }
+      const aes = readArchive(path.join(writeRoot, "aes.rpf"));
+      if (aes.encryption !== RpfEncryption.AES || read(aes, "common/data/handling.meta")?.toString() !== "<CHandlingDataMgr />" || !read(aes, "data/model.ydr")?.equals(resource)) {
+        throw new Error("AES archive does not read back");
+      }
+      const aesEdit = RpfWriter.fromRpf(aes);
+      aesEdit.addFile("zeta.txt", Buffer.from("zeta"));
+      aesEdit.write(path.join(writeRoot, "copy", "aes.rpf"));
+      const aesCopy = readArchive(path.join(writeRoot, "copy", "aes.rpf"));
+      if (aesEdit.sourceEncryption !== undefined || aesCopy.encryption !== RpfEncryption.AES || read(aesCopy, "zeta.txt")?.toString() !== "zeta" ||
+          read(aesCopy, "common/data/handling.meta")?.toString() !== "<CHandlingDataMgr />") {
+        throw new Error("Modified AES archive does not read back");
+      }
+
+      // NG encryption cannot be written: new NG archives are refused and NG archives are rewritten as OPEN
+      for (const attempt of [() => new RpfWriter(RpfEncryption.NG), () => GTACrypto.encryptNG(Buffer.alloc(16), "ng.rpf", 512)]) {
+        try {
+          attempt();
+        } catch (error) {
+          if (error.message.includes("NG encryption")) continue;
+          throw error;
+        }
+        throw new Error("NG encryption was written");
+      }
+      // Entries 3 and 4 are an encrypted binary and a script resource; the stub "decrypts" them by reversing each 16-byte block
+      const reverseBlocks = data => {
+        const result = Buffer.from(data);
+        for (let i = 0; i + 16 <= result.length; i += 16) result.subarray(i, i + 16).reverse();
+        return result;
+      };
+      const secret = Buffer.from("secret data encrypted with the entry's NG key, longer than one block");
+      const script = Buffer.concat([Buffer.alloc(16), Buffer.from("script body, also encrypted per file by NG keys")]);
+      script.writeUInt32LE(0x37435352, 0);
+      script.writeUInt32LE(10, 4);
+      script.writeUInt32LE(0xA0000000, 12);
+      const ngBytes = buildRpf([
+        { path: "x64/readme.txt", data: Buffer.from("ng") },
+        { path: "x64/secret.bin", data: reverseBlocks(secret) },
+        { path: "x64/script.ysc", data: Buffer.concat([script.subarray(0, 16), reverseBlocks(script.subarray(16))]) }
+      ], RpfEncryption.NG);
+      ngBytes.writeUInt32LE(1, 16 + 3 * 16 + 12);
+      ngBytes[16 + 4 * 16 + 7] |= 0x80;
+      ngBytes.writeUInt32LE(0, 16 + 4 * 16 + 8);
+      ngBytes.writeUInt32LE(0xA0000000, 16 + 4 * 16 + 12);
+      fs.writeFileSync(path.join(writeRoot, "ng.rpf"), ngBytes);
+
+      const writeDecryptNG = GTACrypto.decryptNG;
+      const ngEdit = (() => {
+        try {
+          // The helper stores the table of contents in the clear
+          GTACrypto.decryptNG = (data, name) => name === "secret.bin" || name === "script.ysc" ? reverseBlocks(data) : data;
+          const ng = readArchive(path.join(writeRoot, "ng.rpf"));
+          if (!read(ng, "x64/secret.bin")?.equals(secret) || !read(ng, "x64/script.ysc")?.equals(script)) {
+            throw new Error("NG encrypted entries were not decrypted");
+          }
+          const edit = RpfWriter.fromRpf(ng);
+          edit.addFile("x64/added.txt", Buffer.from("added"));
+          edit.write(path.join(writeRoot, "copy", "ng.rpf"));
+          return edit;
+        } finally {
+          GTACrypto.decryptNG = writeDecryptNG;
+        }
+      })();
+      const ngCopy = readArchive(path.join(writeRoot, "copy", "ng.rpf"));
+      if (ngEdit.encryption !== RpfEncryption.OPEN || ngEdit.sourceEncryption !== RpfEncryption.NG || ngCopy.encryption !== RpfEncryption.OPEN ||
+          read(ngCopy, "x64/readme.txt")?.toString() !== "ng" || read(ngCopy, "x64/added.txt")?.toString() !== "added") {
+        throw new Error("NG archive was not rewritten as a readable OPEN archive");
+      }
+      if (!read(ngCopy, "x64/secret.bin")?.equals(secret) || ngCopy.findEntry("x64/secret.bin").encryptionType !== 0 ||
+          !(ngCopy.findEntry("x64/script.ysc") instanceof RpfResourceFileEntry) || !read(ngCopy, "x64/script.ysc")?.equals(script)) {
+        throw new Error("NG encrypted entries were not decrypted when the archive was rewritten");
+      }
+    } finally {
+      fs.rmSync(writeRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Archives created and modified correctly\n");
+
+    // Test 26: Writes are limited to writable directories, back up what they overwrite and can be dry runs
+    console.log("Test 26: Checking the write policy...");
+    const { WritePolicy } = await import('../dist/write-policy.js');
+    const policyRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-policy-'));
+    try {
+      const outputRoot = path.join(policyRoot, "output");
+      const gameRoot = path.join(policyRoot, "game");
+      const backupRoot = path.join(policyRoot, "backups");
+      fs.mkdirSync(gameRoot);
+      fs.writeFileSync(path.join(gameRoot, "update.rpf"), "original");
+
+      const policy = new WritePolicy({ writableRoots: [outputRoot, gameRoot], gameRoot, backupDirectory: backupRoot });
+      const expectRefused = (outputPath, message) => {
+        try {
+          policy.resolve(outputPath);
+        } catch (error) {
+          if (!error.message.includes(message)) throw error;
+          return;
+        }
+        throw new Error(`Write to ${outputPath} was not refused`);
+      };
+      expectRefused(path.join(policyRoot, "elsewhere.txt"), "GTA_V_WRITABLE_ROOTS");
+      expectRefused("../escape.txt", "GTA_V_WRITABLE_ROOTS");
+      expectRefused(path.join(gameRoot, "update.rpf"), "GTA_V_ALLOW_GAME_WRITES");
+      if (policy.resolve("textures/a.png") !== path.join(fs.realpathSync(policyRoot), "output", "textures", "a.png")) {
+        throw new Error("Relative paths should resolve below the output directory");
+      }
+
+      const dryRun = await policy.writeFile("dry/a.txt", "first", true);
+      if (dryRun.action !== "create" || dryRun.size !== 5 || fs.existsSync(outputRoot)) {
+        throw new Error("Dry run should plan the write without touching the file system");
+      }
+
+      await policy.writeFile("nested/a.txt", "first");
+      const overwrite = await policy.writeFile("nested/a.txt", "second!");
+      if (overwrite.action !== "overwrite" || overwrite.previousSize !== 5 || fs.readFileSync(overwrite.backupPath, "utf8") !== "first" ||
+          !overwrite.backupPath.startsWith(backupRoot) || fs.readFileSync(path.join(outputRoot, "nested", "a.txt"), "utf8") !== "second!") {
+        throw new Error(`Unexpected overwrite: ${JSON.stringify(overwrite)}`);
+      }
+
+      // Dangling links are followed to where writing through them would create the file
+      fs.symlinkSync(path.join(policyRoot, "outside", "secret.txt"), path.join(outputRoot, "link.txt"));
+      fs.symlinkSync(path.join(policyRoot, "outside"), path.join(outputRoot, "linkdir"));
+      fs.symlinkSync(path.join(outputRoot, "target.txt"), path.join(outputRoot, "inner.txt"));
+      expectRefused(path.join(outputRoot, "link.txt"), "GTA_V_WRITABLE_ROOTS");
+      expectRefused("linkdir/a.txt", "GTA_V_WRITABLE_ROOTS");
+      if (policy.resolve("inner.txt") !== path.join(fs.realpathSync(outputRoot), "target.txt")) {
+        throw new Error("Dangling links inside the output directory should resolve to their target");
+      }
+
+      const gamePolicy = new WritePolicy({ writableRoots: [outputRoot], gameRoot, allowGameWrites: true, backupDirectory: backupRoot });
+      const gameWrite = await gamePolicy.writeFile(path.join(gameRoot, "update.rpf"), "modified");
+      if (fs.readFileSync(gameWrite.backupPath, "utf8") !== "original" || !WritePolicy.describe(gameWrite).startsWith("overwrite")) {
+        throw new Error("Game writes should be allowed and backed up once enabled");
+      }
+
+      // Defaults live under the home directory, outside the installed package
+      const policyEnvironment = { ...process.env };
+      try {
+        delete process.env.GTA_V_OUTPUT_DIRECTORY;
+        delete process.env.GTA_V_BACKUP_DIRECTORY;
+        process.env.GTA_V_WRITABLE_ROOTS = policyRoot;
+        const defaults = WritePolicy.fromEnvironment(gameRoot);
+        const dataRoot = path.join(os.homedir(), "gtavbrowser-mcp");
+        const defaultBackup = defaults.plan(path.join(outputRoot, "nested", "a.txt"), 1).backupPath;
+        if (defaults.outputDirectory !== path.join(fs.realpathSync(os.homedir()), "gtavbrowser-mcp", "output") || !defaultBackup.startsWith(path.join(dataRoot, "backups"))) {
+          throw new Error(`Unexpected default directories: ${defaults.outputDirectory}, ${defaultBackup}`);
+        }
+      } finally {
+        process.env = policyEnvironment;
+      }
+    } finally {
+      fs.rmSync(policyRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Write policy enforced\n");
+
+    // Test 27: Extract directories and globs of files in one call, into nested archives and with conversions
+    console.log("Test 27: Checking bulk extraction...");
+    const { BulkExtractor } = await import('../dist/extract.js');
+    const bulkRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-bulk-'));
+    try {
+      const gameRoot = path.join(bulkRoot, "game");
+      const outputRoot = path.join(bulkRoot, "output");
+      const gxt2 = Buffer.alloc(22);
+      gxt2.writeUInt32LE(0x47585432, 0);
+      gxt2.writeUInt32LE(1, 4);
+      gxt2.writeUInt32LE(0x12345678, 8);
+      gxt2.writeUInt32LE(16, 12);
+      gxt2.write("Hello\0", 16, "utf8");
+
+      for (const pack of ["packa", "packb"]) {
+        fs.mkdirSync(path.join(gameRoot, "dlcpacks", pack), { recursive: true });
+        fs.writeFileSync(path.join(gameRoot, "dlcpacks", pack, "dlc.rpf"), buildRpf([
+          { path: "x64/stream/shared.ydr", data: Buffer.from(pack) },
+          { path: "x64/stream/props.rpf", data: buildRpf([{ path: "inner/prop.ydr", data: Buffer.from(`${pack} prop`) }]) },
+          { path: "data/lang/american.gxt2", data: gxt2 },
+          { path: "data/lang/broken.gxt2", data: Buffer.from("not a text table") }
+        ]));
+      }
+
+      const bulkManager = new RpfManager(new RpfIndexCache(path.join(bulkRoot, "index.json")));
+      await bulkManager.init(gameRoot);
+      const extractor = new BulkExtractor(bulkManager, new WritePolicy({ writableRoots: [outputRoot], gameRoot, backupDirectory: path.join(bulkRoot, "backups") }));
+      const options = {
+        rpfPath: "dlcpacks/*/dlc.rpf", outputDirectory: "", recurseNested: true, flatten: false, skipExisting: false,
+        conversion: "none", textureFormat: "png", maxFiles: 100, dryRun: false
+      };
+
+      const stream = await extractor.extract({ ...options, directory: "x64/stream" });
+      const nestedProp = path.join(outputRoot, "dlcpacks/packb/dlc.rpf/x64/stream/props.rpf/inner/prop.ydr");
+      if (stream.written !== 4 || stream.archives.length !== 2 || fs.readFileSync(nestedProp, "utf8") !== "packb prop" ||
+          fs.existsSync(path.join(outputRoot, "dlcpacks/packa/dlc.rpf/x64/stream/props.rpf/inner")) === false ||
+          fs.statSync(path.join(outputRoot, "dlcpacks/packa/dlc.rpf/x64/stream/props.rpf")).isFile()) {
+        throw new Error(`Unexpected directory extraction: ${JSON.stringify(stream)}`);
+      }
+
+      const resumed = await extractor.extract({ ...options, directory: "x64/stream", skipExisting: true });
+      if (resumed.written !== 0 || resumed.skipped !== 4) {
+        throw new Error("Existing files should be skipped");
+      }
+
+      const flat = await extractor.extract({ ...options, pattern: "*.ydr", outputDirectory: "flat", flatten: true });
+      if (flat.written !== 2 || flat.skipped !== 2 || fs.readdirSync(path.join(outputRoot, "flat")).sort().join() !== "prop.ydr,shared.ydr") {
+        throw new Error(`Flattened files with the same name should be extracted once: ${JSON.stringify(flat.files)}`);
+      }
+
+      const planned = await extractor.extract({ ...options, rpfPath: "dlcpacks/packa/dlc.rpf", pattern: "data/**/*.gxt2", outputDirectory: "text", conversion: "decoded", dryRun: true });
+      if (planned.written !== 1 || planned.failed !== 1 || !planned.files.some(file => file.outputs[0]?.path.endsWith("american.gxt2.txt")) ||
+          fs.existsSync(path.join(outputRoot, "text"))) {
+        throw new Error(`Unexpected dry run: ${JSON.stringify(planned)}`);
+      }
+      const decoded = await extractor.extract({ ...options, rpfPath: "dlcpacks/packa/dlc.rpf", pattern: "data/**/*.gxt2", outputDirectory: "text", conversion: "decoded" });
+      if (!fs.readFileSync(path.join(outputRoot, "text/dlcpacks/packa/dlc.rpf/data/lang/american.gxt2.txt"), "utf8").endsWith("= Hello") ||
+          !decoded.files.find(file => file.status === "failed")?.note?.includes("Not a GXT2 file")) {
+        throw new Error(`Text tables were not converted: ${JSON.stringify(decoded.files)}`);
+      }
+
+      const limited = await extractor.extract({ ...options, outputDirectory: "limited", maxFiles: 3, dryRun: true });
+      if (limited.files.length !== 3 || limited.truncated !== 5) {
+        throw new Error(`maxFiles was not applied: ${limited.files.length} extracted, ${limited.truncated} left out`);
+      }
+    } finally {
+      fs.rmSync(bulkRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Bulk extraction works\n");
+
+    // Test 28: Read large entries in ranges and chunks, inflating compressed ones incrementally
+    console.log("Test 28: Checking ranged and chunked reads...");
+    const zlib = await import('zlib');
+    const { FileChunkReader } = await import('../dist/entry-reader.js');
+    const chunkRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gtavbrowser-chunks-'));
+    const chunkDecryptNG = GTACrypto.decryptNG;
+    try {
+      const plain = Buffer.alloc(200000);
+      for (let i = 0; i < plain.length; i++) plain[i] = (i * 7 + (i >> 9)) & 0xFF;
+
+      // 512 bytes of system data and 1024 of graphics data
+      const segments = Buffer.alloc(1536);
+      for (let i = 0; i < segments.length; i++) segments[i] = i % 251;
+      const resource = Buffer.concat([Buffer.alloc(16), zlib.deflateRawSync(segments)]);
+      resource.writeUInt32LE(0x37435352, 0);
+      resource.writeUInt32LE(0, 4);
+      resource.writeUInt32LE(0x08000000, 8);
+      resource.writeUInt32LE(0x08000001, 12);
+
+      const writer = new RpfWriter();
+      writer.addFile("stream/plain.bin", plain);
+      writer.addFile("stream/model.ydr", resource);
+      writer.write(path.join(chunkRoot, "plain.rpf"));
+
+      // Compressed: the uncompressed size differs from the stored size
+      const compressed = buildRpf([{ path: "big.dat", data: zlib.deflateSync(plain) }]);
+      compressed.writeUInt32LE(plain.length, 40);
+      fs.writeFileSync(path.join(chunkRoot, "compressed.rpf"), compressed);
+
+      // Encrypted: the stub decrypts by reversing each whole 16-byte block and leaves the tail as stored
+      const blocks = data => {
+        const result = Buffer.from(data);
+        for (let i = 0; i + 16 <= result.length; i += 16) result.subarray(i, i + 16).reverse();
+        return result;
+      };
+      const secret = plain.subarray(0, 1000);
+      const encrypted = buildRpf([{ path: "secret.bin", data: blocks(secret) }], RpfEncryption.NG);
+      encrypted.writeUInt32LE(1, 44);
+      fs.writeFileSync(path.join(chunkRoot, "encrypted.rpf"), encrypted);
+      GTACrypto.decryptNG = (data, name) => name === "secret.bin" ? blocks(data) : data;
+
+      const chunkManager = new RpfManager(new RpfIndexCache(path.join(chunkRoot, "index.json")));
+      await chunkManager.init(chunkRoot);
+
+      const plainRpf = chunkManager.getRpfFile("plain.rpf");
+      const plainEntry = plainRpf.findEntry("stream/plain.bin");
+      if (!plainEntry.readRange(plainRpf, 123457, 999).equals(plain.subarray(123457, 124456)) || plainEntry.readRange(plainRpf, plain.length - 10, 100).length !== 10) {
+        throw new Error("Ranged read of an uncompressed entry returned the wrong bytes");
+      }
+      const model = plainRpf.findEntry("stream/model.ydr");
+      if (!model.readRange(plainRpf, 4, 40).equals(resource.subarray(4, 44))) {
+        throw new Error("Ranged read of a resource should cover its RSC7 header and body");
+      }
+      const secretRpf = chunkManager.getRpfFile("encrypted.rpf");
+      const secretEntry = secretRpf.findEntry("secret.bin");
+      if (!secretEntry.readRange(secretRpf, 5, 30).equals(secret.subarray(5, 35)) || !secretEntry.readRange(secretRpf, 990, 10).equals(secret.subarray(990))) {
+        throw new Error("Ranged read of an encrypted entry is not aligned to its blocks");
+      }
+      const compressedRpf = chunkManager.getRpfFile("compressed.rpf");
+      const compressedEntry = compressedRpf.findEntry("big.dat");
+      if (!compressedEntry.isCompressed || compressedEntry.getContentSize() !== plain.length) {
+        throw new Error("Compressed entry not recognized");
+      }
+
+      const chunks = new FileChunkReader(chunkManager);
+      const parts = [];
+      let chunk = await chunks.read({ rpfPath: "compressed.rpf", filePath: "big.dat", mode: "content", offset: 0, length: 65536 });
+      parts.push(chunk.data);
+      while (chunk.nextToken) {
+        chunk = await chunks.continue(chunk.nextToken, 65536);
+        parts.push(chunk.data);
+      }
+      if (parts.length !== 4 || !Buffer.concat(parts).equals(plain)) {
+        throw new Error(`Chunked read of a compressed entry returned the wrong data in ${parts.length} chunks`);
+      }
+      const middle = await chunks.read({ rpfPath: "compressed.rpf", filePath: "big.dat", mode: "content", offset: 150000, length: 20 });
+      if (!middle.data.equals(plain.subarray(150000, 150020))) {
+        throw new Error("Chunk in the middle of a compressed entry returned the wrong bytes");
+      }
+
+      // Overlapping reads of one entry must not share a reader's position
+      const overlapping = await Promise.all([0, 150000, 70000].map(offset =>
+        chunks.read({ rpfPath: "compressed.rpf", filePath: "big.dat", mode: "content", offset, length: 60000 })));
+      if (overlapping.some(part => !part.data.equals(plain.subarray(part.offset, part.offset + 60000)))) {
+        throw new Error("Overlapping chunk reads of a compressed entry returned the wrong bytes");
+      }
+
+      const graphics = await chunks.read({ rpfPath: "plain.rpf", filePath: "stream/model.ydr", mode: "inflated", offset: 500, length: 100 });
+      if (!graphics.data.equals(segments.subarray(500, 600)) || graphics.size !== 1536 || graphics.segments[1].offset !== 512) {
+        throw new Error("Chunk of inflated resource segments returned the wrong bytes");
+      }
+
+      for (const token of ["not a token", Buffer.from('{"rpfPath":1}').toString("base64url")]) {
+        try {
+          await chunks.continue(token, 10);
+        } catch (error) {
+          if (error.message.includes("Invalid continuation token")) continue;
+          throw error;
+        }
+        throw new Error("Invalid continuation token was accepted");
+      }
+    } finally {
+      GTACrypto.decryptNG = chunkDecryptNG;
+      fs.rmSync(chunkRoot, { recursive: true, force: true });
+    }
+    console.log("✓ Ranged and chunked reads work\n");
+
+    // Test 29: Decode structure templates and annotate hex dumps
+    console.log("Test 29: Checking structure templates and hex dumps...");
+    const { BinaryView, BUILTIN_TEMPLATES } = await import('../dist/binary-view.js');
+
+    const rsc7Header = Buffer.alloc(16);
+    rsc7Header.write("RSC7", 0, "latin1");
+    rsc7Header.writeUInt32LE(165, 4);
+    rsc7Header.writeUInt32LE(0x90000001, 8);
+    if (BinaryView.detect(rsc7Header) !== BUILTIN_TEMPLATES.rsc7) {
+      throw new Error("RSC7 header not detected");
+    }
+    const rsc7Fields = BinaryView.apply(BUILTIN_TEMPLATES.rsc7, rsc7Header).fields;
+    if (rsc7Fields.map(field => `${field.path}=${field.value}`).join(",") !== 'magic="RSC7",version=165,systemFlags=0x90000001,graphicsFlags=0x00000000') {
+      throw new Error(`RSC7 template decoded ${JSON.stringify(rsc7Fields)}`);
+    }
+
+    const archiveHeader = buildRpf([{ path: "a.txt", data: Buffer.from("a") }], RpfEncryption.NG).subarray(0, 16);
+    const rpf7Fields = BinaryView.apply(BinaryView.detect(archiveHeader), archiveHeader).fields;
+    if (rpf7Fields[0].value !== "0x52504637 (RPF7)" || rpf7Fields[1].value !== "2" || rpf7Fields[3].value !== "0x0FEFFFFF (NG)") {
+      throw new Error(`RPF7 template decoded ${JSON.stringify(rpf7Fields)}`);
+    }
+
+    // PSIN of 16 bytes followed by a PMAP with two blocks
+    const pso = Buffer.alloc(16 + 16 + 2 * 16);
+    pso.write("PSIN", 0, "latin1");
+    pso.writeInt32BE(16, 4);
+    pso.write("PMAP", 16, "latin1");
+    pso.writeInt32BE(48, 20);
+    pso.writeInt32BE(1, 24);
+    pso.writeInt16BE(2, 28);
+    pso.writeInt32BE(0x10, 36);
+    pso.writeInt32BE(8, 44);
+    pso.writeInt32BE(0x18, 52);
+    pso.writeInt32BE(4, 60);
+    const psoResult = BinaryView.apply(BinaryView.detect(pso), pso);
+    const psoValues = Object.fromEntries(psoResult.fields.map(field => [field.path, field.value]));
+    if (psoResult.truncated || psoValues["PMAP.blockCount"] !== "2" || psoValues["PMAP.blocks[1].offset"] !== "0x00000018" ||
+        psoResult.fields.find(field => field.path === "PMAP.blocks[1].length").offset !== 60) {
+      throw new Error(`PSO template decoded ${JSON.stringify(psoResult)}`);
+    }
+    if (BinaryView.detect(Buffer.from("nothing")) !== null) {
+      throw new Error("Unknown data matched a template");
+    }
+
+    // Counts and offsets from earlier fields, applied at an offset in the file
+    const table = Buffer.from([3, 0, 0, 0, 0xAA, 0xBB, 0xCC, 0, 0, 0, 0, 0x2A]);
+    const tableTemplate = {
+      name: "table",
+      fields: [
+        { name: "count", type: "u32" },
+        { name: "items", count: "count", fields: [{ name: "value", type: "u8", values: { "0xBB": "middle" } }] },
+        { name: "answer", type: "u8", offset: "count + 8" }
+      ]
+    };
+    const tableFields = BinaryView.apply(tableTemplate, table, 0x100).fields;
+    if (tableFields.length !== 5 || tableFields[2].value !== "187 (middle)" || tableFields[4].value !== "42" || tableFields[4].offset !== 0x10B) {
+      throw new Error(`Custom template decoded ${JSON.stringify(tableFields)}`);
+    }
+    const short = BinaryView.apply(tableTemplate, table.subarray(0, 6));
+    if (!short.truncated || short.fields.length !== 3 || !short.error.includes("beyond the 6 bytes")) {
+      throw new Error(`Template beyond the data returned ${JSON.stringify(short)}`);
+    }
+    if (!BinaryView.apply(tableTemplate, table, 0, 2).truncated) {
+      throw new Error("Field limit was not applied");
+    }
+
+    const dump = BinaryView.hexdump(pso.subarray(0, 20), 0, psoResult.fields).split("\n");
+    if (dump.length !== 2 || !dump[0].startsWith("00000000  50 53 49 4e 00 00 00 10  00 00 00 00 00 00 00 00  |PSIN............|") ||
+        !dump[0].endsWith('PSIN.ident = "PSIN"; PSIN.length = 16') || !dump[1].includes("|PMAP            |") || !dump[1].includes("PMAP.length = 48")) {
+      throw new Error(`Hex dump returned:\n${dump.join("\n")}`);
+    }
+    console.log("✓ Structure templates and hex dumps work\n");
+
     console.log("All basic tests passed!");
     console.log("\nTo use the server, run:");
     console.log("  node dist/index.js \"C:/Path/To/GTA V\"");